@@ -1,8 +1,9 @@
 import { mat4, glMatrix, vec3, vec2 } from "gl-matrix";
 import { v4 } from "uuid";
 
-import { Debug, Vector3 } from "../../utilities/exports";
+import { Debug, Ray, Vector3 } from "../../utilities/exports";
 import { ErrorCodes } from "../../codes";
+import { CreateCameraBindGroupLayout } from "../../renderer/functions/layouts";
 
 export abstract class Camera {
 
@@ -24,6 +25,17 @@ export abstract class Camera {
 
     protected abstract updateProjection(): void;
 
+    /**
+     * Whether the projection mirrors the image, as a Y axis pointing down
+     * does, which makes front-facing triangles appear clockwise on the
+     * screen. The renderer flips the front face of the pipelines to match.
+     */
+    public get mirrored(): boolean {
+
+        // Projections from the right-handed view space into clip space have a negative determinant.
+        return mat4.determinant(this.projection) > 0;
+    }
+
     public SetAspect(aspect: number): void {
 
         this.aspect = Math.max(1e-6, aspect);
@@ -48,6 +60,35 @@ export abstract class Camera {
         return this.updateMatrices();
     }
 
+    /**
+     * Returns the ray from the camera through a point on the screen, given
+     * in normalized device coordinates: -1 to 1 from left to right and from
+     * bottom to top. The ray starts at the near plane.
+     *
+     * @example
+     * ```ts
+     * const x = event.offsetX / canvas.clientWidth * 2 - 1,
+     *     y = 1 - event.offsetY / canvas.clientHeight * 2;
+     *
+     * const ray = camera.ScreenPointToRay(x, y);
+     * ```
+     */
+    public ScreenPointToRay(x: number, y: number, target: Ray = new Ray()): Ray {
+
+        const inverse: mat4 | null = mat4.invert(mat4.create(), this.viewProjection);
+
+        if (!inverse) return target;
+
+        // Depth ranges from 0 at the near plane to 1 at the far plane.
+        const near: vec3 = vec3.transformMat4(vec3.create(), vec3.fromValues(x, y, 0), inverse),
+            far: vec3 = vec3.transformMat4(vec3.create(), vec3.fromValues(x, y, 1), inverse);
+
+        target.origin.Set(near[0], near[1], near[2]);
+        target.direction.Set(far[0] - near[0], far[1] - near[1], far[2] - near[2]).Normalize();
+
+        return target;
+    }
+
     public CreateUniformBuffer(device: GPUDevice): GPUBuffer {
 
         if (this.uniformBuffer) return this.uniformBuffer;
@@ -83,18 +124,7 @@ export abstract class Camera {
      */
     public EnsureBinding(device: GPUDevice) {
 
-        if(!this.bindGroupLayout) this.bindGroupLayout = device.createBindGroupLayout({
-            label: "CameraBindGroupLayout",
-            entries: [
-                {
-                    binding: 0,
-                    visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
-                    buffer: {
-                        type: "uniform"
-                    }
-                }
-            ]
-        });
+        if(!this.bindGroupLayout) this.bindGroupLayout = CreateCameraBindGroupLayout(device);
         
         if(!this.bindGroup) {
 
@@ -0,0 +1,100 @@
+import { mat4 } from "gl-matrix";
+
+import { Camera } from "./Camera";
+
+/**
+ * A camera without perspective: objects keep their size regardless of
+ * their distance to the camera, as in CAD views and isometric games.
+ *
+ * The view volume is a box given by its left, right, top and bottom
+ * planes, relative to the camera, and the near and far planes. The zoom
+ * factor scales the box around its center; a zoom of 2 shows half the
+ * width and height. {@link SetAspect} keeps the height of the box and
+ * adjusts its width, so the box can follow the size of the canvas.
+ *
+ * @example
+ * ```ts
+ * // An isometric view, 20 units high.
+ * const camera = new OrthographicCamera(-10, 10, 10, -10, 0.1, 1000);
+ *
+ * camera.SetAspect(canvas.width / canvas.height);
+ * camera.SetPosition(20, 20, 20);
+ * camera.LookAt(0, 0, 0);
+ * ```
+ */
+export class OrthographicCamera extends Camera {
+
+    constructor(public left: number = -1, public right: number = 1, public top: number = 1, public bottom: number = -1, public near: number = 0.1, public far: number = 1000, public zoom: number = 1) {
+        super();
+
+        this.aspect = Math.max(1e-6, Math.abs(right - left) / Math.max(1e-6, Math.abs(top - bottom)));
+        this.updateMatrices();
+    }
+
+    /**
+     * Sets the aspect ratio, adjusting the left and right planes around
+     * their center so the width of the box is its height times the ratio.
+     */
+    public override SetAspect(aspect: number): void {
+
+        const center: number = (this.left + this.right) / 2,
+            halfWidth: number = (this.top - this.bottom) / 2 * Math.max(1e-6, aspect);
+
+        this.left = center - halfWidth;
+        this.right = center + halfWidth;
+
+        super.SetAspect(aspect);
+    }
+
+    /**
+     * Sets the planes of the view volume, relative to the camera. The
+     * aspect ratio follows the new planes.
+     */
+    public SetBounds(left: number, right: number, top: number, bottom: number): Camera {
+
+        this.left = left;
+        this.right = right;
+        this.top = top;
+        this.bottom = bottom;
+        this.aspect = Math.max(1e-6, Math.abs(right - left) / Math.max(1e-6, Math.abs(top - bottom)));
+
+        return this.updateMatrices();
+    }
+
+    /**
+     * Sets the zoom factor. Values above 1 zoom in, values below 1 zoom out.
+     */
+    public SetZoom(zoom: number): Camera {
+
+        this.zoom = Math.max(1e-6, zoom);
+        return this.updateMatrices();
+    }
+
+    public SetNear(near: number): Camera {
+
+        this.near = near;
+        return this.updateMatrices();
+    }
+
+    public SetFar(far: number): Camera {
+
+        this.far = Math.max(this.near + 1e-3, far);
+        return this.updateMatrices();
+    }
+
+    // Private and protected class members.
+
+    protected override updateProjection(): Camera {
+
+        const zoom: number = Math.max(1e-6, this.zoom),
+            centerX: number = (this.left + this.right) / 2,
+            centerY: number = (this.top + this.bottom) / 2,
+            halfWidth: number = (this.right - this.left) / 2 / zoom,
+            halfHeight: number = (this.top - this.bottom) / 2 / zoom;
+
+        // WebGPU uses a [0, 1] clip space depth range.
+        mat4.orthoZO(this.projection, centerX - halfWidth, centerX + halfWidth, centerY - halfHeight, centerY + halfHeight, this.near, this.far);
+
+        return this;
+    }
+}
\ No newline at end of file
@@ -33,7 +33,8 @@ export class PerspectiveCamera extends Camera {
         
         const verticalFieldOfView: number = glMatrix.toRadian(this.fieldOfViewDegrees);
 
-        mat4.perspective(this.projection, verticalFieldOfView, this.aspect, this.near, this.far);
+        // WebGPU uses a [0, 1] clip space depth range.
+        mat4.perspectiveZO(this.projection, verticalFieldOfView, this.aspect, this.near, this.far);
 
         return this;
     }
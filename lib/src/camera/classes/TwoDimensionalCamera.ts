@@ -1,3 +1,251 @@
+import { mat4, vec3 } from "gl-matrix";
+
+import { Camera } from "./Camera";
+import { Vector2, Vector3, PixelsPerMeter } from "../../utilities/exports";
+import { Bounds2D } from "../../typings";
+
 /**
- * Two dimensional camera.
- */
\ No newline at end of file
+ * A camera for 2D scenes in the XY plane, which is panned, zoomed and
+ * rotated instead of being moved through space.
+ *
+ * World units are meters, as in physics engines: at a zoom of 1, one
+ * unit covers 'pixelsPerUnit' pixels of the viewport, `PixelsPerMeter`
+ * by default. Pass 1 to work in pixels instead, so a shape at (400, 300)
+ * is drawn at that pixel. As on the screen, the Y axis points down, and
+ * shapes with a higher Z position are drawn on top of those below them.
+ *
+ * Pointing the Y axis down mirrors the view, which reverses the winding
+ * of the triangles on the screen; the camera is {@link Camera.mirrored},
+ * so the renderer treats clockwise triangles as front-facing and meshes
+ * are culled as with any other camera.
+ *
+ * The position is the world point at the center of the viewport. When
+ * bounds are set, the position is clamped so the camera never shows
+ * anything outside of them.
+ *
+ * @example
+ * ```ts
+ * const camera = new TwoDimensionalCamera(canvas.width, canvas.height);
+ *
+ * camera.SetBounds(new Vector2(0, 0), new Vector2(130, 100));
+ * camera.SetPosition(player.x, player.y).SetZoom(2);
+ *
+ * canvas.addEventListener("click", (event: MouseEvent) => {
+ *     const point: Vector2 = camera.ScreenToWorld(new Vector2(event.offsetX, event.offsetY));
+ * });
+ * ```
+ */
+export class TwoDimensionalCamera extends Camera {
+
+    public zoom: number = 1;
+
+    /** Rotation of the view in radians. Positive values turn the scene clockwise on the screen. */
+    public rotation: number = 0;
+
+    /** The area the camera is kept within, or `null` when it moves freely. */
+    public bounds: Bounds2D | null = null;
+
+    // Depth range of the view: shapes between these Z positions are drawn.
+    private static readonly DepthRange: number = 1000;
+
+    /**
+     * @param viewportWidth The width of the viewport in pixels.
+     * @param viewportHeight The height of the viewport in pixels.
+     * @param pixelsPerUnit The amount of pixels one world unit covers at a zoom of 1.
+     */
+    constructor(public viewportWidth: number = 800, public viewportHeight: number = 600, public pixelsPerUnit: number = PixelsPerMeter) {
+        super();
+
+        this.aspect = Math.max(1e-6, viewportWidth / Math.max(1e-6, viewportHeight));
+
+        // The world origin starts at the top left corner of the viewport.
+        this.position.Set(viewportWidth / 2 / pixelsPerUnit, viewportHeight / 2 / pixelsPerUnit, TwoDimensionalCamera.DepthRange);
+        this.updateMatrices();
+    }
+
+    /**
+     * Sets the size of the viewport in pixels, usually the size of the
+     * canvas. The world point at the center of the viewport stays there.
+     */
+    public SetViewport(width: number, height: number): TwoDimensionalCamera {
+
+        this.viewportWidth = Math.max(1, width);
+        this.viewportHeight = Math.max(1, height);
+        this.aspect = this.viewportWidth / this.viewportHeight;
+
+        return this.updateMatrices();
+    }
+
+    /**
+     * Sets the aspect ratio, adjusting the width of the viewport and
+     * keeping its height.
+     */
+    public override SetAspect(aspect: number): void {
+
+        this.SetViewport(this.viewportHeight * Math.max(1e-6, aspect), this.viewportHeight);
+    }
+
+    /**
+     * Moves the camera so the given world point is at the center of the
+     * viewport. The Z component of vectors is ignored.
+     */
+    public override SetPosition(x: number | Vector2 | Vector3, y?: number): TwoDimensionalCamera {
+
+        (typeof x === "number")
+            ? this.position.Set(x, y ?? this.position.y, TwoDimensionalCamera.DepthRange)
+            : this.position.Set(x.x, x.y, TwoDimensionalCamera.DepthRange);
+
+        return this.updateMatrices();
+    }
+
+    /**
+     * Moves the camera so the given world point is at the center of the
+     * viewport. Same as {@link SetPosition}, as a 2D camera always looks
+     * straight at the XY plane.
+     */
+    public override LookAt(x: number | Vector2 | Vector3, y?: number): TwoDimensionalCamera {
+        return this.SetPosition(x, y);
+    }
+
+    /**
+     * Moves the camera by the given amount of world units.
+     */
+    public Pan(x: number, y: number): TwoDimensionalCamera {
+        return this.SetPosition(this.position.x + x, this.position.y + y);
+    }
+
+    /**
+     * Sets the zoom factor. Values above 1 zoom in, values below 1 zoom out.
+     */
+    public SetZoom(zoom: number): TwoDimensionalCamera {
+
+        this.zoom = Math.max(1e-6, zoom);
+        return this.updateMatrices();
+    }
+
+    /**
+     * Zooms by the given factor, keeping the world point under the given
+     * screen point in place, as when zooming towards the mouse cursor.
+     * Without a screen point, the camera zooms towards the center.
+     */
+    public ZoomAt(factor: number, screen?: Vector2): TwoDimensionalCamera {
+
+        if (!screen) return this.SetZoom(this.zoom * factor);
+
+        const before: Vector2 = this.ScreenToWorld(screen);
+
+        this.zoom = Math.max(1e-6, this.zoom * factor);
+        this.updateMatrices();
+
+        const after: Vector2 = this.ScreenToWorld(screen);
+
+        return this.Pan(before.x - after.x, before.y - after.y);
+    }
+
+    /**
+     * Sets the rotation in radians around the center of the viewport.
+     */
+    public SetRotation(rotation: number): TwoDimensionalCamera {
+
+        this.rotation = rotation;
+        return this.updateMatrices();
+    }
+
+    /**
+     * Sets the area the camera is kept within, in world units. Pass `null`
+     * to let the camera move freely. When the visible area is larger than
+     * the bounds, the camera is centered on them.
+     */
+    public SetBounds(min: Vector2 | null, max?: Vector2): TwoDimensionalCamera {
+
+        this.bounds = min && max ? {
+            min: new Vector2(Math.min(min.x, max.x), Math.min(min.y, max.y)),
+            max: new Vector2(Math.max(min.x, max.x), Math.max(min.y, max.y))
+        } : null;
+
+        return this.updateMatrices();
+    }
+
+    /**
+     * Converts a point in pixels, relative to the top left corner of the
+     * viewport, to world units.
+     */
+    public ScreenToWorld(screen: Vector2, target: Vector2 = new Vector2()): Vector2 {
+
+        const scale: number = this.getPixelsPerWorldUnit(),
+            x: number = (screen.x - this.viewportWidth / 2) / scale,
+            y: number = (screen.y - this.viewportHeight / 2) / scale,
+            cos: number = Math.cos(this.rotation),
+            sin: number = Math.sin(this.rotation);
+
+        // Undoes the rotation of the view.
+        return target.Set(this.position.x + x * cos + y * sin, this.position.y - x * sin + y * cos);
+    }
+
+    /**
+     * Converts a point in world units to pixels, relative to the top left
+     * corner of the viewport.
+     */
+    public WorldToScreen(world: Vector2, target: Vector2 = new Vector2()): Vector2 {
+
+        const scale: number = this.getPixelsPerWorldUnit(),
+            x: number = world.x - this.position.x,
+            y: number = world.y - this.position.y,
+            cos: number = Math.cos(this.rotation),
+            sin: number = Math.sin(this.rotation);
+
+        return target.Set((x * cos - y * sin) * scale + this.viewportWidth / 2, (x * sin + y * cos) * scale + this.viewportHeight / 2);
+    }
+
+    // Private and protected class members.
+
+    private getPixelsPerWorldUnit(): number {
+        return Math.max(1e-6, this.pixelsPerUnit * this.zoom);
+    }
+
+    // Keeps the visible area, including its rotated corners, within the bounds.
+    private clampPosition(): void {
+
+        if (!this.bounds) return;
+
+        const scale: number = this.getPixelsPerWorldUnit(),
+            halfWidth: number = this.viewportWidth / 2 / scale,
+            halfHeight: number = this.viewportHeight / 2 / scale,
+            cos: number = Math.abs(Math.cos(this.rotation)),
+            sin: number = Math.abs(Math.sin(this.rotation)),
+            extentX: number = halfWidth * cos + halfHeight * sin,
+            extentY: number = halfWidth * sin + halfHeight * cos,
+            { min, max } = this.bounds;
+
+        const x: number = max.x - min.x < extentX * 2 ? (min.x + max.x) / 2 : Math.min(Math.max(this.position.x, min.x + extentX), max.x - extentX),
+            y: number = max.y - min.y < extentY * 2 ? (min.y + max.y) / 2 : Math.min(Math.max(this.position.y, min.y + extentY), max.y - extentY);
+
+        this.position.Set(x, y, TwoDimensionalCamera.DepthRange);
+    }
+
+    protected override updateMatrices() {
+
+        this.clampPosition();
+
+        // Looks down the Z axis from in front of the plane, turned by the rotation.
+        mat4.fromZRotation(this.view, this.rotation);
+        mat4.translate(this.view, this.view, vec3.fromValues(-this.position.x, -this.position.y, -this.position.z));
+
+        this.updateProjection();
+        mat4.multiply(this.viewProjection, this.projection, this.view);
+
+        return this;
+    }
+
+    protected override updateProjection(): TwoDimensionalCamera {
+
+        const scale: number = this.getPixelsPerWorldUnit(),
+            halfWidth: number = this.viewportWidth / 2 / scale,
+            halfHeight: number = this.viewportHeight / 2 / scale;
+
+        // The top and bottom planes are swapped, so the Y axis points down.
+        mat4.orthoZO(this.projection, -halfWidth, halfWidth, halfHeight, -halfHeight, 0, TwoDimensionalCamera.DepthRange * 2);
+
+        return this;
+    }
+}
\ No newline at end of file
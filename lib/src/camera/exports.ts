@@ -1,3 +1,4 @@
 export { Camera } from "./classes/Camera";
 export { PerspectiveCamera } from "./classes/PerspectiveCamera";
-export {} from "./classes/TwoDimensionalCamera";
\ No newline at end of file
+export { OrthographicCamera } from "./classes/OrthographicCamera";
+export { TwoDimensionalCamera } from "./classes/TwoDimensionalCamera";
\ No newline at end of file
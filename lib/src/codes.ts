@@ -2,6 +2,10 @@ export enum WarningCodes {
     THREAD_ALREADY_ACTIVE = "#FLUENTGL_WARNING_0001",
     THREAD_ALREADY_INACTIVE = "#FLUENTGL_WARNING_0001",
     WGPUR_HIGH_DPR_VALUE = "#FLUENTGL_WARNING_0003",
+    SAMPLER_ANISOTROPY_REQUIRES_LINEAR_FILTERING = "#FLUENTGL_WARNING_0004",
+    GLTF_UNSUPPORTED_FEATURE = "#FLUENTGL_WARNING_0005",
+    OBJ_MISSING_MATERIAL = "#FLUENTGL_WARNING_0006",
+    OBJ_UNSUPPORTED_FEATURE = "#FLUENTGL_WARNING_0007",
 }
 
 export enum ErrorCodes {
@@ -21,5 +25,20 @@ export enum ErrorCodes {
     CAM_UNIFORM_BUFFER_UNDEFINED = "#FLUENTGL_ERROR_14",
     WGPUR_SCENE_NOT_PREPARED = "#FLUENTGL_ERROR_15",
     WGPUR_DEPTH_TEXTURE_VALIDATION_ERROR = "#FLUENTGL_ERROR_16",
-    WGPUR_MSAA_TEXTURE_VALIDATION_ERROR = "#FLUENTGL_ERROR_17"
+    WGPUR_MSAA_TEXTURE_VALIDATION_ERROR = "#FLUENTGL_ERROR_17",
+    RENDERABLE_UNIFORM_BUFFER_UNDEFINED = "#FLUENTGL_ERROR_18",
+    MESH_MISSING_VERTEX_ATTRIBUTE = "#FLUENTGL_ERROR_19",
+    WGPUR_PIPELINE_VALIDATION_ERROR = "#FLUENTGL_ERROR_20",
+    GEOMETRY_ATTRIBUTE_LOCATION_UNDEFINED = "#FLUENTGL_ERROR_21",
+    TEXTURE_LOAD_ERROR = "#FLUENTGL_ERROR_22",
+    TEXTURE_INVALID_SOURCE = "#FLUENTGL_ERROR_23",
+    GLTF_LOAD_ERROR = "#FLUENTGL_ERROR_24",
+    OBJ_LOAD_ERROR = "#FLUENTGL_ERROR_25",
+    INSTANCED_MESH_INDEX_OUT_OF_RANGE = "#FLUENTGL_ERROR_26",
+    EFFECT_COMPOSER_RENDERER_NOT_INITIALIZED = "#FLUENTGL_ERROR_27",
+    GPU_PICKER_RENDERER_NOT_INITIALIZED = "#FLUENTGL_ERROR_28",
+    CANVAS2D_RENDERER_CONTEXT_UNDEFINED = "#FLUENTGL_ERROR_29",
+    CANVAS2D_RENDERER_NOT_INITIALIZED = "#FLUENTGL_ERROR_30",
+    WGPURSCENE_RENDERABLE_INITIALIZATION_FAILED = "#FLUENTGL_ERROR_31",
+    GPU_PICKER_PICK_FAILED = "#FLUENTGL_ERROR_32"
 }
\ No newline at end of file
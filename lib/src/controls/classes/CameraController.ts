@@ -0,0 +1,90 @@
+import { v4 } from "uuid";
+
+import { Camera } from "../../camera/classes/Camera";
+import { Thread } from "../../others/classes/Thread";
+import { ThreadOnLoopEvent } from "../../typings";
+
+/**
+ * Base class of the camera controllers, which move a {@link Camera} in
+ * response to mouse, touch and keyboard input on an element, usually the
+ * canvas of the renderer.
+ *
+ * Input only records what the user did; the camera is moved in
+ * {@link Update}, once per frame, so movement depends on the time passed
+ * instead of the rate of input events. Attach the controller to a
+ * {@link Thread} to have it updated on every tick, or call
+ * {@link Update} from your own loop.
+ *
+ * Controllers register their DOM listeners when created and remove all of
+ * them in {@link Dispose}.
+ */
+export abstract class CameraController {
+
+    public id: string = v4();
+
+    /** Whether the controller responds to input and moves the camera. */
+    public enabled: boolean = true;
+
+    // DOM listeners registered through 'listen', removed on dispose.
+    private listeners: [EventTarget, string, EventListener, AddEventListenerOptions | undefined][] = [];
+
+    // Removes the update listener of the attached thread.
+    private detachThread: (() => void) | null = null;
+
+    constructor(public camera: Camera, public element: HTMLElement) {}
+
+    /**
+     * Moves the camera by the input recorded since the last update.
+     *
+     * @param deltaTime The time passed since the last update, in seconds.
+     */
+    public abstract Update(deltaTime: number): void;
+
+    /**
+     * Updates the controller on every tick of the thread, replacing the
+     * thread it was attached to before.
+     */
+    public Attach(thread: Thread): CameraController {
+
+        this.Detach();
+
+        this.detachThread = thread.AddEventListener("update", (event: ThreadOnLoopEvent) => {
+
+            // The delta time of a thread is counted in simulation steps.
+            this.Update(event.deltaTime / event.simulationUpdateRate);
+        });
+
+        return this;
+    }
+
+    /** Stops updating the controller with the attached thread. */
+    public Detach(): CameraController {
+
+        this.detachThread && this.detachThread();
+        this.detachThread = null;
+
+        return this;
+    }
+
+    /**
+     * Removes the DOM listeners of the controller and detaches it from its
+     * thread. The controller does not respond to input afterwards.
+     */
+    public Dispose(): void {
+
+        this.Detach();
+
+        for (const [target, type, listener, options] of this.listeners) target.removeEventListener(type, listener, options);
+
+        this.listeners.length = 0;
+    }
+
+    // Private and protected class members.
+
+    protected listen<E extends Event>(target: EventTarget, type: string, listener: (event: E) => void, options?: AddEventListenerOptions): void {
+
+        target.addEventListener(type, listener as EventListener, options);
+
+        this.listeners.push([target, type, listener as EventListener, options]);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { FlyController } from "./FlyController";
+import { Camera } from "../../camera/classes/Camera";
+import { Vector3 } from "../../utilities/exports";
+
+/**
+ * Walks the camera through the scene like in a first-person game. W, A,
+ * S and D (or the arrow keys) move it along the ground, keeping its
+ * height, and holding shift makes it run.
+ *
+ * Clicking the element locks the pointer to it, after which moving the
+ * mouse turns the camera. Pressing escape releases the pointer again, as
+ * the browser does for every pointer lock.
+ *
+ * @example
+ * ```ts
+ * const controller = new FirstPersonController(camera, renderer.canvas);
+ *
+ * camera.SetPosition(0, 1.7, 5);
+ * controller.Sync().Attach(thread);
+ * ```
+ */
+export class FirstPersonController extends FlyController {
+
+    constructor(camera: Camera, element: HTMLElement) {
+        super(camera, element);
+
+        this.speed = 3;
+        this.boostMultiplier = 2;
+    }
+
+    /** Whether the pointer is locked to the element, so the mouse turns the camera. */
+    public get isLocked(): boolean {
+        return document.pointerLockElement === this.element;
+    }
+
+    /** Locks the pointer to the element. Browsers only allow it in response to input. */
+    public Lock(): void {
+        this.enabled && !this.isLocked && this.element.requestPointerLock();
+    }
+
+    /** Releases the pointer if it is locked to the element. */
+    public Unlock(): void {
+        this.isLocked && document.exitPointerLock();
+    }
+
+    public override Dispose(): void {
+
+        this.Unlock();
+        super.Dispose();
+    }
+
+    // Private and protected class members.
+
+    protected override listenForLook(): void {
+
+        this.listen(this.element, "click", () => this.Lock());
+        this.listen(document, "mousemove", (event: MouseEvent) => this.isLocked && this.look(event.movementX, event.movementY));
+    }
+
+    // Moves along the ground plane, regardless of the pitch.
+    protected override getMovement(): Vector3 {
+
+        const forward: Vector3 = new Vector3(-Math.sin(this.yaw), 0, -Math.cos(this.yaw)),
+            right: Vector3 = new Vector3(Math.cos(this.yaw), 0, -Math.sin(this.yaw)),
+            move: Vector3 = new Vector3(0, 0, 0);
+
+        this.isHeld("KeyW", "ArrowUp") && move.Add(forward);
+        this.isHeld("KeyS", "ArrowDown") && move.Subtract(forward);
+        this.isHeld("KeyD", "ArrowRight") && move.Add(right);
+        this.isHeld("KeyA", "ArrowLeft") && move.Subtract(right);
+
+        return move;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { CameraController } from "./CameraController";
+import { Camera } from "../../camera/classes/Camera";
+import { HalfPI, Vector3 } from "../../utilities/exports";
+
+/**
+ * Flies the camera freely through the scene. W, A, S and D (or the arrow
+ * keys) move it forwards, left, backwards and right in the direction it
+ * looks, E and Q move it up and down, and holding shift moves it faster.
+ * Dragging with the mouse turns the camera.
+ *
+ * Keys are read from the window, so the camera can be moved without
+ * focusing the element first. The Y axis is up.
+ *
+ * @example
+ * ```ts
+ * const controller = new FlyController(camera, renderer.canvas);
+ *
+ * controller.speed = 10;
+ * controller.Attach(thread);
+ * ```
+ */
+export class FlyController extends CameraController {
+
+    /** Movement speed in world units per second. */
+    public speed: number = 5;
+
+    /** The factor the speed is multiplied by while shift is held. */
+    public boostMultiplier: number = 3;
+
+    /** Rotation in radians per pixel the mouse moves. */
+    public lookSpeed: number = 0.003;
+
+    /** Rotation around the up axis in radians. At 0, the camera looks along -Z. */
+    public yaw: number = 0;
+
+    /** Rotation above or below the horizon in radians. */
+    public pitch: number = 0;
+
+    // Codes of the keys currently held down.
+    protected keys: Set<string> = new Set();
+
+    // Whether the mouse is dragged over the element.
+    private isDragging: boolean = false;
+
+    constructor(camera: Camera, element: HTMLElement) {
+        super(camera, element);
+
+        this.Sync();
+
+        this.listen(window, "keydown", (event: KeyboardEvent) => this.keys.add(event.code));
+        this.listen(window, "keyup", (event: KeyboardEvent) => this.keys.delete(event.code));
+
+        // Keys released while the window is not focused would otherwise stay held.
+        this.listen(window, "blur", () => this.keys.clear());
+
+        this.listenForLook();
+    }
+
+    /**
+     * Reads the direction the camera looks in. Call it after turning the
+     * camera directly.
+     */
+    public Sync(): FlyController {
+
+        const forward: Vector3 = this.camera.target.Clone().Subtract(this.camera.position).Normalize();
+
+        this.yaw = Math.atan2(-forward.x, -forward.z);
+        this.pitch = Math.asin(Math.min(1, Math.max(-1, forward.y)));
+
+        return this;
+    }
+
+    public Update(deltaTime: number): void {
+
+        if (!this.enabled) return;
+
+        const move: Vector3 = this.getMovement(),
+            position: Vector3 = this.camera.position.Clone();
+
+        if (move.Length() > 0) {
+
+            const speed: number = this.speed * (this.isHeld("ShiftLeft", "ShiftRight") ? this.boostMultiplier : 1);
+
+            position.Add(move.Normalize().MultiplyScalar(speed * deltaTime));
+        }
+
+        const forward: Vector3 = this.getForward();
+
+        this.camera.LookAt(position.x + forward.x, position.y + forward.y, position.z + forward.z);
+        this.camera.SetPosition(position.x, position.y, position.z);
+    }
+
+    public override Dispose(): void {
+
+        super.Dispose();
+        this.keys.clear();
+    }
+
+    // Private and protected class members.
+
+    // Turns the camera while the mouse is dragged over the element.
+    protected listenForLook(): void {
+
+        this.listen(this.element, "pointerdown", (event: PointerEvent) => {
+
+            if (!this.enabled || event.button !== 0) return;
+
+            this.isDragging = true;
+            this.element.setPointerCapture(event.pointerId);
+        });
+
+        this.listen(this.element, "pointermove", (event: PointerEvent) => this.isDragging && this.look(event.movementX, event.movementY));
+
+        const stop = (event: PointerEvent): void => {
+
+            this.isDragging = false;
+            this.element.hasPointerCapture(event.pointerId) && this.element.releasePointerCapture(event.pointerId);
+        };
+
+        this.listen(this.element, "pointerup", stop);
+        this.listen(this.element, "pointercancel", stop);
+    }
+
+    protected look(deltaX: number, deltaY: number): void {
+
+        if (!this.enabled) return;
+
+        // Stops short of straight up and down, where the view would flip.
+        const limit: number = HalfPI - 0.01;
+
+        this.yaw -= deltaX * this.lookSpeed;
+        this.pitch = Math.min(limit, Math.max(-limit, this.pitch - deltaY * this.lookSpeed));
+    }
+
+    protected isHeld(...codes: string[]): boolean {
+        return codes.some((code: string) => this.keys.has(code));
+    }
+
+    // The direction of the held keys in world space, not normalized.
+    protected getMovement(): Vector3 {
+
+        const forward: Vector3 = this.getForward(),
+            right: Vector3 = new Vector3(Math.cos(this.yaw), 0, -Math.sin(this.yaw)),
+            move: Vector3 = new Vector3(0, 0, 0);
+
+        this.isHeld("KeyW", "ArrowUp") && move.Add(forward);
+        this.isHeld("KeyS", "ArrowDown") && move.Subtract(forward);
+        this.isHeld("KeyD", "ArrowRight") && move.Add(right);
+        this.isHeld("KeyA", "ArrowLeft") && move.Subtract(right);
+        this.isHeld("KeyE") && move.Add(this.camera.up);
+        this.isHeld("KeyQ") && move.Subtract(this.camera.up);
+
+        return move;
+    }
+
+    protected getForward(): Vector3 {
+
+        const cosPitch: number = Math.cos(this.pitch);
+
+        return new Vector3(-Math.sin(this.yaw) * cosPitch, Math.sin(this.pitch), -Math.cos(this.yaw) * cosPitch);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,218 @@
+import { CameraController } from "./CameraController";
+import { Camera } from "../../camera/classes/Camera";
+import { PerspectiveCamera } from "../../camera/classes/PerspectiveCamera";
+import { OrthographicCamera } from "../../camera/classes/OrthographicCamera";
+import { DegreesToRadians, TwoPI, Vector3 } from "../../utilities/exports";
+
+/**
+ * Orbits the camera around a target point. Dragging with the left mouse
+ * button or one finger rotates around the target, dragging with the
+ * right or middle button, or with shift held, pans the target, and the
+ * mouse wheel moves the camera closer or further away.
+ *
+ * With damping enabled, the camera keeps moving for a moment after the
+ * input stops and slows down smoothly. The Y axis is up.
+ *
+ * @example
+ * ```ts
+ * const controller = new OrbitController(camera, renderer.canvas);
+ *
+ * controller.SetTarget(0, 1, 0);
+ * controller.minDistance = 2;
+ * controller.maxDistance = 50;
+ * controller.Attach(thread);
+ * ```
+ */
+export class OrbitController extends CameraController {
+
+    /** The point the camera orbits around and looks at. */
+    public target: Vector3 = new Vector3(0, 0, 0);
+
+    public enableRotate: boolean = true;
+    public enableZoom: boolean = true;
+    public enablePan: boolean = true;
+
+    public rotateSpeed: number = 1;
+    public zoomSpeed: number = 1;
+    public panSpeed: number = 1;
+
+    /** Whether the camera slows down gradually after the input stops. */
+    public enableDamping: boolean = true;
+
+    /** The part of the remaining movement applied per frame at 60 frames per second. */
+    public dampingFactor: number = 0.1;
+
+    public minDistance: number = 0.01;
+    public maxDistance: number = Infinity;
+
+    /** Limits of the angle from the up axis, in radians. */
+    public minPolarAngle: number = 0.01;
+    public maxPolarAngle: number = Math.PI - 0.01;
+
+    // Spherical coordinates of the camera relative to the target.
+    private azimuth: number = 0;
+    private polar: number = Math.PI / 2;
+    private distance: number = 1;
+
+    // Movement recorded from input and not yet applied to the camera.
+    private pendingAzimuth: number = 0;
+    private pendingPolar: number = 0;
+    private pendingZoom: number = 0;
+    private pendingPan: Vector3 = new Vector3(0, 0, 0);
+
+    // The pointers on the element, by pointer id, with their last position.
+    private pointers: Map<number, [number, number]> = new Map();
+    private isPanning: boolean = false;
+
+    constructor(camera: Camera, element: HTMLElement) {
+        super(camera, element);
+
+        this.target.Set(camera.target.x, camera.target.y, camera.target.z);
+        this.Sync();
+
+        this.listen(element, "pointerdown", this.onPointerDown);
+        this.listen(element, "pointermove", this.onPointerMove);
+        this.listen(element, "pointerup", this.onPointerUp);
+        this.listen(element, "pointercancel", this.onPointerUp);
+        this.listen(element, "wheel", this.onWheel, { passive: false });
+        this.listen(element, "contextmenu", (event: Event) => event.preventDefault());
+    }
+
+    /** Sets the point the camera orbits around, keeping the camera in place. */
+    public SetTarget(x: number | Vector3, y?: number, z?: number): OrbitController {
+
+        (x instanceof Vector3)
+            ? this.target.Set(x.x, x.y, x.z)
+            : this.target.Set(x, y ?? this.target.y, z ?? this.target.z);
+
+        return this.Sync();
+    }
+
+    /**
+     * Reads the position of the camera relative to the target, discarding
+     * any remaining movement. Call it after moving the camera directly.
+     */
+    public Sync(): OrbitController {
+
+        const offset: Vector3 = this.camera.position.Clone().Subtract(this.target);
+
+        this.distance = Math.max(1e-6, offset.Length());
+        this.azimuth = Math.atan2(offset.x, offset.z);
+        this.polar = Math.acos(Math.min(1, Math.max(-1, offset.y / this.distance)));
+
+        this.pendingAzimuth = 0;
+        this.pendingPolar = 0;
+        this.pendingZoom = 0;
+        this.pendingPan.Set(0, 0, 0);
+
+        return this;
+    }
+
+    public Update(deltaTime: number): void {
+
+        if (!this.enabled) return;
+
+        // The part of the pending movement applied in this frame, independent of the frame rate.
+        const amount: number = this.enableDamping ? 1 - Math.pow(1 - Math.min(1, Math.max(0, this.dampingFactor)), deltaTime * 60) : 1;
+
+        this.azimuth += this.pendingAzimuth * amount;
+        this.polar = Math.min(this.maxPolarAngle, Math.max(this.minPolarAngle, this.polar + this.pendingPolar * amount));
+        this.distance = Math.min(this.maxDistance, Math.max(this.minDistance, this.distance * Math.exp(this.pendingZoom * amount)));
+        this.target.Add(this.pendingPan.Clone().MultiplyScalar(amount));
+
+        this.pendingAzimuth *= 1 - amount;
+        this.pendingPolar *= 1 - amount;
+        this.pendingZoom *= 1 - amount;
+        this.pendingPan.MultiplyScalar(1 - amount);
+
+        const sinPolar: number = Math.sin(this.polar);
+
+        this.camera.LookAt(this.target.x, this.target.y, this.target.z);
+        this.camera.SetPosition(
+            this.target.x + this.distance * sinPolar * Math.sin(this.azimuth),
+            this.target.y + this.distance * Math.cos(this.polar),
+            this.target.z + this.distance * sinPolar * Math.cos(this.azimuth)
+        );
+    }
+
+    public override Dispose(): void {
+
+        super.Dispose();
+        this.pointers.clear();
+    }
+
+    // Private and protected class members.
+
+    private onPointerDown = (event: PointerEvent): void => {
+
+        if (!this.enabled) return;
+
+        this.element.setPointerCapture(event.pointerId);
+        this.pointers.set(event.pointerId, [event.clientX, event.clientY]);
+
+        this.isPanning = event.button === 1 || event.button === 2 || event.shiftKey || this.pointers.size > 1;
+    };
+
+    private onPointerMove = (event: PointerEvent): void => {
+
+        const last: [number, number] | undefined = this.pointers.get(event.pointerId);
+
+        if (!this.enabled || !last) return;
+
+        // With several fingers down, each of them pans by its share of the movement.
+        const deltaX: number = (event.clientX - last[0]) / this.pointers.size,
+            deltaY: number = (event.clientY - last[1]) / this.pointers.size,
+            height: number = Math.max(1, this.element.clientHeight);
+
+        this.pointers.set(event.pointerId, [event.clientX, event.clientY]);
+
+        if (this.isPanning) return this.enablePan ? this.pan(deltaX, deltaY) : undefined;
+
+        if (!this.enableRotate) return;
+
+        // Dragging across the height of the element turns the camera around once.
+        this.pendingAzimuth -= TwoPI * deltaX / height * this.rotateSpeed;
+        this.pendingPolar -= TwoPI * deltaY / height * this.rotateSpeed;
+    };
+
+    private onPointerUp = (event: PointerEvent): void => {
+
+        this.pointers.delete(event.pointerId);
+        this.element.hasPointerCapture(event.pointerId) && this.element.releasePointerCapture(event.pointerId);
+
+        this.isPanning = this.pointers.size > 1;
+    };
+
+    private onWheel = (event: WheelEvent): void => {
+
+        if (!this.enabled || !this.enableZoom) return;
+
+        event.preventDefault();
+
+        // Lines and pages are scrolled in larger steps than pixels.
+        const pixels: number = event.deltaY * (event.deltaMode === 1 ? 16 : event.deltaMode === 2 ? this.element.clientHeight : 1);
+
+        this.pendingZoom += pixels * 0.001 * this.zoomSpeed;
+    };
+
+    // Moves the target in the plane of the view, so the point under the pointer follows it.
+    private pan(deltaX: number, deltaY: number): void {
+
+        const camera: Camera = this.camera,
+            forward: Vector3 = this.target.Clone().Subtract(camera.position).Normalize(),
+            right: Vector3 = forward.Cross(camera.up).Normalize(),
+            up: Vector3 = right.Cross(forward).Normalize();
+
+        // The height of the view at the distance of the target, in world units.
+        let viewHeight: number = this.distance;
+
+        if (camera instanceof PerspectiveCamera) viewHeight = 2 * this.distance * Math.tan(camera.fieldOfViewDegrees * DegreesToRadians / 2);
+        else if (camera instanceof OrthographicCamera) viewHeight = Math.abs(camera.top - camera.bottom) / camera.zoom;
+
+        const scale: number = viewHeight / Math.max(1, this.element.clientHeight) * this.panSpeed;
+
+        this.pendingPan
+            .Add(right.MultiplyScalar(-deltaX * scale))
+            .Add(up.MultiplyScalar(deltaY * scale));
+    }
+}
\ No newline at end of file
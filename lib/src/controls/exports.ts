@@ -0,0 +1,4 @@
+export { CameraController } from "./classes/CameraController";
+export { OrbitController } from "./classes/OrbitController";
+export { FlyController } from "./classes/FlyController";
+export { FirstPersonController } from "./classes/FirstPersonController";
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { Ellipse } from "./Ellipse";
+import { Color } from "../../../utilities/exports";
+
+/**
+ * A filled circle, centered on its position.
+ */
+export class Circle extends Ellipse {
+
+    constructor(radius: number = 0.5, segments: number = 32, color?: Color) {
+        super(radius, radius, segments, color);
+    }
+
+    public get radius(): number {
+        return this.radiusX;
+    }
+
+    public set radius(radius: number) {
+
+        this.radiusX = radius;
+        this.radiusY = radius;
+    }
+
+    public SetRadius(radius: number): Circle {
+
+        this.radius = radius;
+        return this;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Shape2D } from "./Shape2D";
+import { Color, TwoPI } from "../../../utilities/exports";
+
+/**
+ * A filled ellipse, centered on its position.
+ */
+export class Ellipse extends Shape2D {
+
+    /**
+     * @param segments The amount of segments along the outline.
+     */
+    constructor(public radiusX: number = 0.5, public radiusY: number = radiusX, public segments: number = 32, color?: Color) {
+        super(color);
+
+        this.UpdateGeometry();
+    }
+
+    public SetRadii(radiusX: number, radiusY: number = radiusX): Ellipse {
+
+        this.radiusX = radiusX;
+        this.radiusY = radiusY;
+
+        return this;
+    }
+
+    protected override getShapeParameters(): number[] {
+        return [this.radiusX, this.radiusY, this.segments];
+    }
+
+    protected override createOutline(): number[] {
+
+        const segments: number = Math.max(3, Math.floor(this.segments)),
+            outline: number[] = [];
+
+        for (let i = 0; i < segments; i++) {
+
+            const angle: number = i / segments * TwoPI;
+
+            outline.push(Math.cos(angle) * this.radiusX, Math.sin(angle) * this.radiusY);
+        }
+
+        return outline;
+    }
+}
\ No newline at end of file
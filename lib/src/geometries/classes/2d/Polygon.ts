@@ -0,0 +1,63 @@
+import { Shape2D } from "./Shape2D";
+import { Color, Vector2 } from "../../../utilities/exports";
+
+/**
+ * A filled convex polygon with arbitrary vertices, relative to its
+ * position. The vertices may be given in either winding order.
+ *
+ * @example
+ * ```ts
+ * const polygon = new Polygon([
+ *     new Vector2(0, 0),
+ *     new Vector2(100, 0),
+ *     new Vector2(120, 80),
+ *     new Vector2(20, 100)
+ * ], new Color(0, 0.8, 0.4));
+ * ```
+ */
+export class Polygon extends Shape2D {
+
+    constructor(public points: Vector2[] = [], color?: Color) {
+        super(color);
+
+        this.UpdateGeometry();
+    }
+
+    public SetPoints(points: Vector2[]): Polygon {
+
+        this.points = points;
+        return this;
+    }
+
+    protected override getShapeParameters(): number[] {
+
+        const parameters: number[] = [];
+
+        for (const point of this.points) parameters.push(point.x, point.y);
+
+        return parameters;
+    }
+
+    protected override createOutline(): number[] {
+
+        const points: Vector2[] = this.points;
+
+        // Twice the signed area, negative for clockwise outlines.
+        let area: number = 0;
+
+        for (let i = 0; i < points.length; i++) {
+
+            const current: Vector2 = points[i],
+                next: Vector2 = points[(i + 1) % points.length];
+
+            area += current.x * next.y - next.x * current.y;
+        }
+
+        const ordered: Vector2[] = area < 0 ? points.slice().reverse() : points,
+            outline: number[] = [];
+
+        for (const point of ordered) outline.push(point.x, point.y);
+
+        return outline;
+    }
+}
\ No newline at end of file
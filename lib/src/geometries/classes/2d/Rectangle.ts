@@ -0,0 +1,34 @@
+import { Shape2D } from "./Shape2D";
+import { Color } from "../../../utilities/exports";
+
+/**
+ * A filled rectangle, centered on its position.
+ */
+export class Rectangle extends Shape2D {
+
+    constructor(public width: number = 1, public height: number = 1, color?: Color) {
+        super(color);
+
+        this.UpdateGeometry();
+    }
+
+    public SetSize(width: number, height: number): Rectangle {
+
+        this.width = width;
+        this.height = height;
+
+        return this;
+    }
+
+    protected override getShapeParameters(): number[] {
+        return [this.width, this.height];
+    }
+
+    protected override createOutline(): number[] {
+
+        const x: number = this.width / 2,
+            y: number = this.height / 2;
+
+        return [-x, -y, x, -y, x, y, -x, y];
+    }
+}
\ No newline at end of file
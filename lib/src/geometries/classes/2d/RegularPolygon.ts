@@ -0,0 +1,38 @@
+import { Shape2D } from "./Shape2D";
+import { Color, HalfPI, TwoPI } from "../../../utilities/exports";
+
+/**
+ * A filled polygon with equal sides, such as a hexagon, centered on its
+ * position. The first vertex points up.
+ */
+export class RegularPolygon extends Shape2D {
+
+    /**
+     * @param radius Distance from the center to each vertex.
+     * @param sides The amount of sides, at least 3.
+     */
+    constructor(public radius: number = 0.5, public sides: number = 6, color?: Color) {
+        super(color);
+
+        this.UpdateGeometry();
+    }
+
+    protected override getShapeParameters(): number[] {
+        return [this.radius, this.sides];
+    }
+
+    protected override createOutline(): number[] {
+
+        const sides: number = Math.max(3, Math.floor(this.sides)),
+            outline: number[] = [];
+
+        for (let i = 0; i < sides; i++) {
+
+            const angle: number = HalfPI + i / sides * TwoPI;
+
+            outline.push(Math.cos(angle) * this.radius, Math.sin(angle) * this.radius);
+        }
+
+        return outline;
+    }
+}
\ No newline at end of file
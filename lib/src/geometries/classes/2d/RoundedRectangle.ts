@@ -0,0 +1,74 @@
+import { Shape2D } from "./Shape2D";
+import { Color, HalfPI } from "../../../utilities/exports";
+
+/**
+ * A filled rectangle with rounded corners, centered on its position.
+ * The corner radius is clamped to half of the shortest side.
+ */
+export class RoundedRectangle extends Shape2D {
+
+    /**
+     * @param cornerSegments The amount of segments per corner arc.
+     */
+    constructor(public width: number = 1, public height: number = 1, public radius: number = 0.1, public cornerSegments: number = 8, color?: Color) {
+        super(color);
+
+        this.UpdateGeometry();
+    }
+
+    public SetSize(width: number, height: number): RoundedRectangle {
+
+        this.width = width;
+        this.height = height;
+
+        return this;
+    }
+
+    public SetRadius(radius: number): RoundedRectangle {
+
+        this.radius = radius;
+        return this;
+    }
+
+    protected override getShapeParameters(): number[] {
+        return [this.width, this.height, this.radius, this.cornerSegments];
+    }
+
+    protected override createOutline(): number[] {
+
+        const halfWidth: number = this.width / 2,
+            halfHeight: number = this.height / 2,
+            radius: number = Math.max(0, Math.min(this.radius, halfWidth, halfHeight)),
+            segments: number = Math.max(1, Math.floor(this.cornerSegments)),
+            outline: number[] = [];
+
+        // Corner centers in counter-clockwise order, starting at the bottom right.
+        const corners: number[][] = [
+            [halfWidth - radius, -halfHeight + radius],
+            [halfWidth - radius, halfHeight - radius],
+            [-halfWidth + radius, halfHeight - radius],
+            [-halfWidth + radius, -halfHeight + radius]
+        ];
+
+        for (let corner = 0; corner < 4; corner++) {
+
+            const [centerX, centerY] = corners[corner];
+
+            // Sharp corners only need a single vertex.
+            if (radius === 0) {
+
+                outline.push(centerX, centerY);
+                continue;
+            }
+
+            for (let i = 0; i <= segments; i++) {
+
+                const angle: number = (corner - 1) * HalfPI + i / segments * HalfPI;
+
+                outline.push(centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius);
+            }
+        }
+
+        return outline;
+    }
+}
\ No newline at end of file
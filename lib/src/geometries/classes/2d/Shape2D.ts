@@ -0,0 +1,202 @@
+import { mat4 } from "gl-matrix";
+
+import { Mesh, Renderable } from "../../../renderer/exports";
+import { BasicColorMaterial } from "../../../materials/exports";
+import { Color } from "../../../utilities/exports";
+import { BufferAttribute } from "../BufferAttribute";
+import { BufferGeometry } from "../BufferGeometry";
+
+/**
+ * Base class of the filled 2D shapes.
+ *
+ * A shape is a flat mesh in the XY plane, drawn with a single fill color.
+ * Subclasses describe their outline as a convex polygon and call
+ * {@link UpdateGeometry} at the end of their constructor. The outline is
+ * triangulated as a fan and regenerated whenever the shape parameters
+ * change, so the public properties of a shape can be mutated directly.
+ *
+ * Shapes are drawn double sided and pass the depth test on equal depth,
+ * so shapes at the same depth are drawn in the order they were added to
+ * the scene. Use the Z position to layer them explicitly.
+ *
+ * @example
+ * ```ts
+ * const rectangle = new Rectangle(200, 100, new Color(0.2, 0.4, 1));
+ *
+ * rectangle.SetPosition(400, 300).SetRotation(Math.PI / 4);
+ * rectangle.width = 250;
+ * ```
+ */
+export abstract class Shape2D extends Mesh {
+
+    private fillMaterial: BasicColorMaterial;
+
+    // Shape parameters the current geometry was generated from.
+    private generatedParameters: number[] | null = null;
+
+    constructor(color: Color = new Color(1, 1, 1, 1)) {
+
+        const material = new BasicColorMaterial(color);
+
+        material.cullMode = "none";
+        material.depthCompare = "less-equal";
+
+        super(new BufferGeometry(), material);
+
+        this.fillMaterial = material;
+    }
+
+    /**
+     * Returns the outline of the shape as X, Y pairs in counter-clockwise
+     * order. The outline must be convex.
+     */
+    protected abstract createOutline(): number[];
+
+    /**
+     * Returns the parameters which determine the outline. The geometry is
+     * regenerated when any of them changes.
+     */
+    protected abstract getShapeParameters(): number[];
+
+    /** The fill color of the shape. */
+    public get color(): Color {
+        return this.fillMaterial.color;
+    }
+
+    public set color(color: Color) {
+        this.fillMaterial.color = color;
+    }
+
+    public SetColor(color: Color): Shape2D {
+
+        this.fillMaterial.color = color;
+        return this;
+    }
+
+    public SetPosition(x: number, y: number): Shape2D {
+
+        this.transform.SetPosition(x, y);
+        return this;
+    }
+
+    /**
+     * Sets the rotation around the Z axis, in radians.
+     */
+    public SetRotation(angle: number): Shape2D {
+
+        this.transform.SetRotation(0, 0, angle);
+        return this;
+    }
+
+    /**
+     * Sets the scale. A single number applies a uniform scale.
+     */
+    public SetScale(x: number, y: number = x): Shape2D {
+
+        this.transform.SetScale(x, y, 1);
+        return this;
+    }
+
+    /**
+     * Returns the outline of the shape in its local space, as X, Y pairs in
+     * counter-clockwise order.
+     */
+    public GetOutline(): number[] {
+        return this.createOutline();
+    }
+
+    /**
+     * Regenerates the geometry if the shape parameters have changed since
+     * it was last generated.
+     */
+    public UpdateGeometry(): Shape2D {
+
+        const parameters: number[] = this.getShapeParameters(),
+            generated: number[] | null = this.generatedParameters;
+
+        if (generated && generated.length === parameters.length && generated.every((value: number, i: number) => value === parameters[i])) return this;
+
+        this.generatedParameters = parameters;
+        this.buildGeometry(this.createOutline());
+
+        return this;
+    }
+
+    public override WriteUniformsToQueue(queue: GPUQueue, viewProjectionMatrix: mat4): Renderable | void {
+
+        this.UpdateGeometry();
+
+        return super.WriteUniformsToQueue(queue, viewProjectionMatrix);
+    }
+
+    /**
+     * Releases the uniform buffers and geometry of this shape, including
+     * its fill material.
+     */
+    public override Dispose(): void {
+
+        super.Dispose();
+
+        this.geometry.Dispose();
+        this.fillMaterial.Dispose();
+    }
+
+    // Private and protected class members.
+
+    private buildGeometry(outline: number[]): void {
+
+        const vertexCount: number = Math.floor(outline.length / 2),
+            positions = new Float32Array(vertexCount * 3),
+            normals = new Float32Array(vertexCount * 3),
+            uvs = new Float32Array(vertexCount * 2),
+            indices: number[] = [];
+
+        let minX: number = Infinity, minY: number = Infinity, maxX: number = -Infinity, maxY: number = -Infinity;
+
+        for (let i = 0; i < vertexCount; i++) {
+
+            minX = Math.min(minX, outline[i * 2]);
+            minY = Math.min(minY, outline[i * 2 + 1]);
+            maxX = Math.max(maxX, outline[i * 2]);
+            maxY = Math.max(maxY, outline[i * 2 + 1]);
+        }
+
+        const width: number = (maxX - minX) || 1,
+            height: number = (maxY - minY) || 1;
+
+        for (let i = 0; i < vertexCount; i++) {
+
+            positions[i * 3] = outline[i * 2];
+            positions[i * 3 + 1] = outline[i * 2 + 1];
+
+            normals[i * 3 + 2] = 1;
+
+            // Texture coordinates span the bounding box, with V pointing down.
+            uvs[i * 2] = (outline[i * 2] - minX) / width;
+            uvs[i * 2 + 1] = (maxY - outline[i * 2 + 1]) / height;
+        }
+
+        for (let i = 1; i < vertexCount - 1; i++) indices.push(0, i, i + 1);
+
+        this.setAttributeData("position", positions, 3);
+        this.setAttributeData("normal", normals, 3);
+        this.setAttributeData("uv", uvs, 2);
+
+        this.geometry.SetIndex(indices);
+    }
+
+    // Replaces the data of an existing attribute in place, so its GPU buffer is reused or resized.
+    private setAttributeData(name: string, data: Float32Array, itemSize: number): void {
+
+        const attribute: BufferAttribute | undefined = this.geometry.GetAttribute(name);
+
+        if (!attribute) {
+
+            this.geometry.SetAttribute(name, new BufferAttribute(data, itemSize));
+            return;
+        }
+
+        attribute.buffer.array = data;
+        attribute.NeedsUpdate();
+    }
+}
\ No newline at end of file
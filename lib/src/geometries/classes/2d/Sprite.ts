@@ -0,0 +1,179 @@
+import { mat4 } from "gl-matrix";
+
+import { Mesh, Renderable } from "../../../renderer/exports";
+import { BasicTextureMaterial } from "../../../materials/exports";
+import { Texture } from "../../../textures/classes/Texture";
+import { Color } from "../../../utilities/exports";
+import { BufferAttribute } from "../BufferAttribute";
+import { BufferGeometry } from "../BufferGeometry";
+
+/**
+ * A textured rectangle in the XY plane, centered on its position. Like
+ * the 2D shapes, it is drawn double sided and layered by its Z position.
+ *
+ * The size defaults to the size of the texture in pixels. The top of the
+ * image points along +Y; with a camera whose Y axis points down, such as
+ * the {@link TwoDimensionalCamera}, enable {@link flipY} so the image is
+ * drawn upright.
+ *
+ * @example
+ * ```ts
+ * const texture = await Texture.FromURL("sprites/player.png");
+ * const sprite = new Sprite(texture);
+ *
+ * sprite.flipY = true;
+ * sprite.SetPosition(400, 300);
+ * ```
+ */
+export class Sprite extends Mesh {
+
+    public width: number;
+    public height: number;
+
+    /** Whether the image is drawn upside down. */
+    public flipY: boolean = false;
+
+    protected textureMaterial: BasicTextureMaterial;
+
+    // Width, height and flip the current geometry was generated from.
+    private generatedParameters: number[] | null = null;
+
+    /**
+     * @param width The width in world units. Defaults to the width of the texture.
+     * @param height The height in world units. Defaults to the height of the texture.
+     */
+    constructor(texture: Texture | null = null, width?: number, height?: number, color: Color = new Color(1, 1, 1, 1)) {
+
+        const material = new BasicTextureMaterial(texture, undefined, color);
+
+        material.cullMode = "none";
+        material.depthCompare = "less-equal";
+        material.blendMode = "normal";
+
+        super(new BufferGeometry(), material);
+
+        this.textureMaterial = material;
+        this.width = width ?? texture?.width ?? 1;
+        this.height = height ?? texture?.height ?? 1;
+
+        this.UpdateGeometry();
+    }
+
+    public get texture(): Texture | null {
+        return this.textureMaterial.texture;
+    }
+
+    public set texture(texture: Texture | null) {
+        this.textureMaterial.texture = texture;
+    }
+
+    /** The tint the texture is multiplied by. */
+    public get color(): Color {
+        return this.textureMaterial.color;
+    }
+
+    public set color(color: Color) {
+        this.textureMaterial.color = color;
+    }
+
+    public SetTexture(texture: Texture | null): Sprite {
+
+        this.texture = texture;
+        return this;
+    }
+
+    public SetSize(width: number, height: number): Sprite {
+
+        this.width = width;
+        this.height = height;
+
+        return this;
+    }
+
+    public SetPosition(x: number, y: number): Sprite {
+
+        this.transform.SetPosition(x, y);
+        return this;
+    }
+
+    /**
+     * Sets the rotation around the Z axis, in radians.
+     */
+    public SetRotation(angle: number): Sprite {
+
+        this.transform.SetRotation(0, 0, angle);
+        return this;
+    }
+
+    /**
+     * Sets the scale. A single number applies a uniform scale.
+     */
+    public SetScale(x: number, y: number = x): Sprite {
+
+        this.transform.SetScale(x, y, 1);
+        return this;
+    }
+
+    /**
+     * Regenerates the geometry if the size or flip have changed since it
+     * was last generated.
+     */
+    public UpdateGeometry(): Sprite {
+
+        const parameters: number[] = [this.width, this.height, this.flipY ? 1 : 0],
+            generated: number[] | null = this.generatedParameters;
+
+        if (generated && parameters.every((value: number, i: number) => value === generated[i])) return this;
+
+        this.generatedParameters = parameters;
+
+        const x: number = this.width / 2,
+            y: number = this.height / 2,
+            top: number = this.flipY ? 1 : 0,
+            bottom: number = 1 - top;
+
+        this.setAttributeData("position", new Float32Array([-x, -y, 0, x, -y, 0, x, y, 0, -x, y, 0]), 3);
+        this.setAttributeData("normal", new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]), 3);
+        this.setAttributeData("uv", new Float32Array([0, bottom, 1, bottom, 1, top, 0, top]), 2);
+
+        this.geometry.SetIndex([0, 1, 2, 0, 2, 3]);
+
+        return this;
+    }
+
+    public override WriteUniformsToQueue(queue: GPUQueue, viewProjectionMatrix: mat4): Renderable | void {
+
+        this.UpdateGeometry();
+
+        return super.WriteUniformsToQueue(queue, viewProjectionMatrix);
+    }
+
+    /**
+     * Releases the uniform buffers and geometry of this sprite, including
+     * its material. The texture is not disposed, since it may be shared.
+     */
+    public override Dispose(): void {
+
+        super.Dispose();
+
+        this.geometry.Dispose();
+        this.textureMaterial.Dispose();
+    }
+
+    // Private and protected class members.
+
+    // Replaces the data of an existing attribute in place, so its GPU buffer is reused.
+    private setAttributeData(name: string, data: Float32Array, itemSize: number): void {
+
+        const attribute: BufferAttribute | undefined = this.geometry.GetAttribute(name);
+
+        if (!attribute) {
+
+            this.geometry.SetAttribute(name, new BufferAttribute(data, itemSize));
+            return;
+        }
+
+        attribute.buffer.array = data;
+        attribute.NeedsUpdate();
+    }
+}
\ No newline at end of file
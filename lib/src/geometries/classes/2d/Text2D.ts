@@ -0,0 +1,119 @@
+import { mat4 } from "gl-matrix";
+
+import { Sprite } from "./Sprite";
+import { Renderable } from "../../../renderer/exports";
+import { Texture } from "../../../textures/classes/Texture";
+import { Color } from "../../../utilities/exports";
+
+/**
+ * A single line of text, centered on its position. One world unit
+ * corresponds to one pixel of the font size.
+ *
+ * The WebGPU renderer draws the text from a texture, which is rendered
+ * with the Canvas 2D API whenever the text or font changes; the
+ * {@link Canvas2DRenderer} draws it directly. The text is rendered white
+ * and tinted by the color, so changing the color is free.
+ *
+ * @example
+ * ```ts
+ * const label = new Text2D("Score: 0", 24, new Color(1, 1, 0));
+ *
+ * label.SetPosition(100, 40);
+ * label.text = "Score: 10";
+ * ```
+ */
+export class Text2D extends Sprite {
+
+    public fontFamily: string = "sans-serif";
+    public fontWeight: string = "normal";
+
+    /** Resolution of the texture relative to the font size, for sharp text when zoomed in or on high density displays. */
+    public resolution: number = 2;
+
+    // Font and text the current texture was rendered with.
+    private renderedKey: string = "";
+
+    constructor(public text: string = "", public fontSize: number = 32, color: Color = new Color(1, 1, 1, 1)) {
+        super(null, 1, 1, color);
+
+        this.UpdateTexture();
+    }
+
+    /** The font in the CSS shorthand format, at the given scale of the font size. */
+    public GetFont(scale: number = 1): string {
+        return `${this.fontWeight} ${this.fontSize * scale}px ${this.fontFamily}`;
+    }
+
+    public SetText(text: string): Text2D {
+
+        this.text = text;
+        return this;
+    }
+
+    public SetFont(fontSize: number, fontFamily: string = this.fontFamily, fontWeight: string = this.fontWeight): Text2D {
+
+        this.fontSize = fontSize;
+        this.fontFamily = fontFamily;
+        this.fontWeight = fontWeight;
+
+        return this;
+    }
+
+    /**
+     * Renders the text into a new texture if the text or font have changed
+     * since it was last rendered, and sizes the sprite to fit the text.
+     */
+    public UpdateTexture(): Text2D {
+
+        const key: string = `${this.GetFont(this.resolution)}|${this.text}`;
+
+        if (key === this.renderedKey) return this;
+
+        this.renderedKey = key;
+
+        const canvas: HTMLCanvasElement = document.createElement("canvas"),
+            context: CanvasRenderingContext2D | null = canvas.getContext("2d");
+
+        if (!context) return this;
+
+        context.font = this.GetFont(this.resolution);
+
+        const lineHeight: number = Math.ceil(this.fontSize * 1.25 * this.resolution);
+
+        canvas.width = Math.max(1, Math.ceil(context.measureText(this.text).width));
+        canvas.height = Math.max(1, lineHeight);
+
+        // Resizing the canvas resets its state.
+        context.font = this.GetFont(this.resolution);
+        context.fillStyle = "#ffffff";
+        context.textBaseline = "middle";
+        context.fillText(this.text, 0, canvas.height / 2);
+
+        const previous: Texture | null = this.texture;
+
+        this.texture = new Texture(canvas, { label: "Text2D-" + this.id });
+        this.SetSize(canvas.width / this.resolution, canvas.height / this.resolution);
+
+        previous && previous.Dispose();
+
+        return this;
+    }
+
+    public override WriteUniformsToQueue(queue: GPUQueue, viewProjectionMatrix: mat4): Renderable | void {
+
+        this.UpdateTexture();
+
+        return super.WriteUniformsToQueue(queue, viewProjectionMatrix);
+    }
+
+    /**
+     * Releases the uniform buffers, geometry, material and the texture the
+     * text was rendered into.
+     */
+    public override Dispose(): void {
+
+        this.texture && this.texture.Dispose();
+
+        super.Dispose();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * A block of vertex data uploaded into a single GPU vertex buffer.
+ *
+ * One or more {@link BufferAttribute}s read from it. An attribute created
+ * from a plain array owns a buffer of its own, while several attributes
+ * sharing one buffer at different offsets form an interleaved layout.
+ */
+export class InterleavedBuffer {
+
+    /** Incremented by {@link NeedsUpdate}; the buffer is re-uploaded when it changes. */
+    public version: number = 0;
+
+    /**
+     * @param array The vertex data.
+     * @param stride The amount of floats per vertex.
+     */
+    constructor(public array: Float32Array, public stride: number) {}
+
+    /** The amount of vertices in this buffer. */
+    public get count(): number {
+        return Math.floor(this.array.length / this.stride);
+    }
+
+    /**
+     * Marks the buffer to be re-uploaded on the next frame, after its array
+     * has been modified.
+     */
+    public NeedsUpdate(): InterleavedBuffer {
+
+        this.version++;
+        return this;
+    }
+}
+
+/**
+ * A named vertex attribute of a {@link BufferGeometry}, such as positions
+ * or texture coordinates.
+ *
+ * @example
+ * ```ts
+ * // Separate buffer, three floats per vertex.
+ * const positions = new BufferAttribute([0, 1, 0, -1, -1, 0, 1, -1, 0], 3);
+ *
+ * // Interleaved position and color, six floats per vertex.
+ * const buffer = new InterleavedBuffer(new Float32Array(data), 6);
+ * const position = new BufferAttribute(buffer, 3, 0);
+ * const color = new BufferAttribute(buffer, 3, 3);
+ * ```
+ */
+export class BufferAttribute {
+
+    public buffer: InterleavedBuffer;
+
+    /**
+     * @param data The vertex data, or the buffer this attribute reads from.
+     * @param itemSize The amount of floats per vertex, between 1 and 4.
+     * @param offset The offset in floats within each vertex of an interleaved buffer.
+     * @param shaderLocation The shader location of the attribute. Required for
+     * custom attributes, the built-in attributes have a fixed location.
+     */
+    constructor(data: ArrayLike<number> | InterleavedBuffer, public itemSize: number, public offset: number = 0, public shaderLocation?: number) {
+
+        this.buffer = (data instanceof InterleavedBuffer)
+            ? data
+            : new InterleavedBuffer(data instanceof Float32Array ? data : new Float32Array(data), itemSize);
+    }
+
+    public get array(): Float32Array {
+        return this.buffer.array;
+    }
+
+    public get count(): number {
+        return this.buffer.count;
+    }
+
+    public get isInterleaved(): boolean {
+        return this.buffer.stride !== this.itemSize;
+    }
+
+    public get format(): GPUVertexFormat {
+        return (this.itemSize === 1 ? "float32" : `float32x${this.itemSize}`) as GPUVertexFormat;
+    }
+
+    /**
+     * Returns a single component of the vertex at the given index.
+     */
+    public GetComponent(index: number, component: number): number {
+
+        return this.buffer.array[index * this.buffer.stride + this.offset + component];
+    }
+
+    public SetComponent(index: number, component: number, value: number): BufferAttribute {
+
+        this.buffer.array[index * this.buffer.stride + this.offset + component] = value;
+        return this;
+    }
+
+    /**
+     * Marks the underlying buffer to be re-uploaded on the next frame.
+     */
+    public NeedsUpdate(): BufferAttribute {
+
+        this.buffer.NeedsUpdate();
+        return this;
+    }
+}
@@ -0,0 +1,489 @@
+import { v4 } from "uuid";
+
+import { BufferAttribute, InterleavedBuffer } from "./BufferAttribute";
+import { VertexAttributeLocations } from "../../renderer/functions/layouts";
+import { BoundingBox, BoundingSphere, Debug } from "../../utilities/exports";
+import { ErrorCodes } from "../../codes";
+import { GeometryData, VertexAttributeName } from "../../typings";
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+interface UploadedVertexBuffer {
+    gpuBuffer: GPUBuffer;
+    version: number;
+}
+
+interface VertexBufferSlot {
+    buffer: InterleavedBuffer;
+    attributes: [string, BufferAttribute][];
+}
+
+/**
+ * Vertex data of a mesh, stored as named attributes with an optional index.
+ *
+ * The built-in attribute names `position`, `normal`, `uv`, `color` and
+ * `tangent` map to fixed shader locations. Custom attributes can be added
+ * under any other name, as long as their shader location is provided.
+ *
+ * Attributes are either stored in separate buffers or share an interleaved
+ * buffer. The vertex buffer layouts of a pipeline are generated from the
+ * attributes, so user data of any shape can be drawn as long as it provides
+ * the attributes the material reads.
+ *
+ * @example
+ * ```ts
+ * const geometry = new BufferGeometry()
+ *     .SetAttribute("position", new BufferAttribute(positions, 3))
+ *     .SetAttribute("uv", new BufferAttribute(uvs, 2))
+ *     .SetIndex(indices);
+ *
+ * const mesh = new Mesh(geometry, new BasicColorMaterial());
+ * ```
+ */
+export class BufferGeometry {
+
+    public id: string = v4();
+    public name: string = "";
+
+    public attributes: Map<string, BufferAttribute> = new Map();
+    public index: Uint16Array | Uint32Array | null = null;
+
+    declare private device: GPUDevice;
+
+    private uploadedBuffers: Map<InterleavedBuffer, UploadedVertexBuffer> = new Map();
+    private indexBuffer: GPUBuffer | null = null;
+    private indexVersion: number = 0;
+    private uploadedIndexVersion: number = -1;
+
+    private slots: Map<string, VertexBufferSlot[]> = new Map();
+
+    // Bounds of the positions, recomputed when the position attribute is replaced or updated.
+    private boundingBox: BoundingBox = new BoundingBox();
+    private boundingSphere: BoundingSphere = new BoundingSphere();
+    private boundsAttribute: BufferAttribute | null = null;
+    private boundsVersion: number = -1;
+
+    /**
+     * Creates a geometry from plain arrays, each attribute in its own buffer.
+     */
+    public static FromData(data: GeometryData): BufferGeometry {
+
+        const geometry = new BufferGeometry();
+
+        geometry.SetAttribute("position", new BufferAttribute(data.positions, 3));
+
+        data.normals && geometry.SetAttribute("normal", new BufferAttribute(data.normals, 3));
+        data.uvs && geometry.SetAttribute("uv", new BufferAttribute(data.uvs, 2));
+        data.colors && geometry.SetAttribute("color", new BufferAttribute(data.colors, 3));
+        data.tangents && geometry.SetAttribute("tangent", new BufferAttribute(data.tangents, 4));
+        data.indices && geometry.SetIndex(data.indices);
+
+        return geometry;
+    }
+
+    /**
+     * Creates a geometry from a single interleaved array.
+     *
+     * @example
+     * ```ts
+     * // X, Y, Z, R, G, B per vertex.
+     * BufferGeometry.FromInterleaved(vertices, [
+     *     { name: "position", itemSize: 3 },
+     *     { name: "color", itemSize: 3 }
+     * ]);
+     * ```
+     */
+    public static FromInterleaved(data: ArrayLike<number>, layout: { name: string, itemSize: number, shaderLocation?: number }[], indices?: ArrayLike<number>): BufferGeometry {
+
+        const geometry = new BufferGeometry(),
+            stride: number = layout.reduce((sum, entry) => sum + entry.itemSize, 0),
+            buffer = new InterleavedBuffer(new Float32Array(data), stride);
+
+        let offset: number = 0;
+
+        for (const entry of layout) {
+
+            geometry.SetAttribute(entry.name, new BufferAttribute(buffer, entry.itemSize, offset, entry.shaderLocation));
+            offset += entry.itemSize;
+        }
+
+        indices && geometry.SetIndex(indices);
+
+        return geometry;
+    }
+
+    public get vertexCount(): number {
+
+        const position: BufferAttribute | undefined = this.attributes.get("position");
+
+        return position ? position.count : 0;
+    }
+
+    public get indexCount(): number {
+        return this.index ? this.index.length : 0;
+    }
+
+    public get indexFormat(): GPUIndexFormat {
+        return this.index instanceof Uint32Array ? "uint32" : "uint16";
+    }
+
+    public SetAttribute(name: VertexAttributeName | string, attribute: BufferAttribute): BufferGeometry {
+
+        this.attributes.set(name, attribute);
+        this.slots.clear();
+
+        return this;
+    }
+
+    public GetAttribute(name: VertexAttributeName | string): BufferAttribute | undefined {
+        return this.attributes.get(name);
+    }
+
+    public HasAttribute(name: VertexAttributeName | string): boolean {
+        return this.attributes.has(name);
+    }
+
+    public DeleteAttribute(name: VertexAttributeName | string): BufferGeometry {
+
+        this.attributes.delete(name);
+        this.slots.clear();
+
+        return this;
+    }
+
+    /**
+     * Sets the index of the geometry. 16 bit indices are used unless an
+     * index exceeds 65535, in which case 32 bit indices are used.
+     * Passing `null` turns this into a non-indexed geometry.
+     */
+    public SetIndex(indices: ArrayLike<number> | null): BufferGeometry {
+
+        this.indexVersion++;
+
+        if (!indices) {
+
+            this.index = null;
+            return this;
+        }
+
+        let maxIndex: number = 0;
+
+        for (let i = 0; i < indices.length; i++) {
+            if (indices[i] > maxIndex) maxIndex = indices[i];
+        }
+
+        this.index = maxIndex > 0xffff ? new Uint32Array(indices) : new Uint16Array(indices);
+
+        return this;
+    }
+
+    /**
+     * Returns the shader location of an attribute: the location given to the
+     * attribute itself, or else the fixed location of a built-in attribute.
+     */
+    public GetShaderLocation(name: string): number | undefined {
+
+        const attribute: BufferAttribute | undefined = this.attributes.get(name);
+
+        return attribute?.shaderLocation ?? VertexAttributeLocations[name as VertexAttributeName];
+    }
+
+    /**
+     * Generates the vertex buffer layouts for the given attributes. Attributes
+     * sharing an interleaved buffer are described by a single layout.
+     * Vertex buffers must be bound with {@link SetVertexBuffers} using the
+     * same attribute names.
+     */
+    public GetVertexBufferLayouts(names: string[]): GPUVertexBufferLayout[] {
+
+        return this.getSlots(names).map((slot: VertexBufferSlot): GPUVertexBufferLayout => {
+            return {
+                arrayStride: slot.buffer.stride * 4,
+                attributes: slot.attributes.map(([name, attribute]): GPUVertexAttribute => {
+                    return {
+                        shaderLocation: this.GetShaderLocation(name) as number,
+                        offset: attribute.offset * 4,
+                        format: attribute.format
+                    }
+                })
+            }
+        });
+    }
+
+    /**
+     * Creates the GPU buffers of this geometry, or re-uploads the buffers
+     * which have changed since they were last uploaded.
+     */
+    public Upload(device: GPUDevice): BufferGeometry {
+
+        this.device = device;
+
+        this.attributes.forEach((attribute: BufferAttribute) => {
+            this.uploadVertexBuffer(attribute.buffer);
+        });
+
+        if (this.index && this.uploadedIndexVersion !== this.indexVersion) this.uploadIndexBuffer(this.index);
+
+        return this;
+    }
+
+    /**
+     * Re-uploads changed buffers, if the geometry has been uploaded before.
+     */
+    public Update(): BufferGeometry {
+
+        return this.device ? this.Upload(this.device) : this;
+    }
+
+    public SetVertexBuffers(pass: GPURenderPassEncoder, names: string[], firstSlot: number = 0): void {
+
+        const slots: VertexBufferSlot[] = this.getSlots(names);
+
+        for (let i = 0; i < slots.length; i++) {
+
+            const uploaded: UploadedVertexBuffer | undefined = this.uploadedBuffers.get(slots[i].buffer);
+
+            uploaded && pass.setVertexBuffer(firstSlot + i, uploaded.gpuBuffer);
+        }
+    }
+
+    /**
+     * Records the draw call of this geometry, indexed if it has an index.
+     */
+    public Draw(pass: GPURenderPassEncoder, instanceCount: number = 1, firstInstance: number = 0): void {
+
+        if (this.index && this.indexBuffer) {
+
+            pass.setIndexBuffer(this.indexBuffer, this.indexFormat);
+            pass.drawIndexed(this.index.length, instanceCount, 0, 0, firstInstance);
+        } else {
+
+            pass.draw(this.vertexCount, instanceCount, 0, firstInstance);
+        }
+    }
+
+    /**
+     * Computes smooth per-vertex normals by averaging the normals of the
+     * triangles sharing each vertex, and stores them in the `normal` attribute.
+     */
+    public ComputeVertexNormals(): BufferGeometry {
+
+        const position: BufferAttribute | undefined = this.attributes.get("position");
+
+        if (!position) return this;
+
+        const count: number = position.count,
+            normals = new Float32Array(count * 3),
+            index = this.index,
+            triangleCount: number = Math.floor((index ? index.length : count) / 3);
+
+        for (let t = 0; t < triangleCount; t++) {
+
+            const a = index ? index[t * 3] : t * 3,
+                b = index ? index[t * 3 + 1] : t * 3 + 1,
+                c = index ? index[t * 3 + 2] : t * 3 + 2;
+
+            const abx = position.GetComponent(b, 0) - position.GetComponent(a, 0),
+                aby = position.GetComponent(b, 1) - position.GetComponent(a, 1),
+                abz = position.GetComponent(b, 2) - position.GetComponent(a, 2),
+                acx = position.GetComponent(c, 0) - position.GetComponent(a, 0),
+                acy = position.GetComponent(c, 1) - position.GetComponent(a, 1),
+                acz = position.GetComponent(c, 2) - position.GetComponent(a, 2);
+
+            // Area weighted face normal.
+            const nx = aby * acz - abz * acy,
+                ny = abz * acx - abx * acz,
+                nz = abx * acy - aby * acx;
+
+            for (const vertex of [a, b, c]) {
+                normals[vertex * 3] += nx;
+                normals[vertex * 3 + 1] += ny;
+                normals[vertex * 3 + 2] += nz;
+            }
+        }
+
+        for (let i = 0; i < count; i++) {
+
+            const length: number = Math.hypot(normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2]) || 1;
+
+            normals[i * 3] /= length;
+            normals[i * 3 + 1] /= length;
+            normals[i * 3 + 2] /= length;
+        }
+
+        return this.SetAttribute("normal", new BufferAttribute(normals, 3));
+    }
+
+    /**
+     * Returns the axis-aligned box enclosing the positions. The box is
+     * computed on first use, and again after the position attribute has
+     * been replaced or marked as updated.
+     */
+    public GetBoundingBox(): BoundingBox {
+
+        this.updateBounds();
+
+        return this.boundingBox;
+    }
+
+    /**
+     * Returns the sphere enclosing the positions, centered on their
+     * bounding box. Updated like {@link GetBoundingBox}.
+     */
+    public GetBoundingSphere(): BoundingSphere {
+
+        this.updateBounds();
+
+        return this.boundingSphere;
+    }
+
+    public Dispose(): void {
+
+        this.uploadedBuffers.forEach(function (uploaded: UploadedVertexBuffer) {
+            uploaded.gpuBuffer.destroy();
+        });
+
+        this.uploadedBuffers.clear();
+
+        this.indexBuffer && this.indexBuffer.destroy();
+        this.indexBuffer = null;
+        this.uploadedIndexVersion = -1;
+    }
+
+    // Private and protected class members.
+
+    private updateBounds(): void {
+
+        const position: BufferAttribute | undefined = this.attributes.get("position");
+
+        if (position === this.boundsAttribute && (!position || position.buffer.version === this.boundsVersion)) return;
+
+        this.boundsAttribute = position ?? null;
+        this.boundsVersion = position ? position.buffer.version : -1;
+
+        this.boundingBox.MakeEmpty();
+
+        if (position) {
+            for (let i = 0; i < position.count; i++) {
+                this.boundingBox.ExpandByPoint(position.GetComponent(i, 0), position.GetComponent(i, 1), position.GetComponent(i, 2));
+            }
+        }
+
+        this.boundingSphere.SetFromBox(this.boundingBox);
+
+        // The sphere around the box is loose for round shapes; the furthest position gives a tighter radius.
+        if (position && !this.boundingSphere.IsEmpty()) {
+
+            const { x, y, z } = this.boundingSphere.center;
+
+            let radiusSquared: number = 0;
+
+            for (let i = 0; i < position.count; i++) {
+
+                const dx: number = position.GetComponent(i, 0) - x,
+                    dy: number = position.GetComponent(i, 1) - y,
+                    dz: number = position.GetComponent(i, 2) - z;
+
+                radiusSquared = Math.max(radiusSquared, dx * dx + dy * dy + dz * dz);
+            }
+
+            this.boundingSphere.radius = Math.sqrt(radiusSquared);
+        }
+    }
+
+    private getSlots(names: string[]): VertexBufferSlot[] {
+
+        const key: string = names.join("|");
+        const cached: VertexBufferSlot[] | undefined = this.slots.get(key);
+
+        if (cached) return cached;
+
+        const slots: VertexBufferSlot[] = [];
+
+        for (const name of names) {
+
+            const attribute: BufferAttribute | undefined = this.attributes.get(name);
+
+            if (!attribute) continue;
+
+            if (this.GetShaderLocation(name) === undefined) {
+
+                Debug.Error(`BufferGeometry: The custom attribute '${name}' has no shader location.`, [
+                    `Geometry ID ${this.id}`,
+                    "Pass a shader location when creating the BufferAttribute."
+                ], ErrorCodes.GEOMETRY_ATTRIBUTE_LOCATION_UNDEFINED);
+
+                continue;
+            }
+
+            const slot: VertexBufferSlot | undefined = slots.find((slot: VertexBufferSlot) => slot.buffer === attribute.buffer);
+
+            slot
+                ? slot.attributes.push([name, attribute])
+                : slots.push({ buffer: attribute.buffer, attributes: [[name, attribute]] });
+        }
+
+        this.slots.set(key, slots);
+
+        return slots;
+    }
+
+    private uploadVertexBuffer(buffer: InterleavedBuffer): void {
+
+        const device: GPUDevice = this.device,
+            uploaded: UploadedVertexBuffer | undefined = this.uploadedBuffers.get(buffer);
+
+        if (uploaded && uploaded.version === buffer.version) return;
+
+        const byteLength: number = align4(buffer.array.byteLength);
+
+        if (!uploaded || uploaded.gpuBuffer.size !== byteLength) {
+
+            uploaded && uploaded.gpuBuffer.destroy();
+
+            this.uploadedBuffers.set(buffer, {
+                gpuBuffer: device.createBuffer({
+                    label: "BufferGeometry-VertexBuffer-" + this.id,
+                    size: byteLength,
+                    usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+                }),
+                version: buffer.version
+            });
+        }
+
+        const target = this.uploadedBuffers.get(buffer) as UploadedVertexBuffer;
+
+        target.version = buffer.version;
+
+        device.queue.writeBuffer(target.gpuBuffer, 0, buffer.array as GPUAllowSharedBufferSource);
+    }
+
+    private uploadIndexBuffer(index: Uint16Array | Uint32Array): void {
+
+        const device: GPUDevice = this.device;
+
+        // 16 bit indices are padded to an even count, buffer writes must be a multiple of 4 bytes.
+        let data: Uint16Array | Uint32Array = index;
+
+        if (index instanceof Uint16Array && index.length % 2 === 1) {
+
+            data = new Uint16Array(index.length + 1);
+            data.set(index);
+        }
+
+        if (!this.indexBuffer || this.indexBuffer.size !== data.byteLength) {
+
+            this.indexBuffer && this.indexBuffer.destroy();
+
+            this.indexBuffer = device.createBuffer({
+                label: "BufferGeometry-IndexBuffer-" + this.id,
+                size: data.byteLength,
+                usage: GPUBufferUsage.INDEX | GPUBufferUsage.COPY_DST
+            });
+        }
+
+        device.queue.writeBuffer(this.indexBuffer, 0, data as GPUAllowSharedBufferSource);
+
+        this.uploadedIndexVersion = this.indexVersion;
+    }
+}
@@ -1,2 +1,24 @@
 export { SimpleTriangle } from "./classes/2d/SimpleTriangle";
-export { CubeGeometry } from "./classes/CubeGeometry";
\ No newline at end of file
+export { Shape2D } from "./classes/2d/Shape2D";
+export { Rectangle } from "./classes/2d/Rectangle";
+export { RoundedRectangle } from "./classes/2d/RoundedRectangle";
+export { Ellipse } from "./classes/2d/Ellipse";
+export { Circle } from "./classes/2d/Circle";
+export { RegularPolygon } from "./classes/2d/RegularPolygon";
+export { Polygon } from "./classes/2d/Polygon";
+export { Sprite } from "./classes/2d/Sprite";
+export { Text2D } from "./classes/2d/Text2D";
+export { CubeGeometry } from "./classes/CubeGeometry";
+export { BufferGeometry } from "./classes/BufferGeometry";
+export { BufferAttribute, InterleavedBuffer } from "./classes/BufferAttribute";
+export {
+    CreatePlaneGeometry,
+    CreateBoxGeometry,
+    CreateUVSphereGeometry,
+    CreateIcosphereGeometry,
+    CreateCylinderGeometry,
+    CreateConeGeometry,
+    CreateTorusGeometry,
+    CreateCapsuleGeometry,
+    CreateDiscGeometry
+} from "./functions/primitives";
\ No newline at end of file
@@ -0,0 +1,541 @@
+import { BufferGeometry } from "../classes/BufferGeometry";
+import { TwoPI, HalfPI, PI } from "../../utilities/exports";
+
+/*
+ * Procedural primitive generators.
+ *
+ * Every generator returns a BufferGeometry with positions, normals, uvs and
+ * indices, centered at the origin with +Y as up. Front faces wind
+ * counter-clockwise. Texture coordinates use the WebGPU convention, with
+ * (0, 0) at the top left of the image.
+ */
+
+interface PrimitiveData {
+    positions: number[];
+    normals: number[];
+    uvs: number[];
+    indices: number[];
+}
+
+function createPrimitiveData(): PrimitiveData {
+    return { positions: [], normals: [], uvs: [], indices: [] };
+}
+
+function toBufferGeometry(data: PrimitiveData, name: string): BufferGeometry {
+
+    const geometry: BufferGeometry = BufferGeometry.FromData(data);
+
+    geometry.name = name;
+
+    return geometry;
+}
+
+type Axis = 0 | 1 | 2;
+
+/**
+ * Appends a subdivided, axis-aligned rectangle to the data. The rectangle
+ * spans the 'u' and 'v' axes and is offset by half of 'depth' along the 'w' axis.
+ */
+function buildPlane(data: PrimitiveData, u: Axis, v: Axis, w: Axis, uDirection: number, vDirection: number, width: number, height: number, depth: number, gridX: number, gridY: number): void {
+
+    const segmentWidth: number = width / gridX,
+        segmentHeight: number = height / gridY,
+        widthHalf: number = width / 2,
+        heightHalf: number = height / 2,
+        depthHalf: number = depth / 2,
+        vertexOffset: number = data.positions.length / 3;
+
+    const vector: number[] = [0, 0, 0],
+        normal: number[] = [0, 0, 0];
+
+    normal[w] = depth < 0 ? -1 : 1;
+
+    for (let iy = 0; iy <= gridY; iy++) {
+
+        const y: number = iy * segmentHeight - heightHalf;
+
+        for (let ix = 0; ix <= gridX; ix++) {
+
+            const x: number = ix * segmentWidth - widthHalf;
+
+            vector[u] = x * uDirection;
+            vector[v] = y * vDirection;
+            vector[w] = depthHalf;
+
+            data.positions.push(vector[0], vector[1], vector[2]);
+            data.normals.push(normal[0], normal[1], normal[2]);
+            data.uvs.push(ix / gridX, iy / gridY);
+        }
+    }
+
+    for (let iy = 0; iy < gridY; iy++) {
+        for (let ix = 0; ix < gridX; ix++) {
+
+            const a: number = vertexOffset + ix + (gridX + 1) * iy,
+                b: number = vertexOffset + ix + (gridX + 1) * (iy + 1),
+                c: number = vertexOffset + (ix + 1) + (gridX + 1) * (iy + 1),
+                d: number = vertexOffset + (ix + 1) + (gridX + 1) * iy;
+
+            data.indices.push(a, b, d, b, c, d);
+        }
+    }
+}
+
+/**
+ * Creates a flat plane in the XY plane, facing +Z.
+ *
+ * @param width Size along the X axis.
+ * @param height Size along the Y axis.
+ * @param widthSegments Amount of subdivisions along the X axis.
+ * @param heightSegments Amount of subdivisions along the Y axis.
+ */
+export function CreatePlaneGeometry(width: number = 1, height: number = 1, widthSegments: number = 1, heightSegments: number = 1): BufferGeometry {
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    buildPlane(data, 0, 1, 2, 1, -1, width, height, 0, Math.max(1, Math.floor(widthSegments)), Math.max(1, Math.floor(heightSegments)));
+
+    return toBufferGeometry(data, "PlaneGeometry");
+}
+
+/**
+ * Creates a box. Every face has its own vertices, so normals are flat
+ * and each face is mapped onto the full [0, 1] UV range.
+ */
+export function CreateBoxGeometry(width: number = 1, height: number = 1, depth: number = 1, widthSegments: number = 1, heightSegments: number = 1, depthSegments: number = 1): BufferGeometry {
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    const gridX: number = Math.max(1, Math.floor(widthSegments)),
+        gridY: number = Math.max(1, Math.floor(heightSegments)),
+        gridZ: number = Math.max(1, Math.floor(depthSegments));
+
+    buildPlane(data, 2, 1, 0, -1, -1, depth, height, width, gridZ, gridY);  // +X
+    buildPlane(data, 2, 1, 0, 1, -1, depth, height, -width, gridZ, gridY);  // -X
+    buildPlane(data, 0, 2, 1, 1, 1, width, depth, height, gridX, gridZ);    // +Y
+    buildPlane(data, 0, 2, 1, 1, -1, width, depth, -height, gridX, gridZ);  // -Y
+    buildPlane(data, 0, 1, 2, 1, -1, width, height, depth, gridX, gridY);   // +Z
+    buildPlane(data, 0, 1, 2, -1, -1, width, height, -depth, gridX, gridY); // -Z
+
+    return toBufferGeometry(data, "BoxGeometry");
+}
+
+/**
+ * Creates a sphere made of latitude and longitude rings, with an
+ * equirectangular UV mapping.
+ */
+export function CreateUVSphereGeometry(radius: number = 1, widthSegments: number = 32, heightSegments: number = 16): BufferGeometry {
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    const segmentsX: number = Math.max(3, Math.floor(widthSegments)),
+        segmentsY: number = Math.max(2, Math.floor(heightSegments));
+
+    for (let iy = 0; iy <= segmentsY; iy++) {
+
+        const v: number = iy / segmentsY;
+
+        for (let ix = 0; ix <= segmentsX; ix++) {
+
+            const u: number = ix / segmentsX;
+
+            const nx: number = -Math.cos(u * TwoPI) * Math.sin(v * PI),
+                ny: number = Math.cos(v * PI),
+                nz: number = Math.sin(u * TwoPI) * Math.sin(v * PI);
+
+            data.positions.push(nx * radius, ny * radius, nz * radius);
+            data.normals.push(nx, ny, nz);
+            data.uvs.push(u, v);
+        }
+    }
+
+    for (let iy = 0; iy < segmentsY; iy++) {
+        for (let ix = 0; ix < segmentsX; ix++) {
+
+            const a: number = iy * (segmentsX + 1) + ix + 1,
+                b: number = iy * (segmentsX + 1) + ix,
+                c: number = (iy + 1) * (segmentsX + 1) + ix,
+                d: number = (iy + 1) * (segmentsX + 1) + ix + 1;
+
+            // The first and last ring collapse into a pole, skip the degenerate triangles.
+            if (iy !== 0) data.indices.push(a, b, d);
+            if (iy !== segmentsY - 1) data.indices.push(b, c, d);
+        }
+    }
+
+    return toBufferGeometry(data, "UVSphereGeometry");
+}
+
+/**
+ * Creates a sphere by subdividing an icosahedron, which distributes the
+ * vertices evenly over the surface. UVs use an equirectangular mapping;
+ * vertices on the seam and at the poles are repeated with the UVs of each
+ * triangle, so textures do not smear across them. U exceeds 1 past the
+ * seam, which relies on the default "repeat" address mode of the sampler.
+ *
+ * @param detail Amount of subdivisions. Every level multiplies the triangle count by four.
+ */
+export function CreateIcosphereGeometry(radius: number = 1, detail: number = 2): BufferGeometry {
+
+    const t: number = (1 + Math.sqrt(5)) / 2;
+
+    const vertices: number[][] = [
+        [-1, t, 0], [1, t, 0], [-1, -t, 0], [1, -t, 0],
+        [0, -1, t], [0, 1, t], [0, -1, -t], [0, 1, -t],
+        [t, 0, -1], [t, 0, 1], [-t, 0, -1], [-t, 0, 1]
+    ].map(function (vertex: number[]) {
+        const length: number = Math.hypot(vertex[0], vertex[1], vertex[2]);
+        return [vertex[0] / length, vertex[1] / length, vertex[2] / length];
+    });
+
+    let faces: number[][] = [
+        [0, 11, 5], [0, 5, 1], [0, 1, 7], [0, 7, 10], [0, 10, 11],
+        [1, 5, 9], [5, 11, 4], [11, 10, 2], [10, 7, 6], [7, 1, 8],
+        [3, 9, 4], [3, 4, 2], [3, 2, 6], [3, 6, 8], [3, 8, 9],
+        [4, 9, 5], [2, 4, 11], [6, 2, 10], [8, 6, 7], [9, 8, 1]
+    ];
+
+    const midpoints: Map<string, number> = new Map();
+
+    const getMidpoint = function (a: number, b: number): number {
+
+        const key: string = a < b ? `${a}_${b}` : `${b}_${a}`;
+        const cached: number | undefined = midpoints.get(key);
+
+        if (cached !== undefined) return cached;
+
+        const x: number = (vertices[a][0] + vertices[b][0]) / 2,
+            y: number = (vertices[a][1] + vertices[b][1]) / 2,
+            z: number = (vertices[a][2] + vertices[b][2]) / 2,
+            length: number = Math.hypot(x, y, z);
+
+        vertices.push([x / length, y / length, z / length]);
+        midpoints.set(key, vertices.length - 1);
+
+        return vertices.length - 1;
+    }
+
+    for (let level = 0; level < Math.max(0, Math.floor(detail)); level++) {
+
+        const subdivided: number[][] = [];
+
+        for (const [a, b, c] of faces) {
+
+            const ab: number = getMidpoint(a, b),
+                bc: number = getMidpoint(b, c),
+                ca: number = getMidpoint(c, a);
+
+            subdivided.push([a, ab, ca], [b, bc, ab], [c, ca, bc], [ab, bc, ca]);
+        }
+
+        faces = subdivided;
+    }
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    const pushVertex = function (vertex: number[], u: number): number {
+
+        const [x, y, z] = vertex;
+
+        data.positions.push(x * radius, y * radius, z * radius);
+        data.normals.push(x, y, z);
+        data.uvs.push(u, Math.acos(Math.max(-1, Math.min(1, y))) / PI);
+
+        return data.positions.length / 3 - 1;
+    }
+
+    const us: number[] = vertices.map(function (vertex: number[]) {
+        return 0.5 + Math.atan2(vertex[2], -vertex[0]) / TwoPI;
+    });
+
+    for (let i = 0; i < vertices.length; i++) pushVertex(vertices[i], us[i]);
+
+    // Copies of the vertices with 1 added to u, for the triangles crossing the seam.
+    const wrapped: Map<number, number> = new Map();
+
+    for (const face of faces) {
+
+        // The u of a pole is undefined, it follows the other corners of each triangle instead.
+        const isPole: boolean[] = face.map((index: number) => Math.hypot(vertices[index][0], vertices[index][2]) < 1e-9),
+            cornerUs: number[] = face.filter((_: number, i: number) => !isPole[i]).map((index: number) => us[index]).sort((a: number, b: number) => a - b);
+
+        // The seam runs through the largest gap between the corners around the circle. Unless
+        // that gap wraps past u = 1, the corners below it are moved past u = 1.
+        let largestGap: number = cornerUs[0] + 1 - cornerUs[cornerUs.length - 1],
+            seamU: number = -Infinity;
+
+        for (let i = 1; i < cornerUs.length; i++) {
+
+            if (cornerUs[i] - cornerUs[i - 1] <= largestGap) continue;
+
+            largestGap = cornerUs[i] - cornerUs[i - 1];
+            seamU = cornerUs[i];
+        }
+
+        const indices: number[] = face.map(function (index: number, i: number): number {
+
+            if (isPole[i] || us[index] >= seamU) return index;
+
+            let copy: number | undefined = wrapped.get(index);
+
+            if (copy === undefined) wrapped.set(index, copy = pushVertex(vertices[index], us[index] + 1));
+
+            return copy;
+        });
+
+        const poleU: number = indices.reduce((sum: number, index: number, i: number) => isPole[i] ? sum : sum + data.uvs[index * 2], 0) / cornerUs.length;
+
+        for (let i = 0; i < 3; i++) if (isPole[i]) indices[i] = pushVertex(vertices[face[i]], poleU);
+
+        data.indices.push(indices[0], indices[1], indices[2]);
+    }
+
+    return toBufferGeometry(data, "IcosphereGeometry");
+}
+
+/**
+ * Creates a cylinder along the Y axis. Differing top and bottom radii
+ * produce a truncated cone.
+ *
+ * @param openEnded Leaves out the top and bottom caps.
+ */
+export function CreateCylinderGeometry(radiusTop: number = 1, radiusBottom: number = 1, height: number = 1, radialSegments: number = 32, heightSegments: number = 1, openEnded: boolean = false): BufferGeometry {
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    const segmentsX: number = Math.max(3, Math.floor(radialSegments)),
+        segmentsY: number = Math.max(1, Math.floor(heightSegments)),
+        heightHalf: number = height / 2,
+        slope: number = (radiusBottom - radiusTop) / height;
+
+    for (let y = 0; y <= segmentsY; y++) {
+
+        const v: number = y / segmentsY,
+            radius: number = v * (radiusBottom - radiusTop) + radiusTop;
+
+        for (let x = 0; x <= segmentsX; x++) {
+
+            const u: number = x / segmentsX,
+                theta: number = u * TwoPI,
+                sinTheta: number = Math.sin(theta),
+                cosTheta: number = Math.cos(theta),
+                length: number = Math.hypot(sinTheta, slope, cosTheta);
+
+            data.positions.push(radius * sinTheta, -v * height + heightHalf, radius * cosTheta);
+            data.normals.push(sinTheta / length, slope / length, cosTheta / length);
+            data.uvs.push(u, v);
+        }
+    }
+
+    for (let y = 0; y < segmentsY; y++) {
+        for (let x = 0; x < segmentsX; x++) {
+
+            const a: number = y * (segmentsX + 1) + x,
+                b: number = (y + 1) * (segmentsX + 1) + x,
+                c: number = (y + 1) * (segmentsX + 1) + x + 1,
+                d: number = y * (segmentsX + 1) + x + 1;
+
+            // A zero radius collapses the ring into a tip, skip the degenerate triangles.
+            if (y !== 0 || radiusTop !== 0) data.indices.push(a, b, d);
+            if (y !== segmentsY - 1 || radiusBottom !== 0) data.indices.push(b, c, d);
+        }
+    }
+
+    if (!openEnded) {
+
+        radiusTop > 0 && buildCap(data, radiusTop, heightHalf, 1, segmentsX);
+        radiusBottom > 0 && buildCap(data, radiusBottom, -heightHalf, -1, segmentsX);
+    }
+
+    return toBufferGeometry(data, "CylinderGeometry");
+}
+
+function buildCap(data: PrimitiveData, radius: number, y: number, sign: number, segments: number): void {
+
+    const centerIndex: number = data.positions.length / 3;
+
+    data.positions.push(0, y, 0);
+    data.normals.push(0, sign, 0);
+    data.uvs.push(0.5, 0.5);
+
+    for (let x = 0; x <= segments; x++) {
+
+        const theta: number = x / segments * TwoPI,
+            sinTheta: number = Math.sin(theta),
+            cosTheta: number = Math.cos(theta);
+
+        data.positions.push(radius * sinTheta, y, radius * cosTheta);
+        data.normals.push(0, sign, 0);
+        data.uvs.push(sinTheta * 0.5 + 0.5, 0.5 - cosTheta * 0.5 * sign);
+    }
+
+    for (let x = 0; x < segments; x++) {
+
+        const i: number = centerIndex + 1 + x;
+
+        sign > 0
+            ? data.indices.push(centerIndex, i, i + 1)
+            : data.indices.push(centerIndex, i + 1, i);
+    }
+}
+
+/**
+ * Creates a cone along the Y axis with its tip at the top.
+ */
+export function CreateConeGeometry(radius: number = 1, height: number = 1, radialSegments: number = 32, heightSegments: number = 1, openEnded: boolean = false): BufferGeometry {
+
+    const geometry: BufferGeometry = CreateCylinderGeometry(0, radius, height, radialSegments, heightSegments, openEnded);
+
+    geometry.name = "ConeGeometry";
+
+    return geometry;
+}
+
+/**
+ * Creates a torus in the XY plane.
+ *
+ * @param radius Distance from the center of the torus to the center of the tube.
+ * @param tube Radius of the tube.
+ */
+export function CreateTorusGeometry(radius: number = 1, tube: number = 0.4, radialSegments: number = 16, tubularSegments: number = 48): BufferGeometry {
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    const segmentsRadial: number = Math.max(3, Math.floor(radialSegments)),
+        segmentsTubular: number = Math.max(3, Math.floor(tubularSegments));
+
+    for (let j = 0; j <= segmentsRadial; j++) {
+        for (let i = 0; i <= segmentsTubular; i++) {
+
+            const u: number = i / segmentsTubular * TwoPI,
+                v: number = j / segmentsRadial * TwoPI;
+
+            const x: number = (radius + tube * Math.cos(v)) * Math.cos(u),
+                y: number = (radius + tube * Math.cos(v)) * Math.sin(u),
+                z: number = tube * Math.sin(v);
+
+            data.positions.push(x, y, z);
+            data.normals.push(Math.cos(v) * Math.cos(u), Math.cos(v) * Math.sin(u), Math.sin(v));
+            data.uvs.push(i / segmentsTubular, 1 - j / segmentsRadial);
+        }
+    }
+
+    for (let j = 1; j <= segmentsRadial; j++) {
+        for (let i = 1; i <= segmentsTubular; i++) {
+
+            const a: number = (segmentsTubular + 1) * j + i - 1,
+                b: number = (segmentsTubular + 1) * (j - 1) + i - 1,
+                c: number = (segmentsTubular + 1) * (j - 1) + i,
+                d: number = (segmentsTubular + 1) * j + i;
+
+            data.indices.push(a, b, d, b, c, d);
+        }
+    }
+
+    return toBufferGeometry(data, "TorusGeometry");
+}
+
+/**
+ * Creates a capsule along the Y axis: a cylinder with a hemisphere on
+ * either end.
+ *
+ * @param radius Radius of the cylinder and hemispheres.
+ * @param length Length of the cylindrical part, excluding the hemispheres.
+ * @param capSegments Amount of rings per hemisphere.
+ */
+export function CreateCapsuleGeometry(radius: number = 0.5, length: number = 1, capSegments: number = 8, radialSegments: number = 32): BufferGeometry {
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    const segmentsCap: number = Math.max(1, Math.floor(capSegments)),
+        segmentsRadial: number = Math.max(3, Math.floor(radialSegments)),
+        lengthHalf: number = length / 2;
+
+    // Profile of the capsule from the top pole to the bottom pole: ring radius, height and normal.
+    const rings: { radius: number, y: number, normalRadius: number, normalY: number }[] = [];
+
+    for (let i = 0; i <= segmentsCap; i++) {
+
+        const phi: number = i / segmentsCap * HalfPI;
+
+        rings.push({ radius: radius * Math.sin(phi), y: lengthHalf + radius * Math.cos(phi), normalRadius: Math.sin(phi), normalY: Math.cos(phi) });
+    }
+
+    for (let i = 0; i <= segmentsCap; i++) {
+
+        const phi: number = HalfPI + i / segmentsCap * HalfPI;
+
+        rings.push({ radius: radius * Math.sin(phi), y: -lengthHalf + radius * Math.cos(phi), normalRadius: Math.sin(phi), normalY: Math.cos(phi) });
+    }
+
+    // V coordinates follow the arc length of the profile.
+    const totalLength: number = HalfPI * radius * 2 + length;
+
+    let travelled: number = 0;
+
+    for (let k = 0; k < rings.length; k++) {
+
+        const ring = rings[k];
+
+        if (k > 0) travelled += Math.hypot(ring.radius - rings[k - 1].radius, ring.y - rings[k - 1].y);
+
+        for (let x = 0; x <= segmentsRadial; x++) {
+
+            const u: number = x / segmentsRadial,
+                theta: number = u * TwoPI,
+                sinTheta: number = Math.sin(theta),
+                cosTheta: number = Math.cos(theta);
+
+            data.positions.push(ring.radius * sinTheta, ring.y, ring.radius * cosTheta);
+            data.normals.push(ring.normalRadius * sinTheta, ring.normalY, ring.normalRadius * cosTheta);
+            data.uvs.push(u, totalLength > 0 ? Math.min(1, travelled / totalLength) : 0);
+        }
+    }
+
+    for (let k = 0; k < rings.length - 1; k++) {
+        for (let x = 0; x < segmentsRadial; x++) {
+
+            const a: number = k * (segmentsRadial + 1) + x,
+                b: number = (k + 1) * (segmentsRadial + 1) + x,
+                c: number = (k + 1) * (segmentsRadial + 1) + x + 1,
+                d: number = k * (segmentsRadial + 1) + x + 1;
+
+            // The first and last ring collapse into a pole, skip the degenerate triangles.
+            if (k !== 0) data.indices.push(a, b, d);
+            if (k !== rings.length - 2) data.indices.push(b, c, d);
+        }
+    }
+
+    return toBufferGeometry(data, "CapsuleGeometry");
+}
+
+/**
+ * Creates a flat, filled circle in the XY plane, facing +Z.
+ */
+export function CreateDiscGeometry(radius: number = 1, segments: number = 32): BufferGeometry {
+
+    const data: PrimitiveData = createPrimitiveData();
+
+    const segmentCount: number = Math.max(3, Math.floor(segments));
+
+    data.positions.push(0, 0, 0);
+    data.normals.push(0, 0, 1);
+    data.uvs.push(0.5, 0.5);
+
+    for (let i = 0; i <= segmentCount; i++) {
+
+        const theta: number = i / segmentCount * TwoPI,
+            x: number = Math.cos(theta),
+            y: number = Math.sin(theta);
+
+        data.positions.push(x * radius, y * radius, 0);
+        data.normals.push(0, 0, 1);
+        data.uvs.push((x + 1) / 2, 1 - (y + 1) / 2);
+    }
+
+    for (let i = 1; i <= segmentCount; i++) {
+        data.indices.push(0, i, i + 1);
+    }
+
+    return toBufferGeometry(data, "DiscGeometry");
+}
\ No newline at end of file
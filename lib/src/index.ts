@@ -59,32 +59,135 @@ export {
     MaxSafeInt,
     DefaultGravity,
     DefaultAirDensity,
-    Debug, Vector2, Vector3, Vector4, Color,
+    Debug, Vector2, Vector3, Vector4, Color, Transform,
+    BoundingBox, BoundingSphere, Frustum, Ray,
     EnsureWebGPU,
 } from "./utilities/exports";
 
 export {
     SimpleTriangle,
-    CubeGeometry
+    Shape2D,
+    Rectangle,
+    RoundedRectangle,
+    Ellipse,
+    Circle,
+    RegularPolygon,
+    Polygon,
+    Sprite,
+    Text2D,
+    CubeGeometry,
+    BufferGeometry,
+    BufferAttribute,
+    InterleavedBuffer,
+    CreatePlaneGeometry,
+    CreateBoxGeometry,
+    CreateUVSphereGeometry,
+    CreateIcosphereGeometry,
+    CreateCylinderGeometry,
+    CreateConeGeometry,
+    CreateTorusGeometry,
+    CreateCapsuleGeometry,
+    CreateDiscGeometry
 } from "./geometries/exports";
 
 export {
     WebGPURenderer,
-    Renderable
+    Renderable,
+    Mesh,
+    InstancedMesh,
+    RenderTarget,
+    GPUPicker,
+    Canvas2DRenderer
 } from "./renderer/exports";
 
+export {
+    Material,
+    BasicColorMaterial,
+    VertexColorMaterial,
+    LambertMaterial,
+    BasicTextureMaterial,
+    PhongMaterial,
+    PhongTextureMaterial,
+    PBRMaterial,
+    GetBlendState
+} from "./materials/exports";
+
+export {
+    Light,
+    AmbientLight,
+    DirectionalLight,
+    PointLight,
+    SpotLight,
+    LightShadow
+} from "./lights/exports";
+
+export {
+    Texture,
+    Sampler
+} from "./textures/exports";
+
 export {
     Camera,
-    PerspectiveCamera
+    PerspectiveCamera,
+    OrthographicCamera,
+    TwoDimensionalCamera
 } from "./camera/exports"; 
 
 export {
-    WebGPURendererScene, Thread
+    CameraController,
+    OrbitController,
+    FlyController,
+    FirstPersonController
+} from "./controls/exports";
+
+export {
+    WebGPURendererScene, Thread, SceneNode, Raycaster
 } from "./others/exports";
 
+export {
+    GLTFLoader,
+    OBJLoader,
+    OBJParser,
+    IsGLB,
+    ParseGLB,
+    ReadAccessor,
+    ReadPrimitive,
+    ParseOBJ,
+    ParseMTL
+} from "./loaders/exports";
+
+export {
+    EffectComposer,
+    EffectPass,
+    ShaderPass,
+    FXAAPass,
+    BloomPass,
+    ToneMappingPass,
+    VignettePass,
+    ColorGradingPass,
+    ChromaticAberrationPass
+} from "./postprocessing/exports";
+
+export {
+    MockGPU,
+    MockGPUAdapter,
+    MockGPUDevice,
+    MockGPUQueue,
+    MockGPUBuffer,
+    MockGPUTexture,
+    MockGPUCommandEncoder,
+    MockGPURenderPassEncoder,
+    MockGPURenderPipeline,
+    MockGPUCanvasContext,
+    MockGPUObject,
+    MockCanvas,
+    GPUCommandLog,
+    InstallMockGPUGlobals
+} from "./testing/exports";
+
 // Exporting typings.
 export {
-    Vec2, Vec3, Vec4,
+    Vec2, Vec3, Vec4, Bounds2D,
     ColorfulObject,
     Direction,
     ThreadOnLoopEvent,
@@ -95,5 +198,34 @@ export {
     FluexGlDebuggerOptions,
     WebGPUEnsureState,
     WebGPURendererFrameInfo,
-    WebGPURendererOptions
+    WebGPURendererInfo,
+    RenderTargetOptions,
+    EffectComposerOptions,
+    GPUPickerOptions,
+    ToneMappingMode,
+    RaycastHit,
+    WebGPURendererOptions,
+    MockGPUCommandType,
+    MockGPUCommand,
+    MockGPUDrawCall,
+    Canvas2DRendererOptions,
+    VertexAttributeName,
+    GeometryData,
+    TextureColorSpace,
+    TexturePixelData,
+    TextureSource,
+    TextureOptions,
+    SamplerOptions,
+    MaterialTextureBinding,
+    BlendMode,
+    LightType,
+    GLTFDocument,
+    GLTFLoaderOptions,
+    GLTFAsset,
+    OBJData,
+    OBJMeshData,
+    MTLMaterialData,
+    MTLTextureMap,
+    OBJLoaderOptions,
+    OBJAsset
 } from "./typings";
\ No newline at end of file
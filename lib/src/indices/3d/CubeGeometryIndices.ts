@@ -3,14 +3,14 @@ export default function CubeGeometryIndices(): number[] {
         // Front
         0, 1, 2, 2, 3, 0,
         // Right
-        1, 5, 6, 6, 2, 1,
+        4, 5, 6, 6, 7, 4,
         // Back
-        5, 4, 7, 7, 6, 5,
+        8, 9, 10, 10, 11, 8,
         // Left
-        4, 0, 3, 3, 7, 4,
+        12, 13, 14, 14, 15, 12,
         // Top
-        3, 2, 6, 6, 7, 3,
+        16, 17, 18, 18, 19, 16,
         // Bottom
-        4, 5, 1, 1, 0, 4,
+        20, 21, 22, 22, 23, 20,
     ];
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { Light } from "./Light";
+import { LightType } from "../../typings";
+
+/**
+ * Lights every surface equally from all directions. The contributions of
+ * all ambient lights in a scene are summed into a single ambient term.
+ */
+export class AmbientLight extends Light {
+
+    public readonly type: LightType = "ambient";
+}
\ No newline at end of file
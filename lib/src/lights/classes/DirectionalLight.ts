@@ -0,0 +1,62 @@
+import { mat4 } from "gl-matrix";
+
+import { Light } from "./Light";
+import { Color, Vector3 } from "../../utilities/exports";
+import { LightType } from "../../typings";
+import { LightTypeIndices } from "../functions/packing";
+import { ComputeCascadeShadowMatrices } from "../functions/shadows";
+
+import type { Camera } from "../../camera/classes/Camera";
+
+/**
+ * A light infinitely far away whose rays are parallel, such as the sun.
+ * Only its direction matters, its position is ignored.
+ *
+ * Shadows use cascaded shadow maps, fitted to the view frustum of the
+ * camera; see {@link LightShadow}.
+ *
+ * @example
+ * ```ts
+ * const sun = new DirectionalLight(new Color(1, 0.95, 0.9), 1.2);
+ *
+ * sun.direction.Set(-1, -2, -1);
+ * scene.Add(sun);
+ * ```
+ */
+export class DirectionalLight extends Light {
+
+    public readonly type: LightType = "directional";
+
+    /** The direction the light travels in, in the local space of the light. */
+    public direction: Vector3 = new Vector3(-0.5, -1, -0.75);
+
+    private worldDirection: Vector3 = new Vector3();
+
+    constructor(color?: Color, intensity?: number) {
+        super(color, intensity);
+    }
+
+    public SetDirection(x: number, y: number, z: number): DirectionalLight {
+
+        this.direction.Set(x, y, z);
+        return this;
+    }
+
+    public override GetShadowMatrices(camera: Camera): mat4[] {
+
+        return ComputeCascadeShadowMatrices(this.GetWorldDirection(this.direction, this.worldDirection), camera, this.shadow);
+    }
+
+    public override Pack(data: Float32Array, offset: number): void {
+
+        super.Pack(data, offset);
+
+        const direction: Vector3 = this.GetWorldDirection(this.direction, this.worldDirection);
+
+        data[offset + 3] = LightTypeIndices.directional;
+
+        data[offset + 4] = direction.x;
+        data[offset + 5] = direction.y;
+        data[offset + 6] = direction.z;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { mat4 } from "gl-matrix";
+
+import { SceneNode } from "../../others/classes/SceneNode";
+import { LightShadow } from "./LightShadow";
+import { Color, Vector3 } from "../../utilities/exports";
+import { LightType } from "../../typings";
+
+import type { Camera } from "../../camera/classes/Camera";
+
+/**
+ * Base class of the light sources. Lights are scene nodes; add them to a
+ * {@link WebGPURendererScene} like any other node and they take part in
+ * the hierarchy, so a light parented to a mesh moves along with it.
+ *
+ * Every frame the scene packs the visible lights into a storage buffer,
+ * which lit materials read from.
+ *
+ * Directional and spot lights can cast shadows onto renderables with
+ * `receiveShadow` enabled, from renderables with `castShadow` enabled.
+ */
+export abstract class Light extends SceneNode {
+
+    public isLight: boolean = true;
+
+    public abstract readonly type: LightType;
+
+    /** Whether the light renders shadow maps. Supported by directional and spot lights. */
+    public castShadow: boolean = false;
+
+    public shadow: LightShadow = new LightShadow();
+
+    constructor(public color: Color = new Color(1, 1, 1, 1), public intensity: number = 1) {
+        super();
+    }
+
+    /**
+     * Packs this light into 16 floats of the light storage buffer:
+     * position and type, direction and range, color and decay, the
+     * cosines of the spot cone angles, and the first shadow map and amount
+     * of shadow maps of the light.
+     *
+     * Note: this is an internal method which is called by the scene
+     * once per frame. Ambient lights are not packed individually.
+     */
+    public Pack(data: Float32Array, offset: number): void {
+
+        data.fill(0, offset, offset + 16);
+
+        data[offset + 8] = this.color.red * this.intensity;
+        data[offset + 9] = this.color.green * this.intensity;
+        data[offset + 10] = this.color.blue * this.intensity;
+
+        // No shadow maps, until they are assigned by the scene.
+        data[offset + 14] = -1;
+    }
+
+    /**
+     * Returns the view-projection matrices of the shadow maps of this
+     * light for the given camera, one per shadow map. Lights which do not
+     * support shadows return an empty array.
+     *
+     * Note: this is an internal method which is called by the scene
+     * once per frame, after the world matrices have been updated.
+     */
+    public GetShadowMatrices(camera: Camera): mat4[] {
+        return [];
+    }
+
+    /**
+     * Transforms a direction from the local space of this light into world
+     * space, as of the last world matrix update.
+     */
+    public GetWorldDirection(direction: Vector3, target: Vector3 = new Vector3()): Vector3 {
+
+        const matrix: mat4 = this.worldMatrix;
+
+        const x: number = matrix[0] * direction.x + matrix[4] * direction.y + matrix[8] * direction.z,
+            y: number = matrix[1] * direction.x + matrix[5] * direction.y + matrix[9] * direction.z,
+            z: number = matrix[2] * direction.x + matrix[6] * direction.y + matrix[10] * direction.z,
+            length: number = Math.hypot(x, y, z) || 1;
+
+        return target.Set(x / length, y / length, z / length);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+/**
+ * Shadow settings of a light. Only used while the light has
+ * `castShadow` enabled.
+ *
+ * Directional lights render one shadow map per cascade. The cascades
+ * divide the view frustum of the camera, up to {@link maxDistance}, into
+ * consecutive ranges, so nearby shadows get more resolution than distant
+ * ones. Spot lights render a single shadow map covering their cone.
+ *
+ * @example
+ * ```ts
+ * sun.castShadow = true;
+ * sun.shadow.mapSize = 2048;
+ * sun.shadow.cascadeCount = 3;
+ * sun.shadow.maxDistance = 80;
+ * ```
+ */
+export class LightShadow {
+
+    /** Width and height of the shadow map in texels. */
+    public mapSize: number = 1024;
+
+    /** Depth offset subtracted before the depth comparison, to prevent shadow acne. */
+    public bias: number = 0.0005;
+
+    /** Distance in world units a receiving surface is pushed along its normal before the lookup. */
+    public normalBias: number = 0.02;
+
+    /**
+     * Radius of the percentage-closer filtering kernel in texels. Zero
+     * takes a single, bilinear filtered sample; higher values give softer
+     * edges at the cost of (2 * radius + 1)² samples.
+     */
+    public pcfRadius: number = 1;
+
+    /** Amount of cascades of a directional light, between 1 and 4. */
+    public cascadeCount: number = 1;
+
+    /**
+     * Blend between a uniform (0) and logarithmic (1) distribution of the
+     * cascade splits.
+     */
+    public cascadeSplitLambda: number = 0.6;
+
+    /** Distance from the camera up to which directional shadows are rendered. */
+    public maxDistance: number = 50;
+
+    /**
+     * Distance behind each cascade, towards a directional light, in which
+     * objects still cast shadows into the cascade.
+     */
+    public casterDistance: number = 50;
+
+    /** Near plane of the shadow camera of a spot light. */
+    public near: number = 0.1;
+
+    /** Far plane of the shadow camera of a spot light without a range. */
+    public far: number = 100;
+}
\ No newline at end of file
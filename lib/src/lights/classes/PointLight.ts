@@ -0,0 +1,43 @@
+import { Light } from "./Light";
+import { Color, Vector3 } from "../../utilities/exports";
+import { LightType } from "../../typings";
+import { LightTypeIndices } from "../functions/packing";
+
+/**
+ * A light emitting in all directions from a single point, such as a
+ * light bulb.
+ *
+ * The intensity falls off with the distance raised to the power of
+ * {@link decay}, and is smoothly faded to zero at {@link range}.
+ */
+export class PointLight extends Light {
+
+    public readonly type: LightType = "point";
+
+    private worldPosition: Vector3 = new Vector3();
+
+    /**
+     * @param range The distance at which the light reaches zero. Zero means
+     * the light has no cutoff.
+     * @param decay The falloff exponent; 2 is physically correct, 0 disables
+     * the falloff.
+     */
+    constructor(color?: Color, intensity?: number, public range: number = 10, public decay: number = 2) {
+        super(color, intensity);
+    }
+
+    public override Pack(data: Float32Array, offset: number): void {
+
+        super.Pack(data, offset);
+
+        const position: Vector3 = this.GetWorldPosition(this.worldPosition);
+
+        data[offset] = position.x;
+        data[offset + 1] = position.y;
+        data[offset + 2] = position.z;
+        data[offset + 3] = LightTypeIndices.point;
+
+        data[offset + 7] = Math.max(0, this.range);
+        data[offset + 11] = Math.max(0, this.decay);
+    }
+}
\ No newline at end of file
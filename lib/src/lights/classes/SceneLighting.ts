@@ -0,0 +1,187 @@
+import { mat4 } from "gl-matrix";
+
+import { Light } from "./Light";
+import { AmbientLight } from "./AmbientLight";
+import { LightShadow } from "./LightShadow";
+import { SceneShadows } from "./SceneShadows";
+import { LightFloatCount, LightHeaderFloatCount } from "../functions/packing";
+import { MaxShadowMapCount } from "../functions/shadows";
+import { CreateLightBindGroupLayoutDescriptor } from "../../renderer/functions/layouts";
+import { WebGPURenderContext } from "../../typings";
+
+import type { Camera } from "../../camera/classes/Camera";
+import type { Renderable } from "../../renderer/classes/Renderable";
+
+/**
+ * Owns the light storage buffer and shadow maps of a scene, and the bind
+ * group through which lit materials read them.
+ *
+ * The buffer starts with the summed color of the ambient lights and the
+ * amount of lights, followed by an array of packed lights. It grows when
+ * more lights are added than it can hold, which recreates the bind group.
+ *
+ * Shadow maps are assigned to the shadow casting lights in scene order,
+ * up to {@link MaxShadowMapCount} per frame.
+ */
+export class SceneLighting {
+
+    /** The light storage buffer and its bind group, `null` until the first update and after being disposed. */
+    public buffer: GPUBuffer | null = null;
+    declare public bindGroupLayout: GPUBindGroupLayout;
+    public bindGroup: GPUBindGroup | null = null;
+
+    /** The amount of lights packed into the buffer during the last update. */
+    public lightCount: number = 0;
+
+    public shadows: SceneShadows = new SceneShadows();
+
+    // Versions of the resources the current bind group was created with.
+    private boundBuffer: GPUBuffer | null = null;
+    private boundShadowsVersion: number = -1;
+
+    private data: Float32Array = new Float32Array(LightHeaderFloatCount + LightFloatCount * 8);
+
+    /**
+     * Packs the given lights and writes them to the storage buffer, and
+     * computes the shadow maps of the shadow casting lights for the camera.
+     *
+     * Note: this is an internal method which is called by the renderer
+     * once per frame, after the scene has been updated.
+     */
+    public Update(device: GPUDevice, lights: Light[], camera: Camera): SceneLighting {
+
+        const capacity: number = Math.max(1, lights.length);
+
+        if (this.getCapacity() < capacity) {
+
+            this.data = new Float32Array(LightHeaderFloatCount + LightFloatCount * Math.max(capacity, this.getCapacity() * 2));
+        }
+
+        const data: Float32Array = this.data;
+
+        const shadowMatrices: mat4[] = [],
+            shadowSettings: LightShadow[] = [];
+
+        let count: number = 0,
+            ambientRed: number = 0,
+            ambientGreen: number = 0,
+            ambientBlue: number = 0;
+
+        for (const light of lights) {
+
+            if (light instanceof AmbientLight) {
+
+                ambientRed += light.color.red * light.intensity;
+                ambientGreen += light.color.green * light.intensity;
+                ambientBlue += light.color.blue * light.intensity;
+
+                continue;
+            }
+
+            const offset: number = LightHeaderFloatCount + count * LightFloatCount;
+
+            light.Pack(data, offset);
+            count++;
+
+            if (!light.castShadow) continue;
+
+            const matrices: mat4[] = light.GetShadowMatrices(camera);
+
+            if (matrices.length === 0 || shadowMatrices.length + matrices.length > MaxShadowMapCount) continue;
+
+            data[offset + 14] = shadowMatrices.length;
+            data[offset + 15] = matrices.length;
+
+            for (const matrix of matrices) {
+
+                shadowMatrices.push(matrix);
+                shadowSettings.push(light.shadow);
+            }
+        }
+
+        data[0] = ambientRed;
+        data[1] = ambientGreen;
+        data[2] = ambientBlue;
+        data[3] = count;
+
+        this.lightCount = count;
+
+        const buffer: GPUBuffer = this.ensureBuffer(device);
+
+        this.shadows.Update(device, shadowMatrices, shadowSettings);
+        this.ensureBindGroup(device, buffer);
+
+        device.queue.writeBuffer(buffer, 0, data as GPUAllowSharedBufferSource, 0, LightHeaderFloatCount + Math.max(1, count) * LightFloatCount);
+
+        return this;
+    }
+
+    /**
+     * Renders the shadow maps assigned during the last update.
+     *
+     * Note: this is an internal method which is called by the renderer
+     * once per frame, before the main pass.
+     */
+    public RenderShadows(context: WebGPURenderContext, renderables: Renderable[]): void {
+
+        this.shadows.Render(context, renderables);
+    }
+
+    public Dispose(): void {
+
+        this.buffer && this.buffer.destroy();
+        this.shadows.Dispose();
+
+        this.buffer = null;
+        this.bindGroup = null;
+        this.boundBuffer = null;
+    }
+
+    // Private and protected class members.
+
+    private getCapacity(): number {
+        return (this.data.length - LightHeaderFloatCount) / LightFloatCount;
+    }
+
+    private ensureBuffer(device: GPUDevice): GPUBuffer {
+
+        if (this.buffer && this.buffer.size === this.data.byteLength) return this.buffer;
+
+        this.buffer && this.buffer.destroy();
+
+        this.buffer = device.createBuffer({
+            label: "SceneLighting-StorageBuffer",
+            size: this.data.byteLength,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+        });
+
+        return this.buffer;
+    }
+
+    private ensureBindGroup(device: GPUDevice, buffer: GPUBuffer): void {
+
+        const shadows: SceneShadows = this.shadows,
+            { buffer: shadowBuffer, textureView, sampler } = shadows;
+
+        if (this.bindGroup && this.boundBuffer === buffer && this.boundShadowsVersion === shadows.version) return;
+
+        // The shadow resources are created by the update of the shadows, which runs first.
+        if (!shadowBuffer || !textureView || !sampler) return;
+
+        if (!this.bindGroupLayout) this.bindGroupLayout = device.createBindGroupLayout(CreateLightBindGroupLayoutDescriptor());
+
+        this.bindGroup = device.createBindGroup({
+            label: "SceneLighting-BindGroup",
+            layout: this.bindGroupLayout,
+            entries: [
+                { binding: 0, resource: { buffer } },
+                { binding: 1, resource: { buffer: shadowBuffer } },
+                { binding: 2, resource: textureView },
+                { binding: 3, resource: sampler }
+            ]
+        });
+
+        this.boundBuffer = buffer;
+        this.boundShadowsVersion = shadows.version;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,251 @@
+import { mat4 } from "gl-matrix";
+
+import { LightShadow } from "./LightShadow";
+import { ShadowMapFloatCount } from "../functions/shadows";
+import { CameraBindGroupIndex, CreateCameraBindGroupLayoutDescriptor } from "../../renderer/functions/layouts";
+import { WebGPURenderContext } from "../../typings";
+
+import type { Renderable } from "../../renderer/classes/Renderable";
+
+/** Depth format of the shadow maps. */
+export const ShadowMapFormat: GPUTextureFormat = "depth32float";
+
+interface ShadowMapView {
+    matrix: mat4;
+    shadow: LightShadow;
+    uniformBuffer: GPUBuffer;
+    bindGroup: GPUBindGroup;
+}
+
+/**
+ * Owns the shadow maps of a scene: a depth texture array with one layer
+ * per shadow map, and a storage buffer with the view-projection matrix
+ * and filter parameters of each shadow map.
+ *
+ * All layers share the size of the largest shadow map of the frame; a
+ * smaller shadow map only covers the top left part of its layer.
+ */
+export class SceneShadows {
+
+    /** The shadow map resources, `null` until the first update and after being disposed. */
+    public texture: GPUTexture | null = null;
+    public textureView: GPUTextureView | null = null;
+    public buffer: GPUBuffer | null = null;
+    public sampler: GPUSampler | null = null;
+
+    /** The amount of shadow maps rendered during the last frame. */
+    public shadowMapCount: number = 0;
+
+    /** Incremented when the texture or buffer is recreated, which invalidates bind groups using them. */
+    public version: number = 0;
+
+    private views: ShadowMapView[] = [];
+    private layerViews: GPUTextureView[] = [];
+    private data: Float32Array = new Float32Array(ShadowMapFloatCount);
+
+    declare private cameraBindGroupLayout: GPUBindGroupLayout;
+
+    private renderContext: WebGPURenderContext | null = null;
+
+    /**
+     * Writes the shadow maps of the frame to the storage buffer, and
+     * makes sure the texture has a layer of sufficient size for each.
+     */
+    public Update(device: GPUDevice, matrices: mat4[], shadows: LightShadow[]): SceneShadows {
+
+        const count: number = matrices.length,
+            textureSize: number = shadows.reduce((size: number, shadow: LightShadow) => Math.max(size, this.getMapSize(shadow)), 1);
+
+        this.ensureTexture(device, textureSize, Math.max(1, count));
+
+        const buffer: GPUBuffer = this.ensureBuffer(device, Math.max(1, count));
+
+        const data: Float32Array = this.data;
+
+        for (let i = 0; i < count; i++) {
+
+            const shadow: LightShadow = shadows[i],
+                offset: number = i * ShadowMapFloatCount,
+                view: ShadowMapView = this.getView(device, i);
+
+            data.set(matrices[i], offset);
+
+            data[offset + 16] = shadow.bias;
+            data[offset + 17] = shadow.normalBias;
+            data[offset + 18] = Math.max(0, Math.min(4, Math.floor(shadow.pcfRadius)));
+            data[offset + 19] = this.getMapSize(shadow) / textureSize;
+
+            view.matrix = matrices[i];
+            view.shadow = shadow;
+
+            device.queue.writeBuffer(view.uniformBuffer, 0, matrices[i] as unknown as ArrayBuffer);
+        }
+
+        this.shadowMapCount = count;
+
+        device.queue.writeBuffer(buffer, 0, data as GPUAllowSharedBufferSource, 0, Math.max(1, count) * ShadowMapFloatCount);
+
+        return this;
+    }
+
+    /**
+     * Renders the depth of the shadow casting renderables into every
+     * shadow map. The passes are submitted right away, so they complete
+     * before the main pass of the frame.
+     */
+    public Render(context: WebGPURenderContext, renderables: Renderable[]): void {
+
+        if (this.shadowMapCount === 0) return;
+
+        const device: GPUDevice = context.device,
+            shadowContext: WebGPURenderContext = this.getRenderContext(context),
+            encoder: GPUCommandEncoder = device.createCommandEncoder({ label: "SceneShadows-CommandEncoder" });
+
+        for (let i = 0; i < this.shadowMapCount; i++) {
+
+            const view: ShadowMapView = this.views[i],
+                mapSize: number = this.getMapSize(view.shadow);
+
+            const pass: GPURenderPassEncoder = encoder.beginRenderPass({
+                label: "SceneShadows-RenderPass-" + i,
+                colorAttachments: [],
+                depthStencilAttachment: {
+                    view: this.layerViews[i],
+                    depthLoadOp: "clear",
+                    depthStoreOp: "store",
+                    depthClearValue: 1.0
+                }
+            });
+
+            pass.setViewport(0, 0, mapSize, mapSize, 0, 1);
+            pass.setScissorRect(0, 0, mapSize, mapSize);
+            pass.setBindGroup(CameraBindGroupIndex, view.bindGroup);
+
+            shadowContext.viewProjectionMatrix = view.matrix;
+
+            for (const renderable of renderables) {
+                renderable.castShadow && renderable.RenderDepth(pass, shadowContext);
+            }
+
+            pass.end();
+        }
+
+        device.queue.submit([encoder.finish()]);
+    }
+
+    public Dispose(): void {
+
+        this.texture && this.texture.destroy();
+        this.buffer && this.buffer.destroy();
+
+        for (const view of this.views) view.uniformBuffer.destroy();
+
+        this.texture = null;
+        this.textureView = null;
+        this.buffer = null;
+        this.views = [];
+        this.layerViews = [];
+        this.shadowMapCount = 0;
+        this.version++;
+    }
+
+    // Private and protected class members.
+
+    private getMapSize(shadow: LightShadow): number {
+        return Math.max(1, Math.min(8192, Math.floor(shadow.mapSize)));
+    }
+
+    // Render context of the depth passes: no color target, no multisampling and the shadow map depth format.
+    private getRenderContext(context: WebGPURenderContext): WebGPURenderContext {
+
+        this.renderContext = Object.assign(this.renderContext ?? { ...context }, context, {
+            sampleCount: 1,
+            depthFormat: ShadowMapFormat,
+            // Light projections never mirror the image.
+            frontFace: "ccw"
+        });
+
+        return this.renderContext;
+    }
+
+    private getView(device: GPUDevice, index: number): ShadowMapView {
+
+        if (this.views[index]) return this.views[index];
+
+        if (!this.cameraBindGroupLayout) this.cameraBindGroupLayout = device.createBindGroupLayout(CreateCameraBindGroupLayoutDescriptor());
+
+        // Same layout as the camera uniforms, so the depth shader reads the light matrix as the camera.
+        const uniformBuffer: GPUBuffer = device.createBuffer({
+            label: "SceneShadows-CameraUniformBuffer-" + index,
+            size: 80,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+        });
+
+        const view: ShadowMapView = {
+            matrix: mat4.create(),
+            shadow: new LightShadow(),
+            uniformBuffer,
+            bindGroup: device.createBindGroup({
+                label: "SceneShadows-CameraBindGroup-" + index,
+                layout: this.cameraBindGroupLayout,
+                entries: [{ binding: 0, resource: { buffer: uniformBuffer } }]
+            })
+        };
+
+        this.views[index] = view;
+
+        return view;
+    }
+
+    private ensureTexture(device: GPUDevice, size: number, layerCount: number): void {
+
+        if (this.texture && this.texture.width === size && this.texture.depthOrArrayLayers === layerCount) return;
+
+        this.texture && this.texture.destroy();
+
+        if (!this.sampler) this.sampler = device.createSampler({
+            label: "SceneShadows-Sampler",
+            compare: "less-equal",
+            magFilter: "linear",
+            minFilter: "linear",
+            addressModeU: "clamp-to-edge",
+            addressModeV: "clamp-to-edge"
+        });
+
+        const texture: GPUTexture = this.texture = device.createTexture({
+            label: "SceneShadows-Texture",
+            size: { width: size, height: size, depthOrArrayLayers: layerCount },
+            format: ShadowMapFormat,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING
+        });
+
+        this.textureView = texture.createView({ label: "SceneShadows-TextureView", dimension: "2d-array" });
+
+        this.layerViews = [];
+
+        for (let layer = 0; layer < layerCount; layer++) {
+            this.layerViews.push(texture.createView({ dimension: "2d", baseArrayLayer: layer, arrayLayerCount: 1 }));
+        }
+
+        this.version++;
+    }
+
+    private ensureBuffer(device: GPUDevice, count: number): GPUBuffer {
+
+        if (this.data.length < count * ShadowMapFloatCount) this.data = new Float32Array(count * ShadowMapFloatCount);
+
+        if (this.buffer && this.buffer.size === this.data.byteLength) return this.buffer;
+
+        this.buffer && this.buffer.destroy();
+
+        this.buffer = device.createBuffer({
+            label: "SceneShadows-StorageBuffer",
+            size: this.data.byteLength,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+        });
+
+        this.version++;
+
+        return this.buffer;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { mat4 } from "gl-matrix";
+
+import { PointLight } from "./PointLight";
+import { Color, Vector3 } from "../../utilities/exports";
+import { LightType } from "../../typings";
+import { LightTypeIndices } from "../functions/packing";
+import { ComputeSpotShadowMatrix } from "../functions/shadows";
+
+import type { Camera } from "../../camera/classes/Camera";
+
+/**
+ * A point light restricted to a cone, such as a flashlight.
+ *
+ * Surfaces within the inner cone angle receive the full intensity, which
+ * fades out towards the outer cone angle. Both angles are measured from
+ * the axis of the cone, in radians.
+ */
+export class SpotLight extends PointLight {
+
+    public override readonly type: LightType = "spot";
+
+    /** The direction the cone points in, in the local space of the light. */
+    public direction: Vector3 = new Vector3(0, -1, 0);
+
+    private worldDirection: Vector3 = new Vector3();
+    private shadowPosition: Vector3 = new Vector3();
+
+    constructor(color?: Color, intensity?: number, range?: number, public innerConeAngle: number = Math.PI / 8, public outerConeAngle: number = Math.PI / 6, decay?: number) {
+        super(color, intensity, range, decay);
+    }
+
+    public SetDirection(x: number, y: number, z: number): SpotLight {
+
+        this.direction.Set(x, y, z);
+        return this;
+    }
+
+    public override GetShadowMatrices(camera: Camera): mat4[] {
+
+        const position: Vector3 = this.GetWorldPosition(this.shadowPosition),
+            direction: Vector3 = this.GetWorldDirection(this.direction, this.worldDirection);
+
+        return [ComputeSpotShadowMatrix(mat4.create(), position, direction, this.outerConeAngle, this.range, this.shadow)];
+    }
+
+    public override Pack(data: Float32Array, offset: number): void {
+
+        super.Pack(data, offset);
+
+        const direction: Vector3 = this.GetWorldDirection(this.direction, this.worldDirection),
+            outerConeAngle: number = Math.max(0, this.outerConeAngle),
+            innerConeAngle: number = Math.min(Math.max(0, this.innerConeAngle), outerConeAngle);
+
+        data[offset + 3] = LightTypeIndices.spot;
+
+        data[offset + 4] = direction.x;
+        data[offset + 5] = direction.y;
+        data[offset + 6] = direction.z;
+
+        data[offset + 12] = Math.cos(innerConeAngle);
+        data[offset + 13] = Math.cos(outerConeAngle);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+export { Light } from "./classes/Light";
+export { AmbientLight } from "./classes/AmbientLight";
+export { DirectionalLight } from "./classes/DirectionalLight";
+export { PointLight } from "./classes/PointLight";
+export { SpotLight } from "./classes/SpotLight";
+export { LightShadow } from "./classes/LightShadow";
+export { SceneLighting } from "./classes/SceneLighting";
+export { SceneShadows, ShadowMapFormat } from "./classes/SceneShadows";
+export { LightTypeIndices, LightHeaderFloatCount, LightFloatCount } from "./functions/packing";
+export { MaxShadowMapCount, MaxShadowCascadeCount, ShadowMapFloatCount, ComputeSpotShadowMatrix, ComputeCascadeShadowMatrices } from "./functions/shadows";
\ No newline at end of file
@@ -0,0 +1,15 @@
+/**
+ * Type indices of the lights in the light storage buffer, matching the
+ * constants in Lights.wgsl.
+ */
+export const LightTypeIndices = {
+    directional: 0,
+    point: 1,
+    spot: 2
+} as const;
+
+/** Floats before the light array: the summed ambient color and the light count. */
+export const LightHeaderFloatCount: number = 4;
+
+/** Floats per packed light. */
+export const LightFloatCount: number = 16;
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { mat4, vec3, vec4 } from "gl-matrix";
+
+import { Vector3 } from "../../utilities/exports";
+import { LightShadow } from "../classes/LightShadow";
+
+import type { Camera } from "../../camera/classes/Camera";
+
+/** Maximum amount of shadow maps rendered per frame, over all lights. */
+export const MaxShadowMapCount: number = 16;
+
+/** Maximum amount of cascades of a directional light. */
+export const MaxShadowCascadeCount: number = 4;
+
+/** Floats per shadow map in the shadow storage buffer: the view-projection matrix and the parameters. */
+export const ShadowMapFloatCount: number = 20;
+
+const upVector: vec3 = vec3.fromValues(0, 1, 0);
+const forwardVector: vec3 = vec3.fromValues(0, 0, 1);
+
+// Returns an up vector which is not parallel to the given direction.
+function getUpVector(direction: Vector3): vec3 {
+    return Math.abs(direction.y) > 0.99 ? forwardVector : upVector;
+}
+
+/**
+ * Computes the view-projection matrix of the shadow map of a spot light,
+ * a perspective projection covering the outer cone.
+ */
+export function ComputeSpotShadowMatrix(out: mat4, position: Vector3, direction: Vector3, outerConeAngle: number, range: number, shadow: LightShadow): mat4 {
+
+    const eye: vec3 = vec3.fromValues(position.x, position.y, position.z),
+        target: vec3 = vec3.fromValues(position.x + direction.x, position.y + direction.y, position.z + direction.z),
+        view: mat4 = mat4.lookAt(mat4.create(), eye, target, getUpVector(direction)),
+        near: number = Math.max(1e-3, shadow.near),
+        far: number = Math.max(near + 1e-3, range > 0 ? range : shadow.far);
+
+    // A small margin keeps the edge of the cone inside the shadow map.
+    const fieldOfView: number = Math.min(Math.PI - 0.01, outerConeAngle * 2 + 0.05);
+
+    mat4.perspectiveZO(out, fieldOfView, 1, near, far);
+
+    return mat4.multiply(out, out, view);
+}
+
+/**
+ * Splits the view frustum of the camera into cascades and computes an
+ * orthographic view-projection matrix for each, looking along the
+ * direction of a directional light.
+ *
+ * Each cascade is fitted around the bounding sphere of its slice of the
+ * frustum and snapped to whole shadow map texels, so shadow edges do not
+ * shimmer while the camera moves or rotates.
+ */
+export function ComputeCascadeShadowMatrices(direction: Vector3, camera: Camera, shadow: LightShadow): mat4[] {
+
+    const cascadeCount: number = Math.max(1, Math.min(MaxShadowCascadeCount, Math.floor(shadow.cascadeCount))),
+        inverseProjection: mat4 | null = mat4.invert(mat4.create(), camera.projection),
+        inverseViewProjection: mat4 | null = mat4.invert(mat4.create(), camera.viewProjection);
+
+    if (!inverseProjection || !inverseViewProjection) return [];
+
+    // View space depths of the near and far plane of the camera, and the far end of the last cascade.
+    const near: number = -unproject(inverseProjection, 0, 0, 0)[2],
+        cameraFar: number = -unproject(inverseProjection, 0, 0, 1)[2],
+        far: number = Math.min(cameraFar, Math.max(near + 1e-3, shadow.maxDistance));
+
+    const nearCorners: vec3[] = [],
+        farCorners: vec3[] = [];
+
+    for (const [x, y] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+
+        nearCorners.push(unproject(inverseViewProjection, x, y, 0));
+        farCorners.push(unproject(inverseViewProjection, x, y, 1));
+    }
+
+    const lambda: number = Math.max(0, Math.min(1, shadow.cascadeSplitLambda)),
+        matrices: mat4[] = [];
+
+    let splitNear: number = near;
+
+    for (let cascade = 0; cascade < cascadeCount; cascade++) {
+
+        const ratio: number = (cascade + 1) / cascadeCount,
+            logarithmic: number = near * Math.pow(far / near, ratio),
+            uniform: number = near + (far - near) * ratio,
+            splitFar: number = lambda * logarithmic + (1 - lambda) * uniform;
+
+        const corners: vec3[] = [];
+
+        for (let i = 0; i < 4; i++) {
+
+            const edge: vec3 = vec3.subtract(vec3.create(), farCorners[i], nearCorners[i]);
+
+            corners.push(vec3.scaleAndAdd(vec3.create(), nearCorners[i], edge, (splitNear - near) / (cameraFar - near)));
+            corners.push(vec3.scaleAndAdd(vec3.create(), nearCorners[i], edge, (splitFar - near) / (cameraFar - near)));
+        }
+
+        matrices.push(computeCascadeMatrix(corners, direction, shadow));
+
+        splitNear = splitFar;
+    }
+
+    return matrices;
+}
+
+function computeCascadeMatrix(corners: vec3[], direction: Vector3, shadow: LightShadow): mat4 {
+
+    const center: vec3 = vec3.create();
+
+    for (const corner of corners) vec3.add(center, center, corner);
+
+    vec3.scale(center, center, 1 / corners.length);
+
+    let radius: number = 0;
+
+    for (const corner of corners) radius = Math.max(radius, vec3.distance(corner, center));
+
+    // Rounding the radius keeps the projection size constant while the camera rotates.
+    radius = Math.ceil(radius * 16) / 16;
+
+    const target: vec3 = vec3.fromValues(center[0] + direction.x, center[1] + direction.y, center[2] + direction.z),
+        view: mat4 = mat4.lookAt(mat4.create(), center, target, getUpVector(direction)),
+        projection: mat4 = mat4.orthoZO(mat4.create(), -radius, radius, -radius, radius, -radius - Math.max(0, shadow.casterDistance), radius),
+        matrix: mat4 = mat4.multiply(mat4.create(), projection, view);
+
+    // Snap the projection to whole texels.
+    const halfMapSize: number = Math.max(1, shadow.mapSize) / 2,
+        origin: vec4 = vec4.transformMat4(vec4.create(), vec4.fromValues(0, 0, 0, 1), matrix);
+
+    const offsetX: number = (Math.round(origin[0] * halfMapSize) - origin[0] * halfMapSize) / halfMapSize,
+        offsetY: number = (Math.round(origin[1] * halfMapSize) - origin[1] * halfMapSize) / halfMapSize;
+
+    projection[12] += offsetX;
+    projection[13] += offsetY;
+
+    return mat4.multiply(matrix, projection, view);
+}
+
+function unproject(inverseMatrix: mat4, x: number, y: number, z: number): vec3 {
+
+    const point: vec4 = vec4.transformMat4(vec4.create(), vec4.fromValues(x, y, z, 1), inverseMatrix);
+
+    return vec3.fromValues(point[0] / point[3], point[1] / point[3], point[2] / point[3]);
+}
\ No newline at end of file
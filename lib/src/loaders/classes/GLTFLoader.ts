@@ -0,0 +1,553 @@
+import { mat4, vec3 } from "gl-matrix";
+
+import { SceneNode } from "../../others/classes/SceneNode";
+import { Mesh } from "../../renderer/classes/Mesh";
+import { BufferGeometry } from "../../geometries/classes/BufferGeometry";
+import { Material } from "../../materials/classes/Material";
+import { PBRMaterial } from "../../materials/classes/PBRMaterial";
+import { Camera } from "../../camera/classes/Camera";
+import { PerspectiveCamera } from "../../camera/classes/PerspectiveCamera";
+import { OrthographicCamera } from "../../camera/classes/OrthographicCamera";
+import { Texture } from "../../textures/classes/Texture";
+import { Sampler } from "../../textures/classes/Sampler";
+import { Color, Debug, RadiansToDegrees, Vector3 } from "../../utilities/exports";
+import { ErrorCodes, WarningCodes } from "../../codes";
+import {
+    GeometryData,
+    GLTFAsset,
+    GLTFDocument,
+    GLTFImage,
+    GLTFLoaderOptions,
+    GLTFMaterial,
+    GLTFNode,
+    GLTFPrimitive,
+    GLTFTextureInfo,
+    TextureColorSpace
+} from "../../typings";
+import {
+    DecodeDataURI,
+    GetGLTFSamplerOptions,
+    IsDataURI,
+    IsGLB,
+    ParseGLB,
+    ReadBufferView,
+    ReadPrimitive
+} from "../functions/gltf";
+import { ResolveURL } from "../functions/urls";
+
+/** Extensions the loader understands, and which may therefore be required by a file. */
+const SupportedExtensions: string[] = ["KHR_materials_emissive_strength"];
+
+// State of a single load, so one loader can load several files at once.
+interface GLTFBuildContext {
+    document: GLTFDocument;
+    buffers: ArrayBuffer[];
+    baseURL: string;
+    textures: Map<string, Texture | null>;
+    samplers: Map<number, Sampler>;
+    materials: Map<number, Material>;
+    geometries: Map<string, BufferGeometry | null>;
+    asset: GLTFAsset;
+}
+
+/**
+ * Loads glTF 2.0 files, both `.gltf` files with external or embedded
+ * buffers and binary `.glb` files.
+ *
+ * Meshes are converted into {@link Mesh} objects with a {@link PBRMaterial},
+ * the node hierarchy into {@link SceneNode} objects and cameras into
+ * {@link PerspectiveCamera} and {@link OrthographicCamera} objects. Nothing is uploaded to
+ * the GPU while loading; that happens when the scene is prepared, so
+ * files can be loaded and inspected without a device. Reading the raw
+ * data is done by the functions in `loaders/functions/gltf`, which only
+ * depend on the JSON document and its buffers.
+ *
+ * Only triangle primitives and the first set of texture coordinates are
+ * supported. Animations and skins are ignored.
+ *
+ * @example
+ * ```ts
+ * const loader = new GLTFLoader();
+ * const helmet = await loader.Load("models/DamagedHelmet.glb");
+ *
+ * if (helmet) scene.Add(helmet.scene);
+ * ```
+ */
+export class GLTFLoader {
+
+    constructor(public options: GLTFLoaderOptions = {}) {}
+
+    /**
+     * Fetches and parses a `.gltf` or `.glb` file. Resolves to `null` if
+     * the file or one of its buffers could not be loaded.
+     */
+    public async Load(url: string): Promise<GLTFAsset | null> {
+
+        try {
+
+            const response: Response = await fetch(url);
+
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+            return await this.parse(await response.arrayBuffer(), this.options.baseURL ?? url);
+        } catch (error) {
+
+            Debug.Error("GLTFLoader: Unable to load the file.", [
+                "URL: " + url,
+                "Error: " + (error as Error).message
+            ], ErrorCodes.GLTF_LOAD_ERROR);
+
+            return null;
+        }
+    }
+
+    /**
+     * Parses a glTF file which has already been loaded: the contents of a
+     * `.glb` or `.gltf` file, the JSON text of a `.gltf` file or its parsed
+     * document. External buffers and images are resolved against the base
+     * URL. Resolves to `null` if the data is invalid.
+     */
+    public async Parse(data: ArrayBuffer | string | GLTFDocument, baseURL: string = this.options.baseURL ?? ""): Promise<GLTFAsset | null> {
+
+        try {
+
+            return await this.parse(data, baseURL);
+        } catch (error) {
+
+            Debug.Error("GLTFLoader: Unable to parse the file.", [
+                "Error: " + (error as Error).message
+            ], ErrorCodes.GLTF_LOAD_ERROR);
+
+            return null;
+        }
+    }
+
+    // Private and protected class members.
+
+    private async parse(data: ArrayBuffer | string | GLTFDocument, baseURL: string): Promise<GLTFAsset> {
+
+        let document: GLTFDocument,
+            binary: ArrayBuffer | null = null;
+
+        if (data instanceof ArrayBuffer) {
+
+            if (IsGLB(data)) {
+                ({ document, binary } = ParseGLB(data));
+            } else {
+                document = JSON.parse(new TextDecoder().decode(data));
+            }
+        } else {
+            document = typeof data === "string" ? JSON.parse(data) : data;
+        }
+
+        if (!document.asset || !document.asset.version || parseInt(document.asset.version) !== 2) {
+            throw new Error(`glTF version ${document.asset?.version ?? "unknown"} is not supported.`);
+        }
+
+        const unsupported: string[] = (document.extensionsRequired ?? []).filter((name: string) => !SupportedExtensions.includes(name));
+
+        if (unsupported.length > 0) throw new Error("The file requires unsupported extensions: " + unsupported.join(", "));
+
+        const context: GLTFBuildContext = {
+            document,
+            buffers: await this.loadBuffers(document, binary, baseURL),
+            baseURL,
+            textures: new Map(),
+            samplers: new Map(),
+            materials: new Map(),
+            geometries: new Map(),
+            asset: {
+                document,
+                // Replaced by the default scene of the file, or filled with its root nodes if it has no scenes.
+                scene: new SceneNode("Scene"),
+                scenes: [],
+                nodes: [],
+                meshes: [],
+                materials: [],
+                textures: [],
+                cameras: []
+            }
+        };
+
+        if (this.options.loadTextures ?? true) await this.loadTextures(context);
+
+        this.createNodes(context);
+        this.createScenes(context);
+        this.createCameras(context);
+
+        return context.asset;
+    }
+
+    private async loadBuffers(document: GLTFDocument, binary: ArrayBuffer | null, baseURL: string): Promise<ArrayBuffer[]> {
+
+        return Promise.all((document.buffers ?? []).map(async (buffer, index: number): Promise<ArrayBuffer> => {
+
+            // The buffer without a URI of a binary file is its binary chunk.
+            if (buffer.uri === undefined) {
+
+                if (!binary) throw new Error(`Buffer ${index} has no URI and the file has no binary chunk.`);
+
+                return binary;
+            }
+
+            if (IsDataURI(buffer.uri)) return DecodeDataURI(buffer.uri);
+
+            const url: string = ResolveURL(buffer.uri, baseURL),
+                response: Response = await fetch(url);
+
+            if (!response.ok) throw new Error(`Buffer ${index} could not be loaded from '${url}': ${response.status} ${response.statusText}`);
+
+            return response.arrayBuffer();
+        }));
+    }
+
+    // Decodes every texture referenced by a material, once per color space it is used in.
+    private async loadTextures(context: GLTFBuildContext): Promise<void> {
+
+        const requests: Map<string, [number, TextureColorSpace]> = new Map();
+
+        for (const material of context.document.materials ?? []) {
+
+            const pbr = material.pbrMetallicRoughness;
+
+            const usages: [GLTFTextureInfo | undefined, TextureColorSpace][] = [
+                [pbr?.baseColorTexture, "srgb"],
+                [pbr?.metallicRoughnessTexture, "linear"],
+                [material.normalTexture, "linear"],
+                [material.occlusionTexture, "linear"],
+                [material.emissiveTexture, "srgb"]
+            ];
+
+            for (const [info, colorSpace] of usages) {
+                info && requests.set(info.index + "|" + colorSpace, [info.index, colorSpace]);
+            }
+        }
+
+        await Promise.all(Array.from(requests.entries()).map(async ([key, [index, colorSpace]]): Promise<void> => {
+
+            const texture: Texture | null = await this.loadTexture(context, index, colorSpace);
+
+            context.textures.set(key, texture);
+            texture && context.asset.textures.push(texture);
+        }));
+    }
+
+    private async loadTexture(context: GLTFBuildContext, index: number, colorSpace: TextureColorSpace): Promise<Texture | null> {
+
+        const document: GLTFDocument = context.document,
+            source: number | undefined = document.textures?.[index]?.source,
+            image: GLTFImage | undefined = source !== undefined ? document.images?.[source] : undefined;
+
+        if (!image) {
+
+            Debug.Warn("GLTFLoader: A texture has no supported image source and is ignored.", [
+                "Texture: " + index
+            ], WarningCodes.GLTF_UNSUPPORTED_FEATURE);
+
+            return null;
+        }
+
+        const label: string = image.name ?? image.uri ?? "GLTFImage-" + source;
+
+        let blob: Blob;
+
+        if (image.bufferView !== undefined) {
+            blob = new Blob([ReadBufferView(document, context.buffers, image.bufferView).slice().buffer], { type: image.mimeType });
+        } else if (image.uri !== undefined && IsDataURI(image.uri)) {
+            blob = new Blob([DecodeDataURI(image.uri)], { type: image.mimeType });
+        } else if (image.uri !== undefined) {
+            return Texture.FromURL(ResolveURL(image.uri, context.baseURL), { label, colorSpace });
+        } else {
+            return null;
+        }
+
+        return Texture.FromBlob(blob, { label, colorSpace });
+    }
+
+    private createNodes(context: GLTFBuildContext): void {
+
+        const nodes: GLTFNode[] = context.document.nodes ?? [],
+            sceneNodes: SceneNode[] = context.asset.nodes;
+
+        for (let i = 0; i < nodes.length; i++) sceneNodes.push(this.createNode(context, nodes[i], i));
+
+        for (let i = 0; i < nodes.length; i++) {
+            for (const child of nodes[i].children ?? []) {
+                sceneNodes[child] && sceneNodes[i].Add(sceneNodes[child]);
+            }
+        }
+    }
+
+    // A node with a single primitive becomes a mesh; otherwise a scene node with a mesh per primitive.
+    private createNode(context: GLTFBuildContext, node: GLTFNode, index: number): SceneNode {
+
+        const name: string = node.name ?? "Node-" + index,
+            meshes: Mesh[] = node.mesh !== undefined ? this.createMeshes(context, node.mesh) : [];
+
+        let sceneNode: SceneNode;
+
+        if (meshes.length === 1) {
+
+            sceneNode = meshes[0];
+            sceneNode.name = name;
+        } else {
+
+            sceneNode = new SceneNode(name);
+            meshes.length > 0 && sceneNode.Add(...meshes);
+        }
+
+        if (node.matrix) {
+            sceneNode.transform.SetFromMatrix(mat4.clone(node.matrix as unknown as mat4));
+        } else {
+
+            const [translationX, translationY, translationZ] = node.translation ?? [0, 0, 0],
+                [rotationX, rotationY, rotationZ, rotationW] = node.rotation ?? [0, 0, 0, 1],
+                [scaleX, scaleY, scaleZ] = node.scale ?? [1, 1, 1];
+
+            sceneNode.transform
+                .SetPosition(translationX, translationY, translationZ)
+                .SetRotationFromQuaternion(rotationX, rotationY, rotationZ, rotationW)
+                .SetScale(scaleX, scaleY, scaleZ);
+        }
+
+        return sceneNode;
+    }
+
+    private createMeshes(context: GLTFBuildContext, index: number): Mesh[] {
+
+        const mesh = context.document.meshes?.[index];
+
+        if (!mesh) throw new Error(`The file references mesh ${index}, which does not exist.`);
+
+        const meshes: Mesh[] = [];
+
+        mesh.primitives.forEach((primitive: GLTFPrimitive, primitiveIndex: number) => {
+
+            const geometry: BufferGeometry | null = this.getGeometry(context, index, primitiveIndex, primitive);
+
+            if (!geometry) return;
+
+            const renderable: Mesh = new Mesh(geometry, this.getMaterial(context, primitive.material));
+
+            renderable.name = (mesh.name ?? "Mesh-" + index) + "-" + primitiveIndex;
+
+            meshes.push(renderable);
+            context.asset.meshes.push(renderable);
+        });
+
+        return meshes;
+    }
+
+    // Geometries are shared by every node referencing the same mesh.
+    private getGeometry(context: GLTFBuildContext, meshIndex: number, primitiveIndex: number, primitive: GLTFPrimitive): BufferGeometry | null {
+
+        const key: string = meshIndex + "|" + primitiveIndex;
+
+        if (context.geometries.has(key)) return context.geometries.get(key)!;
+
+        let geometry: BufferGeometry | null = null;
+
+        if (primitive.extensions && Object.keys(primitive.extensions).length > 0 && primitive.attributes.POSITION === undefined) {
+
+            Debug.Warn("GLTFLoader: A primitive uses an unsupported compression extension and is ignored.", [
+                "Mesh: " + meshIndex,
+                "Extensions: " + Object.keys(primitive.extensions).join(", ")
+            ], WarningCodes.GLTF_UNSUPPORTED_FEATURE);
+        } else if (![undefined, 4, 5, 6].includes(primitive.mode)) {
+
+            Debug.Warn("GLTFLoader: A primitive is not made of triangles and is ignored.", [
+                "Mesh: " + meshIndex,
+                "Mode: " + primitive.mode
+            ], WarningCodes.GLTF_UNSUPPORTED_FEATURE);
+        } else {
+
+            const data: GeometryData = ReadPrimitive(context.document, context.buffers, primitive),
+                vertexCount: number = data.positions.length / 3;
+
+            // Materials read texture coordinates, which default to zero when absent.
+            data.uvs = data.uvs ?? new Float32Array(vertexCount * 2);
+
+            geometry = BufferGeometry.FromData(data);
+            geometry.name = context.document.meshes![meshIndex].name ?? "Mesh-" + meshIndex;
+
+            // Flat shading is expected without normals, which vertex normals approximate.
+            data.normals || geometry.ComputeVertexNormals();
+        }
+
+        context.geometries.set(key, geometry);
+
+        return geometry;
+    }
+
+    private getMaterial(context: GLTFBuildContext, index: number | undefined): Material {
+
+        const key: number = index ?? -1,
+            cached: Material | undefined = context.materials.get(key);
+
+        if (cached) return cached;
+
+        const material: Material = this.createMaterial(context, index !== undefined ? context.document.materials?.[index] : undefined);
+
+        context.materials.set(key, material);
+        context.asset.materials.push(material);
+
+        return material;
+    }
+
+    private createMaterial(context: GLTFBuildContext, source: GLTFMaterial | undefined): PBRMaterial {
+
+        const material: PBRMaterial = new PBRMaterial();
+
+        if (!source) return material;
+
+        const pbr = source.pbrMetallicRoughness ?? {},
+            [red, green, blue, alpha] = pbr.baseColorFactor ?? [1, 1, 1, 1],
+            [emissiveRed, emissiveGreen, emissiveBlue] = source.emissiveFactor ?? [0, 0, 0];
+
+        material.name = source.name ?? "";
+
+        material.baseColorFactor = new Color(red, green, blue, alpha);
+        material.metallicFactor = pbr.metallicFactor ?? 1;
+        material.roughnessFactor = pbr.roughnessFactor ?? 1;
+        material.emissiveFactor = new Color(emissiveRed, emissiveGreen, emissiveBlue, 1);
+        material.emissiveStrength = source.extensions?.KHR_materials_emissive_strength?.emissiveStrength ?? 1;
+
+        material.baseColorTexture = this.getTexture(context, pbr.baseColorTexture, "srgb");
+        material.metallicRoughnessTexture = this.getTexture(context, pbr.metallicRoughnessTexture, "linear");
+        material.normalTexture = this.getTexture(context, source.normalTexture, "linear");
+        material.occlusionTexture = this.getTexture(context, source.occlusionTexture, "linear");
+        material.emissiveTexture = this.getTexture(context, source.emissiveTexture, "srgb");
+
+        material.normalScale = source.normalTexture?.scale ?? 1;
+        material.occlusionStrength = source.occlusionTexture?.strength ?? 1;
+
+        // The material has a single sampler, taken from the first texture which has one.
+        const textureInfo: GLTFTextureInfo | undefined = pbr.baseColorTexture ?? pbr.metallicRoughnessTexture ?? source.normalTexture ?? source.occlusionTexture ?? source.emissiveTexture;
+
+        if (textureInfo) material.sampler = this.getSampler(context, context.document.textures?.[textureInfo.index]?.sampler);
+
+        if (source.doubleSided) material.cullMode = "none";
+
+        if (source.alphaMode === "MASK") material.alphaCutoff = source.alphaCutoff ?? 0.5;
+
+        // Blended surfaces do not write depth, so surfaces behind them stay visible.
+        if (source.alphaMode === "BLEND") {
+
+            material.blendMode = "normal";
+            material.depthWriteEnabled = false;
+        }
+
+        return material;
+    }
+
+    private getTexture(context: GLTFBuildContext, info: GLTFTextureInfo | undefined, colorSpace: TextureColorSpace): Texture | null {
+
+        if (!info) return null;
+
+        if ((info.texCoord ?? 0) !== 0) Debug.Warn("GLTFLoader: Only the first set of texture coordinates is supported.", [
+            "Texture: " + info.index
+        ], WarningCodes.GLTF_UNSUPPORTED_FEATURE);
+
+        return context.textures.get(info.index + "|" + colorSpace) ?? null;
+    }
+
+    private getSampler(context: GLTFBuildContext, index: number | undefined): Sampler {
+
+        const key: number = index ?? -1,
+            cached: Sampler | undefined = context.samplers.get(key);
+
+        if (cached) return cached;
+
+        const sampler: Sampler = new Sampler(GetGLTFSamplerOptions(index !== undefined ? context.document.samplers?.[index] : undefined));
+
+        context.samplers.set(key, sampler);
+
+        return sampler;
+    }
+
+    private createScenes(context: GLTFBuildContext): void {
+
+        const document: GLTFDocument = context.document,
+            asset: GLTFAsset = context.asset;
+
+        for (const scene of document.scenes ?? []) {
+
+            const root: SceneNode = new SceneNode(scene.name ?? "Scene-" + asset.scenes.length);
+
+            for (const index of scene.nodes ?? []) asset.nodes[index] && root.Add(asset.nodes[index]);
+
+            asset.scenes.push(root);
+        }
+
+        // Files without scenes are shown with all of their root nodes.
+        if (asset.scenes.length === 0) {
+
+            const root: SceneNode = asset.scene;
+
+            root.Add(...asset.nodes.filter((node: SceneNode) => node.parent === null));
+            asset.scenes.push(root);
+        }
+
+        asset.scene = asset.scenes[document.scene ?? 0] ?? asset.scenes[0];
+    }
+
+    // Cameras are not scene nodes; they are placed at the world transform of the node referencing them.
+    private createCameras(context: GLTFBuildContext): void {
+
+        const nodes: GLTFNode[] = context.document.nodes ?? [];
+
+        for (let i = 0; i < nodes.length; i++) {
+
+            const cameraIndex: number | undefined = nodes[i].camera;
+
+            if (cameraIndex === undefined) continue;
+
+            const source = context.document.cameras?.[cameraIndex];
+
+            let camera: PerspectiveCamera | OrthographicCamera;
+
+            if (source?.type === "perspective" && source.perspective) {
+
+                const perspective = source.perspective;
+
+                camera = new PerspectiveCamera(perspective.yfov * RadiansToDegrees, perspective.aspectRatio ?? 1, perspective.znear, perspective.zfar ?? 1000);
+            } else if (source?.type === "orthographic" && source.orthographic) {
+
+                // The magnifications are half the width and height of the view.
+                const orthographic = source.orthographic;
+
+                camera = new OrthographicCamera(-orthographic.xmag, orthographic.xmag, orthographic.ymag, -orthographic.ymag, orthographic.znear, orthographic.zfar);
+            } else {
+
+                Debug.Warn("GLTFLoader: A camera is invalid and is ignored.", [
+                    "Camera: " + cameraIndex
+                ], WarningCodes.GLTF_UNSUPPORTED_FEATURE);
+
+                continue;
+            }
+
+            this.placeCamera(camera, context.asset.nodes[i]);
+
+            context.asset.cameras.push(camera);
+        }
+    }
+
+    private placeCamera(camera: Camera, node: SceneNode): void {
+
+        let root: SceneNode = node;
+
+        while (root.parent) root = root.parent;
+
+        root.UpdateWorldMatrix(true);
+
+        // glTF cameras look along their local -Z axis, with +Y up.
+        const matrix: mat4 = node.worldMatrix,
+            position: vec3 = vec3.transformMat4(vec3.create(), [0, 0, 0], matrix),
+            forward: vec3 = vec3.normalize(vec3.create(), [-matrix[8], -matrix[9], -matrix[10]]),
+            up: vec3 = vec3.normalize(vec3.create(), [matrix[4], matrix[5], matrix[6]]);
+
+        camera.up = new Vector3(up[0], up[1], up[2]);
+        camera.SetPosition(new Vector3(position[0], position[1], position[2]));
+        camera.LookAt(new Vector3(position[0] + forward[0], position[1] + forward[1], position[2] + forward[2]));
+    }
+}
\ No newline at end of file
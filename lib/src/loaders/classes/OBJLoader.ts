@@ -0,0 +1,300 @@
+import { OBJParser } from "./OBJParser";
+import { SceneNode } from "../../others/classes/SceneNode";
+import { Mesh } from "../../renderer/classes/Mesh";
+import { BufferGeometry } from "../../geometries/classes/BufferGeometry";
+import { Material } from "../../materials/classes/Material";
+import { PhongMaterial } from "../../materials/classes/PhongMaterial";
+import { PhongTextureMaterial } from "../../materials/classes/PhongTextureMaterial";
+import { Texture } from "../../textures/classes/Texture";
+import { Color, Debug } from "../../utilities/exports";
+import { ErrorCodes, WarningCodes } from "../../codes";
+import { ParseMTL } from "../functions/obj";
+import { ResolveURL } from "../functions/urls";
+import {
+    MTLMaterialData,
+    MTLTextureMap,
+    OBJAsset,
+    OBJData,
+    OBJLoaderOptions,
+    OBJMeshData,
+    TextureColorSpace
+} from "../../typings";
+
+// State of a single load, so one loader can load several files at once.
+interface OBJBuildContext {
+    // Materials of the loaded libraries by name, with the URL of their library.
+    definitions: Map<string, [MTLMaterialData, string]>;
+    materials: Map<string, Material>;
+    textures: Map<string, Promise<Texture | null>>;
+    asset: OBJAsset;
+}
+
+/**
+ * Loads Wavefront `.obj` files and their `.mtl` material libraries.
+ *
+ * Every object, group and material combination becomes a {@link Mesh},
+ * gathered under a single {@link SceneNode}. Materials with texture maps
+ * become a {@link PhongTextureMaterial}, the others a {@link PhongMaterial};
+ * faces without a material use a white {@link PhongMaterial}. Nothing is
+ * uploaded to the GPU while loading. Files are parsed while they
+ * download, by an {@link OBJParser}.
+ *
+ * @example
+ * ```ts
+ * const loader = new OBJLoader();
+ * const teapot = await loader.Load("models/teapot.obj");
+ *
+ * if (teapot) scene.Add(teapot.scene);
+ * ```
+ */
+export class OBJLoader {
+
+    constructor(public options: OBJLoaderOptions = {}) {}
+
+    /**
+     * Fetches and parses an `.obj` file and its material libraries.
+     * Resolves to `null` if the file could not be loaded or is invalid.
+     */
+    public async Load(url: string): Promise<OBJAsset | null> {
+
+        try {
+
+            const response: Response = await fetch(url);
+
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+            return await this.build(await this.read(response), this.options.baseURL ?? url);
+        } catch (error) {
+
+            Debug.Error("OBJLoader: Unable to load the file.", [
+                "URL: " + url,
+                "Error: " + (error as Error).message
+            ], ErrorCodes.OBJ_LOAD_ERROR);
+
+            return null;
+        }
+    }
+
+    /**
+     * Parses the text of an `.obj` file which has already been loaded.
+     * Material libraries are resolved against the base URL. Resolves to
+     * `null` if the file is invalid.
+     */
+    public async Parse(text: string, baseURL: string = this.options.baseURL ?? ""): Promise<OBJAsset | null> {
+
+        try {
+
+            return await this.build(new OBJParser().Write(text).End(), baseURL);
+        } catch (error) {
+
+            Debug.Error("OBJLoader: Unable to parse the file.", [
+                "Error: " + (error as Error).message
+            ], ErrorCodes.OBJ_LOAD_ERROR);
+
+            return null;
+        }
+    }
+
+    // Private and protected class members.
+
+    // Parses the response while it downloads, when the body can be streamed.
+    private async read(response: Response): Promise<OBJData> {
+
+        const parser: OBJParser = new OBJParser();
+
+        if (!response.body || typeof TextDecoder === "undefined") return parser.Write(await response.text()).End();
+
+        const reader = response.body.getReader(),
+            decoder: TextDecoder = new TextDecoder();
+
+        for (let result = await reader.read(); !result.done; result = await reader.read()) {
+            parser.Write(decoder.decode(result.value, { stream: true }));
+        }
+
+        return parser.Write(decoder.decode()).End();
+    }
+
+    private async build(data: OBJData, baseURL: string): Promise<OBJAsset> {
+
+        const context: OBJBuildContext = {
+            definitions: new Map(),
+            materials: new Map(),
+            textures: new Map(),
+            asset: {
+                scene: new SceneNode("OBJ"),
+                meshes: [],
+                materials: [],
+                textures: []
+            }
+        };
+
+        if (this.options.loadMaterials ?? true) await this.loadMaterialLibraries(context, data.materialLibraries, baseURL);
+
+        for (const meshData of data.meshes) {
+
+            const mesh: Mesh = new Mesh(this.createGeometry(meshData), await this.getMaterial(context, meshData.materialName));
+
+            mesh.name = meshData.name || "Mesh-" + context.asset.meshes.length;
+
+            context.asset.meshes.push(mesh);
+        }
+
+        context.asset.meshes.length > 0 && context.asset.scene.Add(...context.asset.meshes);
+
+        return context.asset;
+    }
+
+    // A library which cannot be loaded leaves its materials undefined, as the geometry is still usable.
+    private async loadMaterialLibraries(context: OBJBuildContext, libraries: string[], baseURL: string): Promise<void> {
+
+        const loaded: [MTLMaterialData[], string][] = await Promise.all(libraries.map(async (library: string): Promise<[MTLMaterialData[], string]> => {
+
+            const url: string = ResolveURL(library, baseURL);
+
+            try {
+
+                const response: Response = await fetch(url);
+
+                if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+                return [ParseMTL(await response.text()), url];
+            } catch (error) {
+
+                Debug.Warn("OBJLoader: A material library could not be loaded.", [
+                    "URL: " + url,
+                    "Error: " + (error as Error).message
+                ], WarningCodes.OBJ_MISSING_MATERIAL);
+
+                return [[], url];
+            }
+        }));
+
+        for (const [materials, url] of loaded) {
+            for (const material of materials) context.definitions.set(material.name, [material, url]);
+        }
+    }
+
+    private createGeometry(data: OBJMeshData): BufferGeometry {
+
+        const vertexCount: number = data.geometry.positions.length / 3;
+
+        // Materials read texture coordinates, which default to zero when absent.
+        data.geometry.uvs = data.geometry.uvs ?? new Float32Array(vertexCount * 2);
+
+        const geometry: BufferGeometry = BufferGeometry.FromData(data.geometry);
+
+        geometry.name = data.name;
+
+        data.geometry.normals || geometry.ComputeVertexNormals();
+
+        return geometry;
+    }
+
+    private async getMaterial(context: OBJBuildContext, name: string): Promise<Material> {
+
+        const cached: Material | undefined = context.materials.get(name);
+
+        if (cached) return cached;
+
+        const definition: [MTLMaterialData, string] | undefined = context.definitions.get(name);
+
+        if (!definition && name && (this.options.loadMaterials ?? true)) {
+
+            Debug.Warn("OBJLoader: A material is not defined by the material libraries, a default material is used.", [
+                "Material: " + name
+            ], WarningCodes.OBJ_MISSING_MATERIAL);
+        }
+
+        const material: Material = definition ? await this.createMaterial(context, ...definition) : new PhongMaterial();
+
+        material.name = name;
+
+        context.materials.set(name, material);
+        context.asset.materials.push(material);
+
+        return material;
+    }
+
+    private async createMaterial(context: OBJBuildContext, source: MTLMaterialData, libraryURL: string): Promise<Material> {
+
+        const [red, green, blue] = source.diffuseColor,
+            color: Color = new Color(red, green, blue, source.opacity),
+            // Illumination models 0 and 1 have no specular highlight.
+            specular: [number, number, number] = source.illumination < 2 ? [0, 0, 0] : source.specularColor;
+
+        const textures: boolean = this.options.loadTextures ?? true;
+
+        if (textures && source.bumpMap) Debug.Warn("OBJLoader: Bump maps are not supported and are ignored, use a normal map ('norm') instead.", [
+            "Material: " + source.name,
+            "Bump map: " + source.bumpMap.path
+        ], WarningCodes.OBJ_UNSUPPORTED_FEATURE);
+
+        const hasMaps: boolean = textures && !!(source.diffuseMap || source.specularMap || source.normalMap || source.emissiveMap);
+
+        let material: PhongMaterial | PhongTextureMaterial;
+
+        if (hasMaps) {
+
+            const textureMaterial: PhongTextureMaterial = new PhongTextureMaterial(null, undefined, color),
+                map: MTLTextureMap = (source.diffuseMap ?? source.specularMap ?? source.normalMap ?? source.emissiveMap)!;
+
+            textureMaterial.diffuseTexture = await this.getTexture(context, source.diffuseMap, libraryURL, "srgb");
+            textureMaterial.specularTexture = await this.getTexture(context, source.specularMap, libraryURL, "srgb");
+            textureMaterial.normalTexture = await this.getTexture(context, source.normalMap, libraryURL, "linear");
+            textureMaterial.emissiveTexture = await this.getTexture(context, source.emissiveMap, libraryURL, "srgb");
+
+            textureMaterial.normalScale = source.normalMap?.bumpMultiplier ?? 1;
+
+            // The material has a single texture transform, taken from its first map.
+            textureMaterial.uvOffset.Set(map.offset[0], map.offset[1]);
+            textureMaterial.uvRepeat.Set(map.scale[0], map.scale[1]);
+
+            material = textureMaterial;
+        } else {
+            material = new PhongMaterial(color);
+        }
+
+        material.specularColor = new Color(specular[0], specular[1], specular[2], 1);
+        material.shininess = source.shininess;
+        material.emissiveColor = new Color(source.emissiveColor[0], source.emissiveColor[1], source.emissiveColor[2], 1);
+
+        // Emissive maps multiply the emissive color, which is usually omitted when a map is given.
+        if (material instanceof PhongTextureMaterial && material.emissiveTexture && source.emissiveColor.every((value: number) => value === 0)) {
+            material.emissiveColor = new Color(1, 1, 1, 1);
+        }
+
+        // Dissolved surfaces do not write depth, so surfaces behind them stay visible.
+        if (source.opacity < 1) {
+
+            material.blendMode = "normal";
+            material.depthWriteEnabled = false;
+        }
+
+        return material;
+    }
+
+    // Textures are shared by every material using the same image in the same color space.
+    private async getTexture(context: OBJBuildContext, map: MTLTextureMap | null, libraryURL: string, colorSpace: TextureColorSpace): Promise<Texture | null> {
+
+        if (!map) return null;
+
+        const url: string = ResolveURL(map.path, libraryURL),
+            key: string = url + "|" + colorSpace;
+
+        let request: Promise<Texture | null> | undefined = context.textures.get(key);
+
+        if (!request) {
+
+            request = Texture.FromURL(url, { label: map.path, colorSpace });
+            context.textures.set(key, request);
+
+            const texture: Texture | null = await request;
+
+            texture && context.asset.textures.push(texture);
+
+            return texture;
+        }
+
+        return request;
+    }
+}
\ No newline at end of file
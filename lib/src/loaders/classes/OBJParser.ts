@@ -0,0 +1,267 @@
+import { SplitOBJLines, SplitOBJStatement, TriangulatePolygon } from "../functions/obj";
+import { OBJData, OBJMeshData } from "../../typings";
+
+// Triangles of one object, group and material combination, while they are being parsed.
+interface OBJMeshBuilder {
+    name: string;
+    materialName: string;
+    positions: number[];
+    normals: number[];
+    uvs: number[];
+    colors: number[];
+    indices: number[];
+    // Index of every vertex by its position, texture coordinate, normal and smoothing key.
+    vertices: Map<string, number>;
+    missingNormals: boolean;
+    missingUVs: boolean;
+}
+
+/**
+ * Incremental parser of Wavefront `.obj` files, which can parse a file
+ * in chunks while it downloads without keeping the whole text in memory.
+ * Each parser parses a single file.
+ *
+ * Faces are triangulated, with concave polygons supported, and split
+ * into a mesh per object (`o`), group (`g`) and material (`usemtl`).
+ * Vertices are shared between faces where possible. Faces without
+ * normals share vertices only within their smoothing group (`s`), so
+ * normals computed from the geometry are smooth within a group and flat
+ * where smoothing is off. Texture coordinates are flipped to the top-left
+ * origin used by textures. Lines and points are ignored.
+ *
+ * @example
+ * ```ts
+ * const parser = new OBJParser(),
+ *     reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+ *
+ * for (let result = await reader.read(); !result.done; result = await reader.read()) parser.Write(result.value);
+ *
+ * const data: OBJData = parser.End();
+ * ```
+ */
+export class OBJParser {
+
+    private positions: number[] = [];
+    private colors: number[] = [];
+    private normals: number[] = [];
+    private uvs: number[] = [];
+    private hasColors: boolean = false;
+
+    private objectName: string = "";
+    private groupName: string = "";
+    private materialName: string = "";
+    private smoothingGroup: number = 0;
+    private faceCount: number = 0;
+
+    private materialLibraries: string[] = [];
+    private meshes: Map<string, OBJMeshBuilder> = new Map();
+    private mesh: OBJMeshBuilder | null = null;
+
+    // Text after the last complete line of the chunks written so far.
+    private remainder: string = "";
+
+    /**
+     * Parses the next chunk of the file. Chunks may end anywhere, including
+     * in the middle of a line.
+     *
+     * @throws If a face references a vertex which does not exist.
+     */
+    public Write(chunk: string): OBJParser {
+
+        const text: string = this.remainder + chunk;
+
+        let end: number = text.lastIndexOf("\n");
+
+        // A line ending with a backslash continues on the next line, which may not have been written yet.
+        while (end > 0 && text.charAt(end - (text.charAt(end - 1) === "\r" ? 2 : 1)) === "\\") end = text.lastIndexOf("\n", end - 1);
+
+        if (end === -1) {
+
+            this.remainder = text;
+            return this;
+        }
+
+        this.remainder = text.slice(end + 1);
+        this.parse(text.slice(0, end));
+
+        return this;
+    }
+
+    /**
+     * Parses the rest of the file and returns its meshes. Meshes without
+     * faces are left out.
+     *
+     * @throws If a face references a vertex which does not exist.
+     */
+    public End(): OBJData {
+
+        this.parse(this.remainder);
+        this.remainder = "";
+
+        const meshes: OBJMeshData[] = [];
+
+        for (const mesh of this.meshes.values()) {
+
+            if (mesh.indices.length === 0) continue;
+
+            const vertexCount: number = mesh.positions.length / 3;
+
+            meshes.push({
+                name: mesh.name,
+                materialName: mesh.materialName,
+                geometry: {
+                    positions: new Float32Array(mesh.positions),
+                    normals: mesh.missingNormals ? undefined : new Float32Array(mesh.normals),
+                    uvs: mesh.missingUVs ? undefined : new Float32Array(mesh.uvs),
+                    colors: this.hasColors ? new Float32Array(mesh.colors) : undefined,
+                    indices: vertexCount > 65535 ? new Uint32Array(mesh.indices) : new Uint16Array(mesh.indices)
+                }
+            });
+        }
+
+        return { materialLibraries: this.materialLibraries, meshes };
+    }
+
+    // Private and protected class members.
+
+    private parse(text: string): void {
+
+        for (const line of SplitOBJLines(text)) {
+
+            const [keyword, rest] = SplitOBJStatement(line),
+                values: number[] = rest.split(/\s+/).map(Number);
+
+            switch (keyword) {
+                case "v":
+
+                    this.positions.push(values[0] || 0, values[1] || 0, values[2] || 0);
+
+                    // Vertex colors are a common extension, following the position.
+                    if (values.length >= 6) {
+
+                        this.colors.push(values[3], values[4], values[5]);
+                        this.hasColors = true;
+                    } else {
+                        this.colors.push(1, 1, 1);
+                    }
+
+                    break;
+                case "vn": this.normals.push(values[0] || 0, values[1] || 0, values[2] || 0); break;
+                // OBJ texture coordinates have their origin at the bottom left.
+                case "vt": this.uvs.push(values[0] || 0, 1 - (values[1] || 0)); break;
+                case "f": this.parseFace(rest.split(/\s+/)); break;
+                case "o": this.objectName = rest; this.mesh = null; break;
+                case "g": this.groupName = rest; this.mesh = null; break;
+                case "usemtl": this.materialName = rest; this.mesh = null; break;
+                case "s": this.smoothingGroup = rest === "off" ? 0 : parseInt(rest) || 0; break;
+                case "mtllib": this.materialLibraries.push(...rest.split(/\s+/).filter(Boolean)); break;
+            }
+        }
+    }
+
+    private parseFace(tokens: string[]): void {
+
+        const mesh: OBJMeshBuilder = this.getMesh(),
+            face: number[] = [],
+            points: number[] = [];
+
+        for (const token of tokens) {
+
+            const [position, uv, normal] = token.split("/"),
+                positionIndex: number = this.resolveIndex(position, this.positions.length / 3, token),
+                uvIndex: number = uv ? this.resolveIndex(uv, this.uvs.length / 2, token) : -1,
+                normalIndex: number = normal ? this.resolveIndex(normal, this.normals.length / 3, token) : -1;
+
+            // Without normals, the smoothing group decides which faces share vertices.
+            const smoothing: string = normalIndex !== -1 ? "" : this.smoothingGroup === 0 ? "|f" + this.faceCount : "|s" + this.smoothingGroup,
+                key: string = positionIndex + "/" + uvIndex + "/" + normalIndex + smoothing;
+
+            let index: number | undefined = mesh.vertices.get(key);
+
+            if (index === undefined) {
+
+                index = this.addVertex(mesh, positionIndex, uvIndex, normalIndex);
+                mesh.vertices.set(key, index);
+            }
+
+            face.push(index);
+            points.push(this.positions[positionIndex * 3], this.positions[positionIndex * 3 + 1], this.positions[positionIndex * 3 + 2]);
+        }
+
+        this.faceCount++;
+
+        if (face.length === 3) {
+
+            mesh.indices.push(face[0], face[1], face[2]);
+            return;
+        }
+
+        for (const corner of TriangulatePolygon(points)) mesh.indices.push(face[corner]);
+    }
+
+    private addVertex(mesh: OBJMeshBuilder, positionIndex: number, uvIndex: number, normalIndex: number): number {
+
+        mesh.positions.push(this.positions[positionIndex * 3], this.positions[positionIndex * 3 + 1], this.positions[positionIndex * 3 + 2]);
+        mesh.colors.push(this.colors[positionIndex * 3], this.colors[positionIndex * 3 + 1], this.colors[positionIndex * 3 + 2]);
+
+        if (uvIndex !== -1) {
+            mesh.uvs.push(this.uvs[uvIndex * 2], this.uvs[uvIndex * 2 + 1]);
+        } else {
+
+            mesh.uvs.push(0, 0);
+            mesh.missingUVs = true;
+        }
+
+        if (normalIndex !== -1) {
+            mesh.normals.push(this.normals[normalIndex * 3], this.normals[normalIndex * 3 + 1], this.normals[normalIndex * 3 + 2]);
+        } else {
+
+            mesh.normals.push(0, 0, 0);
+            mesh.missingNormals = true;
+        }
+
+        return mesh.positions.length / 3 - 1;
+    }
+
+    // Indices start at one; negative indices count back from the last element defined so far.
+    private resolveIndex(value: string, count: number, token: string): number {
+
+        const index: number = parseInt(value),
+            resolved: number = index < 0 ? count + index : index - 1;
+
+        if (isNaN(index) || resolved < 0 || resolved >= count) {
+            throw new Error(`The face vertex '${token}' references an element which does not exist.`);
+        }
+
+        return resolved;
+    }
+
+    private getMesh(): OBJMeshBuilder {
+
+        if (this.mesh) return this.mesh;
+
+        const key: string = this.objectName + "\n" + this.groupName + "\n" + this.materialName;
+
+        let mesh: OBJMeshBuilder | undefined = this.meshes.get(key);
+
+        if (!mesh) {
+
+            mesh = {
+                name: [this.objectName, this.groupName].filter(Boolean).join("/"),
+                materialName: this.materialName,
+                positions: [],
+                normals: [],
+                uvs: [],
+                colors: [],
+                indices: [],
+                vertices: new Map(),
+                missingNormals: false,
+                missingUVs: false
+            };
+
+            this.meshes.set(key, mesh);
+        }
+
+        return this.mesh = mesh;
+    }
+}
\ No newline at end of file
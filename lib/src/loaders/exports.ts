@@ -0,0 +1,26 @@
+export { GLTFLoader } from "./classes/GLTFLoader";
+export { OBJLoader } from "./classes/OBJLoader";
+export { OBJParser } from "./classes/OBJParser";
+export {
+    GLTFComponentTypes,
+    GLTFPrimitiveModes,
+    GLTFAccessorItemSizes,
+    IsGLB,
+    ParseGLB,
+    IsDataURI,
+    DecodeDataURI,
+    ReadBufferView,
+    ReadAccessor,
+    ReadAccessorAsFloat32,
+    ReadPrimitive,
+    GetGLTFSamplerOptions
+} from "./functions/gltf";
+export { ResolveURL } from "./functions/urls";
+export {
+    ParseOBJ,
+    ParseMTL,
+    ParseTextureMap,
+    TriangulatePolygon,
+    SplitOBJLines,
+    SplitOBJStatement
+} from "./functions/obj";
\ No newline at end of file
@@ -0,0 +1,359 @@
+import {
+    GeometryData,
+    GLBContent,
+    GLTFAccessor,
+    GLTFAccessorData,
+    GLTFAccessorType,
+    GLTFBufferView,
+    GLTFDocument,
+    GLTFPrimitive,
+    GLTFSampler,
+    SamplerOptions
+} from "../../typings";
+
+/** Component types of glTF accessors, as WebGL enums. */
+export const GLTFComponentTypes = {
+    BYTE: 5120,
+    UNSIGNED_BYTE: 5121,
+    SHORT: 5122,
+    UNSIGNED_SHORT: 5123,
+    UNSIGNED_INT: 5125,
+    FLOAT: 5126
+} as const;
+
+/** Primitive topologies of glTF meshes. */
+export const GLTFPrimitiveModes = {
+    POINTS: 0,
+    LINES: 1,
+    LINE_LOOP: 2,
+    LINE_STRIP: 3,
+    TRIANGLES: 4,
+    TRIANGLE_STRIP: 5,
+    TRIANGLE_FAN: 6
+} as const;
+
+/** Amount of components per element of each accessor type. */
+export const GLTFAccessorItemSizes: Record<GLTFAccessorType, number> = {
+    SCALAR: 1,
+    VEC2: 2,
+    VEC3: 3,
+    VEC4: 4,
+    MAT2: 4,
+    MAT3: 9,
+    MAT4: 16
+};
+
+const GLBMagic: number = 0x46546c67;
+const GLBChunkTypeJSON: number = 0x4e4f534a;
+const GLBChunkTypeBinary: number = 0x004e4942;
+
+type TypedArrayConstructor = Int8ArrayConstructor | Uint8ArrayConstructor | Int16ArrayConstructor | Uint16ArrayConstructor | Uint32ArrayConstructor | Float32ArrayConstructor;
+
+const componentArrays: Record<number, TypedArrayConstructor> = {
+    [GLTFComponentTypes.BYTE]: Int8Array,
+    [GLTFComponentTypes.UNSIGNED_BYTE]: Uint8Array,
+    [GLTFComponentTypes.SHORT]: Int16Array,
+    [GLTFComponentTypes.UNSIGNED_SHORT]: Uint16Array,
+    [GLTFComponentTypes.UNSIGNED_INT]: Uint32Array,
+    [GLTFComponentTypes.FLOAT]: Float32Array
+};
+
+/**
+ * Returns whether the data starts with the magic of a binary glTF (GLB) file.
+ */
+export function IsGLB(data: ArrayBuffer): boolean {
+
+    return data.byteLength >= 12 && new DataView(data).getUint32(0, true) === GLBMagic;
+}
+
+/**
+ * Splits a binary glTF (GLB) file into its JSON document and its binary
+ * chunk, which is the buffer without a URI.
+ *
+ * @throws If the data is not a valid GLB file.
+ */
+export function ParseGLB(data: ArrayBuffer): GLBContent {
+
+    if (!IsGLB(data)) throw new Error("The data is not a binary glTF file.");
+
+    const view: DataView = new DataView(data),
+        version: number = view.getUint32(4, true),
+        length: number = Math.min(view.getUint32(8, true), data.byteLength);
+
+    if (version !== 2) throw new Error(`Binary glTF version ${version} is not supported.`);
+
+    let document: GLTFDocument | null = null,
+        binary: ArrayBuffer | null = null,
+        offset: number = 12;
+
+    while (offset + 8 <= length) {
+
+        const chunkLength: number = view.getUint32(offset, true),
+            chunkType: number = view.getUint32(offset + 4, true),
+            start: number = offset + 8;
+
+        if (start + chunkLength > length) throw new Error("A binary glTF chunk exceeds the length of the file.");
+
+        if (chunkType === GLBChunkTypeJSON && !document) {
+            document = JSON.parse(new TextDecoder().decode(new Uint8Array(data, start, chunkLength)));
+        } else if (chunkType === GLBChunkTypeBinary && !binary) {
+            binary = data.slice(start, start + chunkLength);
+        }
+
+        // Chunks are padded to 4 bytes; unknown chunk types are skipped.
+        offset = start + Math.ceil(chunkLength / 4) * 4;
+    }
+
+    if (!document) throw new Error("The binary glTF file does not contain a JSON chunk.");
+
+    return { document, binary };
+}
+
+/**
+ * Returns whether the URI is a base64 encoded data URI.
+ */
+export function IsDataURI(uri: string): boolean {
+
+    return /^data:[^,]*;base64,/i.test(uri);
+}
+
+/**
+ * Decodes a base64 encoded data URI into its bytes.
+ */
+export function DecodeDataURI(uri: string): ArrayBuffer {
+
+    const base64: string = uri.slice(uri.indexOf(",") + 1),
+        binary: string = atob(base64),
+        buffer: ArrayBuffer = new ArrayBuffer(binary.length),
+        bytes: Uint8Array = new Uint8Array(buffer);
+
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+    return buffer;
+}
+
+/**
+ * Returns the bytes of a buffer view.
+ */
+export function ReadBufferView(document: GLTFDocument, buffers: ArrayBuffer[], index: number): Uint8Array {
+
+    const bufferView: GLTFBufferView = getItem(document.bufferViews, index, "buffer view"),
+        buffer: ArrayBuffer = getItem(buffers, bufferView.buffer, "buffer");
+
+    return new Uint8Array(buffer, bufferView.byteOffset ?? 0, bufferView.byteLength);
+}
+
+/**
+ * Reads an accessor into a tightly packed typed array of its component
+ * type, resolving the byte stride of its buffer view and sparse values.
+ * An accessor without a buffer view reads as zeros.
+ */
+export function ReadAccessor(document: GLTFDocument, buffers: ArrayBuffer[], index: number): GLTFAccessorData {
+
+    const accessor: GLTFAccessor = getItem(document.accessors, index, "accessor"),
+        ArrayType: TypedArrayConstructor = getArrayType(accessor.componentType),
+        itemSize: number = GLTFAccessorItemSizes[accessor.type];
+
+    if (!itemSize) throw new Error(`Accessor ${index} has an unknown type '${accessor.type}'.`);
+
+    const array = new ArrayType(accessor.count * itemSize);
+
+    if (accessor.bufferView !== undefined) {
+
+        const bufferView: GLTFBufferView = getItem(document.bufferViews, accessor.bufferView, "buffer view"),
+            bytes: Uint8Array = ReadBufferView(document, buffers, accessor.bufferView),
+            elementSize: number = itemSize * ArrayType.BYTES_PER_ELEMENT,
+            stride: number = bufferView.byteStride || elementSize,
+            byteOffset: number = accessor.byteOffset ?? 0;
+
+        if (byteOffset + stride * (accessor.count - 1) + elementSize > bytes.byteLength && accessor.count > 0) {
+            throw new Error(`Accessor ${index} exceeds its buffer view.`);
+        }
+
+        // Copy each element into an aligned scratch buffer, which handles strides and unaligned offsets alike.
+        const target: Uint8Array = new Uint8Array(array.buffer);
+
+        for (let i = 0; i < accessor.count; i++) {
+
+            const start: number = bytes.byteOffset + byteOffset + i * stride;
+
+            target.set(new Uint8Array(bytes.buffer, start, elementSize), i * elementSize);
+        }
+    }
+
+    if (accessor.sparse) applySparseValues(document, buffers, accessor, array, itemSize);
+
+    return {
+        array,
+        itemSize,
+        count: accessor.count,
+        normalized: accessor.normalized === true
+    };
+}
+
+/**
+ * Reads an accessor as floats. Normalized integer components are mapped
+ * to the [0, 1] or [-1, 1] range, as described by the glTF specification.
+ */
+export function ReadAccessorAsFloat32(document: GLTFDocument, buffers: ArrayBuffer[], index: number): Float32Array {
+
+    const data: GLTFAccessorData = ReadAccessor(document, buffers, index),
+        array = data.array;
+
+    if (array instanceof Float32Array) return array;
+
+    const result: Float32Array = new Float32Array(array.length);
+
+    if (!data.normalized) {
+
+        result.set(array);
+        return result;
+    }
+
+    // Signed types map their most negative value to -1 as well.
+    const divisor: number = array instanceof Int8Array ? 127
+        : array instanceof Uint8Array ? 255
+        : array instanceof Int16Array ? 32767
+        : array instanceof Uint16Array ? 65535
+        : 4294967295;
+
+    for (let i = 0; i < array.length; i++) result[i] = Math.max(array[i] / divisor, -1);
+
+    return result;
+}
+
+/**
+ * Reads the vertex attributes and indices of a mesh primitive into plain
+ * geometry data. Triangle strips and fans are converted into triangle
+ * lists; other topologies are not supported.
+ *
+ * Vertex colors are reduced to their red, green and blue components.
+ *
+ * @throws If the primitive does not consist of triangles or has no positions.
+ */
+export function ReadPrimitive(document: GLTFDocument, buffers: ArrayBuffer[], primitive: GLTFPrimitive): GeometryData {
+
+    const mode: number = primitive.mode ?? GLTFPrimitiveModes.TRIANGLES,
+        attributes: Record<string, number> = primitive.attributes;
+
+    if (mode !== GLTFPrimitiveModes.TRIANGLES && mode !== GLTFPrimitiveModes.TRIANGLE_STRIP && mode !== GLTFPrimitiveModes.TRIANGLE_FAN) {
+        throw new Error(`Primitive mode ${mode} is not supported, only triangles are.`);
+    }
+
+    if (attributes.POSITION === undefined) throw new Error("The primitive has no POSITION attribute.");
+
+    const positions: Float32Array = ReadAccessorAsFloat32(document, buffers, attributes.POSITION),
+        vertexCount: number = positions.length / 3;
+
+    const data: GeometryData = { positions };
+
+    if (attributes.NORMAL !== undefined) data.normals = ReadAccessorAsFloat32(document, buffers, attributes.NORMAL);
+    if (attributes.TEXCOORD_0 !== undefined) data.uvs = ReadAccessorAsFloat32(document, buffers, attributes.TEXCOORD_0);
+    if (attributes.TANGENT !== undefined) data.tangents = ReadAccessorAsFloat32(document, buffers, attributes.TANGENT);
+
+    if (attributes.COLOR_0 !== undefined) {
+
+        const colors: Float32Array = ReadAccessorAsFloat32(document, buffers, attributes.COLOR_0),
+            itemSize: number = colors.length / Math.max(1, vertexCount);
+
+        data.colors = itemSize === 3 ? colors : colors.filter((_: number, i: number) => i % itemSize < 3);
+    }
+
+    let indices: ArrayLike<number> | null = primitive.indices !== undefined
+        ? ReadAccessor(document, buffers, primitive.indices).array
+        : null;
+
+    if (mode !== GLTFPrimitiveModes.TRIANGLES) {
+        indices = triangulate(indices ?? Array.from({ length: vertexCount }, (_: unknown, i: number) => i), mode);
+    }
+
+    // Byte indices are not supported by WebGPU.
+    if (indices) data.indices = indices instanceof Uint8Array ? new Uint16Array(indices) : indices;
+
+    return data;
+}
+
+/**
+ * Converts a glTF sampler into sampler options. Undefined filters default
+ * to linear filtering and undefined wrap modes to repeat.
+ */
+export function GetGLTFSamplerOptions(sampler: GLTFSampler | undefined): SamplerOptions {
+
+    const minFilter: number | undefined = sampler?.minFilter;
+
+    return {
+        magFilter: sampler?.magFilter === 9728 ? "nearest" : "linear",
+        // NEAREST, NEAREST_MIPMAP_NEAREST and NEAREST_MIPMAP_LINEAR.
+        minFilter: minFilter === 9728 || minFilter === 9984 || minFilter === 9986 ? "nearest" : "linear",
+        // NEAREST_MIPMAP_NEAREST and LINEAR_MIPMAP_NEAREST.
+        mipmapFilter: minFilter === 9984 || minFilter === 9985 ? "nearest" : "linear",
+        addressModeU: getAddressMode(sampler?.wrapS),
+        addressModeV: getAddressMode(sampler?.wrapT)
+    };
+}
+
+function getAddressMode(wrap: number | undefined): GPUAddressMode {
+
+    return wrap === 33071 ? "clamp-to-edge"
+        : wrap === 33648 ? "mirror-repeat"
+        : "repeat";
+}
+
+function getArrayType(componentType: number): TypedArrayConstructor {
+
+    const ArrayType: TypedArrayConstructor | undefined = componentArrays[componentType];
+
+    if (!ArrayType) throw new Error(`Component type ${componentType} is not supported.`);
+
+    return ArrayType;
+}
+
+function getItem<T>(items: T[] | undefined, index: number, kind: string): T {
+
+    const item: T | undefined = items ? items[index] : undefined;
+
+    if (item === undefined) throw new Error(`The file references ${kind} ${index}, which does not exist.`);
+
+    return item;
+}
+
+function applySparseValues(document: GLTFDocument, buffers: ArrayBuffer[], accessor: GLTFAccessor, array: GLTFAccessorData["array"], itemSize: number): void {
+
+    const sparse = accessor.sparse!,
+        IndexArrayType: TypedArrayConstructor = getArrayType(sparse.indices.componentType),
+        ValueArrayType: TypedArrayConstructor = getArrayType(accessor.componentType);
+
+    const indexBytes: Uint8Array = ReadBufferView(document, buffers, sparse.indices.bufferView),
+        valueBytes: Uint8Array = ReadBufferView(document, buffers, sparse.values.bufferView);
+
+    // Copied, since sparse offsets are not guaranteed to be aligned within the buffer.
+    const indices = new IndexArrayType(indexBytes.slice(sparse.indices.byteOffset ?? 0, (sparse.indices.byteOffset ?? 0) + sparse.count * IndexArrayType.BYTES_PER_ELEMENT).buffer),
+        values = new ValueArrayType(valueBytes.slice(sparse.values.byteOffset ?? 0, (sparse.values.byteOffset ?? 0) + sparse.count * itemSize * ValueArrayType.BYTES_PER_ELEMENT).buffer);
+
+    for (let i = 0; i < sparse.count; i++) {
+        for (let component = 0; component < itemSize; component++) {
+            array[indices[i] * itemSize + component] = values[i * itemSize + component];
+        }
+    }
+}
+
+// Converts the indices of a triangle strip or fan into a triangle list.
+function triangulate(indices: ArrayLike<number>, mode: number): Uint32Array {
+
+    const triangleCount: number = Math.max(0, indices.length - 2),
+        result: Uint32Array = new Uint32Array(triangleCount * 3);
+
+    for (let i = 0; i < triangleCount; i++) {
+
+        if (mode === GLTFPrimitiveModes.TRIANGLE_FAN) {
+            result.set([indices[0], indices[i + 1], indices[i + 2]], i * 3);
+        } else {
+            // Every other triangle of a strip is flipped to keep a consistent winding.
+            result.set(i % 2 === 0
+                ? [indices[i], indices[i + 1], indices[i + 2]]
+                : [indices[i + 1], indices[i], indices[i + 2]], i * 3);
+        }
+    }
+
+    return result;
+}
\ No newline at end of file
@@ -0,0 +1,272 @@
+import { OBJParser } from "../classes/OBJParser";
+import { MTLMaterialData, MTLTextureMap, OBJData } from "../../typings";
+
+// Number of arguments of the texture map options, which precede the file name.
+const TextureMapOptionArguments: Record<string, number> = {
+    "-blendu": 1,
+    "-blendv": 1,
+    "-boost": 1,
+    "-bm": 1,
+    "-cc": 1,
+    "-clamp": 1,
+    "-imfchan": 1,
+    "-mm": 2,
+    "-o": 3,
+    "-s": 3,
+    "-t": 3,
+    "-texres": 1,
+    "-type": 1
+};
+
+/**
+ * Parses the text of a Wavefront `.obj` file into indexed triangle
+ * geometry. Use an {@link OBJParser} to parse a file while it downloads.
+ *
+ * @throws If a face references a vertex which does not exist.
+ */
+export function ParseOBJ(text: string): OBJData {
+
+    return new OBJParser().Write(text).End();
+}
+
+/**
+ * Parses the text of a Wavefront `.mtl` material library. Colors, the
+ * specular exponent, opacity and the diffuse, specular, emissive and
+ * normal texture maps are read; other statements are ignored.
+ */
+export function ParseMTL(text: string): MTLMaterialData[] {
+
+    const materials: MTLMaterialData[] = [];
+
+    let material: MTLMaterialData | null = null;
+
+    for (const line of SplitOBJLines(text)) {
+
+        const [keyword, rest] = SplitOBJStatement(line);
+
+        if (keyword === "newmtl") {
+
+            material = createMaterial(rest);
+            materials.push(material);
+
+            continue;
+        }
+
+        if (!material) continue;
+
+        const values: number[] = rest.split(/\s+/).map(Number);
+
+        switch (keyword.toLowerCase()) {
+            case "ka": material.ambientColor = parseColor(values, material.ambientColor); break;
+            case "kd": material.diffuseColor = parseColor(values, material.diffuseColor); break;
+            case "ks": material.specularColor = parseColor(values, material.specularColor); break;
+            case "ke": material.emissiveColor = parseColor(values, material.emissiveColor); break;
+            case "ns": material.shininess = values[0] || 0; break;
+            // The value follows the optional `-halo` flag.
+            case "d": material.opacity = values[values.length - 1] ?? 1; break;
+            case "tr": material.opacity = 1 - (values[0] || 0); break;
+            case "illum": material.illumination = values[0] || 0; break;
+            case "map_kd": material.diffuseMap = ParseTextureMap(rest); break;
+            case "map_ks": material.specularMap = ParseTextureMap(rest); break;
+            case "map_ke": material.emissiveMap = ParseTextureMap(rest); break;
+            case "norm": material.normalMap = ParseTextureMap(rest); break;
+            // Bump maps hold heights rather than normals.
+            case "bump":
+            case "map_bump": material.bumpMap = ParseTextureMap(rest); break;
+        }
+    }
+
+    return materials;
+}
+
+/**
+ * Parses the arguments of an MTL texture map statement, such as
+ * `-o 0.5 0.5 -bm 2 textures/wall normal.png`. The file name may contain
+ * spaces. Returns `null` if the statement names no file.
+ */
+export function ParseTextureMap(statement: string): MTLTextureMap | null {
+
+    const tokens: string[] = statement.split(/\s+/).filter(Boolean),
+        map: MTLTextureMap = { path: "", offset: [0, 0], scale: [1, 1], bumpMultiplier: 1 };
+
+    let i: number = 0;
+
+    while (i < tokens.length && TextureMapOptionArguments[tokens[i]] !== undefined) {
+
+        const option: string = tokens[i++],
+            values: number[] = [];
+
+        // Options taking up to three numbers may omit the trailing ones; the last token is always the file name.
+        while (values.length < TextureMapOptionArguments[option] && i < tokens.length - 1 && (values.length === 0 || isNumber(tokens[i]))) {
+            values.push(Number(tokens[i++]));
+        }
+
+        if (option === "-o") map.offset = [values[0] || 0, values[1] || 0];
+        if (option === "-s") map.scale = [values[0] ?? 1, values[1] ?? 1];
+        if (option === "-bm") map.bumpMultiplier = values[0] ?? 1;
+    }
+
+    // Files exported on Windows may use backslashes as separators.
+    map.path = tokens.slice(i).join(" ").replace(/\\/g, "/");
+
+    return map.path ? map : null;
+}
+
+/**
+ * Triangulates a planar polygon by ear clipping, which also handles
+ * concave polygons. Falls back to a fan for degenerate polygons.
+ *
+ * @param points The x, y and z coordinates of the vertices, in order.
+ * @returns Indices of the vertices, three per triangle, in the winding order of the polygon.
+ */
+export function TriangulatePolygon(points: ArrayLike<number>): number[] {
+
+    const count: number = Math.floor(points.length / 3),
+        triangles: number[] = [];
+
+    if (count < 3) return triangles;
+
+    // Newell's method gives the polygon normal, even for concave polygons.
+    let normalX: number = 0, normalY: number = 0, normalZ: number = 0;
+
+    for (let i = 0; i < count; i++) {
+
+        const j: number = (i + 1) % count;
+
+        normalX += (points[i * 3 + 1] - points[j * 3 + 1]) * (points[i * 3 + 2] + points[j * 3 + 2]);
+        normalY += (points[i * 3 + 2] - points[j * 3 + 2]) * (points[i * 3] + points[j * 3]);
+        normalZ += (points[i * 3] - points[j * 3]) * (points[i * 3 + 1] + points[j * 3 + 1]);
+    }
+
+    // Projects onto the plane of the largest normal component, so the polygon is counter-clockwise in 2D.
+    const absX: number = Math.abs(normalX), absY: number = Math.abs(normalY), absZ: number = Math.abs(normalZ),
+        [u, v, sign] = absZ >= absX && absZ >= absY ? [0, 1, Math.sign(normalZ)]
+            : absX >= absY ? [1, 2, Math.sign(normalX)]
+            : [2, 0, Math.sign(normalY)];
+
+    const projected: number[] = [];
+
+    for (let i = 0; i < count; i++) projected.push(points[i * 3 + u], points[i * 3 + v] * (sign || 1));
+
+    const remaining: number[] = Array.from({ length: count }, (_, i: number) => i);
+
+    while (remaining.length > 3) {
+
+        let clipped: boolean = false;
+
+        for (let i = 0; i < remaining.length; i++) {
+
+            const a: number = remaining[(i + remaining.length - 1) % remaining.length],
+                b: number = remaining[i],
+                c: number = remaining[(i + 1) % remaining.length];
+
+            if (!isEar(projected, remaining, a, b, c)) continue;
+
+            triangles.push(a, b, c);
+            remaining.splice(i, 1);
+            clipped = true;
+
+            break;
+        }
+
+        if (!clipped) break;
+    }
+
+    for (let i = 1; i < remaining.length - 1; i++) triangles.push(remaining[0], remaining[i], remaining[i + 1]);
+
+    return triangles;
+}
+
+/**
+ * Splits the text of an OBJ or MTL file into statements, without comments
+ * and empty lines. Lines ending with a backslash continue on the next line.
+ */
+export function SplitOBJLines(text: string): string[] {
+
+    const lines: string[] = [];
+
+    let pending: string = "";
+
+    for (const line of text.split(/\r?\n/)) {
+
+        if (line.endsWith("\\")) {
+
+            pending += line.slice(0, -1) + " ";
+            continue;
+        }
+
+        const hash: number = (pending + line).indexOf("#"),
+            statement: string = (hash === -1 ? pending + line : (pending + line).slice(0, hash)).trim();
+
+        pending = "";
+
+        statement && lines.push(statement);
+    }
+
+    pending.trim() && lines.push(pending.trim());
+
+    return lines;
+}
+
+/** Splits a statement into its keyword and the rest of the line. */
+export function SplitOBJStatement(line: string): [string, string] {
+
+    const space: number = line.search(/\s/);
+
+    return space === -1 ? [line, ""] : [line.slice(0, space), line.slice(space + 1).trim()];
+}
+
+function createMaterial(name: string): MTLMaterialData {
+
+    return {
+        name,
+        ambientColor: [0, 0, 0],
+        diffuseColor: [1, 1, 1],
+        specularColor: [0, 0, 0],
+        emissiveColor: [0, 0, 0],
+        shininess: 0,
+        opacity: 1,
+        illumination: 2,
+        diffuseMap: null,
+        specularMap: null,
+        normalMap: null,
+        bumpMap: null,
+        emissiveMap: null
+    };
+}
+
+// Colors given as a single value are gray; spectral and CIE XYZ colors are not supported.
+function parseColor(values: number[], fallback: [number, number, number]): [number, number, number] {
+
+    if (values.length === 0 || isNaN(values[0])) return fallback;
+
+    return [values[0], values[1] ?? values[0], values[2] ?? values[0]];
+}
+
+function isNumber(token: string): boolean {
+
+    return token !== "" && !isNaN(Number(token));
+}
+
+function isEar(points: number[], remaining: number[], a: number, b: number, c: number): boolean {
+
+    const ax: number = points[a * 2], ay: number = points[a * 2 + 1],
+        bx: number = points[b * 2], by: number = points[b * 2 + 1],
+        cx: number = points[c * 2], cy: number = points[c * 2 + 1];
+
+    // Reflex and degenerate corners are not ears.
+    if ((bx - ax) * (cy - ay) - (by - ay) * (cx - ax) <= 1e-12) return false;
+
+    for (const p of remaining) {
+
+        if (p === a || p === b || p === c) continue;
+
+        const px: number = points[p * 2], py: number = points[p * 2 + 1];
+
+        if ((bx - ax) * (py - ay) - (by - ay) * (px - ax) >= 0
+            && (cx - bx) * (py - by) - (cy - by) * (px - bx) >= 0
+            && (ax - cx) * (py - cy) - (ay - cy) * (px - cx) >= 0) return false;
+    }
+
+    return true;
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Resolves a URI relative to the URL of the file referencing it. Absolute
+ * and data URIs are returned as is.
+ */
+export function ResolveURL(uri: string, baseURL: string): string {
+
+    if (/^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(uri) || !baseURL) return uri;
+
+    return baseURL.replace(/[^/]*$/, "") + uri;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Material } from "./Material";
+import { Color } from "../../utilities/exports";
+import { VertexAttributeName } from "../../typings";
+
+import shader from "../../shaders/materials/BasicColorMaterial.wgsl";
+
+/**
+ * Draws a geometry in a single, unlit color.
+ *
+ * @example
+ * ```ts
+ * const material = new BasicColorMaterial(new Color(1, 0, 0));
+ * const cube = new CubeGeometry(material);
+ *
+ * // Later on, without rebuilding anything.
+ * material.color.Lerp(new Color(0, 0, 1), 0.5);
+ * ```
+ */
+export class BasicColorMaterial extends Material {
+
+    public readonly attributes: VertexAttributeName[] = ["position"];
+
+    constructor(public color: Color = new Color(1, 1, 1, 1)) {
+        super(4);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+        this.packColor(data, 0, this.color);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { Material } from "./Material";
+import { Color, Vector2 } from "../../utilities/exports";
+import { Texture } from "../../textures/classes/Texture";
+import { Sampler } from "../../textures/classes/Sampler";
+import { MaterialTextureBinding, VertexAttributeName } from "../../typings";
+
+import shader from "../../shaders/materials/BasicTextureMaterial.wgsl";
+
+/**
+ * Draws a geometry with an unlit texture, multiplied by a tint color.
+ * The geometry must provide texture coordinates.
+ *
+ * @example
+ * ```ts
+ * const texture = await Texture.FromURL("textures/crate.png");
+ * const material = new BasicTextureMaterial(texture);
+ *
+ * material.uvRepeat.Set(4, 4);
+ * ```
+ */
+export class BasicTextureMaterial extends Material {
+
+    public readonly attributes: VertexAttributeName[] = ["position", "uv"];
+
+    public uvOffset: Vector2 = new Vector2(0, 0);
+    public uvRepeat: Vector2 = new Vector2(1, 1);
+
+    constructor(public texture: Texture | null = null, public sampler: Sampler = new Sampler(), public color: Color = new Color(1, 1, 1, 1)) {
+        super(8);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override getTextureBindings(): MaterialTextureBinding[] {
+        return [{ texture: this.texture, sampler: this.sampler }];
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        this.packColor(data, 0, this.color);
+
+        data[4] = this.uvOffset.x;
+        data[5] = this.uvOffset.y;
+        data[6] = this.uvRepeat.x;
+        data[7] = this.uvRepeat.y;
+    }
+}
\ No newline at end of file
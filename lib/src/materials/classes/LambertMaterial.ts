@@ -0,0 +1,50 @@
+import { Material } from "./Material";
+import { Color, Vector3 } from "../../utilities/exports";
+import { VertexAttributeName } from "../../typings";
+
+import shader from "../../shaders/materials/LambertMaterial.wgsl";
+
+/**
+ * Diffuse-only lit material, using a single directional light and a
+ * constant ambient term.
+ */
+export class LambertMaterial extends Material {
+
+    public readonly attributes: VertexAttributeName[] = ["position", "normal"];
+
+    public ambientColor: Color = new Color(1, 1, 1, 1);
+    public ambientIntensity: number = 0.15;
+
+    /** The direction the light travels in, in world space. */
+    public lightDirection: Vector3 = new Vector3(-0.5, -1, -0.75);
+    public lightColor: Color = new Color(1, 1, 1, 1);
+    public lightIntensity: number = 1;
+
+    constructor(public color: Color = new Color(1, 1, 1, 1)) {
+        super(16);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        this.packColor(data, 0, this.color);
+
+        data[4] = this.ambientColor.red * this.ambientIntensity;
+        data[5] = this.ambientColor.green * this.ambientIntensity;
+        data[6] = this.ambientColor.blue * this.ambientIntensity;
+        data[7] = 1;
+
+        data[8] = this.lightDirection.x;
+        data[9] = this.lightDirection.y;
+        data[10] = this.lightDirection.z;
+        data[11] = 0;
+
+        data[12] = this.lightColor.red * this.lightIntensity;
+        data[13] = this.lightColor.green * this.lightIntensity;
+        data[14] = this.lightColor.blue * this.lightIntensity;
+        data[15] = 1;
+    }
+}
\ No newline at end of file
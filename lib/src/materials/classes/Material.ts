@@ -0,0 +1,264 @@
+import { v4 } from "uuid";
+
+import { Color } from "../../utilities/exports";
+import { BlendMode, MaterialTextureBinding, VertexAttributeName, WebGPURenderContext } from "../../typings";
+import { CreateMaterialBindGroupLayoutDescriptor } from "../../renderer/functions/layouts";
+import { GetOutputColorConstants, GetSceneBindingsSource } from "../../renderer/functions/shaders";
+import { Texture } from "../../textures/classes/Texture";
+
+import lights from "../../shaders/common/Lights.wgsl";
+import colorSpace from "../../shaders/common/ColorSpace.wgsl";
+
+/**
+ * Describes how a surface looks, independent of its geometry.
+ *
+ * A material owns the shader, the render state and a uniform buffer with
+ * its parameters. It is paired with a geometry to form a {@link Mesh}, and a
+ * single material can be shared between any number of meshes.
+ *
+ * Parameters can be changed at any time; the uniform buffer is rewritten
+ * on the next frame without rebuilding the pipeline.
+ *
+ * Materials sampling textures return them from 'getTextureBindings'. They
+ * are bound after the uniform buffer as texture and sampler pairs, and the
+ * bind group is recreated when a texture or sampler is replaced. Textures
+ * are shared resources and are not disposed with the material.
+ *
+ * Materials with a blend mode other than `opaque` are transparent. The
+ * renderer draws them after the opaque renderables, from back to front.
+ * Disable 'depthWriteEnabled' on transparent materials whose surfaces
+ * overlap, so surfaces behind them are not hidden.
+ */
+export abstract class Material {
+
+    public id: string = v4();
+    public name: string = "";
+
+    public cullMode: GPUCullMode = "back";
+    public depthWriteEnabled: boolean = true;
+    public depthCompare: GPUCompareFunction = "less";
+
+    /** How the color of the material is combined with the color already drawn. */
+    public blendMode: BlendMode = "opaque";
+
+    /** The uniform buffer and bind group, `null` until initialized and after being disposed. */
+    public uniformBuffer: GPUBuffer | null = null;
+    declare public bindGroupLayout: GPUBindGroupLayout;
+    public bindGroup: GPUBindGroup | null = null;
+
+    /**
+     * Whether the material is lit by the lights in the scene. The shader
+     * of a lit material can read the light storage buffer of the scene.
+     */
+    public readonly isLit: boolean = false;
+
+    /** The vertex attributes the shader of this material reads. */
+    public abstract readonly attributes: VertexAttributeName[];
+
+    // Uniform data of the material, packed by 'packUniforms'.
+    protected uniformData: Float32Array;
+
+    // Uniform data as it was last written to the GPU.
+    private writtenUniformData: Float32Array;
+
+    private hasWrittenUniforms: boolean = false;
+
+    declare private device: GPUDevice;
+
+    // Texture views and samplers the current bind group was created with.
+    private boundTextureResources: GPUBindingResource[] = [];
+
+    constructor(uniformFloatCount: number) {
+
+        // Uniform buffers are sized in multiples of 16 bytes.
+        const size: number = Math.max(4, Math.ceil(uniformFloatCount / 4) * 4);
+
+        this.uniformData = new Float32Array(size);
+        this.writtenUniformData = new Float32Array(size);
+    }
+
+    /**
+     * Returns the WGSL source of the material body, without the shared
+     * camera and object bindings.
+     */
+    protected abstract getShaderSource(): string;
+
+    /**
+     * Packs the current parameters of the material into 'uniformData'.
+     */
+    protected abstract packUniforms(data: Float32Array): void;
+
+    /**
+     * Returns the textures sampled by the shader, in binding order. A
+     * texture which is `null` is bound as a 1x1 white texture.
+     */
+    protected getTextureBindings(): MaterialTextureBinding[] {
+        return [];
+    }
+
+    /** Whether the material blends with the color already drawn. */
+    public get isTransparent(): boolean {
+        return this.blendMode !== "opaque";
+    }
+
+    /**
+     * Returns the complete WGSL source, including the shared camera
+     * and object bindings, the color space functions used to encode the
+     * output, and the light bindings for lit materials.
+     *
+     * @param instanced Whether the shader reads the transforms and colors
+     * of the instances of an {@link InstancedMesh}.
+     */
+    public GetShader(instanced: boolean = false): string {
+
+        return GetSceneBindingsSource(instanced) + "\n\n" + colorSpace + "\n\n" + (this.isLit ? lights + "\n\n" : "") + this.getShaderSource();
+    }
+
+    /**
+     * Returns the layout of the material bind group. Materials with equal
+     * layouts share their pipeline layout in the pipeline cache.
+     */
+    public GetBindGroupLayoutDescriptor(): GPUBindGroupLayoutDescriptor {
+
+        return CreateMaterialBindGroupLayoutDescriptor(this.getTextureBindings().length);
+    }
+
+    /**
+     * Returns a key describing the render state of this material. Meshes
+     * request a new pipeline from the cache when this key changes.
+     */
+    public GetPipelineStateKey(): string {
+
+        return `${this.cullMode}|${this.depthWriteEnabled}|${this.depthCompare}|${this.blendMode}`;
+    }
+
+    /**
+     * Returns the values of the pipeline-overridable constants declared by
+     * the shader, for the render target described by the context. By
+     * default, the output overrides of the color space functions.
+     */
+    public GetPipelineConstants(context: WebGPURenderContext): Record<string, number> {
+        return GetOutputColorConstants(context);
+    }
+
+    public Initialize(device: GPUDevice): void {
+
+        if (this.bindGroup) return;
+
+        this.device = device;
+        this.bindGroupLayout = device.createBindGroupLayout(this.GetBindGroupLayoutDescriptor());
+
+        this.uniformBuffer = device.createBuffer({
+            size: this.uniformData.byteLength,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+            label: "MaterialUniformBuffer-" + this.id
+        });
+
+        this.createBindGroup(this.uniformBuffer);
+    }
+
+    /**
+     * Writes the material parameters to the uniform buffer if they have
+     * changed since the last write.
+     *
+     * Note: this is an internal method which is called by the renderer
+     * once per frame for every mesh using this material.
+     * @param queue
+     */
+    public WriteUniformsToQueue(queue: GPUQueue): Material {
+
+        if (!this.uniformBuffer) return this;
+
+        this.haveTextureResourcesChanged() && this.createBindGroup(this.uniformBuffer);
+
+        this.packUniforms(this.uniformData);
+
+        if (this.hasWrittenUniforms && this.hasUniformDataChanged() === false) return this;
+
+        this.writtenUniformData.set(this.uniformData);
+        this.hasWrittenUniforms = true;
+
+        queue.writeBuffer(this.uniformBuffer, 0, this.uniformData as GPUAllowSharedBufferSource);
+
+        return this;
+    }
+
+    public Dispose(): void {
+
+        this.uniformBuffer && this.uniformBuffer.destroy();
+
+        this.uniformBuffer = null;
+        this.bindGroup = null;
+        this.boundTextureResources = [];
+        this.hasWrittenUniforms = false;
+    }
+
+    // Private and protected class members.
+
+    protected packColor(data: Float32Array, offset: number, color: Color): void {
+
+        data[offset] = color.red;
+        data[offset + 1] = color.green;
+        data[offset + 2] = color.blue;
+        data[offset + 3] = color.alpha;
+    }
+
+    private getTextureResources(): GPUBindingResource[] {
+
+        const device: GPUDevice = this.device,
+            resources: GPUBindingResource[] = [];
+
+        for (const binding of this.getTextureBindings()) {
+
+            const texture: Texture = binding.texture ?? Texture.GetFallback(device);
+
+            resources.push(texture.GetView(device), binding.sampler.GetSampler(device));
+        }
+
+        return resources;
+    }
+
+    private haveTextureResourcesChanged(): boolean {
+
+        if (this.boundTextureResources.length === 0) return false;
+
+        const resources: GPUBindingResource[] = this.getTextureResources();
+
+        return resources.some((resource: GPUBindingResource, i: number) => resource !== this.boundTextureResources[i]);
+    }
+
+    private createBindGroup(uniformBuffer: GPUBuffer): void {
+
+        const resources: GPUBindingResource[] = this.getTextureResources();
+
+        this.bindGroup = this.device.createBindGroup({
+            label: "MaterialBindGroup-" + this.id,
+            layout: this.bindGroupLayout,
+            entries: [
+                {
+                    binding: 0,
+                    resource: {
+                        buffer: uniformBuffer
+                    }
+                },
+                ...resources.map((resource: GPUBindingResource, i: number): GPUBindGroupEntry => {
+                    return { binding: i + 1, resource };
+                })
+            ]
+        });
+
+        this.boundTextureResources = resources;
+    }
+
+    private hasUniformDataChanged(): boolean {
+
+        const data = this.uniformData,
+            written = this.writtenUniformData;
+
+        for (let i = 0; i < data.length; i++) {
+            if (data[i] !== written[i]) return true;
+        }
+
+        return false;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { Material } from "./Material";
+import { Color } from "../../utilities/exports";
+import { Texture } from "../../textures/classes/Texture";
+import { Sampler } from "../../textures/classes/Sampler";
+import { MaterialTextureBinding, VertexAttributeName } from "../../typings";
+
+import normalMapping from "../../shaders/common/NormalMapping.wgsl";
+import shader from "../../shaders/materials/PBRMaterial.wgsl";
+
+/**
+ * Lit material using the glTF metallic-roughness model: a GGX specular
+ * term and a Lambertian diffuse term, lit by the ambient, directional,
+ * point and spot lights in the scene. The geometry must provide normals
+ * and texture coordinates.
+ *
+ * Every texture is multiplied by its factor, and a texture which is
+ * `null` leaves the factor as is. As in glTF, factors are linear, base
+ * color and emissive textures are sRGB encoded and the other textures
+ * are linear; create them with the matching `colorSpace` option. The
+ * metallic-roughness texture stores roughness in the green channel and
+ * metallic in the blue channel; the occlusion texture uses the red channel.
+ *
+ * Lighting is computed in linear space and encoded for the `colorSpace`
+ * option and canvas format of the renderer.
+ *
+ * @example
+ * ```ts
+ * const material = new PBRMaterial(new Color(1, 0.766, 0.336), 1, 0.3);
+ *
+ * material.normalTexture = await Texture.FromURL("textures/brushed-normal.png", { colorSpace: "linear" });
+ *
+ * scene.Add(new Mesh(CreateUVSphereGeometry(), material), new DirectionalLight(undefined, 3));
+ * ```
+ */
+export class PBRMaterial extends Material {
+
+    public readonly attributes: VertexAttributeName[] = ["position", "normal", "uv"];
+    public override readonly isLit: boolean = true;
+
+    public baseColorTexture: Texture | null = null;
+    public metallicRoughnessTexture: Texture | null = null;
+    public normalTexture: Texture | null = null;
+    public occlusionTexture: Texture | null = null;
+    public emissiveTexture: Texture | null = null;
+
+    /** Sampler shared by all textures of the material. */
+    public sampler: Sampler = new Sampler();
+
+    /** Scale applied to the x and y components of the normal texture. */
+    public normalScale: number = 1;
+
+    /** How strongly the occlusion texture darkens the ambient light, between 0 and 1. */
+    public occlusionStrength: number = 1;
+
+    public emissiveFactor: Color = new Color(0, 0, 0, 1);
+
+    /** Multiplier of the emissive color, for emission brighter than 1. */
+    public emissiveStrength: number = 1;
+
+    /**
+     * Fragments with a base color alpha below this value are discarded,
+     * like the glTF `MASK` alpha mode. Zero disables the test.
+     */
+    public alphaCutoff: number = 0;
+
+    /**
+     * @param baseColorFactor Linear base color, multiplied by the base color texture.
+     * @param metallicFactor Metalness between 0 (dielectric) and 1 (metal).
+     * @param roughnessFactor Perceptual roughness between 0 (mirror) and 1 (fully rough).
+     */
+    constructor(public baseColorFactor: Color = new Color(1, 1, 1, 1), public metallicFactor: number = 1, public roughnessFactor: number = 1) {
+        super(16);
+    }
+
+    protected override getShaderSource(): string {
+        return normalMapping + "\n\n" + shader;
+    }
+
+    protected override getTextureBindings(): MaterialTextureBinding[] {
+
+        const sampler: Sampler = this.sampler;
+
+        return [
+            { texture: this.baseColorTexture, sampler },
+            { texture: this.metallicRoughnessTexture, sampler },
+            { texture: this.normalTexture, sampler },
+            { texture: this.occlusionTexture, sampler },
+            { texture: this.emissiveTexture, sampler }
+        ];
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        this.packColor(data, 0, this.baseColorFactor);
+
+        data[4] = this.emissiveFactor.red;
+        data[5] = this.emissiveFactor.green;
+        data[6] = this.emissiveFactor.blue;
+        data[7] = Math.max(0, this.emissiveStrength);
+
+        data[8] = this.metallicFactor;
+        data[9] = this.roughnessFactor;
+        data[10] = this.normalScale;
+        data[11] = this.occlusionStrength;
+
+        data[12] = this.normalTexture ? 1 : 0;
+        data[13] = this.alphaCutoff;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { Material } from "./Material";
+import { Color } from "../../utilities/exports";
+import { VertexAttributeName } from "../../typings";
+
+import shader from "../../shaders/materials/PhongMaterial.wgsl";
+
+/**
+ * Lit material using the Blinn-Phong reflection model. It is lit by the
+ * ambient, directional, point and spot lights in the scene.
+ *
+ * @example
+ * ```ts
+ * const material = new PhongMaterial(new Color(0.8, 0.2, 0.2));
+ *
+ * material.shininess = 64;
+ *
+ * scene.Add(new Mesh(CreateUVSphereGeometry(), material), new PointLight(undefined, 5));
+ * ```
+ */
+export class PhongMaterial extends Material {
+
+    public readonly attributes: VertexAttributeName[] = ["position", "normal"];
+    public override readonly isLit: boolean = true;
+
+    public specularColor: Color = new Color(1, 1, 1, 1);
+
+    /** Exponent of the specular highlight; higher values give smaller, sharper highlights. */
+    public shininess: number = 32;
+
+    /** Light emitted by the surface itself, independent of the lights in the scene. */
+    public emissiveColor: Color = new Color(0, 0, 0, 1);
+
+    constructor(public color: Color = new Color(1, 1, 1, 1)) {
+        super(12);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        this.packColor(data, 0, this.color);
+
+        data[4] = this.specularColor.red;
+        data[5] = this.specularColor.green;
+        data[6] = this.specularColor.blue;
+        data[7] = Math.max(1, this.shininess);
+
+        this.packColor(data, 8, this.emissiveColor);
+    }
+}
\ No newline at end of file
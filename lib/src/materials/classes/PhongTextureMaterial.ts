@@ -0,0 +1,95 @@
+import { Material } from "./Material";
+import { Color, Vector2 } from "../../utilities/exports";
+import { Texture } from "../../textures/classes/Texture";
+import { Sampler } from "../../textures/classes/Sampler";
+import { MaterialTextureBinding, VertexAttributeName } from "../../typings";
+
+import normalMapping from "../../shaders/common/NormalMapping.wgsl";
+import shader from "../../shaders/materials/PhongTextureMaterial.wgsl";
+
+/**
+ * Textured variant of the {@link PhongMaterial}. The diffuse, specular and
+ * emissive colors are multiplied by their textures, and an optional
+ * normal texture adds surface detail. The geometry must provide normals
+ * and texture coordinates.
+ *
+ * Diffuse, specular and emissive textures hold colors and should use the
+ * `srgb` color space; the normal texture must use the `linear` color space.
+ * A texture which is `null` leaves its color as is.
+ *
+ * @example
+ * ```ts
+ * const material = new PhongTextureMaterial(await Texture.FromURL("textures/bricks.png"));
+ *
+ * material.normalTexture = await Texture.FromURL("textures/bricks-normal.png", { colorSpace: "linear" });
+ * material.uvRepeat.Set(2, 2);
+ * ```
+ */
+export class PhongTextureMaterial extends Material {
+
+    public readonly attributes: VertexAttributeName[] = ["position", "normal", "uv"];
+    public override readonly isLit: boolean = true;
+
+    public specularColor: Color = new Color(1, 1, 1, 1);
+
+    /** Exponent of the specular highlight; higher values give smaller, sharper highlights. */
+    public shininess: number = 32;
+
+    /** Light emitted by the surface itself, independent of the lights in the scene. */
+    public emissiveColor: Color = new Color(0, 0, 0, 1);
+
+    public specularTexture: Texture | null = null;
+    public normalTexture: Texture | null = null;
+    public emissiveTexture: Texture | null = null;
+
+    /** Scale applied to the x and y components of the normal texture. */
+    public normalScale: number = 1;
+
+    public uvOffset: Vector2 = new Vector2(0, 0);
+    public uvRepeat: Vector2 = new Vector2(1, 1);
+
+    /**
+     * @param diffuseTexture Texture multiplied by the diffuse color.
+     * @param sampler Sampler shared by all textures of the material.
+     * @param color The diffuse color.
+     */
+    constructor(public diffuseTexture: Texture | null = null, public sampler: Sampler = new Sampler(), public color: Color = new Color(1, 1, 1, 1)) {
+        super(20);
+    }
+
+    protected override getShaderSource(): string {
+        return normalMapping + "\n\n" + shader;
+    }
+
+    protected override getTextureBindings(): MaterialTextureBinding[] {
+
+        const sampler: Sampler = this.sampler;
+
+        return [
+            { texture: this.diffuseTexture, sampler },
+            { texture: this.specularTexture, sampler },
+            { texture: this.normalTexture, sampler },
+            { texture: this.emissiveTexture, sampler }
+        ];
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        this.packColor(data, 0, this.color);
+
+        data[4] = this.specularColor.red;
+        data[5] = this.specularColor.green;
+        data[6] = this.specularColor.blue;
+        data[7] = Math.max(1, this.shininess);
+
+        this.packColor(data, 8, this.emissiveColor);
+
+        data[12] = this.uvOffset.x;
+        data[13] = this.uvOffset.y;
+        data[14] = this.uvRepeat.x;
+        data[15] = this.uvRepeat.y;
+
+        data[16] = this.normalTexture ? 1 : 0;
+        data[17] = this.normalScale;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { Material } from "./Material";
+import { Color } from "../../utilities/exports";
+import { VertexAttributeName } from "../../typings";
+
+import shader from "../../shaders/materials/VertexColorMaterial.wgsl";
+
+/**
+ * Draws a geometry using its per-vertex colors, multiplied by {@link color}.
+ */
+export class VertexColorMaterial extends Material {
+
+    public readonly attributes: VertexAttributeName[] = ["position", "color"];
+
+    constructor(public color: Color = new Color(1, 1, 1, 1)) {
+        super(4);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+        this.packColor(data, 0, this.color);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+export { Material } from "./classes/Material";
+export { BasicColorMaterial } from "./classes/BasicColorMaterial";
+export { VertexColorMaterial } from "./classes/VertexColorMaterial";
+export { LambertMaterial } from "./classes/LambertMaterial";
+export { BasicTextureMaterial } from "./classes/BasicTextureMaterial";
+export { PhongMaterial } from "./classes/PhongMaterial";
+export { PBRMaterial } from "./classes/PBRMaterial";
+export { PhongTextureMaterial } from "./classes/PhongTextureMaterial";
+export { GetBlendState } from "./functions/blending";
\ No newline at end of file
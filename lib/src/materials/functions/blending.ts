@@ -0,0 +1,40 @@
+import { BlendMode } from "../../typings";
+
+// Blend states by mode. The alpha of multiply and screen keeps the alpha already drawn.
+const BlendStates: Record<Exclude<BlendMode, "opaque">, GPUBlendState> = {
+    normal: {
+        color: { srcFactor: "src-alpha", dstFactor: "one-minus-src-alpha", operation: "add" },
+        alpha: { srcFactor: "one", dstFactor: "one-minus-src-alpha", operation: "add" }
+    },
+    premultiplied: {
+        color: { srcFactor: "one", dstFactor: "one-minus-src-alpha", operation: "add" },
+        alpha: { srcFactor: "one", dstFactor: "one-minus-src-alpha", operation: "add" }
+    },
+    additive: {
+        color: { srcFactor: "src-alpha", dstFactor: "one", operation: "add" },
+        alpha: { srcFactor: "zero", dstFactor: "one", operation: "add" }
+    },
+    multiply: {
+        color: { srcFactor: "dst", dstFactor: "zero", operation: "add" },
+        alpha: { srcFactor: "zero", dstFactor: "one", operation: "add" }
+    },
+    screen: {
+        color: { srcFactor: "one-minus-dst", dstFactor: "one", operation: "add" },
+        alpha: { srcFactor: "zero", dstFactor: "one", operation: "add" }
+    }
+};
+
+/**
+ * Returns the blend state of the color target for a blend mode, or `null`
+ * for `opaque`, which writes the color without blending.
+ *
+ * - `normal` blends by the alpha of the material color.
+ * - `premultiplied` expects colors already multiplied by their alpha.
+ * - `additive` adds the color, scaled by its alpha, to the color drawn.
+ * - `multiply` multiplies the color drawn by the color, ignoring alpha.
+ * - `screen` brightens the color drawn by the color, ignoring alpha.
+ */
+export function GetBlendState(mode: BlendMode): GPUBlendState | null {
+
+    return mode === "opaque" ? null : BlendStates[mode] ?? null;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+export default function CubeGeometryNormals(): number[] {
+    return [
+        // Front face
+         0,  0,  1,
+         0,  0,  1,
+         0,  0,  1,
+         0,  0,  1,
+        // Right face
+         1,  0,  0,
+         1,  0,  0,
+         1,  0,  0,
+         1,  0,  0,
+        // Back face
+         0,  0, -1,
+         0,  0, -1,
+         0,  0, -1,
+         0,  0, -1,
+        // Left face
+        -1,  0,  0,
+        -1,  0,  0,
+        -1,  0,  0,
+        -1,  0,  0,
+        // Top face
+         0,  1,  0,
+         0,  1,  0,
+         0,  1,  0,
+         0,  1,  0,
+        // Bottom face
+         0, -1,  0,
+         0, -1,  0,
+         0, -1,  0,
+         0, -1,  0,
+    ];
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { mat3, mat4, vec3 } from "gl-matrix";
+
+import { SceneNode } from "./SceneNode";
+import { WebGPURendererScene } from "./WebGPURendererScene";
+import { Renderable } from "../../renderer/classes/Renderable";
+import { Mesh } from "../../renderer/classes/Mesh";
+import { InstancedMesh } from "../../renderer/classes/InstancedMesh";
+import { BufferAttribute } from "../../geometries/classes/BufferAttribute";
+import { BufferGeometry } from "../../geometries/classes/BufferGeometry";
+import { Camera } from "../../camera/classes/Camera";
+import { BoundingSphere, Ray, Vector3 } from "../../utilities/exports";
+import { RaycastHit } from "../../typings";
+
+/**
+ * Finds the renderables a ray passes through, such as the object under
+ * the mouse cursor, on the CPU.
+ *
+ * Each renderable is first tested against its world bounding sphere, and
+ * meshes are then tested triangle by triangle against the positions and
+ * indices of their geometry, skipping the faces their material culls.
+ * Each instance of an instanced mesh is tested on its own. Renderables
+ * without bounds and hidden nodes, with all their descendants, are
+ * skipped.
+ *
+ * @example
+ * ```ts
+ * const raycaster = new Raycaster();
+ *
+ * canvas.addEventListener("click", (event: MouseEvent) => {
+ *
+ *     raycaster.SetFromCamera(camera, event.offsetX / canvas.clientWidth * 2 - 1, 1 - event.offsetY / canvas.clientHeight * 2);
+ *
+ *     const [hit] = raycaster.Intersect(scene);
+ *
+ *     if (hit) console.log(hit.renderable.name, hit.point);
+ * });
+ * ```
+ */
+export class Raycaster {
+
+    public ray: Ray;
+
+    constructor(origin?: Vector3, direction?: Vector3, public near: number = 0, public far: number = Infinity) {
+
+        this.ray = new Ray(origin?.Clone(), direction?.Clone());
+    }
+
+    /**
+     * Sets the ray from the camera through a point on the screen, in
+     * normalized device coordinates.
+     *
+     * @see Camera.ScreenPointToRay
+     */
+    public SetFromCamera(camera: Camera, x: number, y: number): Raycaster {
+
+        camera.ScreenPointToRay(x, y, this.ray);
+
+        return this;
+    }
+
+    /**
+     * Returns the hits of the ray, sorted from the closest to the furthest.
+     * A renderable may be hit more than once, on different faces.
+     *
+     * @param target The scene, nodes or renderables to test. The descendants of nodes are tested as well.
+     */
+    public Intersect(target: WebGPURendererScene | SceneNode | SceneNode[]): RaycastHit[] {
+
+        const roots: SceneNode[] = target instanceof WebGPURendererScene ? [target.root] : Array.isArray(target) ? target : [target],
+            hits: RaycastHit[] = [];
+
+        for (const root of roots) {
+
+            root.UpdateWorldMatrix();
+
+            root.Traverse((node: SceneNode) => {
+
+                if (!node.visible) return false;
+
+                node instanceof Renderable && this.intersectRenderable(node, hits);
+            });
+        }
+
+        return hits.sort((a: RaycastHit, b: RaycastHit) => a.distance - b.distance);
+    }
+
+    // Private and protected class members.
+
+    private intersectRenderable(renderable: Renderable, hits: RaycastHit[]): void {
+
+        const sphere: BoundingSphere | null = renderable.GetWorldBoundingSphere();
+
+        if (!sphere) return;
+
+        const distance: number | null = this.ray.IntersectSphere(sphere);
+
+        if (distance === null || distance > this.far) return;
+
+        if (!(renderable instanceof Mesh)) return;
+
+        if (!(renderable instanceof InstancedMesh)) return this.intersectMesh(renderable, renderable.worldMatrix, null, hits);
+
+        const instanceMatrix: mat4 = mat4.create(),
+            matrix: mat4 = mat4.create();
+
+        for (let i = 0; i < renderable.count; i++) {
+
+            mat4.multiply(matrix, renderable.worldMatrix, renderable.GetMatrixAt(i, instanceMatrix));
+
+            this.intersectMesh(renderable, matrix, i, hits);
+        }
+    }
+
+    // Tests the triangles of the mesh in its local space, where the geometry is given.
+    private intersectMesh(mesh: Mesh, matrix: mat4, instanceIndex: number | null, hits: RaycastHit[]): void {
+
+        const geometry: BufferGeometry = mesh.geometry,
+            position: BufferAttribute | undefined = geometry.GetAttribute("position"),
+            inverse: mat4 | null = mat4.invert(mat4.create(), matrix);
+
+        if (!position || !inverse) return;
+
+        const ray: Ray = this.ray.Clone().ApplyMatrix(inverse);
+
+        if (ray.IntersectBox(geometry.GetBoundingBox()) === null) return;
+
+        const index: Uint16Array | Uint32Array | null = geometry.index,
+            triangleCount: number = Math.floor((index ? index.length : position.count) / 3),
+            cullMode: GPUCullMode = mesh.material.cullMode,
+            a: Vector3 = new Vector3(), b: Vector3 = new Vector3(), c: Vector3 = new Vector3();
+
+        let normalMatrix: mat3 | null = null;
+
+        for (let t = 0; t < triangleCount; t++) {
+
+            this.readVertex(position, index ? index[t * 3] : t * 3, a);
+            this.readVertex(position, index ? index[t * 3 + 1] : t * 3 + 1, b);
+            this.readVertex(position, index ? index[t * 3 + 2] : t * 3 + 2, c);
+
+            const localDistance: number | null = ray.IntersectTriangle(a, b, c, cullMode);
+
+            if (localDistance === null) continue;
+
+            // Distances are measured in world space, where the scale of the mesh applies.
+            const local: Vector3 = ray.At(localDistance),
+                point: vec3 = vec3.transformMat4(vec3.create(), vec3.fromValues(local.x, local.y, local.z), matrix),
+                distance: number = this.ray.origin.DistanceTo({ x: point[0], y: point[1], z: point[2] });
+
+            if (distance < this.near || distance > this.far) continue;
+
+            normalMatrix ??= mat3.normalFromMat4(mat3.create(), matrix) ?? mat3.create();
+
+            const faceNormal: Vector3 = b.Clone().Subtract(a).Cross(c.Clone().Subtract(a)),
+                normal: vec3 = vec3.transformMat3(vec3.create(), vec3.fromValues(faceNormal.x, faceNormal.y, faceNormal.z), normalMatrix);
+
+            hits.push({
+                distance,
+                point: new Vector3(point[0], point[1], point[2]),
+                normal: new Vector3(normal[0], normal[1], normal[2]).Normalize(),
+                faceIndex: t,
+                instanceIndex,
+                renderable: mesh
+            });
+        }
+    }
+
+    private readVertex(position: BufferAttribute, index: number, target: Vector3): Vector3 {
+
+        return target.Set(position.GetComponent(index, 0), position.GetComponent(index, 1), position.GetComponent(index, 2));
+    }
+}
\ No newline at end of file
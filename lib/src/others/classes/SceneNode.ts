@@ -0,0 +1,194 @@
+import { v4 } from "uuid";
+import { mat4, vec3 } from "gl-matrix";
+
+import { Transform, Vector3 } from "../../utilities/exports";
+
+/**
+ * A node in the scene hierarchy.
+ *
+ * Every node has a local {@link transform} relative to its parent and a
+ * {@link worldMatrix} which is derived from the transforms of all of its
+ * ancestors. World matrices are propagated top-down by calling
+ * {@link UpdateWorldMatrix} on the root node, which the renderer does once
+ * per frame before drawing.
+ *
+ * Nodes without geometry can be used as pivots to group other nodes.
+ *
+ * @example
+ * ```ts
+ * const character = new CubeGeometry();
+ * const weapon = new CubeGeometry();
+ *
+ * weapon.transform.SetPosition(1.5, 0, 0);
+ * character.Add(weapon);
+ *
+ * scene.Add(character);
+ * ```
+ */
+export class SceneNode {
+
+    public id: string = v4();
+    public name: string;
+
+    public parent: SceneNode | null = null;
+    public children: SceneNode[] = [];
+
+    /** Invisible nodes are skipped, including their children, when rendering. */
+    public visible: boolean = true;
+
+    /** The transform of this node relative to its parent. */
+    public transform: Transform = new Transform();
+
+    /** The transform of this node relative to the scene root. */
+    public readonly worldMatrix: mat4 = mat4.create();
+
+    private isWorldMatrixDirty: boolean = true;
+
+    constructor(name: string = "") {
+        this.name = name;
+    }
+
+    /**
+     * Adds one or more nodes as children of this node. A node that already
+     * has a parent is detached from it first.
+     */
+    public Add(...nodes: SceneNode[]): SceneNode {
+
+        for (const node of nodes) {
+
+            if (node === this || node.IsAncestorOf(this)) continue;
+
+            node.parent && node.parent.Remove(node);
+
+            node.parent = this;
+            node.isWorldMatrixDirty = true;
+
+            this.children.push(node);
+        }
+
+        return this;
+    }
+
+    public Remove(...nodes: SceneNode[]): SceneNode {
+
+        for (const node of nodes) {
+
+            const index = this.children.indexOf(node);
+
+            if (index === -1) continue;
+
+            this.children.splice(index, 1);
+
+            node.parent = null;
+            node.isWorldMatrixDirty = true;
+        }
+
+        return this;
+    }
+
+    public RemoveFromParent(): SceneNode {
+
+        this.parent && this.parent.Remove(this);
+        return this;
+    }
+
+    public Clear(): SceneNode {
+
+        return this.Remove(...this.children);
+    }
+
+    public IsAncestorOf(node: SceneNode): boolean {
+
+        for (let current = node.parent; current !== null; current = current.parent) {
+            if (current === this) return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Calls the callback for this node and all of its descendants, depth-first.
+     * Returning `false` from the callback skips the children of that node.
+     */
+    public Traverse(callback: (node: SceneNode) => boolean | void): void {
+
+        if (callback(this) === false) return;
+
+        const children = this.children;
+
+        for (let i = 0; i < children.length; i++) {
+            children[i].Traverse(callback);
+        }
+    }
+
+    public FindById(id: string): SceneNode | null {
+
+        return this.find(function (node: SceneNode) {
+            return node.id === id;
+        });
+    }
+
+    /**
+     * Returns the first node, depth-first, with the given name.
+     */
+    public FindByName(name: string): SceneNode | null {
+
+        return this.find(function (node: SceneNode) {
+            return node.name === name;
+        });
+    }
+
+    /**
+     * Updates the world matrix of this node and propagates it down to
+     * all descendants. Matrices are only recomposed for nodes whose own
+     * transform, or one of its ancestors' transforms, has changed.
+     *
+     * @param force Recompose the world matrices regardless of changes.
+     */
+    public UpdateWorldMatrix(force: boolean = false): void {
+
+        const hasLocalChanged: boolean = this.transform.UpdateMatrix();
+        const shouldUpdate: boolean = force || hasLocalChanged || this.isWorldMatrixDirty;
+
+        if (shouldUpdate) {
+
+            this.parent
+                ? mat4.multiply(this.worldMatrix, this.parent.worldMatrix, this.transform.matrix)
+                : mat4.copy(this.worldMatrix, this.transform.matrix);
+
+            this.isWorldMatrixDirty = false;
+        }
+
+        const children = this.children;
+
+        for (let i = 0; i < children.length; i++) {
+            children[i].UpdateWorldMatrix(shouldUpdate);
+        }
+    }
+
+    /**
+     * Returns the position of this node in world space, as of the last
+     * world matrix update.
+     */
+    public GetWorldPosition(target: Vector3 = new Vector3()): Vector3 {
+
+        const translation: vec3 = mat4.getTranslation(vec3.create(), this.worldMatrix);
+
+        return target.Set(translation[0], translation[1], translation[2]);
+    }
+
+    // Private and protected class members.
+
+    private find(predicate: (node: SceneNode) => boolean): SceneNode | null {
+
+        let result: SceneNode | null = null;
+
+        this.Traverse(function (node: SceneNode) {
+
+            if (result) return false;
+            if (predicate(node)) result = node;
+        });
+
+        return result;
+    }
+}
@@ -1,35 +1,130 @@
 import { v4 } from "uuid";
+import { mat4, vec3 } from "gl-matrix";
 
-import { Renderable, WebGPURenderer } from "../../renderer/exports";
-import { Debug } from "../../utilities/exports";
+import { Canvas2DRenderer, Renderable, WebGPURenderer } from "../../renderer/exports";
+import { BoundingSphere, Debug } from "../../utilities/exports";
 import { ErrorCodes } from "../../codes";
 import { Camera } from "../../camera/exports";
 import { WebGPURendererFrameInfo } from "../../typings";
+import { SceneNode } from "./SceneNode";
+import { Light } from "../../lights/classes/Light";
+import { SceneLighting } from "../../lights/classes/SceneLighting";
 
 export class WebGPURendererScene {
 
+    /** The root of the node hierarchy. Every node in the scene descends from it. */
+    public root: SceneNode = new SceneNode("root");
+
+    /**
+     * Flattened list of the visible, initialized renderables in the hierarchy,
+     * rebuilt by {@link Update} each frame.
+     */
     public rendererables: Renderable[] = [];
+
+    /**
+     * The renderables of {@link rendererables} which are opaque, drawn first.
+     * Sorted front to back by {@link Sort}, so hidden surfaces fail the depth test early.
+     */
+    public opaqueRenderables: Renderable[] = [];
+
+    /**
+     * The renderables of {@link rendererables} which are transparent, drawn
+     * after the opaque ones. Sorted back to front by {@link Sort}, so they
+     * blend with the surfaces behind them.
+     */
+    public transparentRenderables: Renderable[] = [];
+
+    /** Flattened list of the visible lights in the hierarchy, rebuilt by {@link Update} each frame. */
+    public lights: Light[] = [];
+
+    /** The light storage buffer, bound by the renderer for lit materials. */
+    public lighting: SceneLighting = new SceneLighting();
+
     public id: string = v4();
 
     public hasPrepared: boolean = false;
 
-    constructor(public renderer: WebGPURenderer) {}
+    private pendingRenderables: Set<Renderable> = new Set();
+
+    // Renderables whose initialization threw, skipped by 'Update' until removed or retried.
+    private failedRenderables: WeakSet<Renderable> = new WeakSet();
+
+    // Distance of each renderable in front of the camera, computed by 'Sort'.
+    private viewDepths: Map<Renderable, number> = new Map();
+    private viewPosition: vec3 = vec3.create();
+
+    /**
+     * @param renderer The renderer drawing the scene. A {@link Canvas2DRenderer}
+     * draws the scene without GPU resources, so renderables are not initialized.
+     */
+    constructor(public renderer: WebGPURenderer | Canvas2DRenderer) {}
+
+    public Add(...nodes: SceneNode[]) {
+        this.root.Add(...nodes);
+    }
+
+    public Remove(...nodes: SceneNode[]) {
+
+        const failedRenderables: WeakSet<Renderable> = this.failedRenderables;
+
+        for (const node of nodes) {
+
+            if (!this.root.IsAncestorOf(node)) continue;
+
+            node.RemoveFromParent();
+
+            // Renderables which failed to initialize are tried again when added back.
+            node.Traverse(function (child: SceneNode) {
+                child instanceof Renderable && failedRenderables.delete(child);
+            });
+        }
+    }
+
+    /**
+     * Initializes a renderable again on the next update after its
+     * initialization has failed, for instance once its geometry or
+     * material have been fixed.
+     */
+    public RetryRenderable(renderable: Renderable) {
+        this.failedRenderables.delete(renderable);
+    }
 
     public AddRenderable(renderable: Renderable) {
         if (renderable.isRenderable) {
-            this.rendererables.push(renderable);
+            this.root.Add(renderable);
         }
     }
 
     public RemoveRenderable(renderable: Renderable) {
-        const index = this.rendererables.indexOf(renderable);
-        if (index > -1) {
-            this.rendererables.splice(index, 1);
-        }
+        this.Remove(renderable);
     }
 
     public ClearRenderables() {
+        this.root.Clear();
+        this.failedRenderables = new WeakSet();
         this.rendererables = [];
+        this.opaqueRenderables = [];
+        this.transparentRenderables = [];
+    }
+
+    public Traverse(callback: (node: SceneNode) => boolean | void) {
+        this.root.Traverse(callback);
+    }
+
+    public FindById(id: string): SceneNode | null {
+        return this.root.FindById(id);
+    }
+
+    public FindByName(name: string): SceneNode | null {
+        return this.root.FindByName(name);
+    }
+
+    /**
+     * Returns the renderable with the given {@link Renderable.pickingId}
+     * among the renderables collected by the last {@link Update}, or `null`.
+     */
+    public FindByPickingId(pickingId: number): Renderable | null {
+        return this.rendererables.find((renderable: Renderable) => renderable.pickingId === pickingId) ?? null;
     }
 
     public async Prepare(camera: Camera) {
@@ -38,17 +133,25 @@ export class WebGPURendererScene {
             "Make sure to call 'await [name of renderer].Initialize()' before preparing the scene."
         ], ErrorCodes.WGPURSCENE_RENDERER_NOT_INITIALIZED)
 
+        if (!(this.renderer instanceof WebGPURenderer)) {
+
+            this.hasPrepared = true;
+            return;
+        }
+
         const startTimestamp: number = Date.now();
 
-        const renderer: WebGPURenderer = this.renderer,
-            rendererables = this.rendererables,
-            amountOfRenderables = rendererables.length;
+        const rendererables: Renderable[] = [];
+
+        this.root.Traverse(function (node: SceneNode) {
+            if (node instanceof Renderable && !node.hasInitialized) rendererables.push(node);
+        });
+
+        const amountOfRenderables = rendererables.length;
 
         for(let i = 0; i < amountOfRenderables; i++) {
-            
-            const renderable = rendererables[i];
 
-            await renderable.Initialize(renderer.gpuDevice, renderer.format, renderer.options.msaaSampleCount ?? 1);
+            await this.initializeRenderable(rendererables[i]);
         }
 
         camera.EnsureBinding(this.renderer.gpuDevice);
@@ -57,10 +160,123 @@ export class WebGPURendererScene {
             timeDifferenceInMs: number = stopTimestamp - startTimestamp;
 
         this.hasPrepared = true;
-            
+
         return Debug.Log("Succesfully prepared renderables.", [
             `Amount of renderables: ${amountOfRenderables}`,
             `Prepared in ${timeDifferenceInMs} milliseconds.`
         ]);
     }
+
+    /**
+     * Propagates the world matrices top-down through the hierarchy, and
+     * rebuilds {@link rendererables}, {@link opaqueRenderables},
+     * {@link transparentRenderables} and {@link lights}. Renderables
+     * that have been added after the scene was prepared are initialized
+     * here and drawn as soon as their initialization has completed.
+     *
+     * Note: this is an internal method which is called by the renderer
+     * at the start of every frame.
+     */
+    public Update() {
+
+        this.root.UpdateWorldMatrix();
+
+        const rendererables: Renderable[] = this.rendererables,
+            opaqueRenderables: Renderable[] = this.opaqueRenderables,
+            transparentRenderables: Renderable[] = this.transparentRenderables,
+            lights: Light[] = this.lights;
+
+        rendererables.length = 0;
+        opaqueRenderables.length = 0;
+        transparentRenderables.length = 0;
+        lights.length = 0;
+
+        this.root.Traverse((node: SceneNode) => {
+
+            if (!node.visible) return false;
+
+            if (node instanceof Light) lights.push(node);
+            if (!(node instanceof Renderable)) return;
+
+            if (node.hasInitialized) {
+
+                rendererables.push(node);
+                (node.isTransparent ? transparentRenderables : opaqueRenderables).push(node);
+            } else if (this.hasPrepared && this.renderer instanceof WebGPURenderer && !this.pendingRenderables.has(node) && !this.failedRenderables.has(node)) {
+
+                this.initializeRenderable(node).catch(function (error: Error) {
+                    Debug.Error("Could not initialize a renderable which was added after the scene was prepared.", [
+                        `Renderable ID ${node.id}`,
+                        "Error: " + (error && error.message)
+                    ], ErrorCodes.WGPURSCENE_RENDERABLE_INITIALIZATION_FAILED);
+                });
+            }
+        });
+    }
+
+    /**
+     * Sorts {@link opaqueRenderables} front to back and
+     * {@link transparentRenderables} back to front, relative to the camera.
+     * The 'renderOrder' of a renderable takes precedence over its distance.
+     * Renderables are placed at the center of their bounds, or at their
+     * origin if their bounds are unknown.
+     *
+     * Note: this is an internal method which is called by the renderer
+     * every frame, after {@link Update}.
+     */
+    public Sort(camera: Camera) {
+
+        const depths: Map<Renderable, number> = this.viewDepths;
+
+        depths.clear();
+
+        for (const renderable of this.rendererables) depths.set(renderable, this.getViewDepth(renderable, camera.view));
+
+        this.opaqueRenderables.sort(function (a: Renderable, b: Renderable) {
+            return a.renderOrder - b.renderOrder || depths.get(a)! - depths.get(b)!;
+        });
+
+        this.transparentRenderables.sort(function (a: Renderable, b: Renderable) {
+            return a.renderOrder - b.renderOrder || depths.get(b)! - depths.get(a)!;
+        });
+    }
+
+    // Private and protected class members.
+
+    private getViewDepth(renderable: Renderable, view: mat4): number {
+
+        const sphere: BoundingSphere | null = renderable.GetWorldBoundingSphere(),
+            position: vec3 = this.viewPosition,
+            world: mat4 = renderable.worldMatrix;
+
+        sphere ? vec3.set(position, sphere.center.x, sphere.center.y, sphere.center.z) : vec3.set(position, world[12], world[13], world[14]);
+
+        vec3.transformMat4(position, position, view);
+
+        // The camera looks down the negative z axis of the view space.
+        return -position[2];
+    }
+
+    private async initializeRenderable(renderable: Renderable) {
+
+        if (!(this.renderer instanceof WebGPURenderer)) return;
+
+        this.pendingRenderables.add(renderable);
+
+        // A renderable which failed to initialize is not tried again on every update, see 'RetryRenderable'.
+        try {
+
+            await renderable.Initialize(this.renderer.GetRenderContext());
+
+            renderable.hasInitialized = true;
+        } catch (error) {
+
+            this.failedRenderables.add(renderable);
+
+            throw error;
+        } finally {
+
+            this.pendingRenderables.delete(renderable);
+        }
+    }
 }
\ No newline at end of file
@@ -1,2 +1,4 @@
 export { WebGPURendererScene } from "./classes/WebGPURendererScene";
-export { Thread } from "./classes/Thread";
\ No newline at end of file
+export { Thread } from "./classes/Thread";
+export { SceneNode } from "./classes/SceneNode";
+export { Raycaster } from "./classes/Raycaster";
\ No newline at end of file
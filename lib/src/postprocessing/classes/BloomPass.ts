@@ -0,0 +1,125 @@
+import { EffectPass } from "./EffectPass";
+import { RenderTarget } from "../../renderer/classes/RenderTarget";
+import { Texture } from "../../textures/classes/Texture";
+import { GetBlendState } from "../../materials/functions/blending";
+import { WebGPURenderContext } from "../../typings";
+
+import shader from "../../shaders/postprocessing/Bloom.wgsl";
+
+// Format of the textures of the blur chain, which hold colors brighter than white.
+const BloomChainFormat: GPUTextureFormat = "rgba16float";
+
+/**
+ * Makes bright parts of the image glow. Pixels brighter than the threshold
+ * are blurred over a chain of ever smaller textures, and the blur is added
+ * back onto the image. More levels give a wider glow.
+ *
+ * Bloom brightens the image beyond white; follow it with a
+ * {@link ToneMappingPass} to bring the result back into range.
+ */
+export class BloomPass extends EffectPass {
+
+    /** Width of the soft transition around the threshold, in brightness. */
+    public knee: number = 0.1;
+
+    /** The number of textures in the blur chain, between 1 and 8. */
+    public levels: number;
+
+    // Textures of the blur chain, each half the size of the previous one.
+    private chain: RenderTarget[] = [];
+
+    // Render context of the blur chain, with the format of its textures.
+    declare private chainContext: WebGPURenderContext;
+
+    /**
+     * @param intensity Strength of the glow added to the image.
+     * @param threshold Brightness from which pixels start to glow.
+     * @param radius Spread of the blur between levels, in texels.
+     * @param levels The number of textures in the blur chain, between 1 and 8.
+     */
+    constructor(public intensity: number = 1, public threshold: number = 0.8, public radius: number = 1, levels: number = 5) {
+        super(4);
+
+        this.levels = levels;
+    }
+
+    public override Render(encoder: GPUCommandEncoder, input: Texture, output: GPUTextureView, context: WebGPURenderContext): void {
+
+        const device: GPUDevice = context.device,
+            chain: RenderTarget[] = this.updateChain(device, input.width, input.height),
+            chainContext: WebGPURenderContext = this.getChainContext(context),
+            additive: GPUBlendState | null = GetBlendState("additive");
+
+        this.writeUniforms(context);
+
+        // Extracts the bright parts into the first level.
+        this.draw(encoder, chain[0].texture.GetView(device), this.getPipeline(chainContext, "prefilterMain", 0), this.getBindGroup(context, input));
+
+        for (let i = 1; i < chain.length; i++) {
+            this.draw(encoder, chain[i].texture.GetView(device), this.getPipeline(chainContext, "downsampleMain", 0), this.getBindGroup(context, chain[i - 1].texture));
+        }
+
+        // Each level is blurred onto the level above it, so the first level ends up with the sum of all of them.
+        for (let i = chain.length - 2; i >= 0; i--) {
+            this.draw(encoder, chain[i].texture.GetView(device), this.getPipeline(chainContext, "upsampleMain", 0, additive), this.getBindGroup(context, chain[i + 1].texture), "load");
+        }
+
+        this.draw(encoder, output, this.getPipeline(context, "compositeMain", 1), this.getBindGroup(context, input, [chain[0].texture]));
+    }
+
+    public override Dispose(): void {
+
+        super.Dispose();
+
+        for (const target of this.chain) target.Dispose();
+
+        this.chain = [];
+    }
+
+    // Private and protected class members.
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        data[0] = Math.max(0, this.threshold);
+        data[1] = Math.max(0, this.knee);
+        data[2] = Math.max(0, this.intensity);
+        data[3] = Math.max(0, this.radius);
+    }
+
+    // Resizes the chain to the input, starting at half its size, and allocates its textures.
+    private updateChain(device: GPUDevice, width: number, height: number): RenderTarget[] {
+
+        const count: number = Math.min(Math.max(1, Math.floor(this.levels) || 1), 8);
+
+        while (this.chain.length > count) this.chain.pop()!.Dispose();
+
+        for (let i = 0; i < count; i++) {
+
+            const levelWidth: number = Math.max(1, width >> (i + 1)),
+                levelHeight: number = Math.max(1, height >> (i + 1));
+
+            if (!this.chain[i]) this.chain[i] = new RenderTarget(levelWidth, levelHeight, {
+                label: "BloomPass-Level" + i + "-" + this.id,
+                format: BloomChainFormat,
+                depthFormat: null
+            });
+
+            this.chain[i].SetSize(levelWidth, levelHeight).Initialize(device);
+        }
+
+        return this.chain;
+    }
+
+    private getChainContext(context: WebGPURenderContext): WebGPURenderContext {
+
+        this.chainContext = Object.assign(this.chainContext ?? { ...context }, context, {
+            format: BloomChainFormat
+        });
+
+        return this.chainContext;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { EffectPass } from "./EffectPass";
+
+import shader from "../../shaders/postprocessing/ChromaticAberration.wgsl";
+
+/**
+ * Shifts the red and blue channels apart towards the edges of the image,
+ * imitating the color fringes of a cheap lens.
+ */
+export class ChromaticAberrationPass extends EffectPass {
+
+    /**
+     * @param amount Offset of the red and blue channels at the edges,
+     * relative to the size of the image.
+     */
+    constructor(public amount: number = 0.005) {
+        super(1);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+        data[0] = this.amount;
+    }
+}
\ No newline at end of file
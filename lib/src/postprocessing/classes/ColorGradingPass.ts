@@ -0,0 +1,78 @@
+import { EffectPass } from "./EffectPass";
+import { Texture } from "../../textures/classes/Texture";
+
+import shader from "../../shaders/postprocessing/ColorGrading.wgsl";
+
+/**
+ * Grades colors through a 3D lookup table (LUT), which maps every color
+ * of the image to a new color.
+ *
+ * The table is a texture of N * N by N pixels holding N square slices side
+ * by side, where the slice is selected by blue and the pixel within it by
+ * red and green. Tables are commonly 16 or 32 colors in size. Load the
+ * table with the `linear` color space, since it maps colors as they are
+ * stored; {@link CreateIdentityLookupTable} creates a table to start
+ * grading from in an image editor.
+ *
+ * @example
+ * ```ts
+ * const table = await Texture.FromURL("luts/warm.png", { colorSpace: "linear", generateMipmaps: false });
+ *
+ * composer.Add(new ColorGradingPass(table));
+ * ```
+ */
+export class ColorGradingPass extends EffectPass {
+
+    /**
+     * @param lookupTable The lookup table. Without a table, colors are left as is.
+     * @param intensity Blends between the original colors at 0 and the graded colors at 1.
+     */
+    constructor(public lookupTable: Texture | null = null, public intensity: number = 1) {
+        super(1);
+    }
+
+    /**
+     * Creates a lookup table which maps every color to itself.
+     *
+     * @param size The number of colors per channel, between 2 and 64.
+     */
+    public static CreateIdentityLookupTable(size: number = 16): Texture {
+
+        size = Math.min(Math.max(2, Math.floor(size)), 64);
+
+        const width: number = size * size,
+            data: Uint8Array = new Uint8Array(width * size * 4);
+
+        for (let green = 0; green < size; green++) {
+            for (let blue = 0; blue < size; blue++) {
+                for (let red = 0; red < size; red++) {
+
+                    const offset: number = (green * width + blue * size + red) * 4;
+
+                    data[offset] = Math.round(red / (size - 1) * 255);
+                    data[offset + 1] = Math.round(green / (size - 1) * 255);
+                    data[offset + 2] = Math.round(blue / (size - 1) * 255);
+                    data[offset + 3] = 255;
+                }
+            }
+        }
+
+        return Texture.FromPixels(data, width, size, {
+            label: "IdentityLookupTable",
+            colorSpace: "linear",
+            generateMipmaps: false
+        });
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override getTextures(): (Texture | null)[] {
+        return [this.lookupTable];
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+        data[0] = this.lookupTable ? Math.min(Math.max(0, this.intensity), 1) : 0;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { v4 } from "uuid";
+
+import { EffectPass } from "./EffectPass";
+import { ShaderPass } from "./ShaderPass";
+import { WebGPURenderer } from "../../renderer/classes/WebGPURenderer";
+import { RenderTarget } from "../../renderer/classes/RenderTarget";
+import { WebGPURendererScene } from "../../others/classes/WebGPURendererScene";
+import { Camera } from "../../camera/exports";
+import { Texture } from "../../textures/classes/Texture";
+import { Debug } from "../../utilities/exports";
+import { ErrorCodes } from "../../codes";
+import { GetOutputColorConstants } from "../../renderer/functions/shaders";
+import { EffectComposerOptions, WebGPURenderContext } from "../../typings";
+
+import copyShader from "../../shaders/postprocessing/Copy.wgsl";
+
+// Draws the linear scene into the output, encoded as materials write them for its format.
+class CopyPass extends ShaderPass {
+
+    protected override getPipelineConstants(context: WebGPURenderContext): Record<string, number> {
+        return GetOutputColorConstants(context);
+    }
+}
+
+/**
+ * Applies a chain of full-screen {@link EffectPass | effect passes} to the
+ * rendered scene. The scene is rendered into an offscreen target, and each
+ * enabled pass reads the image of the pass before it; the last one draws
+ * into the canvas. Passes can be enabled, disabled and adjusted at any
+ * time.
+ *
+ * Intermediate images are stored in the `rgba16float` format by default,
+ * so colors brightened beyond white, for instance by bloom, are kept
+ * until they are tone mapped.
+ *
+ * @example
+ * ```ts
+ * const composer = new EffectComposer(renderer);
+ *
+ * composer.Add(new BloomPass(), new ToneMappingPass("aces"), new VignettePass(), new FXAAPass());
+ *
+ * function frame() {
+ *     composer.Render(scene, camera);
+ *     requestAnimationFrame(frame);
+ * }
+ * ```
+ */
+export class EffectComposer {
+
+    public id: string = v4();
+
+    /** The passes in the order they run. */
+    public readonly passes: EffectPass[] = [];
+
+    /** The target the scene is rendered into, sized to the canvas. */
+    public readonly sceneTarget: RenderTarget;
+
+    // Targets the passes draw into in turn, each reading the one drawn before.
+    private targets: [RenderTarget, RenderTarget];
+
+    // Encodes the linear scene for the canvas when no pass is enabled.
+    private copyPass: ShaderPass = new CopyPass(copyShader);
+
+    declare private renderContext: WebGPURenderContext;
+
+    constructor(public renderer: WebGPURenderer, options: EffectComposerOptions = {}) {
+
+        const format: GPUTextureFormat = options.format ?? "rgba16float";
+
+        this.sceneTarget = new RenderTarget(1, 1, {
+            label: "EffectComposer-SceneTarget-" + this.id,
+            format,
+            depthFormat: renderer.options.depthFormat ?? "depth24plus",
+            sampleCount: options.sampleCount ?? renderer.options.msaaSampleCount ?? 1
+        });
+
+        this.targets = [0, 1].map((index: number) => new RenderTarget(1, 1, {
+            label: `EffectComposer-Target${index}-${this.id}`,
+            format,
+            depthFormat: null
+        })) as [RenderTarget, RenderTarget];
+    }
+
+    /** Appends passes to the end of the chain. */
+    public Add(...passes: EffectPass[]): EffectComposer {
+
+        this.passes.push(...passes);
+
+        return this;
+    }
+
+    /** Removes passes from the chain. The passes are not disposed. */
+    public Remove(...passes: EffectPass[]): EffectComposer {
+
+        for (const pass of passes) {
+
+            const index: number = this.passes.indexOf(pass);
+
+            index !== -1 && this.passes.splice(index, 1);
+        }
+
+        return this;
+    }
+
+    /**
+     * Renders the scene and runs the enabled passes, drawing the result
+     * into the canvas, or into the render target if one is given.
+     */
+    public Render(scene: WebGPURendererScene, camera: Camera, target: RenderTarget | null = null): void {
+
+        const renderer: WebGPURenderer = this.renderer;
+
+        if (!renderer.hasInitialized) return Debug.Error("EffectComposer: Could not render because the renderer has not been initialized.", [
+            "Make sure to call 'await [name of renderer].Initialize()' before rendering."
+        ], ErrorCodes.EFFECT_COMPOSER_RENDERER_NOT_INITIALIZED);
+
+        const width: number = renderer.canvas.width,
+            height: number = renderer.canvas.height;
+
+        this.sceneTarget.SetSize(width, height);
+        this.targets[0].SetSize(width, height);
+        this.targets[1].SetSize(width, height);
+
+        renderer.Render(scene, camera, this.sceneTarget);
+
+        // The renderer has reported why the scene could not be rendered.
+        if (!scene.hasPrepared) return;
+
+        const device: GPUDevice = renderer.gpuDevice,
+            context: WebGPURenderContext = this.getRenderContext(),
+            passes: EffectPass[] = this.passes.filter((pass: EffectPass) => pass.enabled);
+
+        passes.length === 0 && passes.push(this.copyPass);
+
+        const encoder: GPUCommandEncoder = device.createCommandEncoder({
+            label: "FluexGL-EffectComposer-CommandEncoder-" + this.id
+        });
+
+        let input: Texture = this.sceneTarget.texture;
+
+        for (let i = 0; i < passes.length; i++) {
+
+            const output: RenderTarget | null = i < passes.length - 1 ? this.targets[i % 2] : target;
+
+            context.format = output ? output.format : renderer.format;
+
+            passes[i].Render(encoder, input, output ? output.texture.GetView(device) : renderer.context.getCurrentTexture().createView(), context);
+
+            input = output ? output.texture : input;
+        }
+
+        device.queue.submit([encoder.finish()]);
+    }
+
+    /**
+     * Releases the targets of the composer and disposes its passes.
+     */
+    public Dispose(): void {
+
+        this.sceneTarget.Dispose();
+        this.targets[0].Dispose();
+        this.targets[1].Dispose();
+        this.copyPass.Dispose();
+
+        for (const pass of this.passes) pass.Dispose();
+    }
+
+    // Private and protected class members.
+
+    // Render context of the passes: no depth buffer, no multisampling and the format of the output.
+    private getRenderContext(): WebGPURenderContext {
+
+        const context: WebGPURenderContext = this.renderer.GetRenderContext();
+
+        this.renderContext = Object.assign(this.renderContext ?? { ...context }, context, {
+            sampleCount: 1,
+            depthFormat: null
+        });
+
+        return this.renderContext;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { v4 } from "uuid";
+
+import { Texture } from "../../textures/classes/Texture";
+import { Sampler } from "../../textures/classes/Sampler";
+import { WebGPURenderContext } from "../../typings";
+import { WebGPUPipelineCache } from "../../renderer/classes/WebGPUPipelineCache";
+import { CreateEffectBindGroupLayoutDescriptor } from "../../renderer/functions/layouts";
+import { Color } from "../../utilities/exports";
+
+import fullScreen from "../../shaders/postprocessing/FullScreen.wgsl";
+import colorSpace from "../../shaders/common/ColorSpace.wgsl";
+
+/**
+ * A full-screen pass of an {@link EffectComposer}, which reads the image
+ * drawn so far and writes a new image with its effect applied.
+ *
+ * Like a material, a pass owns its shader and a uniform buffer with its
+ * parameters, which are packed by 'packUniforms' and written every frame,
+ * so parameters can be changed at any time. The shader is prepended with
+ * the full-screen triangle, the input texture and the color space
+ * functions; it reads its uniforms at binding 2 and the textures returned
+ * by 'getTextures' as texture and sampler pairs from binding 3 onwards.
+ *
+ * The scene is rendered in linear colors, which may exceed white. Passes
+ * before the {@link ToneMappingPass}, such as bloom, read and write linear
+ * colors; tone mapping encodes them for the color space of the canvas,
+ * and the passes after it read and write encoded colors. Passes which
+ * call `EncodeOutputColor` set the output overrides with
+ * 'getPipelineConstants'.
+ */
+export abstract class EffectPass {
+
+    public id: string = v4();
+    public name: string = "";
+
+    /** Whether the composer runs this pass. Disabled passes are skipped. */
+    public enabled: boolean = true;
+
+    /** The uniform buffer of the parameters, `null` until the first render and after being disposed. */
+    public uniformBuffer: GPUBuffer | null = null;
+
+    // Uniform data of the pass, packed by 'packUniforms'.
+    protected uniformData: Float32Array;
+
+    // Sampler of the input and the other textures: filtered and clamped at the edges.
+    protected sampler: Sampler = new Sampler({
+        addressModeU: "clamp-to-edge",
+        addressModeV: "clamp-to-edge",
+        mipmapFilter: "nearest"
+    });
+
+    // Pipelines by entry point, texture count, format, constants and blend state, valid for one pipeline cache version.
+    private pipelines: Map<string, GPURenderPipeline> = new Map();
+    private pipelineCacheVersion: number = -1;
+
+    // Bind groups by input texture view, one per texture count, with the resources they were created with.
+    private bindGroups: WeakMap<GPUTextureView, [GPUBindingResource[], GPUBindGroup][]> = new WeakMap();
+
+    constructor(uniformFloatCount: number) {
+
+        // Uniform buffers are sized in multiples of 16 bytes.
+        this.uniformData = new Float32Array(Math.max(4, Math.ceil(uniformFloatCount / 4) * 4));
+    }
+
+    /**
+     * Returns the WGSL source of the pass, without the shared full-screen
+     * triangle and input bindings. The fragment entry point is named
+     * `fragmentShaderMain`.
+     */
+    protected abstract getShaderSource(): string;
+
+    /**
+     * Packs the current parameters of the pass into 'uniformData'.
+     */
+    protected abstract packUniforms(data: Float32Array): void;
+
+    /**
+     * Returns the textures sampled by the shader besides the input, in
+     * binding order. A texture which is `null` is bound as a 1x1 white
+     * texture.
+     */
+    protected getTextures(): (Texture | null)[] {
+        return [];
+    }
+
+    /**
+     * Returns the values of the pipeline-overridable constants declared by
+     * the shader, for the output described by the context.
+     */
+    protected getPipelineConstants(context: WebGPURenderContext): Record<string, number> {
+        return {};
+    }
+
+    /**
+     * Returns the complete WGSL source, including the full-screen triangle,
+     * the input bindings and the color space functions.
+     */
+    public GetShader(): string {
+
+        return fullScreen + "\n\n" + colorSpace + "\n\n" + this.getShaderSource();
+    }
+
+    /**
+     * Draws the effect of this pass from the input texture into the output.
+     *
+     * Note: this is an internal method which is called by the composer
+     * once per frame for every enabled pass.
+     * @param encoder The command encoder of the frame.
+     * @param input The image drawn so far.
+     * @param output The view drawn into, in the format of the context.
+     * @param context The render context, with the format of the output.
+     */
+    public Render(encoder: GPUCommandEncoder, input: Texture, output: GPUTextureView, context: WebGPURenderContext): void {
+
+        this.writeUniforms(context);
+
+        this.draw(encoder, output, this.getPipeline(context), this.getBindGroup(context, input, this.getTextures()));
+    }
+
+    public Dispose(): void {
+
+        this.uniformBuffer && this.uniformBuffer.destroy();
+
+        this.uniformBuffer = null;
+        this.pipelines.clear();
+        this.bindGroups = new WeakMap();
+    }
+
+    // Private and protected class members.
+
+    protected packColor(data: Float32Array, offset: number, color: Color): void {
+
+        data[offset] = color.red;
+        data[offset + 1] = color.green;
+        data[offset + 2] = color.blue;
+        data[offset + 3] = color.alpha;
+    }
+
+    protected writeUniforms(context: WebGPURenderContext): void {
+
+        this.packUniforms(this.uniformData);
+
+        context.queue.writeBuffer(this.getUniformBuffer(context.device), 0, this.uniformData as GPUAllowSharedBufferSource);
+    }
+
+    protected getUniformBuffer(device: GPUDevice): GPUBuffer {
+
+        return this.uniformBuffer ??= device.createBuffer({
+            label: "EffectPassUniformBuffer-" + this.id,
+            size: this.uniformData.byteLength,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+        });
+    }
+
+    /**
+     * Returns the pipeline drawing into the format of the context.
+     *
+     * @param entryPoint The fragment entry point of the shader.
+     * @param textureCount The number of textures bound besides the input.
+     * @param blend How the output is blended with the view drawn into.
+     */
+    protected getPipeline(context: WebGPURenderContext, entryPoint: string = "fragmentShaderMain", textureCount: number = this.getTextures().length, blend: GPUBlendState | null = null): GPURenderPipeline {
+
+        const cache: WebGPUPipelineCache = context.pipelineCache,
+            constants: Record<string, number> = this.getPipelineConstants(context),
+            key: string = `${entryPoint}|${textureCount}|${context.format}|${JSON.stringify(constants)}|${JSON.stringify(blend)}`;
+
+        if (this.pipelineCacheVersion !== cache.version) {
+
+            this.pipelines.clear();
+            this.pipelineCacheVersion = cache.version;
+        }
+
+        let pipeline: GPURenderPipeline | undefined = this.pipelines.get(key);
+
+        if (pipeline) return pipeline;
+
+        pipeline = cache.GetRenderPipeline({
+            label: "EffectPass",
+            shader: this.GetShader(),
+            fragmentEntryPoint: entryPoint,
+            constants,
+            vertexBuffers: [],
+            bindGroupLayouts: [CreateEffectBindGroupLayoutDescriptor(textureCount)],
+            format: context.format,
+            sampleCount: 1,
+            depthFormat: null,
+            cullMode: "none",
+            blend
+        });
+
+        this.pipelines.set(key, pipeline);
+
+        return pipeline;
+    }
+
+    /**
+     * Returns the bind group of the input and the other textures, which is
+     * created again when any of their views has been replaced.
+     */
+    protected getBindGroup(context: WebGPURenderContext, input: Texture, textures: (Texture | null)[] = []): GPUBindGroup {
+
+        const device: GPUDevice = context.device,
+            sampler: GPUSampler = this.sampler.GetSampler(device),
+            inputView: GPUTextureView = input.GetView(device),
+            resources: GPUBindingResource[] = [inputView, sampler];
+
+        for (const texture of textures) resources.push((texture ?? Texture.GetFallback(device)).GetView(device), sampler);
+
+        const cached: [GPUBindingResource[], GPUBindGroup][] = this.bindGroups.get(inputView) ?? [],
+            index: number = cached.findIndex(([bound]) => bound.length === resources.length);
+
+        if (index !== -1 && cached[index][0].every((resource: GPUBindingResource, i: number) => resource === resources[i])) return cached[index][1];
+
+        const bindGroup: GPUBindGroup = device.createBindGroup({
+            label: "EffectPassBindGroup-" + this.id,
+            layout: context.pipelineCache.GetBindGroupLayout(CreateEffectBindGroupLayoutDescriptor(textures.length)),
+            entries: [
+                ...resources.map((resource: GPUBindingResource, i: number): GPUBindGroupEntry => {
+                    return { binding: i < 2 ? i : i + 1, resource };
+                }),
+                {
+                    binding: 2,
+                    resource: {
+                        buffer: this.getUniformBuffer(device)
+                    }
+                }
+            ]
+        });
+
+        index === -1 ? cached.push([resources, bindGroup]) : cached[index] = [resources, bindGroup];
+
+        this.bindGroups.set(inputView, cached);
+
+        return bindGroup;
+    }
+
+    /**
+     * Draws the full-screen triangle into the output view in its own
+     * render pass. The view is cleared first unless loaded.
+     */
+    protected draw(encoder: GPUCommandEncoder, output: GPUTextureView, pipeline: GPURenderPipeline, bindGroup: GPUBindGroup, loadOp: GPULoadOp = "clear"): void {
+
+        const pass: GPURenderPassEncoder = encoder.beginRenderPass({
+            label: "EffectPass-RenderPass-" + this.id,
+            colorAttachments: [{
+                view: output,
+                loadOp,
+                storeOp: "store",
+                clearValue: { r: 0, g: 0, b: 0, a: 0 }
+            }]
+        });
+
+        pass.setPipeline(pipeline);
+        pass.setBindGroup(0, bindGroup);
+        pass.draw(3);
+        pass.end();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { EffectPass } from "./EffectPass";
+
+import shader from "../../shaders/postprocessing/FXAA.wgsl";
+
+/**
+ * Fast approximate anti-aliasing. Smooths jagged edges by blurring along
+ * them, found from the luminance of neighboring pixels. Much cheaper than
+ * MSAA, at the cost of slightly softer textures. Run it last, on the
+ * tone mapped image.
+ */
+export class FXAAPass extends EffectPass {
+
+    /**
+     * @param spanMax Longest distance in pixels searched along an edge.
+     * @param reduceMultiplier Scales the blur down on bright edges.
+     * @param reduceMinimum Lower bound of the reduction, for dark edges.
+     */
+    constructor(public spanMax: number = 8, public reduceMultiplier: number = 1 / 8, public reduceMinimum: number = 1 / 128) {
+        super(3);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        data[0] = Math.max(0, this.spanMax);
+        data[1] = Math.max(0, this.reduceMultiplier);
+        data[2] = Math.max(0, this.reduceMinimum);
+    }
+}
\ No newline at end of file
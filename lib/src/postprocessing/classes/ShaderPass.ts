@@ -0,0 +1,61 @@
+import { EffectPass } from "./EffectPass";
+import { Texture } from "../../textures/classes/Texture";
+
+/**
+ * A pass running custom WGSL, for effects which are not built in.
+ *
+ * The source declares `fn fragmentShaderMain(inputData: FullScreenOutputData)`
+ * returning `@location(0) vec4<f32>`, where `inputData.uv` runs from the
+ * top left to the bottom right of the image. It can call `SampleInput(uv)`,
+ * `GetInputTexelSize()`, `GetLuminance(color)`, `SRGBToLinear(color)` and
+ * `LinearToSRGB(color)`, and sample `inputTexture` with `inputSampler`
+ * directly. The values of {@link uniforms} are bound at
+ * `@group(0) @binding(2)`, and {@link textures} as texture and sampler
+ * pairs from binding 3 onwards.
+ *
+ * @example
+ * ```ts
+ * const grayscale = new ShaderPass(`
+ *     @group(0) @binding(2) var<uniform> amount: vec4<f32>;
+ *
+ *     @fragment
+ *     fn fragmentShaderMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+ *         let color: vec4<f32> = SampleInput(inputData.uv);
+ *         return vec4<f32>(mix(color.rgb, vec3<f32>(GetLuminance(color.rgb)), amount.x), color.a);
+ *     }
+ * `, 4);
+ *
+ * grayscale.uniforms[0] = 1;
+ * composer.Add(grayscale);
+ * ```
+ */
+export class ShaderPass extends EffectPass {
+
+    /** Values bound as the uniform buffer of the shader, which can be changed at any time. */
+    public readonly uniforms: Float32Array;
+
+    /** Textures sampled by the shader besides the input, in binding order. */
+    public textures: (Texture | null)[] = [];
+
+    /**
+     * @param source The WGSL source of the fragment shader.
+     * @param uniformFloatCount The number of floats in {@link uniforms}.
+     */
+    constructor(public readonly source: string, uniformFloatCount: number = 0) {
+        super(uniformFloatCount);
+
+        this.uniforms = new Float32Array(this.uniformData.length);
+    }
+
+    protected override getShaderSource(): string {
+        return this.source;
+    }
+
+    protected override getTextures(): (Texture | null)[] {
+        return this.textures;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+        data.set(this.uniforms);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { EffectPass } from "./EffectPass";
+import { ToneMappingMode, WebGPURenderContext } from "../../typings";
+import { GetOutputColorConstants } from "../../renderer/functions/shaders";
+
+import shader from "../../shaders/postprocessing/ToneMapping.wgsl";
+
+// Index of each mode in the shader.
+const ToneMappingModes: Record<ToneMappingMode, number> = {
+    linear: 0,
+    reinhard: 1,
+    aces: 2
+};
+
+/**
+ * Maps colors of any brightness, such as those brightened by bloom or the
+ * exposure, into the displayable range. `linear` clips bright colors,
+ * `reinhard` compresses them smoothly and `aces` follows a filmic curve
+ * with more contrast.
+ *
+ * The mapped colors are encoded for the color space of the canvas. When
+ * tone mapping draws into the canvas, they are also encoded for its
+ * format; otherwise the passes after it receive sRGB encoded colors.
+ */
+export class ToneMappingPass extends EffectPass {
+
+    /**
+     * @param mode The tone mapping curve.
+     * @param exposure Multiplies the linear colors before they are mapped.
+     */
+    constructor(public mode: ToneMappingMode = "aces", public exposure: number = 1) {
+        super(2);
+    }
+
+    protected override getPipelineConstants(context: WebGPURenderContext): Record<string, number> {
+
+        // Mapped colors are display colors, which float targets receive encoded as well.
+        return GetOutputColorConstants(context, false);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        data[0] = Math.max(0, this.exposure);
+        data[1] = ToneMappingModes[this.mode] ?? 0;
+    }
+}
\ No newline at end of file
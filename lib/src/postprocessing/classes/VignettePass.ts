@@ -0,0 +1,33 @@
+import { EffectPass } from "./EffectPass";
+import { Color } from "../../utilities/exports";
+
+import shader from "../../shaders/postprocessing/Vignette.wgsl";
+
+/**
+ * Fades the image towards a color, black by default, near its corners.
+ */
+export class VignettePass extends EffectPass {
+
+    /**
+     * @param intensity How far the corners fade towards the color, from 0 to 1.
+     * @param radius Distance from the center where the fade starts; 1 is a corner.
+     * @param smoothness Distance over which the fade reaches its full intensity.
+     * @param color The color faded towards.
+     */
+    constructor(public intensity: number = 0.5, public radius: number = 0.5, public smoothness: number = 0.5, public color: Color = new Color(0, 0, 0, 1)) {
+        super(8);
+    }
+
+    protected override getShaderSource(): string {
+        return shader;
+    }
+
+    protected override packUniforms(data: Float32Array): void {
+
+        this.packColor(data, 0, this.color);
+
+        data[4] = this.intensity;
+        data[5] = this.radius;
+        data[6] = Math.max(0, this.smoothness);
+    }
+}
\ No newline at end of file
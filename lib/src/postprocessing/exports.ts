@@ -0,0 +1,9 @@
+export { EffectComposer } from "./classes/EffectComposer";
+export { EffectPass } from "./classes/EffectPass";
+export { ShaderPass } from "./classes/ShaderPass";
+export { FXAAPass } from "./classes/FXAAPass";
+export { BloomPass } from "./classes/BloomPass";
+export { ToneMappingPass } from "./classes/ToneMappingPass";
+export { VignettePass } from "./classes/VignettePass";
+export { ColorGradingPass } from "./classes/ColorGradingPass";
+export { ChromaticAberrationPass } from "./classes/ChromaticAberrationPass";
\ No newline at end of file
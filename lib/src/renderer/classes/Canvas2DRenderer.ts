@@ -0,0 +1,383 @@
+import { v4 } from "uuid";
+import { mat4, vec3 } from "gl-matrix";
+
+import { ErrorCodes, WarningCodes } from "../../codes";
+import { Canvas2DRendererOptions, TextureSource, WebGPURendererInfo } from "../../typings";
+import { Color, Debug, Frustum } from "../../utilities/exports";
+import { WebGPURendererScene } from "../../others/exports";
+import { SceneNode } from "../../others/classes/SceneNode";
+import { Camera } from "../../camera/exports";
+import { Renderable } from "./Renderable";
+import { Shape2D } from "../../geometries/classes/2d/Shape2D";
+import { Sprite } from "../../geometries/classes/2d/Sprite";
+import { Text2D } from "../../geometries/classes/2d/Text2D";
+import { Texture } from "../../textures/classes/Texture";
+
+/**
+ * Fallback renderer for browsers without WebGPU, drawing the 2D shapes,
+ * sprites and text of a scene with the Canvas 2D API. It follows the
+ * contract of the {@link WebGPURenderer}, so the backend can be chosen at
+ * startup and the rest of the application stays the same.
+ *
+ * Nodes are projected with the camera like on the GPU, which is exact
+ * for orthographic cameras such as the {@link TwoDimensionalCamera}. They
+ * are drawn back to front, with the 'renderOrder' taking precedence over
+ * the distance. Other renderables, such as 3D meshes, are skipped, and
+ * sprites are only tinted by the alpha of their color.
+ *
+ * @example
+ * ```ts
+ * const state = await EnsureWebGPU();
+ * const renderer = state.ok ? new WebGPURenderer() : new Canvas2DRenderer();
+ *
+ * await renderer.Initialize();
+ *
+ * const scene = new WebGPURendererScene(renderer);
+ *
+ * await scene.Prepare(camera);
+ * renderer.Render(scene, camera);
+ * ```
+ */
+export class Canvas2DRenderer {
+
+    private width: number = 0;
+    private height: number = 0;
+    private devicePixelRatio: number = window.devicePixelRatio || 1;
+
+    // Frustum of the camera and the renderables inside it, reused every frame.
+    private frustum: Frustum = new Frustum();
+    private visibleRenderables: Renderable[] = [];
+
+    // Distance of each visible renderable in front of the camera.
+    private viewDepths: Map<Renderable, number> = new Map();
+    private viewPosition: vec3 = vec3.create();
+    private matrix: mat4 = mat4.create();
+
+    // Sources which cannot be drawn directly, converted to canvases once.
+    private convertedSources: WeakMap<object, HTMLCanvasElement> = new WeakMap();
+
+    public id: string = v4();
+    public hasInitialized: boolean = false;
+
+    declare public context: CanvasRenderingContext2D;
+
+    declare public canvas: HTMLCanvasElement;
+
+    /** Statistics of the last rendered frame, for diagnostics. */
+    public readonly info: WebGPURendererInfo = { renderableCount: 0, drawnCount: 0, culledCount: 0 };
+
+    constructor(public options: Partial<Canvas2DRendererOptions> = {}) {
+
+        this.canvas = document.createElement("canvas");
+
+        this.canvas.width = options.canvasWidth ?? 800;
+        this.canvas.height = options.canvasHeight ?? 600;
+
+        this.canvas.setAttribute("fluexgl-renderer-type", "Canvas2DRenderer");
+        this.canvas.setAttribute("fluexgl-renderer-id", this.id);
+    }
+
+    // Public methods.
+
+    public SetCanvasSizeRelativeToWindow(margin: number = 0, updateOnResize: boolean = false): void {
+
+        this.SetSize(window.innerWidth - margin, window.innerHeight - margin);
+
+        updateOnResize && window.addEventListener("resize", () => {
+
+            this.SetSize(window.innerWidth - margin, window.innerHeight - margin);
+        });
+    }
+
+    public AppendCanvasToElement(element: HTMLElement): void {
+        element.appendChild(this.canvas);
+    }
+
+    public SetDevicePixelRatio(ratio: number = 1) {
+
+        if (ratio >= 2) Debug.Warn("Canvas2DRenderer: Setting display pixel ratio to 2 or higher may cause performance issues on some devices.", [
+            "Consider using a ratio between 1 and 2 for better performance."
+        ], WarningCodes.WGPUR_HIGH_DPR_VALUE);
+
+        if (ratio <= 0) {
+
+            Debug.Error("Canvas2DRenderer: Display pixel ratio must be greater than 0. Display pixel ratio will be set to 1.", [
+                "Provided value: " + ratio
+            ], ErrorCodes.WGPUR_INVALID_DPR_VALUE);
+
+            this.devicePixelRatio = window.devicePixelRatio || 1;
+
+            return null;
+        }
+
+        this.devicePixelRatio = Math.max(1, Math.min(ratio || 1, 100));
+        this.applySizeChanges();
+
+        return this;
+    }
+
+    public SetSize(width: number = 0, height: number = 0) {
+
+        this.canvas.width = Math.max(1, Math.floor(width * this.devicePixelRatio));
+        this.canvas.height = Math.max(1, Math.floor(height * this.devicePixelRatio));
+
+        this.width = this.canvas.width;
+        this.height = this.canvas.height;
+
+        return this;
+    }
+
+    public async Initialize(): Promise<Canvas2DRenderer | null> {
+
+        const context: CanvasRenderingContext2D | null = this.canvas.getContext("2d");
+
+        if (!context) {
+
+            Debug.Error("Canvas2DRenderer: Unable to get a 2D canvas context.", [
+                "Make sure that the canvas has not been used with another context type."
+            ], ErrorCodes.CANVAS2D_RENDERER_CONTEXT_UNDEFINED);
+            return null;
+        }
+
+        this.context = context;
+
+        this.SetDevicePixelRatio(this.options.devicePixelRatio ?? (window.devicePixelRatio || 1));
+        this.applySizeChanges();
+
+        this.hasInitialized = true;
+
+        return this;
+    }
+
+    public Dispose(): void {
+        this.convertedSources = new WeakMap();
+    }
+
+    /**
+     * Draws the 2D shapes, sprites and text of the scene as seen by the
+     * camera into the canvas. The aspect ratio of the camera should match
+     * the canvas.
+     */
+    public Render(scene: WebGPURendererScene, camera: Camera) {
+
+        if (!this.hasInitialized) return Debug.Error("Canvas2DRenderer: Could not render because the renderer has not been initialized.", [
+            "Make sure to call 'await [name of renderer].Initialize()' before calling this method."
+        ], ErrorCodes.CANVAS2D_RENDERER_NOT_INITIALIZED);
+
+        if (!scene.hasPrepared) return Debug.Error("Could not render because the renderable objects in the scene has not been prepared.", [
+            "Make sure to call 'await <WebGPURendererScene>.Prepare()' before calling this method."
+        ], ErrorCodes.WGPUR_SCENE_NOT_PREPARED);
+
+        const context: CanvasRenderingContext2D = this.context,
+            visibleRenderables: Renderable[] = this.visibleRenderables,
+            depths: Map<Renderable, number> = this.viewDepths;
+
+        let renderableCount: number = 0;
+
+        visibleRenderables.length = 0;
+        depths.clear();
+
+        scene.root.UpdateWorldMatrix();
+
+        this.frustum.SetFromMatrix(camera.viewProjection);
+
+        scene.root.Traverse((node: SceneNode) => {
+
+            if (!node.visible) return false;
+            if (!(node instanceof Renderable)) return;
+
+            renderableCount++;
+
+            // The bounds follow the size, text and shape parameters, which are otherwise only applied when uploading to the GPU.
+            if (node instanceof Text2D) node.UpdateTexture();
+            if (node instanceof Sprite || node instanceof Shape2D) node.UpdateGeometry();
+
+            if (!node.IsInFrustum(this.frustum)) return;
+
+            visibleRenderables.push(node);
+            depths.set(node, this.getViewDepth(node, camera.view));
+        });
+
+        // Painter's algorithm: the furthest renderables are drawn first.
+        visibleRenderables.sort(function (a: Renderable, b: Renderable) {
+            return a.renderOrder - b.renderOrder || depths.get(b)! - depths.get(a)!;
+        });
+
+        const clear = this.options.clearColor ?? { r: 0, g: 0, b: 0, a: 1 };
+
+        context.setTransform(1, 0, 0, 1, 0, 0);
+        context.globalAlpha = 1;
+        context.clearRect(0, 0, this.width, this.height);
+
+        context.fillStyle = this.toCSSColor(clear.r, clear.g, clear.b, clear.a);
+        context.fillRect(0, 0, this.width, this.height);
+
+        context.imageSmoothingEnabled = this.options.imageSmoothing ?? true;
+
+        let drawnCount: number = 0;
+
+        for (let i = 0; i < visibleRenderables.length; i++) {
+
+            const renderable: Renderable = visibleRenderables[i];
+
+            if (!this.applyTransform(renderable, camera)) continue;
+
+            if (renderable instanceof Text2D) {
+
+                this.drawText(renderable);
+            } else if (renderable instanceof Sprite) {
+
+                if (!this.drawSprite(renderable)) continue;
+            } else if (renderable instanceof Shape2D) {
+
+                this.drawShape(renderable);
+            } else continue;
+
+            drawnCount++;
+        }
+
+        context.setTransform(1, 0, 0, 1, 0, 0);
+        context.globalAlpha = 1;
+
+        this.info.renderableCount = renderableCount;
+        this.info.drawnCount = drawnCount;
+        this.info.culledCount = renderableCount - visibleRenderables.length;
+    }
+
+    // Private methods.
+
+    private applySizeChanges() {
+
+        const width = this.options.canvasWidth ?? this.canvas.clientWidth ?? 800;
+        const height = this.options.canvasHeight ?? this.canvas.clientHeight ?? 600;
+
+        this.SetSize(width, height);
+    }
+
+    /**
+     * Sets the transform of the context from the local XY plane of the
+     * renderable to the pixels of the canvas. Returns false if the
+     * renderable is behind the camera.
+     */
+    private applyTransform(renderable: Renderable, camera: Camera): boolean {
+
+        const m: mat4 = mat4.multiply(this.matrix, camera.viewProjection, renderable.worldMatrix),
+            w: number = m[15];
+
+        if (w <= 0) return false;
+
+        const halfWidth: number = this.width / 2,
+            halfHeight: number = this.height / 2;
+
+        // Clip space points up, the canvas points down.
+        this.context.setTransform(
+            m[0] * halfWidth / w, -m[1] * halfHeight / w,
+            m[4] * halfWidth / w, -m[5] * halfHeight / w,
+            (m[12] / w + 1) * halfWidth, (1 - m[13] / w) * halfHeight
+        );
+
+        return true;
+    }
+
+    private drawShape(shape: Shape2D): void {
+
+        const context: CanvasRenderingContext2D = this.context,
+            outline: number[] = shape.GetOutline(),
+            color: Color = shape.color;
+
+        context.globalAlpha = 1;
+        context.fillStyle = this.toCSSColor(color.red, color.green, color.blue, color.alpha);
+
+        context.beginPath();
+
+        for (let i = 0; i < outline.length; i += 2) {
+
+            i === 0 ? context.moveTo(outline[i], outline[i + 1]) : context.lineTo(outline[i], outline[i + 1]);
+        }
+
+        context.closePath();
+        context.fill();
+    }
+
+    private drawSprite(sprite: Sprite): boolean {
+
+        const texture: Texture | null = sprite.texture,
+            source: TextureSource | null = texture ? texture.GetSource() : null;
+
+        if (!texture || !source) return false;
+
+        const context: CanvasRenderingContext2D = this.context,
+            image: CanvasImageSource = this.getDrawableSource(source);
+
+        context.globalAlpha = sprite.color.alpha;
+
+        // The top of the image points along +Y, unless flipped.
+        if (sprite.flipY === texture.flipY) context.scale(1, -1);
+
+        context.drawImage(image, -sprite.width / 2, -sprite.height / 2, sprite.width, sprite.height);
+
+        return true;
+    }
+
+    private drawText(text: Text2D): void {
+
+        const context: CanvasRenderingContext2D = this.context,
+            color: Color = text.color;
+
+        context.globalAlpha = 1;
+        context.fillStyle = this.toCSSColor(color.red, color.green, color.blue, color.alpha);
+        context.font = text.GetFont();
+        context.textAlign = "center";
+        context.textBaseline = "middle";
+
+        !text.flipY && context.scale(1, -1);
+
+        context.fillText(text.text, 0, 0);
+    }
+
+    // Image data and raw pixels cannot be drawn with a transform, they are copied to a canvas once.
+    private getDrawableSource(source: TextureSource): CanvasImageSource {
+
+        if (!("data" in source)) return source;
+
+        let canvas: HTMLCanvasElement | undefined = this.convertedSources.get(source);
+
+        if (canvas) return canvas;
+
+        canvas = document.createElement("canvas");
+        canvas.width = source.width;
+        canvas.height = source.height;
+
+        const context: CanvasRenderingContext2D | null = canvas.getContext("2d");
+
+        if (context) {
+
+            const imageData: ImageData = context.createImageData(source.width, source.height);
+
+            imageData.data.set(source.data.subarray(0, imageData.data.length));
+            context.putImageData(imageData, 0, 0);
+        }
+
+        this.convertedSources.set(source, canvas);
+
+        return canvas;
+    }
+
+    private getViewDepth(renderable: Renderable, view: mat4): number {
+
+        const world: mat4 = renderable.worldMatrix,
+            position: vec3 = vec3.set(this.viewPosition, world[12], world[13], world[14]);
+
+        vec3.transformMat4(position, position, view);
+
+        // The camera looks down the negative z axis of the view space.
+        return -position[2];
+    }
+
+    private toCSSColor(red: number, green: number, blue: number, alpha: number): string {
+
+        const channel = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 255);
+
+        return `rgba(${channel(red)}, ${channel(green)}, ${channel(blue)}, ${Math.min(Math.max(alpha, 0), 1)})`;
+    }
+}
\ No newline at end of file
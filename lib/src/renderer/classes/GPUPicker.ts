@@ -0,0 +1,271 @@
+import { v4 } from "uuid";
+
+import { WebGPURenderer } from "./WebGPURenderer";
+import { RenderTarget } from "./RenderTarget";
+import { Renderable } from "./Renderable";
+import { CameraBindGroupIndex } from "../functions/layouts";
+import { WebGPURendererScene } from "../../others/classes/WebGPURendererScene";
+import { Camera } from "../../camera/classes/Camera";
+import { BoundingSphere, Debug, Ray } from "../../utilities/exports";
+import { ErrorCodes } from "../../codes";
+import { GPUPickerOptions, WebGPURenderContext } from "../../typings";
+
+// Rows of a buffer copy are aligned to 256 bytes, so a single pixel takes a full row.
+const ReadbackBufferSize: number = 256;
+
+/**
+ * Finds the renderable under a pixel on the GPU, which stays fast for
+ * scenes far too large to raycast on the CPU, such as for highlighting
+ * the object under the mouse cursor.
+ *
+ * A pick draws the {@link Renderable.pickingId} of every renderable into
+ * an integer target the size of the canvas and reads back the pixel
+ * under the given point. Only the renderables whose bounding sphere is
+ * under the point are drawn, and only that pixel is rasterized.
+ *
+ * Picks never block: the result arrives asynchronously once the GPU has
+ * finished. Only one read runs at a time and reads start at most once per
+ * 'interval'. Picks requested in between are merged into a single read of
+ * the latest point, which starts once the interval has passed, so the
+ * picker can be called on every mouse move.
+ *
+ * @example
+ * ```ts
+ * const picker = new GPUPicker(renderer);
+ *
+ * canvas.addEventListener("pointermove", async (event: PointerEvent) => {
+ *
+ *     const renderable = await picker.Pick(scene, camera, event.offsetX, event.offsetY);
+ *
+ *     highlight(renderable);
+ * });
+ * ```
+ */
+export class GPUPicker {
+
+    public id: string = v4();
+
+    /** Minimum time between two reads in milliseconds. */
+    public interval: number;
+
+    /** The integer target the picking IDs are drawn into. */
+    public readonly target: RenderTarget;
+
+    private readbackBuffer: GPUBuffer | null = null;
+
+    private pendingPick: Promise<Renderable | null> | null = null;
+    private lastPickTimestamp: number = -Infinity;
+
+    // The read which runs once the pending one has finished and the interval has passed, with the latest arguments.
+    private trailingPick: Promise<Renderable | null> | null = null;
+    private trailingRequest: [WebGPURendererScene, Camera, number, number] | null = null;
+    private trailingTimeout: ReturnType<typeof setTimeout> | undefined = undefined;
+    private resolveTrailingPick: ((renderable: Promise<Renderable | null>) => void) | null = null;
+
+    private ray: Ray = new Ray();
+
+    constructor(public renderer: WebGPURenderer, options: GPUPickerOptions = {}) {
+
+        this.interval = options.interval ?? 50;
+
+        this.target = new RenderTarget(1, 1, {
+            label: "GPUPicker-Target-" + this.id,
+            format: "r32uint",
+            depthFormat: "depth24plus"
+        });
+    }
+
+    /**
+     * Returns the renderable drawn at a point of the canvas, or `null` if
+     * there is none. Hidden renderables and renderables which draw nothing
+     * in the picking pass are never returned.
+     *
+     * @param x The horizontal position in CSS pixels from the left edge of the canvas, such as 'offsetX' of a mouse event.
+     * @param y The vertical position in CSS pixels from the top edge of the canvas.
+     */
+    public Pick(scene: WebGPURendererScene, camera: Camera, x: number, y: number): Promise<Renderable | null> {
+
+        if (this.pendingPick || this.trailingPick || performance.now() - this.lastPickTimestamp < this.interval) {
+            return this.scheduleTrailingPick(scene, camera, x, y);
+        }
+
+        return this.startPick(scene, camera, x, y);
+    }
+
+    /**
+     * Releases the target and the readback buffer. A pick still running,
+     * or waiting to run, resolves to `null`.
+     */
+    public Dispose(): void {
+
+        this.target.Dispose();
+        this.readbackBuffer && this.readbackBuffer.destroy();
+
+        this.readbackBuffer = null;
+
+        clearTimeout(this.trailingTimeout);
+
+        const resolve = this.resolveTrailingPick;
+
+        this.trailingPick = null;
+        this.trailingRequest = null;
+        this.resolveTrailingPick = null;
+
+        resolve && resolve(Promise.resolve(null));
+    }
+
+    // Private and protected class members.
+
+    private startPick(scene: WebGPURendererScene, camera: Camera, x: number, y: number): Promise<Renderable | null> {
+
+        if (!this.renderer.hasInitialized) {
+
+            Debug.Error("GPUPicker: Could not pick because the renderer has not been initialized.", [
+                "Make sure to call 'await [name of renderer].Initialize()' before picking."
+            ], ErrorCodes.GPU_PICKER_RENDERER_NOT_INITIALIZED);
+
+            return Promise.resolve(null);
+        }
+
+        if (!scene.hasPrepared) return Promise.resolve(null);
+
+        this.lastPickTimestamp = performance.now();
+
+        this.pendingPick = this.pick(scene, camera, x, y).catch(function (error: Error): null {
+
+            Debug.Error("GPUPicker: Could not pick the renderable under the point.", [
+                `Point: ${x}, ${y}`,
+                "Error: " + (error && error.message)
+            ], ErrorCodes.GPU_PICKER_PICK_FAILED);
+
+            return null;
+        }).finally(() => {
+            this.pendingPick = null;
+        });
+
+        return this.pendingPick;
+    }
+
+    // Shares one read between the picks requested while reading or within the interval, for the latest point.
+    private scheduleTrailingPick(scene: WebGPURendererScene, camera: Camera, x: number, y: number): Promise<Renderable | null> {
+
+        this.trailingRequest = [scene, camera, x, y];
+
+        return this.trailingPick ??= new Promise((resolve: (renderable: Promise<Renderable | null>) => void) => {
+
+            this.resolveTrailingPick = resolve;
+            this.runTrailingPick();
+        });
+    }
+
+    // Waits for the pending read and the interval, then starts the trailing read.
+    private runTrailingPick(): void {
+
+        const resolve = this.resolveTrailingPick,
+            request = this.trailingRequest;
+
+        // The picker has been disposed while waiting.
+        if (!resolve || !request) return;
+
+        if (this.pendingPick) {
+
+            this.pendingPick.then(() => this.runTrailingPick());
+            return;
+        }
+
+        const delay: number = this.interval - (performance.now() - this.lastPickTimestamp);
+
+        if (delay > 0) {
+
+            this.trailingTimeout = setTimeout(() => this.runTrailingPick(), delay);
+            return;
+        }
+
+        this.trailingPick = null;
+        this.trailingRequest = null;
+        this.resolveTrailingPick = null;
+
+        resolve(this.startPick(...request));
+    }
+
+    private async pick(scene: WebGPURendererScene, camera: Camera, x: number, y: number): Promise<Renderable | null> {
+
+        const renderer: WebGPURenderer = this.renderer,
+            device: GPUDevice = renderer.gpuDevice,
+            canvas: HTMLCanvasElement = renderer.canvas;
+
+        // From CSS pixels to pixels of the canvas, which differ by the device pixel ratio.
+        const pixelX: number = Math.floor(x * canvas.width / (canvas.clientWidth || canvas.width)),
+            pixelY: number = Math.floor(y * canvas.height / (canvas.clientHeight || canvas.height));
+
+        if (pixelX < 0 || pixelY < 0 || pixelX >= canvas.width || pixelY >= canvas.height) return null;
+
+        const target: RenderTarget = this.target.SetSize(canvas.width, canvas.height).Initialize(device),
+            targetTexture: GPUTexture | null = target.texture.gpuTexture,
+            context: WebGPURenderContext = renderer.GetRenderContext(target),
+            queue: GPUQueue = device.queue;
+
+        if (!targetTexture) return null;
+
+        scene.Update();
+
+        camera.EnsureBinding(device);
+        camera.WriteUniformsToQueue(queue);
+        camera.ScreenPointToRay((pixelX + 0.5) / canvas.width * 2 - 1, 1 - (pixelY + 0.5) / canvas.height * 2, this.ray);
+
+        context.viewProjectionMatrix = camera.viewProjection;
+        context.frontFace = camera.mirrored ? "cw" : "ccw";
+
+        const encoder: GPUCommandEncoder = device.createCommandEncoder({ label: "GPUPicker-CommandEncoder-" + this.id });
+
+        const pass: GPURenderPassEncoder = encoder.beginRenderPass({
+            label: "GPUPicker-RenderPass-" + this.id,
+            colorAttachments: [target.GetColorAttachment(device, { r: 0, g: 0, b: 0, a: 0 })],
+            depthStencilAttachment: target.GetDepthStencilAttachment()
+        });
+
+        pass.setScissorRect(pixelX, pixelY, 1, 1);
+        pass.setBindGroup(CameraBindGroupIndex, camera.bindGroup);
+
+        for (const renderable of scene.rendererables) {
+
+            const sphere: BoundingSphere | null = renderable.GetWorldBoundingSphere();
+
+            if (sphere && this.ray.IntersectSphere(sphere) === null) continue;
+
+            renderable.WriteUniformsToQueue(queue, camera.viewProjection);
+            renderable.RenderPicking(pass, context);
+        }
+
+        pass.end();
+
+        const buffer: GPUBuffer = this.readbackBuffer ??= device.createBuffer({
+            label: "GPUPicker-ReadbackBuffer-" + this.id,
+            size: ReadbackBufferSize,
+            usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ
+        });
+
+        encoder.copyTextureToBuffer(
+            { texture: targetTexture, origin: { x: pixelX, y: pixelY } },
+            { buffer, bytesPerRow: ReadbackBufferSize },
+            { width: 1, height: 1 }
+        );
+
+        queue.submit([encoder.finish()]);
+
+        try {
+
+            await buffer.mapAsync(GPUMapMode.READ, 0, 4);
+        } catch {
+
+            // The picker has been disposed, or the device lost, while reading.
+            return null;
+        }
+
+        const pickingId: number = new Uint32Array(buffer.getMappedRange(0, 4))[0];
+
+        buffer.unmap();
+
+        return pickingId === 0 ? null : scene.FindByPickingId(pickingId);
+    }
+}
\ No newline at end of file
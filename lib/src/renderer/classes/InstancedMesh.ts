@@ -0,0 +1,303 @@
+import { mat3, mat4 } from "gl-matrix";
+
+import { Mesh } from "./Mesh";
+import { Renderable } from "./Renderable";
+import { Material } from "../../materials/exports";
+import { BufferGeometry } from "../../geometries/classes/BufferGeometry";
+import { BoundingSphere, Color, Debug, Transform } from "../../utilities/exports";
+import { ErrorCodes } from "../../codes";
+import { GeometryData } from "../../typings";
+import { CreateInstancedObjectBindGroupLayoutDescriptor } from "../functions/layouts";
+
+// Floats per instance: the model matrix (16), the normal matrix as three padded columns (12) and the color (4).
+const InstanceFloatCount: number = 32;
+
+/**
+ * A {@link Mesh} drawn many times in a single draw call, each instance
+ * with its own transform and color.
+ *
+ * Instance transforms are relative to the mesh, so moving the mesh moves
+ * every instance. Instance colors multiply the color of the material.
+ * The number of instances is fixed at construction; {@link count} limits
+ * how many of them are drawn. Changes to instances are uploaded on the
+ * next frame, only for the range of instances that changed.
+ *
+ * @example
+ * ```ts
+ * const cubes = new InstancedMesh(CreateBoxGeometry(), new PhongMaterial(), 10000),
+ *     transform = new Transform();
+ *
+ * for (let i = 0; i < cubes.capacity; i++) {
+ *
+ *     transform.SetPosition(i % 100 * 2, 0, Math.floor(i / 100) * 2);
+ *
+ *     cubes.SetTransformAt(i, transform).SetColorAt(i, new Color(Math.random(), 0.5, 1));
+ * }
+ *
+ * scene.Add(cubes);
+ * ```
+ */
+export class InstancedMesh extends Mesh {
+
+    /** The number of instances this mesh has storage for. */
+    public readonly capacity: number;
+
+    declare public instanceBuffer: GPUBuffer;
+
+    protected override readonly instanced: boolean = true;
+
+    private instanceCount: number;
+    private instanceData: Float32Array;
+    private instanceNormalMatrix: mat3 = mat3.create();
+
+    // Bounds of the drawn instances, and the geometry bounds and instance count they were computed for.
+    private bounds: BoundingSphere = new BoundingSphere();
+    private boundsGeometrySphere: BoundingSphere = new BoundingSphere();
+    private boundsInstanceCount: number = -1;
+    private boundsDirty: boolean = true;
+
+    // Range of instances changed since the last upload, empty when start >= end.
+    private dirtyStart: number = 0;
+    private dirtyEnd: number;
+
+    /**
+     * @param geometry The geometry, or plain geometry data which is converted
+     * into a {@link BufferGeometry}.
+     * @param material The material to draw the geometry with.
+     * @param capacity The number of instances. Every instance starts with the
+     * identity transform and a white color.
+     */
+    constructor(geometry: BufferGeometry | GeometryData, material: Material, capacity: number) {
+        super(geometry, material);
+
+        this.capacity = Math.max(0, Math.floor(capacity));
+        this.instanceCount = this.capacity;
+        this.instanceData = new Float32Array(this.capacity * InstanceFloatCount);
+        this.dirtyEnd = this.capacity;
+
+        const identity: mat4 = mat4.create(),
+            white: Color = new Color(1, 1, 1, 1);
+
+        for (let i = 0; i < this.capacity; i++) this.writeMatrix(i, identity).writeColor(i, white);
+    }
+
+    /**
+     * The number of instances drawn, starting from the first instance.
+     * Clamped between zero and the capacity.
+     */
+    public get count(): number {
+        return this.instanceCount;
+    }
+
+    public set count(count: number) {
+        this.instanceCount = Math.min(Math.max(0, Math.floor(count)), this.capacity);
+    }
+
+    /**
+     * Sets the transform of an instance, relative to the mesh, from a
+     * model matrix.
+     */
+    public SetMatrixAt(index: number, matrix: mat4): InstancedMesh {
+
+        if (!this.isValidIndex(index)) return this;
+
+        return this.writeMatrix(index, matrix).markDirty(index);
+    }
+
+    /**
+     * Sets the transform of an instance, relative to the mesh, from a
+     * {@link Transform}. The transform can be reused for every instance.
+     */
+    public SetTransformAt(index: number, transform: Transform): InstancedMesh {
+
+        return this.SetMatrixAt(index, transform.GetMatrix());
+    }
+
+    /**
+     * Copies the model matrix of an instance into the target matrix.
+     */
+    public GetMatrixAt(index: number, target: mat4 = mat4.create()): mat4 {
+
+        if (!this.isValidIndex(index)) return target;
+
+        const offset: number = index * InstanceFloatCount;
+
+        for (let i = 0; i < 16; i++) target[i] = this.instanceData[offset + i];
+
+        return target;
+    }
+
+    /**
+     * Sets the color of an instance, which multiplies the color of the
+     * material.
+     */
+    public SetColorAt(index: number, color: Color): InstancedMesh {
+
+        if (!this.isValidIndex(index)) return this;
+
+        return this.writeColor(index, color).markDirty(index);
+    }
+
+    /**
+     * Copies the color of an instance into the target color.
+     */
+    public GetColorAt(index: number, target: Color = new Color()): Color {
+
+        if (!this.isValidIndex(index)) return target;
+
+        const offset: number = index * InstanceFloatCount + 28;
+
+        target.red = this.instanceData[offset];
+        target.green = this.instanceData[offset + 1];
+        target.blue = this.instanceData[offset + 2];
+        target.alpha = this.instanceData[offset + 3];
+
+        return target;
+    }
+
+    /**
+     * Returns the sphere enclosing the drawn instances, relative to the
+     * mesh. Recomputed after instances have changed.
+     */
+    public override GetBoundingSphere(): BoundingSphere | null {
+
+        const sphere: BoundingSphere | null = super.GetBoundingSphere();
+
+        if (!sphere) return null;
+
+        const geometryChanged: boolean = sphere.radius !== this.boundsGeometrySphere.radius || !sphere.center.Equals(this.boundsGeometrySphere.center, 0);
+
+        if (!this.boundsDirty && !geometryChanged && this.boundsInstanceCount === this.instanceCount) return this.bounds;
+
+        const instanceSphere: BoundingSphere = new BoundingSphere();
+
+        this.bounds.MakeEmpty();
+
+        for (let i = 0; i < this.instanceCount; i++) {
+
+            const offset: number = i * InstanceFloatCount;
+
+            this.bounds.Union(instanceSphere.Copy(sphere).ApplyMatrix(this.instanceData.subarray(offset, offset + 16)));
+        }
+
+        this.boundsGeometrySphere.Copy(sphere);
+        this.boundsInstanceCount = this.instanceCount;
+        this.boundsDirty = false;
+
+        return this.bounds;
+    }
+
+    public override WriteUniformsToQueue(queue: GPUQueue, viewProjectionMatrix: mat4): Renderable | void {
+
+        if (this.instanceBuffer && this.dirtyStart < this.dirtyEnd) {
+
+            queue.writeBuffer(
+                this.instanceBuffer,
+                this.dirtyStart * InstanceFloatCount * 4,
+                this.instanceData as GPUAllowSharedBufferSource,
+                this.dirtyStart * InstanceFloatCount,
+                (this.dirtyEnd - this.dirtyStart) * InstanceFloatCount
+            );
+
+            this.dirtyStart = this.capacity;
+            this.dirtyEnd = 0;
+        }
+
+        return super.WriteUniformsToQueue(queue, viewProjectionMatrix);
+    }
+
+    /**
+     * Releases the uniform and instance buffers of this mesh. The geometry
+     * and material are not disposed, since they may be shared with other meshes.
+     */
+    public override Dispose(): void {
+
+        super.Dispose();
+
+        this.instanceBuffer && this.instanceBuffer.destroy();
+    }
+
+    // Private and protected class members.
+
+    protected override getInstanceCount(): number {
+        return this.instanceCount;
+    }
+
+    protected override getObjectBindGroupLayoutDescriptor(): GPUBindGroupLayoutDescriptor {
+        return CreateInstancedObjectBindGroupLayoutDescriptor();
+    }
+
+    protected override getObjectBindGroupEntries(device: GPUDevice): GPUBindGroupEntry[] {
+
+        if (!this.instanceBuffer) {
+
+            // Storage buffers cannot be empty, so a mesh without instances still has room for one.
+            this.instanceBuffer = device.createBuffer({
+                label: "InstancedMesh-InstanceBuffer-" + this.id,
+                size: Math.max(1, this.capacity) * InstanceFloatCount * 4,
+                usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+            });
+
+            this.dirtyStart = 0;
+            this.dirtyEnd = this.capacity;
+        }
+
+        return [
+            ...super.getObjectBindGroupEntries(device),
+            {
+                binding: 1,
+                resource: {
+                    buffer: this.instanceBuffer
+                }
+            }
+        ];
+    }
+
+    private writeMatrix(index: number, matrix: mat4): InstancedMesh {
+
+        const offset: number = index * InstanceFloatCount,
+            normalMatrix: mat3 = mat3.normalFromMat4(this.instanceNormalMatrix, matrix) ?? mat3.identity(this.instanceNormalMatrix);
+
+        this.instanceData.set(matrix, offset);
+
+        // Columns of a mat3x3 are aligned to 16 bytes in WGSL.
+        for (let column = 0; column < 3; column++) {
+            for (let row = 0; row < 3; row++) this.instanceData[offset + 16 + column * 4 + row] = normalMatrix[column * 3 + row];
+        }
+
+        return this;
+    }
+
+    private writeColor(index: number, color: Color): InstancedMesh {
+
+        const offset: number = index * InstanceFloatCount + 28;
+
+        this.instanceData[offset] = color.red;
+        this.instanceData[offset + 1] = color.green;
+        this.instanceData[offset + 2] = color.blue;
+        this.instanceData[offset + 3] = color.alpha;
+
+        return this;
+    }
+
+    private markDirty(index: number): InstancedMesh {
+
+        this.boundsDirty = true;
+        this.dirtyStart = Math.min(this.dirtyStart, index);
+        this.dirtyEnd = Math.max(this.dirtyEnd, index + 1);
+
+        return this;
+    }
+
+    private isValidIndex(index: number): boolean {
+
+        if (Number.isInteger(index) && index >= 0 && index < this.capacity) return true;
+
+        Debug.Error("InstancedMesh: The instance index is out of range.", [
+            `Renderable ID ${this.id}`,
+            `Index ${index}, capacity ${this.capacity}`
+        ], ErrorCodes.INSTANCED_MESH_INDEX_OUT_OF_RANGE);
+
+        return false;
+    }
+}
\ No newline at end of file
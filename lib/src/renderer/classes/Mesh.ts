@@ -0,0 +1,338 @@
+import { mat4 } from "gl-matrix";
+
+import { Renderable } from "./Renderable";
+import { Material } from "../../materials/exports";
+import { GetBlendState } from "../../materials/functions/blending";
+import { BufferGeometry } from "../../geometries/classes/BufferGeometry";
+import { BoundingSphere, Debug } from "../../utilities/exports";
+import { ErrorCodes } from "../../codes";
+import { GeometryData, VertexAttributeName, WebGPURenderContext } from "../../typings";
+import { WebGPUPipelineCache } from "./WebGPUPipelineCache";
+import { GetSceneBindingsSource } from "../functions/shaders";
+import {
+    CreateCameraBindGroupLayoutDescriptor,
+    CreateLightBindGroupLayoutDescriptor,
+    CreateObjectBindGroupLayoutDescriptor,
+    MaterialBindGroupIndex,
+    ObjectBindGroupIndex
+} from "../functions/layouts";
+
+import shadowDepthShader from "../../shaders/shadows/ShadowDepth.wgsl";
+import pickingShader from "../../shaders/picking/Picking.wgsl";
+
+/**
+ * A renderable made of a {@link BufferGeometry} and a {@link Material}.
+ *
+ * Only the vertex attributes the material asks for are bound, so the same
+ * geometry can be drawn with any material for which it provides the
+ * required attributes.
+ *
+ * Geometries and materials can be shared between meshes, which is why
+ * {@link Dispose} does not dispose either of them.
+ *
+ * @example
+ * ```ts
+ * const mesh = new Mesh({
+ *     positions: [0, 1, 0, -1, -1, 0, 1, -1, 0],
+ * }, new BasicColorMaterial(new Color(1, 0, 0)));
+ *
+ * scene.Add(mesh);
+ * ```
+ */
+export class Mesh extends Renderable {
+
+    public geometry: BufferGeometry;
+
+    // Whether the shaders read per-instance transforms, set by instanced meshes.
+    protected readonly instanced: boolean = false;
+
+    // Pipeline from the renderer's pipeline cache, requested again when the cache or render state changes.
+    declare private pipeline: GPURenderPipeline;
+    private pipelineCacheVersion: number = -1;
+    private pipelineStateKey: string = "";
+
+    // Depth-only pipeline for the shadow maps, requested on the first shadow pass.
+    declare private depthPipeline: GPURenderPipeline;
+    private depthPipelineCacheVersion: number = -1;
+    private depthPipelineStateKey: string = "";
+
+    // Pipeline of the picking pass, requested on the first pick.
+    declare private pickingPipeline: GPURenderPipeline;
+    private pickingPipelineCacheVersion: number = -1;
+    private pickingPipelineStateKey: string = "";
+
+    // The geometry attributes bound for the material, in vertex buffer slot order.
+    private boundAttributes: VertexAttributeName[] = [];
+    private vertexBufferLayouts: GPUVertexBufferLayout[] = [];
+
+    declare private objectBindGroup: GPUBindGroup;
+
+    // Whether the geometry provides every attribute the material requires. Meshes which do not are never drawn.
+    private canDraw: boolean = false;
+
+    // The material the shader and vertex buffer layouts were derived from. A replaced material is bound before the next draw.
+    private boundMaterial: Material | null = null;
+
+    /**
+     * @param geometry The geometry, or plain geometry data which is converted
+     * into a {@link BufferGeometry}.
+     * @param material The material to draw the geometry with.
+     */
+    constructor(geometry: BufferGeometry | GeometryData, public material: Material) {
+        super();
+
+        this.geometry = (geometry instanceof BufferGeometry) ? geometry : BufferGeometry.FromData(geometry);
+    }
+
+    /** Whether the material of this mesh blends with the color already drawn. */
+    public override get isTransparent(): boolean {
+        return this.material.isTransparent;
+    }
+
+    public override Initialize(context: WebGPURenderContext): void {
+
+        const device: GPUDevice = context.device;
+
+        this.geometry.Upload(device);
+
+        this.objectBindGroup = device.createBindGroup({
+            label: "Mesh-ObjectBindGroup-" + this.id,
+            layout: context.pipelineCache.GetBindGroupLayout(this.getObjectBindGroupLayoutDescriptor()),
+            entries: this.getObjectBindGroupEntries(device)
+        });
+
+        this.bindMaterial(context);
+    }
+
+    public override WriteUniformsToQueue(queue: GPUQueue, viewProjectionMatrix: mat4): Renderable | void {
+
+        // A replaced material has not been initialized yet, 'bindMaterial' writes its uniforms.
+        if (!this.canDraw || this.material !== this.boundMaterial) return;
+
+        this.material.WriteUniformsToQueue(queue);
+        this.geometry.Update();
+
+        return super.WriteUniformsToQueue(queue, viewProjectionMatrix);
+    }
+
+    /**
+     * Returns the bounding sphere of the geometry.
+     */
+    public override GetBoundingSphere(): BoundingSphere | null {
+
+        return this.geometry.GetBoundingSphere();
+    }
+
+    public override Render(pass: GPURenderPassEncoder, context: WebGPURenderContext): void {
+
+        // The material may have been replaced, or disposed and so released its bind group.
+        (this.material !== this.boundMaterial || !this.material.bindGroup) && this.bindMaterial(context);
+
+        const instanceCount: number = this.getInstanceCount();
+
+        if (instanceCount === 0 || !this.canDraw) return;
+
+        pass.setPipeline(this.getPipeline(context));
+        pass.setBindGroup(ObjectBindGroupIndex, this.objectBindGroup);
+        pass.setBindGroup(MaterialBindGroupIndex, this.material.bindGroup);
+
+        this.geometry.SetVertexBuffers(pass, this.boundAttributes);
+        this.geometry.Draw(pass, instanceCount);
+    }
+
+    public override RenderDepth(pass: GPURenderPassEncoder, context: WebGPURenderContext): void {
+
+        this.material !== this.boundMaterial && this.bindMaterial(context);
+
+        const instanceCount: number = this.getInstanceCount();
+
+        if (instanceCount === 0 || !this.canDraw || !this.geometry.HasAttribute("position")) return;
+
+        pass.setPipeline(this.getDepthPipeline(context));
+        pass.setBindGroup(ObjectBindGroupIndex, this.objectBindGroup);
+
+        this.geometry.SetVertexBuffers(pass, ["position"]);
+        this.geometry.Draw(pass, instanceCount);
+    }
+
+    public override RenderPicking(pass: GPURenderPassEncoder, context: WebGPURenderContext): void {
+
+        this.material !== this.boundMaterial && this.bindMaterial(context);
+
+        const instanceCount: number = this.getInstanceCount();
+
+        if (instanceCount === 0 || !this.canDraw || !this.geometry.HasAttribute("position")) return;
+
+        pass.setPipeline(this.getPickingPipeline(context));
+        pass.setBindGroup(ObjectBindGroupIndex, this.objectBindGroup);
+
+        this.geometry.SetVertexBuffers(pass, ["position"]);
+        this.geometry.Draw(pass, instanceCount);
+    }
+
+    /**
+     * Releases the uniform buffer of this mesh. The geometry and material
+     * are not disposed, since they may be shared with other meshes.
+     */
+    public override Dispose(): void {
+
+        this.uniformBuffer && this.uniformBuffer.destroy();
+
+        this.uniformBuffer = null;
+        this.boundMaterial = null;
+        this.canDraw = false;
+    }
+
+    // Private and protected class members.
+
+    protected getInstanceCount(): number {
+        return 1;
+    }
+
+    protected getObjectBindGroupLayoutDescriptor(): GPUBindGroupLayoutDescriptor {
+        return CreateObjectBindGroupLayoutDescriptor();
+    }
+
+    protected getObjectBindGroupEntries(device: GPUDevice): GPUBindGroupEntry[] {
+
+        return [
+            {
+                binding: 0,
+                resource: {
+                    buffer: this.CreateUniformBuffer(device)
+                }
+            }
+        ];
+    }
+
+    // Initializes the material and derives the shader and the vertex buffers bound for it.
+    private bindMaterial(context: WebGPURenderContext): void {
+
+        const material: Material = this.material,
+            geometry: BufferGeometry = this.geometry;
+
+        material.Initialize(context.device);
+
+        this.boundMaterial = material;
+        this.shader = material.GetShader(this.instanced);
+
+        const missingAttributes: VertexAttributeName[] = material.attributes.filter((name: VertexAttributeName) => !geometry.HasAttribute(name));
+
+        // The shader reads every attribute of the material, a pipeline without one of them fails validation.
+        this.canDraw = missingAttributes.length === 0;
+
+        if (!this.canDraw) return Debug.Error("Mesh: The geometry does not provide every attribute required by the material, the mesh will not be drawn.", [
+            `Missing attributes: ${missingAttributes.join(", ")}`,
+            `Renderable ID ${this.id}`,
+            `Geometry ID ${geometry.id}`,
+            `Material ID ${material.id}`
+        ], ErrorCodes.MESH_MISSING_VERTEX_ATTRIBUTE);
+
+        this.boundAttributes = material.attributes;
+        this.vertexBufferLayouts = geometry.GetVertexBufferLayouts(this.boundAttributes);
+
+        material.WriteUniformsToQueue(context.queue);
+
+        this.getPipeline(context);
+    }
+
+    private getPipeline(context: WebGPURenderContext): GPURenderPipeline {
+
+        const cache: WebGPUPipelineCache = context.pipelineCache,
+            material: Material = this.material;
+
+        const constants: Record<string, number> = material.GetPipelineConstants(context),
+            stateKey: string = `${material.id}|${context.format}|${context.sampleCount}|${context.depthFormat}|${context.frontFace}|${material.GetPipelineStateKey()}|${JSON.stringify(constants)}`;
+
+        if (this.pipeline && this.pipelineCacheVersion === cache.version && this.pipelineStateKey === stateKey) return this.pipeline;
+
+        const bindGroupLayouts: GPUBindGroupLayoutDescriptor[] = [
+            CreateCameraBindGroupLayoutDescriptor(),
+            this.getObjectBindGroupLayoutDescriptor(),
+            material.GetBindGroupLayoutDescriptor()
+        ];
+
+        material.isLit && bindGroupLayouts.push(CreateLightBindGroupLayoutDescriptor());
+
+        this.pipeline = cache.GetRenderPipeline({
+            label: "Mesh",
+            shader: this.shader,
+            vertexBuffers: this.vertexBufferLayouts,
+            bindGroupLayouts,
+            format: context.format,
+            sampleCount: context.sampleCount,
+            depthFormat: context.depthFormat,
+            depthWriteEnabled: material.depthWriteEnabled,
+            depthCompare: material.depthCompare,
+            cullMode: material.cullMode,
+            frontFace: context.frontFace,
+            blend: GetBlendState(material.blendMode),
+            constants
+        });
+
+        this.pipelineCacheVersion = cache.version;
+        this.pipelineStateKey = stateKey;
+
+        return this.pipeline;
+    }
+
+    private getDepthPipeline(context: WebGPURenderContext): GPURenderPipeline {
+
+        const cache: WebGPUPipelineCache = context.pipelineCache,
+            material: Material = this.material;
+
+        const stateKey: string = `${context.depthFormat}|${material.cullMode}|${context.frontFace}`;
+
+        if (this.depthPipeline && this.depthPipelineCacheVersion === cache.version && this.depthPipelineStateKey === stateKey) return this.depthPipeline;
+
+        this.depthPipeline = cache.GetRenderPipeline({
+            label: "Mesh-Depth",
+            shader: GetSceneBindingsSource(this.instanced) + "\n\n" + shadowDepthShader,
+            vertexBuffers: this.geometry.GetVertexBufferLayouts(["position"]),
+            bindGroupLayouts: [
+                CreateCameraBindGroupLayoutDescriptor(),
+                this.getObjectBindGroupLayoutDescriptor()
+            ],
+            format: null,
+            sampleCount: 1,
+            depthFormat: context.depthFormat,
+            cullMode: material.cullMode,
+            frontFace: context.frontFace
+        });
+
+        this.depthPipelineCacheVersion = cache.version;
+        this.depthPipelineStateKey = stateKey;
+
+        return this.depthPipeline;
+    }
+
+    private getPickingPipeline(context: WebGPURenderContext): GPURenderPipeline {
+
+        const cache: WebGPUPipelineCache = context.pipelineCache,
+            material: Material = this.material;
+
+        const stateKey: string = `${context.format}|${context.depthFormat}|${material.cullMode}|${context.frontFace}`;
+
+        if (this.pickingPipeline && this.pickingPipelineCacheVersion === cache.version && this.pickingPipelineStateKey === stateKey) return this.pickingPipeline;
+
+        this.pickingPipeline = cache.GetRenderPipeline({
+            label: "Mesh-Picking",
+            shader: GetSceneBindingsSource(this.instanced) + "\n\n" + pickingShader,
+            vertexBuffers: this.geometry.GetVertexBufferLayouts(["position"]),
+            bindGroupLayouts: [
+                CreateCameraBindGroupLayoutDescriptor(),
+                this.getObjectBindGroupLayoutDescriptor()
+            ],
+            format: context.format,
+            sampleCount: 1,
+            depthFormat: context.depthFormat,
+            cullMode: material.cullMode,
+            frontFace: context.frontFace
+        });
+
+        this.pickingPipelineCacheVersion = cache.version;
+        this.pickingPipelineStateKey = stateKey;
+
+        return this.pickingPipeline;
+    }
+}
\ No newline at end of file
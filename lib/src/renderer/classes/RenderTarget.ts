@@ -0,0 +1,238 @@
+import { v4 } from "uuid";
+
+import { Texture } from "../../textures/classes/Texture";
+import { RenderTargetOptions, TextureColorSpace } from "../../typings";
+
+/**
+ * Color texture of a {@link RenderTarget}, which materials sample like any
+ * other texture. The GPU texture is allocated by the render target and
+ * replaced when the target is resized.
+ */
+class RenderTargetTexture extends Texture {
+
+    declare public width: number;
+    declare public height: number;
+    declare public format: GPUTextureFormat;
+    declare public colorSpace: TextureColorSpace;
+
+    constructor(private target: RenderTarget, format: GPUTextureFormat, label: string) {
+
+        // The pixels are never uploaded, the render target allocates the GPU texture.
+        super({ data: new Uint8Array(0), width: target.width, height: target.height }, { label, generateMipmaps: false });
+
+        this.format = format;
+        this.colorSpace = format.endsWith("-srgb") ? "srgb" : "linear";
+    }
+
+    public override Initialize(device: GPUDevice): Texture {
+
+        this.target.Initialize(device);
+
+        return this;
+    }
+
+    public override Dispose(): void {
+        this.target.Dispose();
+    }
+}
+
+/**
+ * An offscreen color texture, with an optional depth buffer, which the
+ * {@link WebGPURenderer} can draw into instead of the canvas. Its
+ * {@link texture} can be sampled by materials, for mirrors, minimaps,
+ * portals and thumbnails.
+ *
+ * GPU textures are allocated on first use, and again after the target has
+ * been resized. Materials sampling the texture pick up the new texture
+ * on the next frame. A target cannot be drawn into while it is sampled,
+ * so hide the renderables showing its texture while rendering into it.
+ *
+ * @example
+ * ```ts
+ * const target = new RenderTarget(512, 512, { sampleCount: 4 }),
+ *     screen = new Mesh(CreatePlaneGeometry(), new BasicTextureMaterial(target.texture));
+ *
+ * screen.visible = false;
+ * renderer.Render(scene, securityCamera, target);
+ *
+ * screen.visible = true;
+ * renderer.Render(scene, camera);
+ * ```
+ */
+export class RenderTarget {
+
+    public id: string = v4();
+
+    /** The color texture, sampled by materials. Multisampled targets resolve into it. */
+    public readonly texture: Texture;
+
+    public readonly format: GPUTextureFormat;
+    public readonly depthFormat: GPUTextureFormat | null;
+    public readonly sampleCount: number;
+
+    /** Color the target is cleared to, or `null` for the clear color of the renderer. */
+    public clearColor: GPUColor | null;
+
+    private msaaTexture: GPUTexture | null = null;
+    private msaaTextureView: GPUTextureView | null = null;
+    private depthTexture: GPUTexture | null = null;
+    private depthTextureView: GPUTextureView | null = null;
+
+    private targetWidth: number;
+    private targetHeight: number;
+
+    /**
+     * @param width The width in pixels.
+     * @param height The height in pixels.
+     */
+    constructor(width: number, height: number, options: RenderTargetOptions = {}) {
+
+        const sampleCount: number = options.sampleCount ?? 1;
+
+        this.targetWidth = Math.max(1, Math.floor(width));
+        this.targetHeight = Math.max(1, Math.floor(height));
+
+        this.format = options.format ?? "rgba8unorm-srgb";
+        this.depthFormat = options.depthFormat === undefined ? "depth24plus" : options.depthFormat;
+        this.sampleCount = (sampleCount === 1 || sampleCount === 2 || sampleCount === 4 || sampleCount === 8) ? sampleCount : 1;
+        this.clearColor = options.clearColor ?? null;
+
+        this.texture = new RenderTargetTexture(this, this.format, options.label ?? "RenderTarget-" + this.id);
+    }
+
+    public get width(): number {
+        return this.targetWidth;
+    }
+
+    public get height(): number {
+        return this.targetHeight;
+    }
+
+    /**
+     * Changes the size of the target. The GPU textures are released and
+     * allocated again at the new size on next use.
+     */
+    public SetSize(width: number, height: number): RenderTarget {
+
+        width = Math.max(1, Math.floor(width));
+        height = Math.max(1, Math.floor(height));
+
+        if (width === this.targetWidth && height === this.targetHeight) return this;
+
+        this.Dispose();
+
+        const texture: RenderTargetTexture = this.texture as RenderTargetTexture;
+
+        this.targetWidth = texture.width = width;
+        this.targetHeight = texture.height = height;
+
+        return this;
+    }
+
+    /**
+     * Allocates the color, multisampled and depth textures. Does nothing if
+     * they have already been allocated.
+     */
+    public Initialize(device: GPUDevice): RenderTarget {
+
+        const texture: Texture = this.texture;
+
+        if (texture.gpuTexture) return this;
+
+        const size: GPUExtent3DStrict = { width: this.targetWidth, height: this.targetHeight },
+            label: string = texture.name;
+
+        const colorTexture: GPUTexture = texture.gpuTexture = device.createTexture({
+            label: label + "-ColorTexture",
+            size,
+            format: this.format,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_SRC
+        });
+
+        texture.view = colorTexture.createView({ label: label + "-ColorTextureView" });
+
+        if (this.sampleCount > 1) {
+
+            const msaaTexture: GPUTexture = this.msaaTexture = device.createTexture({
+                label: label + "-MSAATexture",
+                size,
+                format: this.format,
+                sampleCount: this.sampleCount,
+                usage: GPUTextureUsage.RENDER_ATTACHMENT
+            });
+
+            this.msaaTextureView = msaaTexture.createView();
+        }
+
+        if (this.depthFormat) {
+
+            const depthTexture: GPUTexture = this.depthTexture = device.createTexture({
+                label: label + "-DepthTexture",
+                size,
+                format: this.depthFormat,
+                sampleCount: this.sampleCount,
+                usage: GPUTextureUsage.RENDER_ATTACHMENT
+            });
+
+            this.depthTextureView = depthTexture.createView();
+        }
+
+        return this;
+    }
+
+    /**
+     * Returns the color attachment of a render pass drawing into this
+     * target, cleared to the given color. The textures are allocated first
+     * if needed.
+     *
+     * Note: this is an internal method which is called by the renderer.
+     */
+    public GetColorAttachment(device: GPUDevice, clearValue: GPUColor): GPURenderPassColorAttachment {
+
+        const view: GPUTextureView = this.texture.GetView(device);
+
+        return this.msaaTextureView
+            ? { view: this.msaaTextureView, resolveTarget: view, loadOp: "clear", storeOp: "store", clearValue }
+            : { view, loadOp: "clear", storeOp: "store", clearValue };
+    }
+
+    /**
+     * Returns the depth attachment of a render pass drawing into this
+     * target, or `undefined` if the target has no depth buffer.
+     *
+     * Note: this is an internal method which is called by the renderer
+     * after the target has been initialized.
+     */
+    public GetDepthStencilAttachment(): GPURenderPassDepthStencilAttachment | undefined {
+
+        if (!this.depthTextureView) return undefined;
+
+        return {
+            view: this.depthTextureView,
+            depthLoadOp: "clear",
+            depthStoreOp: "store",
+            depthClearValue: 1.0
+        };
+    }
+
+    /**
+     * Releases the GPU textures. The target can still be used; its textures
+     * are allocated again on next use.
+     */
+    public Dispose(): void {
+
+        const texture: Texture = this.texture;
+
+        texture.gpuTexture && texture.gpuTexture.destroy();
+        this.msaaTexture && this.msaaTexture.destroy();
+        this.depthTexture && this.depthTexture.destroy();
+
+        texture.gpuTexture = null;
+        texture.view = null;
+
+        this.msaaTexture = null;
+        this.msaaTextureView = null;
+        this.depthTexture = null;
+        this.depthTextureView = null;
+    }
+}
\ No newline at end of file
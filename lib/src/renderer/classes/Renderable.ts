@@ -1,13 +1,172 @@
-import { v4 } from "uuid";
 import { WgslReflect } from "wgsl_reflect";
+import { mat4 } from "gl-matrix";
 
-export abstract class Renderable {
+import { BoundingSphere, Debug, Frustum } from "../../utilities/exports";
+import { ErrorCodes } from "../../codes";
+import { WebGPURenderContext } from "../../typings";
+import { SceneNode } from "../../others/classes/SceneNode";
+
+export abstract class Renderable extends SceneNode {
 
     public isRenderable: boolean = true;
-    public id: string = v4();
     public shader: string = "";
 
-    public abstract Initialize(device: GPUDevice, format: GPUTextureFormat, sampleCount: number): void;
-    public abstract Render(pass: GPURenderPassEncoder, viewProjectionMatrix: Float32Array): void;
+    /** Set by the scene once 'Initialize' has completed. */
+    public hasInitialized: boolean = false;
+
+    /** Whether this renderable is drawn into the shadow maps of shadow casting lights. */
+    public castShadow: boolean = false;
+
+    /** Whether shadows are applied to this renderable by lit materials. */
+    public receiveShadow: boolean = false;
+
+    /**
+     * Whether the renderer skips this renderable when its bounding sphere
+     * is outside the view of the camera. Disable for renderables whose
+     * shader moves vertices beyond their bounds.
+     */
+    public frustumCulled: boolean = true;
+
+    /**
+     * Order in which the renderer draws this renderable, among the opaque
+     * or the transparent renderables. Lower values are drawn first;
+     * renderables with equal values are sorted by their distance to the
+     * camera.
+     */
+    public renderOrder: number = 0;
+
+    // Picking IDs are stored as floats in the object uniforms, which are exact up to 2^24.
+    private static nextPickingId: number = 1;
+
+    /**
+     * Number identifying this renderable in the picking pass of a
+     * {@link GPUPicker}. Unique among all renderables, and never 0.
+     */
+    public readonly pickingId: number = Renderable.nextPickingId++;
+
+    public readonly modelViewProjectionMatrix: mat4 = mat4.create();
+    public readonly normalMatrix: mat4 = mat4.create();
+
+    public uniformBuffer: GPUBuffer | null = null;
+
+    // Uniform buffer size, represents the model, model-view-projection and normal matrix (3 * 16 floats),
+    // followed by the object parameters (4 floats).
+    protected uniformBufferSize: number = (3 * (4 * 4) + 4) * 4;
+
+    private parameters: Float32Array = new Float32Array(4);
+    private worldBoundingSphere: BoundingSphere = new BoundingSphere();
+
+    public abstract Initialize(context: WebGPURenderContext): void | Promise<void>;
+    public abstract Render(pass: GPURenderPassEncoder, context: WebGPURenderContext): void;
     public abstract Dispose(): void;
+
+    /**
+     * Draws only the depth of this renderable, into a shadow map. The
+     * camera bind group holds the view-projection matrix of the shadow map.
+     * Renderables that cannot cast shadows keep this default, which draws
+     * nothing.
+     */
+    public RenderDepth(pass: GPURenderPassEncoder, context: WebGPURenderContext): void {}
+
+    /**
+     * Draws the {@link pickingId} of this renderable into the integer
+     * target of a picking pass. Renderables that cannot be picked keep
+     * this default, which draws nothing.
+     */
+    public RenderPicking(pass: GPURenderPassEncoder, context: WebGPURenderContext): void {}
+
+    /**
+     * Whether this renderable blends with the color already drawn. The
+     * renderer draws transparent renderables after the opaque ones, from
+     * back to front.
+     */
+    public get isTransparent(): boolean {
+        return false;
+    }
+
+    /**
+     * Returns the sphere enclosing this renderable in its local space, or
+     * `null` if its bounds are unknown. Renderables without bounds keep
+     * this default and are never culled.
+     */
+    public GetBoundingSphere(): BoundingSphere | null {
+        return null;
+    }
+
+    /**
+     * Returns the bounding sphere transformed by the world matrix, or `null`
+     * if the bounds are unknown. The returned sphere is reused between calls.
+     */
+    public GetWorldBoundingSphere(): BoundingSphere | null {
+
+        const sphere: BoundingSphere | null = this.GetBoundingSphere();
+
+        return sphere ? this.worldBoundingSphere.Copy(sphere).ApplyMatrix(this.worldMatrix) : null;
+    }
+
+    /**
+     * Whether this renderable may be visible inside the frustum. Always
+     * true for renderables which opted out of culling or have no bounds.
+     */
+    public IsInFrustum(frustum: Frustum): boolean {
+
+        if (!this.frustumCulled) return true;
+
+        const sphere: BoundingSphere | null = this.GetWorldBoundingSphere();
+
+        return !sphere || frustum.IntersectsSphere(sphere);
+    }
+
+    public CreateUniformBuffer(device: GPUDevice): GPUBuffer {
+
+        if (this.uniformBuffer) return this.uniformBuffer;
+
+        this.uniformBuffer = device.createBuffer({
+            size: this.uniformBufferSize,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+            label: "RenderableUniformBuffer-" + this.id
+        });
+
+        return this.uniformBuffer;
+    }
+
+    /**
+     * Computes the model-view-projection and normal matrix of this
+     * renderable and writes them, together with the world matrix as the
+     * model matrix and the object parameters, into its uniform buffer.
+     *
+     * Note: this is an internal method which is called by the renderer
+     * once per frame, after the world matrices of the scene have been
+     * updated and before the renderable is drawn.
+     * @param queue
+     * @param viewProjectionMatrix
+     */
+    public WriteUniformsToQueue(queue: GPUQueue, viewProjectionMatrix: mat4): Renderable | void {
+
+        if (!this.uniformBuffer) return Debug.Error("Could not write uniform buffer to queue, because the buffer is undefined.", [
+            `Renderable ID ${this.id}`,
+            "Make sure the renderable creates its uniform buffer in 'Initialize'."
+        ], ErrorCodes.RENDERABLE_UNIFORM_BUFFER_UNDEFINED);
+
+        mat4.multiply(this.modelViewProjectionMatrix, viewProjectionMatrix, this.worldMatrix);
+
+        // The normal matrix is the inverse transpose of the model matrix, so normals
+        // stay perpendicular to their surface under non-uniform scaling.
+        mat4.invert(this.normalMatrix, this.worldMatrix) && mat4.transpose(this.normalMatrix, this.normalMatrix);
+
+        const modelMatrixCast = this.worldMatrix as unknown as ArrayBuffer,
+            modelViewProjectionMatrixCast = this.modelViewProjectionMatrix as unknown as ArrayBuffer,
+            normalMatrixCast = this.normalMatrix as unknown as ArrayBuffer;
+
+        queue.writeBuffer(this.uniformBuffer, 0, modelMatrixCast);
+        queue.writeBuffer(this.uniformBuffer, 64, modelViewProjectionMatrixCast);
+        queue.writeBuffer(this.uniformBuffer, 128, normalMatrixCast);
+
+        this.parameters[0] = this.receiveShadow ? 1 : 0;
+        this.parameters[1] = this.pickingId;
+
+        queue.writeBuffer(this.uniformBuffer, 192, this.parameters as GPUAllowSharedBufferSource);
+
+        return this;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { ErrorCodes } from "../../codes";
+import { WebGPUPipelineCacheStatistics, WebGPUPipelineDescriptor } from "../../typings";
+import { Debug } from "../../utilities/exports";
+
+interface CachedShaderModule {
+    id: number;
+    module: GPUShaderModule;
+}
+
+/**
+ * Renderer-owned cache of shader modules, bind group layouts and
+ * render pipelines.
+ *
+ * Renderables describe the pipeline they need with a
+ * {@link WebGPUPipelineDescriptor}; identical descriptors resolve to the
+ * same `GPURenderPipeline`, so any number of objects sharing a shader and
+ * render state only compile a single pipeline.
+ *
+ * Pipelines depend on the target format and MSAA sample count of the
+ * renderer. When either changes, the renderer calls {@link Invalidate},
+ * which drops all pipelines and bumps {@link version} so renderables know
+ * to request their pipeline again.
+ */
+export class WebGPUPipelineCache {
+
+    /** Incremented every time the pipelines are invalidated. */
+    public version: number = 0;
+
+    public statistics: WebGPUPipelineCacheStatistics = {
+        pipelineHits: 0,
+        pipelineMisses: 0,
+        shaderModuleHits: 0,
+        shaderModuleMisses: 0,
+        pipelineCount: 0,
+        shaderModuleCount: 0,
+        invalidations: 0,
+    };
+
+    private shaderModules: Map<string, CachedShaderModule> = new Map();
+    private bindGroupLayouts: Map<string, GPUBindGroupLayout> = new Map();
+    private pipelines: Map<string, GPURenderPipeline> = new Map();
+
+    private nextShaderModuleId: number = 0;
+
+    constructor(public device: GPUDevice) {}
+
+    public GetShaderModule(code: string, label?: string): GPUShaderModule {
+
+        return this.getCachedShaderModule(code, label).module;
+    }
+
+    /**
+     * Returns a bind group layout for the given descriptor. Labels are
+     * ignored when comparing descriptors.
+     */
+    public GetBindGroupLayout(descriptor: GPUBindGroupLayoutDescriptor): GPUBindGroupLayout {
+
+        const key: string = this.createBindGroupLayoutKey(descriptor);
+        const cached: GPUBindGroupLayout | undefined = this.bindGroupLayouts.get(key);
+
+        if (cached) return cached;
+
+        const layout: GPUBindGroupLayout = this.device.createBindGroupLayout(descriptor);
+
+        this.bindGroupLayouts.set(key, layout);
+
+        return layout;
+    }
+
+    public GetRenderPipeline(descriptor: WebGPUPipelineDescriptor): GPURenderPipeline {
+
+        const shaderModule: CachedShaderModule = this.getCachedShaderModule(descriptor.shader, descriptor.label);
+
+        const key: string = this.createPipelineKey(descriptor, shaderModule.id);
+        const cached: GPURenderPipeline | undefined = this.pipelines.get(key);
+
+        if (cached) {
+
+            this.statistics.pipelineHits++;
+            return cached;
+        }
+
+        this.statistics.pipelineMisses++;
+
+        const pipeline: GPURenderPipeline = this.createRenderPipeline(descriptor, shaderModule.module);
+
+        this.pipelines.set(key, pipeline);
+        this.statistics.pipelineCount = this.pipelines.size;
+
+        return pipeline;
+    }
+
+    /**
+     * Drops every cached pipeline. Shader modules and bind group layouts
+     * do not depend on the render targets and are kept.
+     */
+    public Invalidate(): WebGPUPipelineCache {
+
+        this.pipelines.clear();
+
+        this.statistics.pipelineCount = 0;
+        this.statistics.invalidations++;
+
+        this.version++;
+
+        return this;
+    }
+
+    /**
+     * Drops everything in the cache, including shader modules and bind
+     * group layouts.
+     */
+    public Clear(): WebGPUPipelineCache {
+
+        this.shaderModules.clear();
+        this.bindGroupLayouts.clear();
+
+        this.statistics.shaderModuleCount = 0;
+
+        return this.Invalidate();
+    }
+
+    public ResetStatistics(): WebGPUPipelineCache {
+
+        this.statistics.pipelineHits = 0;
+        this.statistics.pipelineMisses = 0;
+        this.statistics.shaderModuleHits = 0;
+        this.statistics.shaderModuleMisses = 0;
+        this.statistics.invalidations = 0;
+
+        return this;
+    }
+
+    // Private and protected class members.
+
+    private getCachedShaderModule(code: string, label?: string): CachedShaderModule {
+
+        const cached: CachedShaderModule | undefined = this.shaderModules.get(code);
+
+        if (cached) {
+
+            this.statistics.shaderModuleHits++;
+            return cached;
+        }
+
+        this.statistics.shaderModuleMisses++;
+
+        const shaderModule: CachedShaderModule = {
+            id: this.nextShaderModuleId++,
+            module: this.device.createShaderModule({ code, label: (label ?? "FluexGL") + "-ShaderModule" })
+        };
+
+        this.shaderModules.set(code, shaderModule);
+        this.statistics.shaderModuleCount = this.shaderModules.size;
+
+        return shaderModule;
+    }
+
+    private createRenderPipeline(descriptor: WebGPUPipelineDescriptor, module: GPUShaderModule): GPURenderPipeline {
+
+        const device: GPUDevice = this.device,
+            label: string = descriptor.label ?? "FluexGL";
+
+        const layout: GPUPipelineLayout = device.createPipelineLayout({
+            label: label + "-PipelineLayout",
+            bindGroupLayouts: descriptor.bindGroupLayouts.map((layoutDescriptor: GPUBindGroupLayoutDescriptor) => this.GetBindGroupLayout(layoutDescriptor))
+        });
+
+        const depthFormat: GPUTextureFormat | null = descriptor.depthFormat === undefined ? "depth24plus" : descriptor.depthFormat;
+
+        device.pushErrorScope("validation");
+
+        const pipeline: GPURenderPipeline = device.createRenderPipeline({
+            label: label + "-Pipeline",
+            layout,
+            vertex: {
+                module,
+                entryPoint: descriptor.vertexEntryPoint ?? "vertexShaderMain",
+                buffers: descriptor.vertexBuffers
+            },
+            fragment: descriptor.format ? {
+                module,
+                entryPoint: descriptor.fragmentEntryPoint ?? "fragmentShaderMain",
+                constants: descriptor.constants,
+                targets: [
+                    descriptor.blend
+                        ? { format: descriptor.format, blend: descriptor.blend }
+                        : { format: descriptor.format }
+                ]
+            } : undefined,
+            primitive: {
+                topology: descriptor.topology ?? "triangle-list",
+                cullMode: descriptor.cullMode ?? "back",
+                frontFace: descriptor.frontFace ?? "ccw"
+            },
+            depthStencil: depthFormat ? {
+                format: depthFormat,
+                depthWriteEnabled: descriptor.depthWriteEnabled ?? true,
+                depthCompare: descriptor.depthCompare ?? "less"
+            } : undefined,
+            multisample: {
+                count: Math.max(1, descriptor.sampleCount | 0)
+            }
+        });
+
+        device.popErrorScope().then(function (error: GPUError | null) {
+
+            if (error) Debug.Error("WebGPUPipelineCache: Pipeline validation error.", [
+                "Pipeline: " + label,
+                "Error: " + error.message
+            ], ErrorCodes.WGPUR_PIPELINE_VALIDATION_ERROR);
+        });
+
+        return pipeline;
+    }
+
+    private createBindGroupLayoutKey(descriptor: GPUBindGroupLayoutDescriptor): string {
+
+        return JSON.stringify(descriptor.entries);
+    }
+
+    private createPipelineKey(descriptor: WebGPUPipelineDescriptor, shaderModuleId: number): string {
+
+        return JSON.stringify([
+            shaderModuleId,
+            descriptor.vertexEntryPoint ?? "",
+            descriptor.fragmentEntryPoint ?? "",
+            descriptor.vertexBuffers,
+            descriptor.bindGroupLayouts.map((layoutDescriptor: GPUBindGroupLayoutDescriptor) => this.createBindGroupLayoutKey(layoutDescriptor)),
+            descriptor.format,
+            descriptor.sampleCount,
+            descriptor.depthFormat === undefined ? "depth24plus" : descriptor.depthFormat,
+            descriptor.depthWriteEnabled ?? true,
+            descriptor.depthCompare ?? "less",
+            descriptor.topology ?? "triangle-list",
+            descriptor.cullMode ?? "back",
+            descriptor.frontFace ?? "ccw",
+            descriptor.blend ?? null,
+            descriptor.constants ?? null
+        ]);
+    }
+}
@@ -1,23 +1,42 @@
+import { mat4 } from "gl-matrix";
 import { v4 } from "uuid";
 
 import { ErrorCodes, WarningCodes } from "../../codes";
-import { WebGPURendererFrameInfo, WebGPURendererOptions } from "../../typings";
-import { Debug } from "../../utilities/exports";
+import { WebGPURenderContext, WebGPURendererFrameInfo, WebGPURendererInfo, WebGPURendererOptions } from "../../typings";
+import { Debug, Frustum } from "../../utilities/exports";
 import { WebGPURendererScene } from "../../others/exports";
 import { Camera } from "../../camera/exports";
 import { Renderable } from "./Renderable";
+import { RenderTarget } from "./RenderTarget";
+import { WebGPUPipelineCache } from "./WebGPUPipelineCache";
+import { CameraBindGroupIndex, LightBindGroupIndex } from "../functions/layouts";
+
+// Renderers with an injected GPU and canvas may run outside of a browser, where there is no window.
+function getWindowDevicePixelRatio(): number {
+    return (typeof window !== "undefined" && window.devicePixelRatio) || 1;
+}
 
 export class WebGPURenderer {
 
     private width: number = 0;
     private height: number = 0;
-    private devicePixelRatio: number = window.devicePixelRatio || 1;
+    private devicePixelRatio: number = getWindowDevicePixelRatio();
 
     declare private msaaTexture: GPUTexture;
     declare private depthTexture: GPUTexture;
     declare private msaaTextureView: GPUTextureView;
     declare private depthTextureView: GPUTextureView;
 
+    // Target format and sample count the current pipelines and render targets were created for.
+    private appliedFormat: GPUTextureFormat | null = null;
+    private appliedSampleCount: number = 0;
+
+    declare private renderContext: WebGPURenderContext;
+
+    // Frustum of the camera and the renderables inside it, reused every frame.
+    private frustum: Frustum = new Frustum();
+    private visibleRenderables: Renderable[] = [];
+
     public id: string = v4();
     public hasInitialized: boolean = false;
 
@@ -30,12 +49,19 @@ export class WebGPURenderer {
 
     declare public canvas: HTMLCanvasElement;
 
+    /** Shared cache of shader modules and render pipelines used by all renderables. */
+    declare public pipelineCache: WebGPUPipelineCache;
+
+    /** Statistics of the last rendered frame, for diagnostics. */
+    public readonly info: WebGPURendererInfo = { renderableCount: 0, drawnCount: 0, culledCount: 0 };
+
     constructor(public options: Partial<WebGPURendererOptions> = {}) {
 
-        this.canvas = document.createElement("canvas");
+        this.canvas = options.canvas ?? document.createElement("canvas");
 
-        this.canvas.width = options.canvasWidth ?? 800;
-        this.canvas.height = options.canvasHeight ?? 600;
+        // A given canvas keeps its size unless one is set.
+        this.canvas.width = options.canvasWidth ?? (options.canvas ? this.canvas.width : 800);
+        this.canvas.height = options.canvasHeight ?? (options.canvas ? this.canvas.height : 600);
 
         this.canvas.setAttribute("fluexgl-renderer-type", "WebGPURenderer");
         this.canvas.setAttribute("fluexgl-renderer-id", this.id);
@@ -86,7 +112,7 @@ export class WebGPURenderer {
                 "Provided value: " + ratio
             ], ErrorCodes.WGPUR_INVALID_DPR_VALUE);
 
-            this.devicePixelRatio = window.devicePixelRatio || 1;
+            this.devicePixelRatio = getWindowDevicePixelRatio();
 
             return null;
         }
@@ -112,7 +138,9 @@ export class WebGPURenderer {
 
     public async Initialize(): Promise<WebGPURenderer | null> {
 
-        if (!navigator.gpu) {
+        const gpu: GPU | undefined = this.options.gpu ?? (typeof navigator !== "undefined" ? navigator.gpu : undefined);
+
+        if (!gpu) {
 
             Debug.Error("WebGPURenderer: WebGPU is not supported in this browser.", [
                 "Make sure that you are using a compatible browser.",
@@ -125,7 +153,7 @@ export class WebGPURenderer {
             "Options: " + JSON.stringify(this.options)
         ]);
 
-        const gpuAdapter: GPUAdapter | null = await navigator.gpu.requestAdapter({
+        const gpuAdapter: GPUAdapter | null = await gpu.requestAdapter({
             powerPreference: this.options.powerPreference ?? "high-performance"
         });
 
@@ -165,12 +193,16 @@ export class WebGPURenderer {
         });
 
         this.gpuDevice = device;
+        this.pipelineCache = new WebGPUPipelineCache(device);
 
         this.context = this.canvas.getContext("webgpu") as unknown as GPUCanvasContext;
-        this.format = this.options.format ?? navigator.gpu.getPreferredCanvasFormat();
+        this.format = this.options.format ?? gpu.getPreferredCanvasFormat();
 
         this.configureContext();
-        this.SetDevicePixelRatio(this.options.devicePixelRatio ?? (window.devicePixelRatio || 1));
+        this.appliedFormat = this.format;
+        this.appliedSampleCount = this.getMsaa();
+
+        this.SetDevicePixelRatio(this.options.devicePixelRatio ?? getWindowDevicePixelRatio());
         this.applySizeChanges();
 
         this.hasInitialized = true;
@@ -178,15 +210,36 @@ export class WebGPURenderer {
         return this;
     }
 
-    public BeginFrame(): WebGPURendererFrameInfo {
+    /**
+     * Begins a render pass drawing into the canvas, or into the render
+     * target if one is given.
+     */
+    public BeginFrame(target: RenderTarget | null = null): WebGPURendererFrameInfo {
+
+        // Must happen before acquiring the current texture, a format change reconfigures the context.
+        this.applyPipelineStateChanges();
 
         const clear = this.options.clearColor ?? { r: 0, g: 0, b: 0, a: 1 };
-        const currentTextureView = this.context.getCurrentTexture().createView();
         const encoder = this.gpuDevice.createCommandEncoder({
             label: "FluexGL-WebGPURenderer-CommandEncoder-" + this.id,
         });
 
-        const msaa = Math.max(1, this.options.msaaSampleCount ?? 1);
+        if (target) {
+
+            target.Initialize(this.gpuDevice);
+
+            const targetPass = encoder.beginRenderPass({
+                label: "FluexGL-WebGPURenderer-RenderTargetPass-" + target.id,
+                colorAttachments: [target.GetColorAttachment(this.gpuDevice, target.clearColor ?? clear)],
+                depthStencilAttachment: target.GetDepthStencilAttachment()
+            });
+
+            return { encoder, pass: targetPass, colorView: target.texture.GetView(this.gpuDevice) };
+        }
+
+        const currentTextureView = this.context.getCurrentTexture().createView();
+
+        const msaa = this.getMsaa();
 
         let colorAttachment: GPURenderPassColorAttachment;
 
@@ -235,32 +288,135 @@ export class WebGPURenderer {
         this.gpuDevice.queue.submit([frameInfo.encoder.finish()]);
     }
 
+    /**
+     * Changes the MSAA sample count. Render targets are recreated and the
+     * pipeline cache is invalidated, so every renderable picks up a
+     * pipeline matching the new sample count on the next frame.
+     */
+    public SetMsaaSampleCount(sampleCount: number): WebGPURenderer {
+
+        this.options.msaaSampleCount = sampleCount;
+        this.applyPipelineStateChanges();
+
+        return this;
+    }
+
+    /**
+     * Changes the canvas texture format. The canvas context is reconfigured
+     * and the pipeline cache is invalidated.
+     */
+    public SetFormat(format: GPUTextureFormat): WebGPURenderer {
+
+        this.options.format = format;
+        this.format = format;
+        this.applyPipelineStateChanges();
+
+        return this;
+    }
+
+    /**
+     * Returns the context handed to renderables when they are initialized
+     * and drawn. The same object is reused and updated every frame.
+     *
+     * @param target The render target drawn into, whose formats and sample
+     * count replace those of the canvas.
+     */
+    public GetRenderContext(target: RenderTarget | null = null): WebGPURenderContext {
+
+        if (!this.renderContext) this.renderContext = {
+            device: this.gpuDevice,
+            queue: this.gpuDevice.queue,
+            format: this.format,
+            sampleCount: this.getMsaa(),
+            depthFormat: this.getDepthFormat(),
+            colorSpace: this.options.colorSpace ?? "srgb",
+            pipelineCache: this.pipelineCache,
+            viewProjectionMatrix: mat4.create(),
+            frontFace: "ccw"
+        };
+
+        const context: WebGPURenderContext = this.renderContext;
+
+        context.format = target ? target.format : this.format;
+        context.sampleCount = target ? target.sampleCount : this.getMsaa();
+        context.depthFormat = target ? target.depthFormat : this.getDepthFormat();
+        context.colorSpace = this.options.colorSpace ?? "srgb";
+
+        return context;
+    }
+
     public Dispose(): void {
         this.depthTexture && this.depthTexture.destroy();
         this.msaaTexture && this.msaaTexture.destroy();
     }
 
-    public Render(scene: WebGPURendererScene, camera: Camera) {
+    /**
+     * Draws the scene as seen by the camera into the canvas, or into the
+     * render target if one is given. The aspect ratio of the camera should
+     * match the size of what is drawn into.
+     */
+    public Render(scene: WebGPURendererScene, camera: Camera, target: RenderTarget | null = null) {
 
         if (!scene.hasPrepared) return Debug.Error("Could not render because the renderable objects in the scene has not been prepared.", [
             "Make sure to call 'await <WebGPURendererScene>.Prepare()' before calling this method."
         ], ErrorCodes.WGPUR_SCENE_NOT_PREPARED);
 
-        if (!this.gpuDevice.queue) return;
+        const queue: GPUQueue = this.gpuDevice.queue;
+
+        if (!queue) return;
 
-        camera.WriteUniformsToQueue(this.gpuDevice.queue);
+        camera.WriteUniformsToQueue(queue);
 
-        const frame: WebGPURendererFrameInfo = this.BeginFrame();
+        // Propagate world matrices through the hierarchy and collect the renderables to draw,
+        // opaque ones front to back followed by transparent ones back to front.
+        scene.Update();
+        scene.Sort(camera);
+        scene.lighting.Update(this.gpuDevice, scene.lights, camera);
 
-        frame.pass.setBindGroup(0, camera.bindGroup);
+        const rendererables: Renderable[] = scene.rendererables,
+            visibleRenderables: Renderable[] = this.visibleRenderables;
 
-        for (let i = 0; i < scene.rendererables.length; i++) {
+        this.frustum.SetFromMatrix(camera.viewProjection);
 
-            const renderable: Renderable = scene.rendererables[i];
+        visibleRenderables.length = 0;
 
-            const cameraViewProjectionCast = camera.viewProjection as unknown as Float32Array;
+        // Model and model-view-projection matrices are uploaded per renderable
+        // before the pass is recorded; each renderable owns its own uniform buffer.
+        // Shadow casters are uploaded even when culled, a light may still see them.
+        for (const renderables of [scene.opaqueRenderables, scene.transparentRenderables]) {
+            for (let i = 0; i < renderables.length; i++) {
 
-            renderable.Render(frame.pass, cameraViewProjectionCast);
+                const renderable: Renderable = renderables[i],
+                    isVisible: boolean = renderable.IsInFrustum(this.frustum);
+
+                isVisible && visibleRenderables.push(renderable);
+
+                (isVisible || renderable.castShadow) && renderable.WriteUniformsToQueue(queue, camera.viewProjection);
+            }
+        }
+
+        this.info.renderableCount = rendererables.length;
+        this.info.drawnCount = visibleRenderables.length;
+        this.info.culledCount = rendererables.length - visibleRenderables.length;
+
+        // Shadow maps are rendered in their own submission, ahead of the main pass which samples them.
+        scene.lighting.RenderShadows(this.GetRenderContext(), rendererables);
+
+        const frame: WebGPURendererFrameInfo = this.BeginFrame(target);
+
+        frame.pass.setBindGroup(CameraBindGroupIndex, camera.bindGroup);
+        frame.pass.setBindGroup(LightBindGroupIndex, scene.lighting.bindGroup);
+
+        const context: WebGPURenderContext = this.GetRenderContext(target);
+
+        context.viewProjectionMatrix = camera.viewProjection;
+        context.frontFace = camera.mirrored ? "cw" : "ccw";
+
+        for (let i = 0; i < visibleRenderables.length; i++) {
+
+            const renderable: Renderable = visibleRenderables[i];
+
+            renderable.Render(frame.pass, context);
         }
 
         this.EndFrame(frame);
@@ -287,7 +443,7 @@ export class WebGPURenderer {
 
         this.depthTexture = this.gpuDevice.createTexture({
             size: { width, height },
-            format: "depth24plus",
+            format: this.getDepthFormat(),
             sampleCount: msaa,
             usage: GPUTextureUsage.RENDER_ATTACHMENT,
             label: `FluexGL-WebGPURenderer-DepthTexture-${this.id}`,
@@ -334,6 +490,41 @@ export class WebGPURenderer {
         ]);
     }
 
+    /**
+     * Recreates the render targets, reconfigures the canvas context and
+     * invalidates the pipeline cache if the format or MSAA sample count
+     * has changed since they were last applied.
+     */
+    private applyPipelineStateChanges(): void {
+
+        if (!this.gpuDevice) return;
+
+        const format: GPUTextureFormat = this.options.format ?? this.format,
+            sampleCount: number = this.getMsaa();
+
+        if (format === this.appliedFormat && sampleCount === this.appliedSampleCount) return;
+
+        const hasFormatChanged: boolean = format !== this.appliedFormat;
+
+        this.format = format;
+        this.appliedFormat = format;
+        this.appliedSampleCount = sampleCount;
+
+        hasFormatChanged && this.configureContext();
+
+        this.createOrResizeTargets();
+        this.pipelineCache.Invalidate();
+
+        Debug.Log("WebGPURenderer: Render pipeline state changed, pipeline cache has been invalidated.", [
+            "Format: " + format,
+            "MSAA sample count: " + sampleCount
+        ]);
+    }
+
+    private getDepthFormat(): GPUTextureFormat {
+        return this.options.depthFormat ?? "depth24plus";
+    }
+
     private getMsaa(): number {
         const n = this.options.msaaSampleCount ?? 1;
 
@@ -1,2 +1,26 @@
 export { WebGPURenderer } from "./classes/WebGPURenderer";
-export { Renderable } from "./classes/Renderable";
\ No newline at end of file
+export { Renderable } from "./classes/Renderable";
+export { Mesh } from "./classes/Mesh";
+export { InstancedMesh } from "./classes/InstancedMesh";
+export { RenderTarget } from "./classes/RenderTarget";
+export { GPUPicker } from "./classes/GPUPicker";
+export { Canvas2DRenderer } from "./classes/Canvas2DRenderer";
+export { WebGPUPipelineCache } from "./classes/WebGPUPipelineCache";
+export {
+    CameraBindGroupIndex,
+    ObjectBindGroupIndex,
+    MaterialBindGroupIndex,
+    LightBindGroupIndex,
+    VertexAttributeLocations,
+    CreateUniformBindGroupLayoutDescriptor,
+    CreateMaterialBindGroupLayoutDescriptor,
+    CreateCameraBindGroupLayoutDescriptor,
+    CreateObjectBindGroupLayoutDescriptor,
+    CreateInstancedObjectBindGroupLayoutDescriptor,
+    CreateLightBindGroupLayoutDescriptor,
+    CreateEffectBindGroupLayoutDescriptor,
+    CreateUniformBindGroupLayout,
+    CreateCameraBindGroupLayout,
+    CreateObjectBindGroupLayout
+} from "./functions/layouts";
+export { GetSceneBindingsSource, GetOutputColorConstants } from "./functions/shaders";
\ No newline at end of file
@@ -0,0 +1,209 @@
+import { VertexAttributeName } from "../../typings";
+
+/**
+ * Bind group slots shared by every pipeline created through the
+ * material system. The camera and lights are bound once per pass by the
+ * renderer, the object and material groups are bound per draw. Only lit
+ * materials include the light group in their pipeline layout.
+ */
+export const CameraBindGroupIndex: number = 0;
+export const ObjectBindGroupIndex: number = 1;
+export const MaterialBindGroupIndex: number = 2;
+export const LightBindGroupIndex: number = 3;
+
+/**
+ * Fixed shader locations of the named vertex attributes. Shaders declare
+ * their vertex inputs using these locations.
+ */
+export const VertexAttributeLocations: Record<VertexAttributeName, number> = {
+    position: 0,
+    normal: 1,
+    uv: 2,
+    color: 3,
+    tangent: 4,
+};
+
+/**
+ * Returns the descriptor of a bind group layout with a single uniform
+ * buffer at binding 0, visible to both the vertex and fragment stage.
+ *
+ * Bind group layouts created from the same descriptor are compatible with
+ * each other, so bind groups created with one layout can be used with
+ * pipelines created with another.
+ */
+export function CreateUniformBindGroupLayoutDescriptor(label: string): GPUBindGroupLayoutDescriptor {
+
+    return {
+        label,
+        entries: [
+            {
+                binding: 0,
+                visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+                buffer: {
+                    type: "uniform"
+                }
+            }
+        ]
+    };
+}
+
+/**
+ * Returns the descriptor of a material bind group layout: the material
+ * uniform buffer at binding 0, followed by a texture and sampler pair per
+ * texture at bindings 1 and 2, 3 and 4, and so on.
+ */
+export function CreateMaterialBindGroupLayoutDescriptor(textureCount: number = 0): GPUBindGroupLayoutDescriptor {
+
+    const descriptor: GPUBindGroupLayoutDescriptor = CreateUniformBindGroupLayoutDescriptor("MaterialBindGroupLayout");
+    const entries: GPUBindGroupLayoutEntry[] = Array.from(descriptor.entries);
+
+    for (let i = 0; i < textureCount; i++) {
+
+        entries.push({
+            binding: 1 + i * 2,
+            visibility: GPUShaderStage.FRAGMENT,
+            texture: {
+                sampleType: "float",
+                viewDimension: "2d"
+            }
+        }, {
+            binding: 2 + i * 2,
+            visibility: GPUShaderStage.FRAGMENT,
+            sampler: {
+                type: "filtering"
+            }
+        });
+    }
+
+    return { label: descriptor.label, entries };
+}
+
+/**
+ * Returns the descriptor of the bind group layout of full-screen effect
+ * passes: the input texture and its sampler at bindings 0 and 1, the pass
+ * uniform buffer at binding 2, followed by a texture and sampler pair per
+ * additional texture at bindings 3 and 4, 5 and 6, and so on.
+ */
+export function CreateEffectBindGroupLayoutDescriptor(textureCount: number = 0): GPUBindGroupLayoutDescriptor {
+
+    const entries: GPUBindGroupLayoutEntry[] = [];
+
+    for (let i = 0; i <= textureCount; i++) {
+
+        // The input texture takes the first pair; the uniform buffer sits between it and the others.
+        const binding: number = i === 0 ? 0 : 1 + i * 2;
+
+        entries.push({
+            binding,
+            visibility: GPUShaderStage.FRAGMENT,
+            texture: {
+                sampleType: "float",
+                viewDimension: "2d"
+            }
+        }, {
+            binding: binding + 1,
+            visibility: GPUShaderStage.FRAGMENT,
+            sampler: {
+                type: "filtering"
+            }
+        });
+    }
+
+    entries.push({
+        binding: 2,
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: {
+            type: "uniform"
+        }
+    });
+
+    return { label: "EffectBindGroupLayout", entries };
+}
+
+export function CreateCameraBindGroupLayoutDescriptor(): GPUBindGroupLayoutDescriptor {
+    return CreateUniformBindGroupLayoutDescriptor("CameraBindGroupLayout");
+}
+
+export function CreateObjectBindGroupLayoutDescriptor(): GPUBindGroupLayoutDescriptor {
+    return CreateUniformBindGroupLayoutDescriptor("ObjectBindGroupLayout");
+}
+
+/**
+ * Returns the descriptor of the object bind group layout of instanced
+ * meshes: the object uniform buffer at binding 0, followed by the
+ * read-only instance storage buffer at binding 1.
+ */
+export function CreateInstancedObjectBindGroupLayoutDescriptor(): GPUBindGroupLayoutDescriptor {
+
+    const descriptor: GPUBindGroupLayoutDescriptor = CreateUniformBindGroupLayoutDescriptor("InstancedObjectBindGroupLayout");
+
+    return {
+        label: descriptor.label,
+        entries: [
+            ...Array.from(descriptor.entries),
+            {
+                binding: 1,
+                visibility: GPUShaderStage.VERTEX,
+                buffer: {
+                    type: "read-only-storage"
+                }
+            }
+        ]
+    };
+}
+
+/**
+ * Returns the descriptor of the light bind group layout: the read-only
+ * light storage buffer of the scene at binding 0, the shadow map storage
+ * buffer at binding 1, and the shadow map depth texture array and its
+ * comparison sampler at bindings 2 and 3.
+ */
+export function CreateLightBindGroupLayoutDescriptor(): GPUBindGroupLayoutDescriptor {
+
+    return {
+        label: "LightBindGroupLayout",
+        entries: [
+            {
+                binding: 0,
+                visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+                buffer: {
+                    type: "read-only-storage"
+                }
+            },
+            {
+                binding: 1,
+                visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+                buffer: {
+                    type: "read-only-storage"
+                }
+            },
+            {
+                binding: 2,
+                visibility: GPUShaderStage.FRAGMENT,
+                texture: {
+                    sampleType: "depth",
+                    viewDimension: "2d-array"
+                }
+            },
+            {
+                binding: 3,
+                visibility: GPUShaderStage.FRAGMENT,
+                sampler: {
+                    type: "comparison"
+                }
+            }
+        ]
+    };
+}
+
+export function CreateUniformBindGroupLayout(device: GPUDevice, label: string): GPUBindGroupLayout {
+    return device.createBindGroupLayout(CreateUniformBindGroupLayoutDescriptor(label));
+}
+
+export function CreateCameraBindGroupLayout(device: GPUDevice): GPUBindGroupLayout {
+    return device.createBindGroupLayout(CreateCameraBindGroupLayoutDescriptor());
+}
+
+export function CreateObjectBindGroupLayout(device: GPUDevice): GPUBindGroupLayout {
+    return device.createBindGroupLayout(CreateObjectBindGroupLayoutDescriptor());
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { WebGPURenderContext } from "../../typings";
+
+import sceneBindings from "../../shaders/common/SceneBindings.wgsl";
+import objectTransforms from "../../shaders/common/ObjectTransforms.wgsl";
+import instanceTransforms from "../../shaders/common/InstanceTransforms.wgsl";
+
+/**
+ * Returns the WGSL declarations shared by every material and depth shader:
+ * the camera and object bindings, followed by the transform functions of
+ * a single object or, for instanced meshes, of its instances.
+ */
+export function GetSceneBindingsSource(instanced: boolean = false): string {
+
+    return sceneBindings + "\n\n" + (instanced ? instanceTransforms : objectTransforms);
+}
+
+/**
+ * Returns the values of the output overrides declared in ColorSpace.wgsl
+ * for the render target described by the context: the color space of the
+ * canvas, and whether the shader or the target applies the transfer
+ * function.
+ *
+ * @param keepsLinearColors Whether float targets receive linear colors
+ * beyond white, as the scene images of the effect composer do until they
+ * are tone mapped. When false, float targets receive encoded colors.
+ */
+export function GetOutputColorConstants(context: WebGPURenderContext, keepsLinearColors: boolean = true): Record<string, number> {
+
+    let outputEncoding: number = 1;
+
+    if (keepsLinearColors && context.format.includes("float")) outputEncoding = 2;
+    // Targets with an sRGB format apply the transfer function on write.
+    else if (context.format.endsWith("-srgb")) outputEncoding = 0;
+
+    return {
+        outputColorSpace: context.colorSpace === "display-p3" ? 1 : 0,
+        outputEncoding
+    };
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+// Conversions between linear and sRGB encoded colors, and the encoding of
+// linear colors for the render target.
+
+// Color space of the canvas: 0 for sRGB, 1 for Display P3.
+override outputColorSpace: u32 = 0u;
+
+// Whether the shader applies the transfer function: 1 for render targets
+// without an sRGB format, 0 when the target encodes the color itself, and
+// 2 for float targets, which keep linear colors beyond white until they
+// are tone mapped.
+override outputEncoding: u32 = 1u;
+
+fn LinearToSRGB(color: vec3<f32>) -> vec3<f32> {
+
+    let low: vec3<f32> = color * 12.92;
+    let high: vec3<f32> = 1.055 * pow(max(color, vec3<f32>(0.0)), vec3<f32>(1.0 / 2.4)) - 0.055;
+
+    return select(high, low, color <= vec3<f32>(0.0031308));
+}
+
+fn SRGBToLinear(color: vec3<f32>) -> vec3<f32> {
+
+    let low: vec3<f32> = color / 12.92;
+    let high: vec3<f32> = pow((max(color, vec3<f32>(0.0)) + 0.055) / 1.055, vec3<f32>(2.4));
+
+    return select(high, low, color <= vec3<f32>(0.04045));
+}
+
+// Converts linear sRGB to linear Display P3; the gamut of Display P3 is
+// wider, so the same values would otherwise appear more saturated.
+fn LinearSRGBToLinearDisplayP3(color: vec3<f32>) -> vec3<f32> {
+
+    let conversion: mat3x3<f32> = mat3x3<f32>(
+        vec3<f32>(0.8224621, 0.0331941, 0.0170827),
+        vec3<f32>(0.1775380, 0.9668058, 0.0723974),
+        vec3<f32>(0.0, 0.0, 0.9105199)
+    );
+
+    return conversion * color;
+}
+
+// Encodes a linear sRGB color for the render target, following the
+// output overrides.
+fn EncodeOutputColor(color: vec3<f32>) -> vec3<f32> {
+
+    if (outputEncoding == 2u) {
+        return color;
+    }
+
+    var output: vec3<f32> = clamp(color, vec3<f32>(0.0), vec3<f32>(1.0));
+
+    if (outputColorSpace == 1u) {
+        output = LinearSRGBToLinearDisplayP3(output);
+    }
+
+    if (outputEncoding == 1u) {
+        output = LinearToSRGB(output);
+    }
+
+    return output;
+}
+
+// Encodes a color computed from sRGB encoded values, as the unlit, Lambert
+// and Phong materials do, for the render target. Canvases without an sRGB
+// format show the color as is, and float targets receive it linear.
+fn EncodeDisplayColor(color: vec3<f32>) -> vec3<f32> {
+
+    return EncodeOutputColor(SRGBToLinear(color));
+}
\ No newline at end of file
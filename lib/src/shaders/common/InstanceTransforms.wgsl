@@ -0,0 +1,39 @@
+// Transforms of the instances of an instanced mesh. Each instance is
+// placed relative to the mesh, so the object uniforms are applied on top.
+
+struct InstanceData {
+    modelMatrix: mat4x4<f32>,
+    // Inverse transpose of the model matrix.
+    normalMatrix: mat3x3<f32>,
+    color: vec4<f32>
+}
+
+@group(1) @binding(1)
+var<storage, read> instances: array<InstanceData>;
+
+fn GetModelMatrix(instanceIndex: u32) -> mat4x4<f32> {
+
+    return objectUniforms.modelMatrix * instances[instanceIndex].modelMatrix;
+}
+
+fn GetModelViewProjectionMatrix(instanceIndex: u32) -> mat4x4<f32> {
+
+    return objectUniforms.modelViewProjectionMatrix * instances[instanceIndex].modelMatrix;
+}
+
+fn GetNormalMatrix(instanceIndex: u32) -> mat4x4<f32> {
+
+    let normalMatrix: mat3x3<f32> = instances[instanceIndex].normalMatrix;
+
+    return objectUniforms.normalMatrix * mat4x4<f32>(
+        vec4<f32>(normalMatrix[0], 0.0),
+        vec4<f32>(normalMatrix[1], 0.0),
+        vec4<f32>(normalMatrix[2], 0.0),
+        vec4<f32>(0.0, 0.0, 0.0, 1.0)
+    );
+}
+
+fn GetInstanceColor(instanceIndex: u32) -> vec4<f32> {
+
+    return instances[instanceIndex].color;
+}
\ No newline at end of file
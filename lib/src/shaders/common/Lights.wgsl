@@ -0,0 +1,154 @@
+// Light storage buffer and shadow maps of the scene, prepended to the
+// source of lit materials by the material system.
+
+struct Light {
+    // xyz: world position, w: type.
+    position: vec4<f32>,
+    // xyz: world direction the light travels in, w: range.
+    direction: vec4<f32>,
+    // rgb: color multiplied by intensity, w: decay exponent.
+    color: vec4<f32>,
+    // x: cosine of the inner cone angle, y: cosine of the outer cone angle,
+    // z: index of the first shadow map or -1, w: amount of shadow maps.
+    cone: vec4<f32>
+}
+
+struct LightData {
+    // rgb: summed ambient light, w: amount of lights.
+    ambient: vec4<f32>,
+    lights: array<Light>
+}
+
+struct ShadowMap {
+    viewProjectionMatrix: mat4x4<f32>,
+    // x: depth bias, y: normal bias, z: filter radius in texels, w: size of the map relative to its layer.
+    parameters: vec4<f32>
+}
+
+@group(3) @binding(0)
+var<storage, read> lightData: LightData;
+
+@group(3) @binding(1)
+var<storage, read> shadowMaps: array<ShadowMap>;
+
+@group(3) @binding(2)
+var shadowTexture: texture_depth_2d_array;
+
+@group(3) @binding(3)
+var shadowSampler: sampler_comparison;
+
+const LightTypeDirectional: u32 = 0u;
+const LightTypePoint: u32 = 1u;
+const LightTypeSpot: u32 = 2u;
+
+struct LightSample {
+    // Normalized direction from the surface towards the light.
+    direction: vec3<f32>,
+    // Incoming light after attenuation.
+    radiance: vec3<f32>
+}
+
+fn GetLightCount() -> u32 {
+
+    return u32(lightData.ambient.w);
+}
+
+fn GetAmbientLight() -> vec3<f32> {
+
+    return lightData.ambient.rgb;
+}
+
+fn SampleLight(index: u32, worldPosition: vec3<f32>) -> LightSample {
+
+    let light: Light = lightData.lights[index];
+    let lightType: u32 = u32(light.position.w + 0.5);
+
+    var lightSample: LightSample;
+
+    if (lightType == LightTypeDirectional) {
+
+        lightSample.direction = normalize(-light.direction.xyz);
+        lightSample.radiance = light.color.rgb;
+
+        return lightSample;
+    }
+
+    let toLight: vec3<f32> = light.position.xyz - worldPosition;
+    let lightDistance: f32 = length(toLight);
+
+    lightSample.direction = toLight / max(lightDistance, 0.0001);
+
+    var attenuation: f32 = 1.0 / max(pow(lightDistance, light.color.w), 0.0001);
+
+    // Smoothly fade out towards the range of the light.
+    let range: f32 = light.direction.w;
+
+    if (range > 0.0) {
+
+        let ratio: f32 = lightDistance / range;
+        let falloff: f32 = clamp(1.0 - ratio * ratio * ratio * ratio, 0.0, 1.0);
+
+        attenuation *= falloff * falloff;
+    }
+
+    if (lightType == LightTypeSpot) {
+
+        let cosAngle: f32 = dot(-lightSample.direction, normalize(light.direction.xyz));
+
+        attenuation *= smoothstep(light.cone.y, light.cone.x, cosAngle);
+    }
+
+    lightSample.radiance = light.color.rgb * attenuation;
+
+    return lightSample;
+}
+
+// Returns the fraction of the light of the given light that reaches the
+// surface, between 0 (fully shadowed) and 1 (fully lit).
+fn GetShadowFactor(index: u32, worldPosition: vec3<f32>, normal: vec3<f32>) -> f32 {
+
+    let light: Light = lightData.lights[index];
+
+    if (light.cone.z < 0.0) {
+        return 1.0;
+    }
+
+    let firstShadowMap: u32 = u32(light.cone.z + 0.5);
+    let shadowMapCount: u32 = u32(light.cone.w + 0.5);
+
+    // Use the first shadow map, or cascade, which contains the surface.
+    for (var i: u32 = 0u; i < shadowMapCount; i++) {
+
+        let shadowMap: ShadowMap = shadowMaps[firstShadowMap + i];
+        let offsetPosition: vec3<f32> = worldPosition + normal * shadowMap.parameters.y;
+        let clipPosition: vec4<f32> = shadowMap.viewProjectionMatrix * vec4<f32>(offsetPosition, 1.0);
+        let position: vec3<f32> = clipPosition.xyz / clipPosition.w;
+
+        if (any(abs(position.xy) > vec2<f32>(1.0)) || position.z < 0.0 || position.z > 1.0) {
+            continue;
+        }
+
+        let uv: vec2<f32> = vec2<f32>(position.x * 0.5 + 0.5, -position.y * 0.5 + 0.5) * shadowMap.parameters.w;
+        let depth: f32 = position.z - shadowMap.parameters.x;
+        let texelSize: vec2<f32> = 1.0 / vec2<f32>(textureDimensions(shadowTexture));
+        let radius: i32 = i32(shadowMap.parameters.z);
+
+        // Percentage-closer filtering over a square kernel of texels.
+        var visibility: f32 = 0.0;
+
+        for (var y: i32 = -radius; y <= radius; y++) {
+            for (var x: i32 = -radius; x <= radius; x++) {
+
+                let offset: vec2<f32> = vec2<f32>(f32(x), f32(y)) * texelSize;
+
+                visibility += textureSampleCompareLevel(shadowTexture, shadowSampler, uv + offset, firstShadowMap + i, depth);
+            }
+        }
+
+        let sampleCount: f32 = f32((2 * radius + 1) * (2 * radius + 1));
+
+        return visibility / sampleCount;
+    }
+
+    return 1.0;
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+// Normal mapping without vertex tangents. Texture coordinates are
+// expected with the origin at the top left, and normal textures in the
+// glTF (OpenGL) convention, with green pointing up in the image.
+
+// Builds a tangent frame from screen-space derivatives, so normal textures
+// work on geometries without tangents.
+fn PerturbNormal(normal: vec3<f32>, worldPosition: vec3<f32>, uv: vec2<f32>, tangentNormal: vec3<f32>) -> vec3<f32> {
+
+    let positionDx: vec3<f32> = dpdx(worldPosition);
+    let positionDy: vec3<f32> = dpdy(worldPosition);
+    let uvDx: vec2<f32> = dpdx(uv);
+    let uvDy: vec2<f32> = dpdy(uv);
+
+    let perpendicularDy: vec3<f32> = cross(positionDy, normal);
+    let perpendicularDx: vec3<f32> = cross(normal, positionDx);
+
+    // The bitangent points up in the image, which is towards decreasing v.
+    let tangent: vec3<f32> = perpendicularDy * uvDx.x + perpendicularDx * uvDy.x;
+    let bitangent: vec3<f32> = -(perpendicularDy * uvDx.y + perpendicularDx * uvDy.y);
+
+    let scale: f32 = inverseSqrt(max(max(dot(tangent, tangent), dot(bitangent, bitangent)), 0.0000001));
+
+    return normalize(mat3x3<f32>(tangent * scale, bitangent * scale, normal) * tangentNormal);
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+// Transforms of a single object, read from the object uniforms. Material
+// shaders access transforms through these functions, so the same shader
+// also serves instanced meshes, which replace them with InstanceTransforms.
+
+fn GetModelMatrix(instanceIndex: u32) -> mat4x4<f32> {
+
+    return objectUniforms.modelMatrix;
+}
+
+fn GetModelViewProjectionMatrix(instanceIndex: u32) -> mat4x4<f32> {
+
+    return objectUniforms.modelViewProjectionMatrix;
+}
+
+fn GetNormalMatrix(instanceIndex: u32) -> mat4x4<f32> {
+
+    return objectUniforms.normalMatrix;
+}
+
+fn GetInstanceColor(instanceIndex: u32) -> vec4<f32> {
+
+    return vec4<f32>(1.0);
+}
\ No newline at end of file
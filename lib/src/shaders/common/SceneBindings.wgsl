@@ -0,0 +1,21 @@
+// Bindings shared by every material shader. Prepended to the
+// material source by the material system.
+
+struct CameraUniforms {
+    viewProjectionMatrix: mat4x4<f32>,
+    position: vec3<f32>
+}
+
+@group(0) @binding(0)
+var<uniform> cameraUniforms: CameraUniforms;
+
+struct ObjectUniforms {
+    modelMatrix: mat4x4<f32>,
+    modelViewProjectionMatrix: mat4x4<f32>,
+    normalMatrix: mat4x4<f32>,
+    // x: 1 when the object receives shadows, y: the picking ID of the object.
+    parameters: vec4<f32>
+}
+
+@group(1) @binding(0)
+var<uniform> objectUniforms: ObjectUniforms;
\ No newline at end of file
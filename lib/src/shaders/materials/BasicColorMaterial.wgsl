@@ -0,0 +1,35 @@
+struct MaterialUniforms {
+    color: vec4<f32>
+}
+
+@group(2) @binding(0)
+var<uniform> materialUniforms: MaterialUniforms;
+
+struct VertexShaderInputData {
+    @location(0) position: vec3<f32>,
+    @builtin(instance_index) instanceIndex: u32
+}
+
+struct VertexShaderOutputData {
+    @builtin(position) position: vec4<f32>,
+    @location(0) @interpolate(flat) instanceColor: vec4<f32>
+}
+
+@vertex
+fn vertexShaderMain(inputData: VertexShaderInputData) -> VertexShaderOutputData {
+
+    var outputData: VertexShaderOutputData;
+
+    outputData.position = GetModelViewProjectionMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0);
+    outputData.instanceColor = GetInstanceColor(inputData.instanceIndex);
+
+    return outputData;
+}
+
+@fragment
+fn fragmentShaderMain(inputData: VertexShaderOutputData) -> @location(0) vec4<f32> {
+
+    let color: vec4<f32> = materialUniforms.color * inputData.instanceColor;
+
+    return vec4<f32>(EncodeDisplayColor(color.rgb), color.a);
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+struct MaterialUniforms {
+    color: vec4<f32>,
+    uvOffset: vec2<f32>,
+    uvRepeat: vec2<f32>
+}
+
+@group(2) @binding(0)
+var<uniform> materialUniforms: MaterialUniforms;
+
+@group(2) @binding(1)
+var colorTexture: texture_2d<f32>;
+
+@group(2) @binding(2)
+var colorSampler: sampler;
+
+struct VertexShaderInputData {
+    @location(0) position: vec3<f32>,
+    @location(2) uv: vec2<f32>,
+    @builtin(instance_index) instanceIndex: u32
+}
+
+struct VertexShaderOutputData {
+    @builtin(position) position: vec4<f32>,
+    @location(0) uv: vec2<f32>,
+    @location(1) @interpolate(flat) instanceColor: vec4<f32>
+}
+
+@vertex
+fn vertexShaderMain(inputData: VertexShaderInputData) -> VertexShaderOutputData {
+
+    var outputData: VertexShaderOutputData;
+
+    outputData.position = GetModelViewProjectionMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0);
+    outputData.uv = inputData.uv * materialUniforms.uvRepeat + materialUniforms.uvOffset;
+    outputData.instanceColor = GetInstanceColor(inputData.instanceIndex);
+
+    return outputData;
+}
+
+@fragment
+fn fragmentShaderMain(inputData: VertexShaderOutputData) -> @location(0) vec4<f32> {
+
+    let texel: vec4<f32> = textureSample(colorTexture, colorSampler, inputData.uv);
+
+    // Texels are sampled as linear values; the color is tinted in sRGB encoded values.
+    let color: vec4<f32> = vec4<f32>(LinearToSRGB(texel.rgb), texel.a) * materialUniforms.color * inputData.instanceColor;
+
+    return vec4<f32>(EncodeDisplayColor(color.rgb), color.a);
+}
\ No newline at end of file
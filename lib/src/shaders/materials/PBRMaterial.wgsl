@@ -0,0 +1,185 @@
+struct MaterialUniforms {
+    baseColor: vec4<f32>,
+    // rgb: emissive color, w: emissive strength.
+    emissive: vec4<f32>,
+    // x: metallic, y: roughness, z: normal scale, w: occlusion strength.
+    parameters: vec4<f32>,
+    // x: 1 when a normal texture is bound, y: alpha cutoff.
+    flags: vec4<f32>
+}
+
+@group(2) @binding(0)
+var<uniform> materialUniforms: MaterialUniforms;
+
+@group(2) @binding(1)
+var baseColorTexture: texture_2d<f32>;
+
+@group(2) @binding(2)
+var baseColorSampler: sampler;
+
+@group(2) @binding(3)
+var metallicRoughnessTexture: texture_2d<f32>;
+
+@group(2) @binding(4)
+var metallicRoughnessSampler: sampler;
+
+@group(2) @binding(5)
+var normalTexture: texture_2d<f32>;
+
+@group(2) @binding(6)
+var normalSampler: sampler;
+
+@group(2) @binding(7)
+var occlusionTexture: texture_2d<f32>;
+
+@group(2) @binding(8)
+var occlusionSampler: sampler;
+
+@group(2) @binding(9)
+var emissiveTexture: texture_2d<f32>;
+
+@group(2) @binding(10)
+var emissiveSampler: sampler;
+
+const PI: f32 = 3.14159265359;
+
+struct VertexShaderInputData {
+    @location(0) position: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) uv: vec2<f32>,
+    @builtin(instance_index) instanceIndex: u32
+}
+
+struct VertexShaderOutputData {
+    @builtin(position) position: vec4<f32>,
+    @location(0) worldPosition: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) uv: vec2<f32>,
+    @location(3) @interpolate(flat) instanceColor: vec4<f32>
+}
+
+@vertex
+fn vertexShaderMain(inputData: VertexShaderInputData) -> VertexShaderOutputData {
+
+    var outputData: VertexShaderOutputData;
+
+    outputData.position = GetModelViewProjectionMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0);
+    outputData.worldPosition = (GetModelMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0)).xyz;
+    outputData.normal = (GetNormalMatrix(inputData.instanceIndex) * vec4<f32>(inputData.normal, 0.0)).xyz;
+    outputData.uv = inputData.uv;
+    outputData.instanceColor = GetInstanceColor(inputData.instanceIndex);
+
+    return outputData;
+}
+
+// Trowbridge-Reitz (GGX) normal distribution.
+fn DistributionGGX(normalDotHalfway: f32, alpha: f32) -> f32 {
+
+    let alphaSquared: f32 = alpha * alpha;
+    let denominator: f32 = normalDotHalfway * normalDotHalfway * (alphaSquared - 1.0) + 1.0;
+
+    return alphaSquared / max(PI * denominator * denominator, 0.000001);
+}
+
+// Height-correlated Smith visibility term, including the 1 / (4 * NdotL * NdotV) factor.
+fn VisibilitySmithGGX(normalDotLight: f32, normalDotView: f32, alpha: f32) -> f32 {
+
+    let alphaSquared: f32 = alpha * alpha;
+    let lightTerm: f32 = normalDotView * sqrt(normalDotLight * normalDotLight * (1.0 - alphaSquared) + alphaSquared);
+    let viewTerm: f32 = normalDotLight * sqrt(normalDotView * normalDotView * (1.0 - alphaSquared) + alphaSquared);
+
+    return 0.5 / max(lightTerm + viewTerm, 0.000001);
+}
+
+fn FresnelSchlick(f0: vec3<f32>, viewDotHalfway: f32) -> vec3<f32> {
+
+    return f0 + (vec3<f32>(1.0) - f0) * pow(1.0 - viewDotHalfway, 5.0);
+}
+
+// Analytical approximation of the pre-integrated specular reflectance under
+// uniform lighting, used for the ambient light.
+fn EnvironmentBRDFApproximation(f0: vec3<f32>, roughness: f32, normalDotView: f32) -> vec3<f32> {
+
+    let c0: vec4<f32> = vec4<f32>(-1.0, -0.0275, -0.572, 0.022);
+    let c1: vec4<f32> = vec4<f32>(1.0, 0.0425, 1.04, -0.04);
+    let r: vec4<f32> = roughness * c0 + c1;
+    let a004: f32 = min(r.x * r.x, exp2(-9.28 * normalDotView)) * r.x + r.y;
+    let scaleBias: vec2<f32> = vec2<f32>(-1.04, 1.04) * a004 + r.zw;
+
+    return f0 * scaleBias.x + scaleBias.y;
+}
+
+@fragment
+fn fragmentShaderMain(inputData: VertexShaderOutputData, @builtin(front_facing) isFrontFacing: bool) -> @location(0) vec4<f32> {
+
+    // Sampled up front, texture sampling requires uniform control flow.
+    let baseColorTexel: vec4<f32> = textureSample(baseColorTexture, baseColorSampler, inputData.uv);
+    let metallicRoughnessTexel: vec4<f32> = textureSample(metallicRoughnessTexture, metallicRoughnessSampler, inputData.uv);
+    let normalTexel: vec4<f32> = textureSample(normalTexture, normalSampler, inputData.uv);
+    let occlusionTexel: vec4<f32> = textureSample(occlusionTexture, occlusionSampler, inputData.uv);
+    let emissiveTexel: vec4<f32> = textureSample(emissiveTexture, emissiveSampler, inputData.uv);
+
+    let baseColor: vec4<f32> = materialUniforms.baseColor * baseColorTexel * inputData.instanceColor;
+
+    // Metallic is stored in the blue channel, roughness in the green channel.
+    let metallic: f32 = clamp(materialUniforms.parameters.x * metallicRoughnessTexel.b, 0.0, 1.0);
+    let roughness: f32 = clamp(materialUniforms.parameters.y * metallicRoughnessTexel.g, 0.04, 1.0);
+    let alpha: f32 = roughness * roughness;
+
+    var normal: vec3<f32> = normalize(inputData.normal);
+
+    // Double sided surfaces are lit from the side they are viewed from.
+    if (!isFrontFacing) {
+        normal = -normal;
+    }
+
+    let tangentNormal: vec3<f32> = (normalTexel.xyz * 2.0 - 1.0) * vec3<f32>(materialUniforms.parameters.z, materialUniforms.parameters.z, 1.0);
+    let perturbedNormal: vec3<f32> = PerturbNormal(normal, inputData.worldPosition, inputData.uv, tangentNormal);
+
+    if (materialUniforms.flags.x > 0.5) {
+        normal = perturbedNormal;
+    }
+
+    if (baseColor.a < materialUniforms.flags.y) {
+        discard;
+    }
+
+    let viewDirection: vec3<f32> = normalize(cameraUniforms.position - inputData.worldPosition);
+    let normalDotView: f32 = clamp(abs(dot(normal, viewDirection)), 0.001, 1.0);
+
+    // Dielectrics reflect 4% at normal incidence, metals reflect their base color.
+    let f0: vec3<f32> = mix(vec3<f32>(0.04), baseColor.rgb, metallic);
+    let diffuseColor: vec3<f32> = baseColor.rgb * (1.0 - metallic);
+
+    var color: vec3<f32> = vec3<f32>(0.0);
+
+    for (var i: u32 = 0u; i < GetLightCount(); i++) {
+
+        let lightSample: LightSample = SampleLight(i, inputData.worldPosition);
+        let normalDotLight: f32 = clamp(dot(normal, lightSample.direction), 0.0, 1.0);
+
+        if (normalDotLight <= 0.0) {
+            continue;
+        }
+
+        let shadow: f32 = select(1.0, GetShadowFactor(i, inputData.worldPosition, normal), objectUniforms.parameters.x > 0.5);
+
+        let halfway: vec3<f32> = normalize(lightSample.direction + viewDirection);
+        let normalDotHalfway: f32 = clamp(dot(normal, halfway), 0.0, 1.0);
+        let viewDotHalfway: f32 = clamp(dot(viewDirection, halfway), 0.0, 1.0);
+
+        let fresnel: vec3<f32> = FresnelSchlick(f0, viewDotHalfway);
+        let specular: vec3<f32> = fresnel * DistributionGGX(normalDotHalfway, alpha) * VisibilitySmithGGX(normalDotLight, normalDotView, alpha);
+        let diffuse: vec3<f32> = (vec3<f32>(1.0) - fresnel) * diffuseColor / PI;
+
+        color += (diffuse + specular) * lightSample.radiance * normalDotLight * shadow;
+    }
+
+    let occlusion: f32 = mix(1.0, occlusionTexel.r, materialUniforms.parameters.w);
+    let ambientSpecular: vec3<f32> = EnvironmentBRDFApproximation(f0, roughness, normalDotView);
+
+    color += GetAmbientLight() * (diffuseColor + ambientSpecular) * occlusion;
+    color += materialUniforms.emissive.rgb * materialUniforms.emissive.w * emissiveTexel.rgb;
+
+    return vec4<f32>(EncodeOutputColor(color), baseColor.a);
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+struct MaterialUniforms {
+    color: vec4<f32>,
+    // rgb: specular color, w: shininess.
+    specular: vec4<f32>,
+    emissive: vec4<f32>
+}
+
+@group(2) @binding(0)
+var<uniform> materialUniforms: MaterialUniforms;
+
+struct VertexShaderInputData {
+    @location(0) position: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @builtin(instance_index) instanceIndex: u32
+}
+
+struct VertexShaderOutputData {
+    @builtin(position) position: vec4<f32>,
+    @location(0) worldPosition: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) @interpolate(flat) instanceColor: vec4<f32>
+}
+
+@vertex
+fn vertexShaderMain(inputData: VertexShaderInputData) -> VertexShaderOutputData {
+
+    var outputData: VertexShaderOutputData;
+
+    outputData.position = GetModelViewProjectionMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0);
+    outputData.worldPosition = (GetModelMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0)).xyz;
+    outputData.normal = (GetNormalMatrix(inputData.instanceIndex) * vec4<f32>(inputData.normal, 0.0)).xyz;
+    outputData.instanceColor = GetInstanceColor(inputData.instanceIndex);
+
+    return outputData;
+}
+
+@fragment
+fn fragmentShaderMain(inputData: VertexShaderOutputData) -> @location(0) vec4<f32> {
+
+    let normal: vec3<f32> = normalize(inputData.normal);
+    let viewDirection: vec3<f32> = normalize(cameraUniforms.position - inputData.worldPosition);
+    let baseColor: vec3<f32> = materialUniforms.color.rgb * inputData.instanceColor.rgb;
+
+    var color: vec3<f32> = GetAmbientLight() * baseColor + materialUniforms.emissive.rgb;
+
+    for (var i: u32 = 0u; i < GetLightCount(); i++) {
+
+        let lightSample: LightSample = SampleLight(i, inputData.worldPosition);
+        let shadow: f32 = select(1.0, GetShadowFactor(i, inputData.worldPosition, normal), objectUniforms.parameters.x > 0.5);
+        let diffuse: f32 = max(dot(normal, lightSample.direction), 0.0);
+
+        // Blinn-Phong specular term, only on surfaces facing the light.
+        let halfway: vec3<f32> = normalize(lightSample.direction + viewDirection);
+        let specular: f32 = select(0.0, pow(max(dot(normal, halfway), 0.0), materialUniforms.specular.w), diffuse > 0.0);
+
+        color += (baseColor * diffuse + materialUniforms.specular.rgb * specular) * lightSample.radiance * shadow;
+    }
+
+    return vec4<f32>(EncodeDisplayColor(color), materialUniforms.color.a * inputData.instanceColor.a);
+}
\ No newline at end of file
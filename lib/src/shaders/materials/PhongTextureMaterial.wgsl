@@ -0,0 +1,106 @@
+struct MaterialUniforms {
+    color: vec4<f32>,
+    // rgb: specular color, w: shininess.
+    specular: vec4<f32>,
+    emissive: vec4<f32>,
+    uvOffset: vec2<f32>,
+    uvRepeat: vec2<f32>,
+    // x: 1 when a normal texture is bound, y: normal scale.
+    flags: vec4<f32>
+}
+
+@group(2) @binding(0)
+var<uniform> materialUniforms: MaterialUniforms;
+
+@group(2) @binding(1)
+var diffuseTexture: texture_2d<f32>;
+
+@group(2) @binding(2)
+var diffuseSampler: sampler;
+
+@group(2) @binding(3)
+var specularTexture: texture_2d<f32>;
+
+@group(2) @binding(4)
+var specularSampler: sampler;
+
+@group(2) @binding(5)
+var normalTexture: texture_2d<f32>;
+
+@group(2) @binding(6)
+var normalSampler: sampler;
+
+@group(2) @binding(7)
+var emissiveTexture: texture_2d<f32>;
+
+@group(2) @binding(8)
+var emissiveSampler: sampler;
+
+struct VertexShaderInputData {
+    @location(0) position: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) uv: vec2<f32>,
+    @builtin(instance_index) instanceIndex: u32
+}
+
+struct VertexShaderOutputData {
+    @builtin(position) position: vec4<f32>,
+    @location(0) worldPosition: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) uv: vec2<f32>,
+    @location(3) @interpolate(flat) instanceColor: vec4<f32>
+}
+
+@vertex
+fn vertexShaderMain(inputData: VertexShaderInputData) -> VertexShaderOutputData {
+
+    var outputData: VertexShaderOutputData;
+
+    outputData.position = GetModelViewProjectionMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0);
+    outputData.worldPosition = (GetModelMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0)).xyz;
+    outputData.normal = (GetNormalMatrix(inputData.instanceIndex) * vec4<f32>(inputData.normal, 0.0)).xyz;
+    outputData.uv = inputData.uv * materialUniforms.uvRepeat + materialUniforms.uvOffset;
+    outputData.instanceColor = GetInstanceColor(inputData.instanceIndex);
+
+    return outputData;
+}
+
+@fragment
+fn fragmentShaderMain(inputData: VertexShaderOutputData) -> @location(0) vec4<f32> {
+
+    let diffuseTexel: vec4<f32> = textureSample(diffuseTexture, diffuseSampler, inputData.uv);
+    let specularTexel: vec4<f32> = textureSample(specularTexture, specularSampler, inputData.uv);
+    let normalTexel: vec4<f32> = textureSample(normalTexture, normalSampler, inputData.uv);
+    let emissiveTexel: vec4<f32> = textureSample(emissiveTexture, emissiveSampler, inputData.uv);
+
+    var normal: vec3<f32> = normalize(inputData.normal);
+
+    let tangentNormal: vec3<f32> = (normalTexel.xyz * 2.0 - 1.0) * vec3<f32>(materialUniforms.flags.y, materialUniforms.flags.y, 1.0);
+    let perturbedNormal: vec3<f32> = PerturbNormal(normal, inputData.worldPosition, inputData.uv, tangentNormal);
+
+    if (materialUniforms.flags.x > 0.5) {
+        normal = perturbedNormal;
+    }
+
+    // Texels are sampled as linear values; the Phong model works with sRGB encoded colors.
+    let baseColor: vec3<f32> = materialUniforms.color.rgb * inputData.instanceColor.rgb * LinearToSRGB(diffuseTexel.rgb);
+    let specularColor: vec3<f32> = materialUniforms.specular.rgb * LinearToSRGB(specularTexel.rgb);
+    let viewDirection: vec3<f32> = normalize(cameraUniforms.position - inputData.worldPosition);
+
+    var color: vec3<f32> = GetAmbientLight() * baseColor + materialUniforms.emissive.rgb * LinearToSRGB(emissiveTexel.rgb);
+
+    for (var i: u32 = 0u; i < GetLightCount(); i++) {
+
+        let lightSample: LightSample = SampleLight(i, inputData.worldPosition);
+        let shadow: f32 = select(1.0, GetShadowFactor(i, inputData.worldPosition, normal), objectUniforms.parameters.x > 0.5);
+        let diffuse: f32 = max(dot(normal, lightSample.direction), 0.0);
+
+        // Blinn-Phong specular term, only on surfaces facing the light.
+        let halfway: vec3<f32> = normalize(lightSample.direction + viewDirection);
+        let specular: f32 = select(0.0, pow(max(dot(normal, halfway), 0.0), materialUniforms.specular.w), diffuse > 0.0);
+
+        color += (baseColor * diffuse + specularColor * specular) * lightSample.radiance * shadow;
+    }
+
+    return vec4<f32>(EncodeDisplayColor(color), materialUniforms.color.a * inputData.instanceColor.a * diffuseTexel.a);
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+// Picking pass: writes the picking ID of the object into an integer
+// target, so the object under a pixel can be read back.
+
+struct VertexShaderInputData {
+    @location(0) position: vec3<f32>,
+    @builtin(instance_index) instanceIndex: u32
+}
+
+@vertex
+fn vertexShaderMain(inputData: VertexShaderInputData) -> @builtin(position) vec4<f32> {
+
+    return cameraUniforms.viewProjectionMatrix * GetModelMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0);
+}
+
+@fragment
+fn fragmentShaderMain() -> @location(0) u32 {
+
+    return u32(objectUniforms.parameters.y);
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+// Bloom in four steps: bright parts of the input are extracted at half
+// resolution, downsampled into a chain of smaller textures, upsampled back
+// with a tent filter while adding each level, and added to the input.
+// The input, the chain and the output hold linear colors.
+
+struct PassUniforms {
+    // Brightness from which pixels start to bloom.
+    threshold: f32,
+    // Width of the soft transition around the threshold.
+    knee: f32,
+    intensity: f32,
+    // Spread of the upsampling filter, in texels.
+    radius: f32
+}
+
+@group(0) @binding(2)
+var<uniform> passUniforms: PassUniforms;
+
+@group(0) @binding(3)
+var bloomTexture: texture_2d<f32>;
+
+@group(0) @binding(4)
+var bloomSampler: sampler;
+
+// Average of four bilinear samples around the pixel, which covers sixteen texels of the input.
+fn SampleBox(uv: vec2<f32>) -> vec3<f32> {
+
+    let offset: vec2<f32> = GetInputTexelSize();
+
+    let a: vec3<f32> = SampleInput(uv + vec2<f32>(-offset.x, -offset.y)).rgb;
+    let b: vec3<f32> = SampleInput(uv + vec2<f32>(offset.x, -offset.y)).rgb;
+    let c: vec3<f32> = SampleInput(uv + vec2<f32>(-offset.x, offset.y)).rgb;
+    let d: vec3<f32> = SampleInput(uv + vec2<f32>(offset.x, offset.y)).rgb;
+
+    return (a + b + c + d) * 0.25;
+}
+
+@fragment
+fn prefilterMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let color: vec3<f32> = SampleBox(inputData.uv);
+    let brightness: f32 = max(color.r, max(color.g, color.b));
+    let knee: f32 = max(passUniforms.knee, 0.00001);
+
+    // Quadratic curve from (threshold - knee) to (threshold + knee), linear above.
+    var soft: f32 = clamp(brightness - passUniforms.threshold + knee, 0.0, 2.0 * knee);
+
+    soft = soft * soft / (4.0 * knee);
+
+    let contribution: f32 = max(soft, brightness - passUniforms.threshold) / max(brightness, 0.00001);
+
+    return vec4<f32>(color * contribution, 1.0);
+}
+
+@fragment
+fn downsampleMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+    return vec4<f32>(SampleBox(inputData.uv), 1.0);
+}
+
+@fragment
+fn upsampleMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let offset: vec2<f32> = GetInputTexelSize() * passUniforms.radius;
+    let uv: vec2<f32> = inputData.uv;
+
+    var color: vec3<f32> = SampleInput(uv).rgb * 4.0;
+
+    color += (SampleInput(uv + vec2<f32>(0.0, -offset.y)).rgb + SampleInput(uv + vec2<f32>(0.0, offset.y)).rgb) * 2.0;
+    color += (SampleInput(uv + vec2<f32>(-offset.x, 0.0)).rgb + SampleInput(uv + vec2<f32>(offset.x, 0.0)).rgb) * 2.0;
+    color += SampleInput(uv + vec2<f32>(-offset.x, -offset.y)).rgb + SampleInput(uv + vec2<f32>(offset.x, -offset.y)).rgb;
+    color += SampleInput(uv + vec2<f32>(-offset.x, offset.y)).rgb + SampleInput(uv + vec2<f32>(offset.x, offset.y)).rgb;
+
+    return vec4<f32>(color / 16.0, 1.0);
+}
+
+@fragment
+fn compositeMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let color: vec4<f32> = SampleInput(inputData.uv);
+    let bloom: vec3<f32> = textureSampleLevel(bloomTexture, bloomSampler, inputData.uv, 0.0).rgb * passUniforms.intensity;
+
+    return vec4<f32>(color.rgb + bloom, color.a);
+}
\ No newline at end of file
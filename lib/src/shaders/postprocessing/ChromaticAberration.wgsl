@@ -0,0 +1,22 @@
+// Splits the red and blue channels apart towards the edges of the image,
+// like a lens which refracts colors by different amounts.
+
+struct PassUniforms {
+    // Offset of the red and blue channels at the edges, relative to the image size.
+    amount: f32
+}
+
+@group(0) @binding(2)
+var<uniform> passUniforms: PassUniforms;
+
+@fragment
+fn fragmentShaderMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let offset: vec2<f32> = (inputData.uv - vec2<f32>(0.5)) * 2.0 * passUniforms.amount;
+    let texel: vec4<f32> = SampleInput(inputData.uv);
+
+    let red: f32 = SampleInput(inputData.uv + offset).r;
+    let blue: f32 = SampleInput(inputData.uv - offset).b;
+
+    return vec4<f32>(red, texel.g, blue, texel.a);
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+// Color grading through a 3D lookup table, stored as a horizontal strip of
+// square slices: a table of size N is an N * N by N texture, with the blue
+// channel selecting the slice and red and green the texel within it.
+
+struct PassUniforms {
+    intensity: f32
+}
+
+@group(0) @binding(2)
+var<uniform> passUniforms: PassUniforms;
+
+@group(0) @binding(3)
+var lookupTexture: texture_2d<f32>;
+
+@group(0) @binding(4)
+var lookupSampler: sampler;
+
+fn SampleLookupSlice(color: vec3<f32>, slice: f32, size: f32) -> vec3<f32> {
+
+    // Texel centers, so neighboring slices do not bleed into each other.
+    let uv: vec2<f32> = vec2<f32>((slice * size + color.r + 0.5) / (size * size), (color.g + 0.5) / size);
+
+    return textureSampleLevel(lookupTexture, lookupSampler, uv, 0.0).rgb;
+}
+
+@fragment
+fn fragmentShaderMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let texel: vec4<f32> = SampleInput(inputData.uv);
+    let size: f32 = f32(textureDimensions(lookupTexture).y);
+    let scaled: vec3<f32> = clamp(texel.rgb, vec3<f32>(0.0), vec3<f32>(1.0)) * (size - 1.0);
+
+    // Blue is interpolated between the two nearest slices, red and green by the sampler.
+    let slice: f32 = floor(scaled.b);
+    let graded: vec3<f32> = mix(
+        SampleLookupSlice(scaled, slice, size),
+        SampleLookupSlice(scaled, min(slice + 1.0, size - 1.0), size),
+        scaled.b - slice
+    );
+
+    return vec4<f32>(mix(texel.rgb, graded, passUniforms.intensity), texel.a);
+}
\ No newline at end of file
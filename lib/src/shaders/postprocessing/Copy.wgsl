@@ -0,0 +1,10 @@
+// Draws the linear scene into the canvas when no pass is enabled.
+
+@fragment
+fn fragmentShaderMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let texel: vec4<f32> = SampleInput(inputData.uv);
+
+    // The scene is rendered in linear colors, clipped and encoded as materials write them to the output.
+    return vec4<f32>(EncodeOutputColor(texel.rgb), texel.a);
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+// Fast approximate anti-aliasing, after the FXAA algorithm by Timothy Lottes.
+// Blurs along the edges found by the luminance of the neighboring pixels.
+
+struct PassUniforms {
+    // Longest distance in pixels searched along an edge.
+    spanMax: f32,
+    // Scales the edge direction down on bright edges.
+    reduceMultiplier: f32,
+    // Lower bound of the reduction, for dark edges.
+    reduceMinimum: f32
+}
+
+@group(0) @binding(2)
+var<uniform> passUniforms: PassUniforms;
+
+@fragment
+fn fragmentShaderMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let texelSize: vec2<f32> = GetInputTexelSize();
+    let uv: vec2<f32> = inputData.uv;
+
+    let center: vec4<f32> = SampleInput(uv);
+
+    let lumaNorthWest: f32 = GetLuminance(SampleInput(uv + vec2<f32>(-1.0, -1.0) * texelSize).rgb);
+    let lumaNorthEast: f32 = GetLuminance(SampleInput(uv + vec2<f32>(1.0, -1.0) * texelSize).rgb);
+    let lumaSouthWest: f32 = GetLuminance(SampleInput(uv + vec2<f32>(-1.0, 1.0) * texelSize).rgb);
+    let lumaSouthEast: f32 = GetLuminance(SampleInput(uv + vec2<f32>(1.0, 1.0) * texelSize).rgb);
+    let lumaCenter: f32 = GetLuminance(center.rgb);
+
+    let lumaMinimum: f32 = min(lumaCenter, min(min(lumaNorthWest, lumaNorthEast), min(lumaSouthWest, lumaSouthEast)));
+    let lumaMaximum: f32 = max(lumaCenter, max(max(lumaNorthWest, lumaNorthEast), max(lumaSouthWest, lumaSouthEast)));
+
+    // The edge runs perpendicular to the luminance gradient.
+    var direction: vec2<f32> = vec2<f32>(
+        (lumaSouthWest + lumaSouthEast) - (lumaNorthWest + lumaNorthEast),
+        (lumaNorthWest + lumaSouthWest) - (lumaNorthEast + lumaSouthEast)
+    );
+
+    let reduction: f32 = max((lumaNorthWest + lumaNorthEast + lumaSouthWest + lumaSouthEast) * 0.25 * passUniforms.reduceMultiplier, passUniforms.reduceMinimum);
+    let inverseDirectionMinimum: f32 = 1.0 / (min(abs(direction.x), abs(direction.y)) + reduction);
+
+    direction = clamp(direction * inverseDirectionMinimum, vec2<f32>(-passUniforms.spanMax), vec2<f32>(passUniforms.spanMax)) * texelSize;
+
+    let colorA: vec3<f32> = 0.5 * (
+        SampleInput(uv + direction * (1.0 / 3.0 - 0.5)).rgb +
+        SampleInput(uv + direction * (2.0 / 3.0 - 0.5)).rgb
+    );
+
+    let colorB: vec3<f32> = colorA * 0.5 + 0.25 * (
+        SampleInput(uv - direction * 0.5).rgb +
+        SampleInput(uv + direction * 0.5).rgb
+    );
+
+    let lumaB: f32 = GetLuminance(colorB);
+
+    // The wider blur crossed another edge if it left the local luminance range.
+    return vec4<f32>(select(colorB, colorA, lumaB < lumaMinimum || lumaB > lumaMaximum), center.a);
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+// Full-screen triangle and input bindings shared by every effect pass.
+// Prepended to the pass source by the effect system. Colors are read and
+// written encoded for the canvas, as the materials write them.
+
+@group(0) @binding(0)
+var inputTexture: texture_2d<f32>;
+
+@group(0) @binding(1)
+var inputSampler: sampler;
+
+struct FullScreenOutputData {
+    @builtin(position) position: vec4<f32>,
+    // Texture coordinates with the origin at the top left.
+    @location(0) uv: vec2<f32>
+}
+
+// A single triangle covering the screen, without vertex buffers.
+@vertex
+fn vertexShaderMain(@builtin(vertex_index) vertexIndex: u32) -> FullScreenOutputData {
+
+    var outputData: FullScreenOutputData;
+
+    let uv: vec2<f32> = vec2<f32>(f32((vertexIndex << 1u) & 2u), f32(vertexIndex & 2u));
+
+    outputData.position = vec4<f32>(uv.x * 2.0 - 1.0, 1.0 - uv.y * 2.0, 0.0, 1.0);
+    outputData.uv = uv;
+
+    return outputData;
+}
+
+// Samples the input without mipmaps, which is allowed in non-uniform control flow.
+fn SampleInput(uv: vec2<f32>) -> vec4<f32> {
+    return textureSampleLevel(inputTexture, inputSampler, uv, 0.0);
+}
+
+fn GetInputTexelSize() -> vec2<f32> {
+    return 1.0 / vec2<f32>(textureDimensions(inputTexture));
+}
+
+fn GetLuminance(color: vec3<f32>) -> f32 {
+    return dot(color, vec3<f32>(0.2126, 0.7152, 0.0722));
+}
\ No newline at end of file
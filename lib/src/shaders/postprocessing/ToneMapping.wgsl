@@ -0,0 +1,33 @@
+// Maps linear colors of any brightness into the displayable range, and
+// encodes them for the output of the pass.
+
+struct PassUniforms {
+    exposure: f32,
+    // 0: linear, 1: Reinhard, 2: ACES filmic.
+    mode: f32
+}
+
+@group(0) @binding(2)
+var<uniform> passUniforms: PassUniforms;
+
+// Fit of the ACES filmic curve by Krzysztof Narkowicz.
+fn ToneMapACES(color: vec3<f32>) -> vec3<f32> {
+    return clamp((color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14), vec3<f32>(0.0), vec3<f32>(1.0));
+}
+
+@fragment
+fn fragmentShaderMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let texel: vec4<f32> = SampleInput(inputData.uv);
+    let color: vec3<f32> = texel.rgb * passUniforms.exposure;
+
+    var mapped: vec3<f32> = clamp(color, vec3<f32>(0.0), vec3<f32>(1.0));
+
+    if (passUniforms.mode > 1.5) {
+        mapped = ToneMapACES(color);
+    } else if (passUniforms.mode > 0.5) {
+        mapped = color / (color + vec3<f32>(1.0));
+    }
+
+    return vec4<f32>(EncodeOutputColor(mapped), texel.a);
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+// Darkens the image towards its corners.
+
+struct PassUniforms {
+    color: vec4<f32>,
+    intensity: f32,
+    // Distance from the center where darkening starts; 1 is a corner.
+    radius: f32,
+    // Distance over which the darkening fades in.
+    smoothness: f32
+}
+
+@group(0) @binding(2)
+var<uniform> passUniforms: PassUniforms;
+
+@fragment
+fn fragmentShaderMain(inputData: FullScreenOutputData) -> @location(0) vec4<f32> {
+
+    let texel: vec4<f32> = SampleInput(inputData.uv);
+
+    // Scaled so the corners are at a distance of one.
+    let edgeDistance: f32 = length(inputData.uv - vec2<f32>(0.5)) * 1.41421356;
+    let amount: f32 = smoothstep(passUniforms.radius, passUniforms.radius + max(passUniforms.smoothness, 0.00001), edgeDistance) * passUniforms.intensity;
+
+    return vec4<f32>(mix(texel.rgb, passUniforms.color.rgb, clamp(amount, 0.0, 1.0)), texel.a);
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+// Depth-only pass into a shadow map. The camera uniforms hold the
+// view-projection matrix of the shadow map.
+
+struct VertexShaderInputData {
+    @location(0) position: vec3<f32>,
+    @builtin(instance_index) instanceIndex: u32
+}
+
+@vertex
+fn vertexShaderMain(inputData: VertexShaderInputData) -> @builtin(position) vec4<f32> {
+
+    return cameraUniforms.viewProjectionMatrix * GetModelMatrix(inputData.instanceIndex) * vec4<f32>(inputData.position, 1.0);
+}
\ No newline at end of file
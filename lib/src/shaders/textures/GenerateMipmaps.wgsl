@@ -0,0 +1,32 @@
+// Downsamples one mip level into the next by drawing a fullscreen
+// triangle which samples the previous level with a linear filter.
+
+@group(0) @binding(0)
+var sourceTexture: texture_2d<f32>;
+
+@group(0) @binding(1)
+var sourceSampler: sampler;
+
+struct VertexShaderOutputData {
+    @builtin(position) position: vec4<f32>,
+    @location(0) uv: vec2<f32>
+}
+
+@vertex
+fn vertexShaderMain(@builtin(vertex_index) vertexIndex: u32) -> VertexShaderOutputData {
+
+    var outputData: VertexShaderOutputData;
+
+    let uv: vec2<f32> = vec2<f32>(f32((vertexIndex << 1u) & 2u), f32(vertexIndex & 2u));
+
+    outputData.position = vec4<f32>(uv.x * 2.0 - 1.0, 1.0 - uv.y * 2.0, 0.0, 1.0);
+    outputData.uv = uv;
+
+    return outputData;
+}
+
+@fragment
+fn fragmentShaderMain(inputData: VertexShaderOutputData) -> @location(0) vec4<f32> {
+
+    return textureSample(sourceTexture, sourceSampler, inputData.uv);
+}
\ No newline at end of file
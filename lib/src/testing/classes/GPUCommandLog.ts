@@ -0,0 +1,68 @@
+import { MockGPUCommand, MockGPUCommandType, MockGPUDrawCall } from "../../typings";
+
+/**
+ * Ordered record of the calls made on a {@link MockGPUDevice}: created
+ * objects, queue writes and submissions, and the commands of every
+ * render pass, so tests can assert what a scene produces.
+ *
+ * The log keeps growing with every frame; clear it between the frames
+ * under test.
+ *
+ * @example
+ * ```ts
+ * const gpu = new MockGPU();
+ * const renderer = await new WebGPURenderer({
+ *     gpu: gpu as unknown as GPU,
+ *     canvas: new MockCanvas() as unknown as HTMLCanvasElement
+ * }).Initialize();
+ *
+ * gpu.commandLog.Clear();
+ * renderer.Render(scene, camera);
+ *
+ * const draws = gpu.commandLog.GetDrawCalls();
+ * ```
+ */
+export class GPUCommandLog {
+
+    public readonly commands: MockGPUCommand[] = [];
+
+    public get length(): number {
+        return this.commands.length;
+    }
+
+    public Record(type: MockGPUCommandType, label: string, target: object | null = null, details: Record<string, unknown> = {}): MockGPUCommand {
+
+        const command: MockGPUCommand = { index: this.commands.length, type, label, target, details };
+
+        this.commands.push(command);
+
+        return command;
+    }
+
+    /**
+     * Returns the commands of the given types, in the order they were
+     * recorded.
+     */
+    public Filter(...types: MockGPUCommandType[]): MockGPUCommand[] {
+        return this.commands.filter((command: MockGPUCommand) => types.includes(command.type));
+    }
+
+    /**
+     * Returns the draw calls, with the pipeline, bind groups and buffers
+     * which were set in the render pass when they were recorded.
+     */
+    public GetDrawCalls(): MockGPUDrawCall[] {
+        return this.Filter("draw", "drawIndexed").map((command: MockGPUCommand) => command.details as unknown as MockGPUDrawCall);
+    }
+
+    /**
+     * Returns the number of commands of the given type.
+     */
+    public Count(type: MockGPUCommandType): number {
+        return this.Filter(type).length;
+    }
+
+    public Clear(): void {
+        this.commands.length = 0;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { MockGPUCanvasContext } from "./MockGPUCanvasContext";
+
+/**
+ * Stand-in for the canvas element of a renderer running outside of a
+ * document, passed as its 'canvas' option along with a {@link MockGPU}.
+ * Only the "webgpu" context is available.
+ */
+export class MockCanvas {
+
+    private attributes: Map<string, string> = new Map();
+    private context: MockGPUCanvasContext | null = null;
+
+    constructor(public width: number = 800, public height: number = 600) {}
+
+    /** Headless canvases are never laid out, their CSS size is their size. */
+    public get clientWidth(): number {
+        return this.width;
+    }
+
+    public get clientHeight(): number {
+        return this.height;
+    }
+
+    public getContext(type: string): MockGPUCanvasContext | null {
+
+        if (type !== "webgpu") return null;
+
+        return this.context ??= new MockGPUCanvasContext(this);
+    }
+
+    public setAttribute(name: string, value: string): void {
+        this.attributes.set(name, value);
+    }
+
+    public getAttribute(name: string): string | null {
+        return this.attributes.get(name) ?? null;
+    }
+
+    public addEventListener(_type: string, _listener: unknown): void {}
+
+    public removeEventListener(_type: string, _listener: unknown): void {}
+}
\ No newline at end of file
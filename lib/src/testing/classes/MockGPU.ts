@@ -0,0 +1,56 @@
+import { MockGPUAdapter } from "./MockGPUAdapter";
+import { GPUCommandLog } from "./GPUCommandLog";
+import { InstallMockGPUGlobals } from "../functions/globals";
+
+/**
+ * A WebGPU implementation which runs without a GPU or browser, standing in
+ * for `navigator.gpu`. Nothing is drawn: every object created and every
+ * command submitted is recorded into {@link commandLog} instead, so tests
+ * can assert what a scene produces, such as its draw calls.
+ *
+ * Creating a mock installs the WebGPU flag constants on the global object
+ * where they are missing, see {@link InstallMockGPUGlobals}.
+ *
+ * @example
+ * ```ts
+ * const gpu = new MockGPU();
+ * const renderer = new WebGPURenderer({
+ *     gpu: gpu as unknown as GPU,
+ *     canvas: new MockCanvas(320, 240) as unknown as HTMLCanvasElement
+ * });
+ *
+ * await renderer.Initialize();
+ *
+ * const scene = new WebGPURendererScene(renderer);
+ *
+ * scene.Add(new Mesh(CreateBoxGeometry(), new BasicColorMaterial()));
+ * await scene.Prepare(camera);
+ *
+ * gpu.commandLog.Clear();
+ * renderer.Render(scene, camera);
+ *
+ * assert.equal(gpu.commandLog.GetDrawCalls().length, 1);
+ * ```
+ */
+export class MockGPU {
+
+    public readonly wgslLanguageFeatures: Set<string> = new Set();
+
+    constructor(public readonly commandLog: GPUCommandLog = new GPUCommandLog(), private preferredFormat: GPUTextureFormat = "bgra8unorm") {
+
+        InstallMockGPUGlobals();
+    }
+
+    public requestAdapter(_options: GPURequestAdapterOptions = {}): Promise<MockGPUAdapter> {
+        return Promise.resolve(new MockGPUAdapter(this.commandLog));
+    }
+
+    public getPreferredCanvasFormat(): GPUTextureFormat {
+        return this.preferredFormat;
+    }
+
+    /** Serializes without the command log, as renderer options are logged. */
+    public toJSON(): object {
+        return { kind: "GPU" };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { MockGPUDevice } from "./MockGPUDevice";
+import { GPUCommandLog } from "./GPUCommandLog";
+
+/**
+ * The adapter of a {@link MockGPU}. Every device it creates records into
+ * the same command log.
+ */
+export class MockGPUAdapter {
+
+    public readonly features: Set<string> = new Set();
+    public readonly limits: Record<string, number> = {};
+    public readonly isFallbackAdapter: boolean = false;
+
+    public readonly info = { vendor: "FluexGL", architecture: "mock", device: "MockGPUDevice", description: "Headless mock adapter" };
+
+    constructor(public readonly commandLog: GPUCommandLog) {}
+
+    public requestDevice(descriptor: GPUDeviceDescriptor = {}): Promise<MockGPUDevice> {
+        return Promise.resolve(new MockGPUDevice(this.commandLog, descriptor));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { MockGPUObject } from "./MockGPUObject";
+import { GPUCommandLog } from "./GPUCommandLog";
+
+/**
+ * A GPU buffer backed by memory on the CPU. Queue writes land in
+ * {@link data}, so tests can read back the uniforms and vertices a
+ * renderable has uploaded.
+ */
+export class MockGPUBuffer extends MockGPUObject {
+
+    public readonly size: number;
+    public readonly usage: GPUBufferUsageFlags;
+
+    /** The contents of the buffer. */
+    public readonly data: ArrayBuffer;
+
+    public mapState: GPUBufferMapState = "unmapped";
+
+    // Ranges handed out by 'getMappedRange', copied back into the buffer on 'unmap'.
+    private mappedRanges: [number, ArrayBuffer][] = [];
+
+    constructor(private log: GPUCommandLog, descriptor: GPUBufferDescriptor) {
+
+        super("GPUBuffer", descriptor.label, descriptor);
+
+        this.size = descriptor.size;
+        this.usage = descriptor.usage;
+        this.data = new ArrayBuffer(descriptor.size);
+
+        if (descriptor.mappedAtCreation) this.mapState = "mapped";
+    }
+
+    public mapAsync(_mode: GPUMapModeFlags, _offset: number = 0, _size?: number): Promise<undefined> {
+
+        if (this.destroyed) return Promise.reject(new Error("MockGPUBuffer: Unable to map a destroyed buffer."));
+
+        this.mapState = "mapped";
+
+        return Promise.resolve(undefined);
+    }
+
+    public getMappedRange(offset: number = 0, size: number = this.size - offset): ArrayBuffer {
+
+        const range: ArrayBuffer = this.data.slice(offset, offset + size);
+
+        this.mappedRanges.push([offset, range]);
+
+        return range;
+    }
+
+    public unmap(): void {
+
+        for (const [offset, range] of this.mappedRanges) new Uint8Array(this.data, offset, range.byteLength).set(new Uint8Array(range));
+
+        this.mappedRanges.length = 0;
+        this.mapState = "unmapped";
+    }
+
+    public destroy(): void {
+
+        this.log.Record("destroy", this.label, this);
+
+        this.destroyed = true;
+        this.mapState = "unmapped";
+    }
+
+    /**
+     * Copies bytes into the buffer, as a queue write does.
+     */
+    public WriteData(offset: number, bytes: Uint8Array): void {
+        new Uint8Array(this.data, offset, Math.min(bytes.byteLength, this.size - offset)).set(bytes.subarray(0, this.size - offset));
+    }
+}
\ No newline at end of file
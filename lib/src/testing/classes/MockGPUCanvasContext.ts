@@ -0,0 +1,65 @@
+import { MockGPUTexture } from "./MockGPUTexture";
+import { MockGPUDevice } from "./MockGPUDevice";
+
+/**
+ * The "webgpu" context of a {@link MockCanvas}, recording into the command
+ * log of the {@link MockGPUDevice} it is configured with. The current
+ * texture is recreated whenever the canvas has been resized.
+ */
+export class MockGPUCanvasContext {
+
+    private configuration: GPUCanvasConfiguration | null = null;
+    private currentTexture: MockGPUTexture | null = null;
+
+    constructor(public readonly canvas: { width: number; height: number }) {}
+
+    public configure(configuration: GPUCanvasConfiguration): void {
+
+        this.configuration = configuration;
+        this.currentTexture = null;
+
+        this.getDevice().commandLog.Record("configure", "MockGPUCanvasContext", this, { ...configuration });
+    }
+
+    public unconfigure(): void {
+
+        this.configuration = null;
+        this.currentTexture = null;
+    }
+
+    public getConfiguration(): GPUCanvasConfiguration | null {
+        return this.configuration;
+    }
+
+    /** Serializes without the canvas, which references the context. */
+    public toJSON(): object {
+        return { kind: "GPUCanvasContext" };
+    }
+
+    public getCurrentTexture(): MockGPUTexture {
+
+        if (!this.configuration) throw new Error("MockGPUCanvasContext: The context has not been configured.");
+
+        const texture: MockGPUTexture | null = this.currentTexture;
+
+        if (texture && texture.width === this.canvas.width && texture.height === this.canvas.height) return texture;
+
+        return this.currentTexture = new MockGPUTexture(this.getDevice().commandLog, {
+            label: "MockGPUCanvasContext-CurrentTexture",
+            size: { width: this.canvas.width, height: this.canvas.height },
+            format: this.configuration.format,
+            usage: this.configuration.usage ?? GPUTextureUsage.RENDER_ATTACHMENT
+        });
+    }
+
+    // Private and protected class members.
+
+    private getDevice(): MockGPUDevice {
+
+        const device: GPUDevice | undefined = this.configuration?.device;
+
+        if (!(device instanceof MockGPUDevice)) throw new Error("MockGPUCanvasContext: The context must be configured with a MockGPUDevice.");
+
+        return device;
+    }
+}
\ No newline at end of file
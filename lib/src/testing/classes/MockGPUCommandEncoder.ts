@@ -0,0 +1,36 @@
+import { MockGPUObject } from "./MockGPUObject";
+import { MockGPURenderPassEncoder } from "./MockGPURenderPassEncoder";
+import { GPUCommandLog } from "./GPUCommandLog";
+
+/**
+ * The command encoder of a {@link MockGPUDevice}. Commands are recorded as
+ * they are encoded, not when the command buffer is submitted.
+ */
+export class MockGPUCommandEncoder extends MockGPUObject {
+
+    constructor(private log: GPUCommandLog, descriptor: GPUCommandEncoderDescriptor = {}) {
+        super("GPUCommandEncoder", descriptor.label, descriptor);
+    }
+
+    public beginRenderPass(descriptor: GPURenderPassDescriptor): MockGPURenderPassEncoder {
+        return new MockGPURenderPassEncoder(this.log, descriptor);
+    }
+
+    public copyBufferToBuffer(source: GPUBuffer, sourceOffset: number, destination: GPUBuffer, destinationOffset: number, size: number): void {
+        this.log.Record("copyBufferToBuffer", destination.label, destination, { source: source.label, sourceOffset, destinationOffset, size });
+    }
+
+    public copyTextureToBuffer(source: GPUTexelCopyTextureInfo, destination: GPUTexelCopyBufferInfo, copySize: GPUExtent3DStrict): void {
+        this.log.Record("copyTextureToBuffer", destination.buffer.label, destination.buffer, { source, destination, size: copySize });
+    }
+
+    public pushDebugGroup(_groupLabel: string): void {}
+
+    public popDebugGroup(): void {}
+
+    public insertDebugMarker(_markerLabel: string): void {}
+
+    public finish(descriptor: GPUCommandBufferDescriptor = {}): MockGPUObject {
+        return new MockGPUObject("GPUCommandBuffer", descriptor.label ?? this.label);
+    }
+}
\ No newline at end of file
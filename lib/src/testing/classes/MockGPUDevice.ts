@@ -0,0 +1,117 @@
+import { MockGPUObject } from "./MockGPUObject";
+import { MockGPUBuffer } from "./MockGPUBuffer";
+import { MockGPUTexture } from "./MockGPUTexture";
+import { MockGPUQueue } from "./MockGPUQueue";
+import { MockGPUCommandEncoder } from "./MockGPUCommandEncoder";
+import { MockGPURenderPipeline } from "./MockGPURenderPipeline";
+import { GPUCommandLog } from "./GPUCommandLog";
+import { MockGPUCommandType } from "../../typings";
+
+/**
+ * A GPU device which runs without a GPU, recording every object it creates
+ * and every command submitted to it into a {@link GPUCommandLog}.
+ *
+ * Objects are validated no further than needed to record them, so a call
+ * which a real device would reject may still succeed here.
+ */
+export class MockGPUDevice extends MockGPUObject {
+
+    public readonly queue: MockGPUQueue;
+    public readonly features: Set<string> = new Set();
+    public readonly limits: Record<string, number>;
+
+    /** Resolves when the device is destroyed. */
+    public readonly lost: Promise<GPUDeviceLostInfo>;
+
+    private resolveLost: (info: GPUDeviceLostInfo) => void = () => {};
+
+    constructor(public readonly commandLog: GPUCommandLog = new GPUCommandLog(), descriptor: GPUDeviceDescriptor = {}) {
+
+        super("GPUDevice", descriptor.label, descriptor);
+
+        this.queue = new MockGPUQueue(commandLog, descriptor.defaultQueue?.label);
+
+        for (const feature of descriptor.requiredFeatures ?? []) this.features.add(feature);
+
+        this.limits = {
+            maxTextureDimension2D: 8192,
+            maxBindGroups: 4,
+            maxUniformBufferBindingSize: 65536,
+            maxStorageBufferBindingSize: 134217728,
+            maxVertexBuffers: 8,
+            maxVertexAttributes: 16,
+            maxColorAttachments: 8,
+            ...(descriptor.requiredLimits ?? {}) as Record<string, number>
+        };
+
+        this.lost = new Promise((resolve: (info: GPUDeviceLostInfo) => void) => this.resolveLost = resolve);
+    }
+
+    public createBuffer(descriptor: GPUBufferDescriptor): MockGPUBuffer {
+        return this.record("createBuffer", new MockGPUBuffer(this.commandLog, descriptor), descriptor);
+    }
+
+    public createTexture(descriptor: GPUTextureDescriptor): MockGPUTexture {
+        return this.record("createTexture", new MockGPUTexture(this.commandLog, descriptor), descriptor);
+    }
+
+    public createSampler(descriptor: GPUSamplerDescriptor = {}): MockGPUObject {
+        return this.record("createSampler", new MockGPUObject("GPUSampler", descriptor.label, descriptor), descriptor);
+    }
+
+    public createShaderModule(descriptor: GPUShaderModuleDescriptor): MockGPUObject {
+        return this.record("createShaderModule", new MockGPUObject("GPUShaderModule", descriptor.label, descriptor), descriptor);
+    }
+
+    public createBindGroupLayout(descriptor: GPUBindGroupLayoutDescriptor): MockGPUObject {
+        return this.record("createBindGroupLayout", new MockGPUObject("GPUBindGroupLayout", descriptor.label, descriptor), descriptor);
+    }
+
+    public createPipelineLayout(descriptor: GPUPipelineLayoutDescriptor): MockGPUObject {
+        return this.record("createPipelineLayout", new MockGPUObject("GPUPipelineLayout", descriptor.label, descriptor), descriptor);
+    }
+
+    public createBindGroup(descriptor: GPUBindGroupDescriptor): MockGPUObject {
+        return this.record("createBindGroup", new MockGPUObject("GPUBindGroup", descriptor.label, descriptor), descriptor);
+    }
+
+    public createRenderPipeline(descriptor: GPURenderPipelineDescriptor): MockGPURenderPipeline {
+        return this.record("createRenderPipeline", new MockGPURenderPipeline(descriptor), descriptor);
+    }
+
+    public createRenderPipelineAsync(descriptor: GPURenderPipelineDescriptor): Promise<MockGPURenderPipeline> {
+        return Promise.resolve(this.createRenderPipeline(descriptor));
+    }
+
+    public createCommandEncoder(descriptor: GPUCommandEncoderDescriptor = {}): MockGPUCommandEncoder {
+        return new MockGPUCommandEncoder(this.commandLog, descriptor);
+    }
+
+    public pushErrorScope(_filter: GPUErrorFilter): void {}
+
+    /** Resolves to `null`, errors are never raised. */
+    public popErrorScope(): Promise<GPUError | null> {
+        return Promise.resolve(null);
+    }
+
+    public addEventListener(_type: string, _listener: unknown): void {}
+
+    public removeEventListener(_type: string, _listener: unknown): void {}
+
+    public destroy(): void {
+
+        this.commandLog.Record("destroy", this.label, this);
+
+        this.destroyed = true;
+        this.resolveLost({ reason: "destroyed", message: "The device was destroyed." } as GPUDeviceLostInfo);
+    }
+
+    // Private and protected class members.
+
+    private record<T extends MockGPUObject>(type: MockGPUCommandType, object: T, descriptor: object): T {
+
+        this.commandLog.Record(type, object.label, object, { ...descriptor });
+
+        return object;
+    }
+}
\ No newline at end of file
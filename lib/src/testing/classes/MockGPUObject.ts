@@ -0,0 +1,33 @@
+/**
+ * A GPU object created by a {@link MockGPUDevice} which holds no resources,
+ * such as a sampler, bind group or texture view. The descriptor it was
+ * created with is kept for inspection.
+ */
+export class MockGPUObject {
+
+    /** Whether 'destroy' has been called, for the objects which can be destroyed. */
+    public destroyed: boolean = false;
+
+    /**
+     * @param kind The WebGPU interface the object stands in for, such as "GPUBindGroup".
+     */
+    constructor(public readonly kind: string, public label: string = "", public readonly descriptor: object = {}) {}
+
+    /**
+     * Serializes to the kind and label only, as descriptors and the command
+     * log may reference each other.
+     */
+    public toJSON(): object {
+        return { kind: this.kind, label: this.label };
+    }
+
+    /**
+     * Returns the label of a GPU object, or `null` if there is no object.
+     */
+    public static GetLabel(object: unknown): string | null {
+
+        if (!object) return null;
+
+        return (object as { label?: string }).label ?? "";
+    }
+}
\ No newline at end of file
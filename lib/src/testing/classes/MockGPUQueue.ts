@@ -0,0 +1,51 @@
+import { MockGPUObject } from "./MockGPUObject";
+import { MockGPUBuffer } from "./MockGPUBuffer";
+import { GPUCommandLog } from "./GPUCommandLog";
+
+/**
+ * The queue of a {@link MockGPUDevice}. Buffer writes are applied to the
+ * memory of the {@link MockGPUBuffer}; every call is recorded.
+ */
+export class MockGPUQueue extends MockGPUObject {
+
+    constructor(private log: GPUCommandLog, label: string = "") {
+        super("GPUQueue", label);
+    }
+
+    public writeBuffer(buffer: GPUBuffer, bufferOffset: number, data: GPUAllowSharedBufferSource, dataOffset: number = 0, size?: number): void {
+
+        // Offset and size count elements for typed arrays, and bytes otherwise.
+        const elementSize: number = ArrayBuffer.isView(data) && "BYTES_PER_ELEMENT" in data ? (data as unknown as { BYTES_PER_ELEMENT: number }).BYTES_PER_ELEMENT : 1,
+            source: Uint8Array = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data),
+            bytes: Uint8Array = source.subarray(dataOffset * elementSize, size === undefined ? undefined : (dataOffset + size) * elementSize);
+
+        buffer instanceof MockGPUBuffer && buffer.WriteData(bufferOffset, bytes);
+
+        this.log.Record("writeBuffer", buffer.label, buffer, { offset: bufferOffset, size: bytes.byteLength });
+    }
+
+    public writeTexture(destination: GPUTexelCopyTextureInfo, data: GPUAllowSharedBufferSource, dataLayout: GPUTexelCopyBufferLayout, size: GPUExtent3DStrict): void {
+
+        this.log.Record("writeTexture", destination.texture.label, destination.texture, {
+            destination,
+            byteLength: data.byteLength,
+            dataLayout,
+            size
+        });
+    }
+
+    public copyExternalImageToTexture(source: GPUCopyExternalImageSourceInfo, destination: GPUCopyExternalImageDestInfo, copySize: GPUExtent3DStrict): void {
+        this.log.Record("copyExternalImageToTexture", destination.texture.label, destination.texture, { source, destination, size: copySize });
+    }
+
+    public submit(commandBuffers: Iterable<GPUCommandBuffer>): void {
+
+        const buffers: GPUCommandBuffer[] = Array.from(commandBuffers);
+
+        this.log.Record("submit", this.label, this, { commandBuffers: buffers.map((buffer: GPUCommandBuffer) => buffer.label) });
+    }
+
+    public onSubmittedWorkDone(): Promise<undefined> {
+        return Promise.resolve(undefined);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { MockGPUObject } from "./MockGPUObject";
+import { GPUCommandLog } from "./GPUCommandLog";
+import { MockGPUDrawCall } from "../../typings";
+
+/**
+ * A render pass of a {@link MockGPUCommandEncoder}. Every command is
+ * recorded, and draw calls are recorded together with the pipeline, bind
+ * groups and buffers set at that point.
+ */
+export class MockGPURenderPassEncoder extends MockGPUObject {
+
+    private pipeline: GPURenderPipeline | null = null;
+    private bindGroups: (GPUBindGroup | null)[] = [];
+    private vertexBuffers: (GPUBuffer | null)[] = [];
+    private indexBuffer: GPUBuffer | null = null;
+
+    constructor(private log: GPUCommandLog, descriptor: GPURenderPassDescriptor) {
+
+        super("GPURenderPassEncoder", descriptor.label, descriptor);
+
+        this.log.Record("beginRenderPass", this.label, this, { ...descriptor });
+    }
+
+    public setPipeline(pipeline: GPURenderPipeline): void {
+
+        this.pipeline = pipeline;
+        this.log.Record("setPipeline", pipeline.label, pipeline, { pass: this.label });
+    }
+
+    public setBindGroup(index: number, bindGroup: GPUBindGroup | null, dynamicOffsets: Iterable<number> = []): void {
+
+        this.bindGroups[index] = bindGroup;
+        this.log.Record("setBindGroup", bindGroup ? bindGroup.label : "", bindGroup, { pass: this.label, index, dynamicOffsets: Array.from(dynamicOffsets) });
+    }
+
+    public setVertexBuffer(slot: number, buffer: GPUBuffer | null, offset: number = 0, size?: number): void {
+
+        this.vertexBuffers[slot] = buffer;
+        this.log.Record("setVertexBuffer", buffer ? buffer.label : "", buffer, { pass: this.label, slot, offset, size });
+    }
+
+    public setIndexBuffer(buffer: GPUBuffer, indexFormat: GPUIndexFormat, offset: number = 0, size?: number): void {
+
+        this.indexBuffer = buffer;
+        this.log.Record("setIndexBuffer", buffer.label, buffer, { pass: this.label, indexFormat, offset, size });
+    }
+
+    public setViewport(x: number, y: number, width: number, height: number, minDepth: number, maxDepth: number): void {
+        this.log.Record("setViewport", this.label, this, { x, y, width, height, minDepth, maxDepth });
+    }
+
+    public setScissorRect(x: number, y: number, width: number, height: number): void {
+        this.log.Record("setScissorRect", this.label, this, { x, y, width, height });
+    }
+
+    public setBlendConstant(_color: GPUColor): void {}
+
+    public setStencilReference(_reference: number): void {}
+
+    public draw(vertexCount: number, instanceCount: number = 1, _firstVertex: number = 0, _firstInstance: number = 0): void {
+        this.recordDraw("draw", false, vertexCount, instanceCount);
+    }
+
+    public drawIndexed(indexCount: number, instanceCount: number = 1, _firstIndex: number = 0, _baseVertex: number = 0, _firstInstance: number = 0): void {
+        this.recordDraw("drawIndexed", true, indexCount, instanceCount);
+    }
+
+    public pushDebugGroup(_groupLabel: string): void {}
+
+    public popDebugGroup(): void {}
+
+    public insertDebugMarker(_markerLabel: string): void {}
+
+    public end(): void {
+        this.log.Record("endRenderPass", this.label, this);
+    }
+
+    // Private and protected class members.
+
+    private recordDraw(type: "draw" | "drawIndexed", indexed: boolean, count: number, instanceCount: number): void {
+
+        const draw: MockGPUDrawCall = {
+            pass: this.label,
+            pipeline: MockGPUObject.GetLabel(this.pipeline),
+            bindGroups: Array.from(this.bindGroups, MockGPUObject.GetLabel),
+            vertexBuffers: Array.from(this.vertexBuffers, MockGPUObject.GetLabel),
+            indexBuffer: indexed ? MockGPUObject.GetLabel(this.indexBuffer) : null,
+            indexed,
+            count,
+            instanceCount
+        };
+
+        this.log.Record(type, draw.pipeline ?? "", this.pipeline, draw as unknown as Record<string, unknown>);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { MockGPUObject } from "./MockGPUObject";
+
+/**
+ * A render pipeline of a {@link MockGPUDevice}. Bind group layouts of
+ * pipelines with an automatic layout are created on request.
+ */
+export class MockGPURenderPipeline extends MockGPUObject {
+
+    private bindGroupLayouts: Map<number, MockGPUObject> = new Map();
+
+    constructor(descriptor: GPURenderPipelineDescriptor) {
+        super("GPURenderPipeline", descriptor.label, descriptor);
+    }
+
+    public getBindGroupLayout(index: number): MockGPUObject {
+
+        let layout: MockGPUObject | undefined = this.bindGroupLayouts.get(index);
+
+        if (!layout) this.bindGroupLayouts.set(index, layout = new MockGPUObject("GPUBindGroupLayout", `${this.label}-BindGroupLayout-${index}`));
+
+        return layout;
+    }
+}
\ No newline at end of file
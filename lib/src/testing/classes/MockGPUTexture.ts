@@ -0,0 +1,60 @@
+import { MockGPUObject } from "./MockGPUObject";
+import { GPUCommandLog } from "./GPUCommandLog";
+
+/**
+ * A GPU texture without storage. Only its descriptor is kept; uploads and
+ * draws into it are recorded in the command log.
+ */
+export class MockGPUTexture extends MockGPUObject {
+
+    public readonly width: number;
+    public readonly height: number;
+    public readonly depthOrArrayLayers: number;
+    public readonly mipLevelCount: number;
+    public readonly sampleCount: number;
+    public readonly dimension: GPUTextureDimension;
+    public readonly format: GPUTextureFormat;
+    public readonly usage: GPUTextureUsageFlags;
+
+    constructor(private log: GPUCommandLog, descriptor: GPUTextureDescriptor) {
+
+        super("GPUTexture", descriptor.label, descriptor);
+
+        [this.width, this.height, this.depthOrArrayLayers] = MockGPUTexture.GetExtent(descriptor.size);
+
+        this.mipLevelCount = descriptor.mipLevelCount ?? 1;
+        this.sampleCount = descriptor.sampleCount ?? 1;
+        this.dimension = descriptor.dimension ?? "2d";
+        this.format = descriptor.format;
+        this.usage = descriptor.usage;
+    }
+
+    /**
+     * Returns the width, height and depth or layer count of an extent given
+     * either as a list or as a dictionary.
+     */
+    public static GetExtent(size: GPUExtent3D): [number, number, number] {
+
+        if (Symbol.iterator in Object(size)) {
+
+            const [width, height = 1, depthOrArrayLayers = 1] = Array.from(size as Iterable<number>);
+
+            return [width, height, depthOrArrayLayers];
+        }
+
+        const extent = size as GPUExtent3DDict;
+
+        return [extent.width, extent.height ?? 1, extent.depthOrArrayLayers ?? 1];
+    }
+
+    public createView(descriptor: GPUTextureViewDescriptor = {}): MockGPUObject {
+        return new MockGPUObject("GPUTextureView", descriptor.label ?? this.label, { ...descriptor, texture: this });
+    }
+
+    public destroy(): void {
+
+        this.log.Record("destroy", this.label, this);
+
+        this.destroyed = true;
+    }
+}
\ No newline at end of file
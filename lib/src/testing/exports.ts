@@ -0,0 +1,14 @@
+export { MockGPU } from "./classes/MockGPU";
+export { MockGPUAdapter } from "./classes/MockGPUAdapter";
+export { MockGPUDevice } from "./classes/MockGPUDevice";
+export { MockGPUQueue } from "./classes/MockGPUQueue";
+export { MockGPUBuffer } from "./classes/MockGPUBuffer";
+export { MockGPUTexture } from "./classes/MockGPUTexture";
+export { MockGPUCommandEncoder } from "./classes/MockGPUCommandEncoder";
+export { MockGPURenderPassEncoder } from "./classes/MockGPURenderPassEncoder";
+export { MockGPURenderPipeline } from "./classes/MockGPURenderPipeline";
+export { MockGPUCanvasContext } from "./classes/MockGPUCanvasContext";
+export { MockGPUObject } from "./classes/MockGPUObject";
+export { MockCanvas } from "./classes/MockCanvas";
+export { GPUCommandLog } from "./classes/GPUCommandLog";
+export { InstallMockGPUGlobals } from "./functions/globals";
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * Defines the WebGPU flag constants, such as `GPUBufferUsage`, on the
+ * global object where the environment lacks them, as Node.js does. The
+ * values follow the WebGPU specification. Existing constants are kept.
+ */
+export function InstallMockGPUGlobals(): void {
+
+    const target = globalThis as Record<string, unknown>;
+
+    target.GPUBufferUsage ??= Object.freeze({
+        MAP_READ: 0x0001,
+        MAP_WRITE: 0x0002,
+        COPY_SRC: 0x0004,
+        COPY_DST: 0x0008,
+        INDEX: 0x0010,
+        VERTEX: 0x0020,
+        UNIFORM: 0x0040,
+        STORAGE: 0x0080,
+        INDIRECT: 0x0100,
+        QUERY_RESOLVE: 0x0200
+    });
+
+    target.GPUTextureUsage ??= Object.freeze({
+        COPY_SRC: 0x01,
+        COPY_DST: 0x02,
+        TEXTURE_BINDING: 0x04,
+        STORAGE_BINDING: 0x08,
+        RENDER_ATTACHMENT: 0x10
+    });
+
+    target.GPUShaderStage ??= Object.freeze({
+        VERTEX: 0x1,
+        FRAGMENT: 0x2,
+        COMPUTE: 0x4
+    });
+
+    target.GPUMapMode ??= Object.freeze({
+        READ: 0x0001,
+        WRITE: 0x0002
+    });
+
+    target.GPUColorWrite ??= Object.freeze({
+        RED: 0x1,
+        GREEN: 0x2,
+        BLUE: 0x4,
+        ALPHA: 0x8,
+        ALL: 0xF
+    });
+}
\ No newline at end of file
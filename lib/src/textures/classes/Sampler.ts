@@ -0,0 +1,134 @@
+import { v4 } from "uuid";
+
+import { Debug } from "../../utilities/exports";
+import { WarningCodes } from "../../codes";
+import { SamplerOptions } from "../../typings";
+
+/**
+ * Describes how a {@link Texture} is filtered and wrapped when sampled.
+ *
+ * The GPU sampler is created on first use and recreated when any of the
+ * public properties has changed, so a sampler can be adjusted at any time.
+ * Samplers are cheap and can be shared between any number of materials.
+ *
+ * @example
+ * ```ts
+ * // Pixel art: nearest filtering, clamped at the edges.
+ * const sampler = new Sampler({
+ *     magFilter: "nearest",
+ *     minFilter: "nearest",
+ *     addressModeU: "clamp-to-edge",
+ *     addressModeV: "clamp-to-edge"
+ * });
+ * ```
+ */
+export class Sampler {
+
+    public id: string = v4();
+
+    public magFilter: GPUFilterMode;
+    public minFilter: GPUFilterMode;
+    public mipmapFilter: GPUMipmapFilterMode;
+
+    public addressModeU: GPUAddressMode;
+    public addressModeV: GPUAddressMode;
+    public addressModeW: GPUAddressMode;
+
+    /**
+     * Maximum anisotropy between 1 and 16. Anisotropic filtering requires
+     * all filters to be linear; it is disabled otherwise.
+     */
+    public maxAnisotropy: number;
+
+    public lodMinClamp: number;
+    public lodMaxClamp: number;
+
+    private gpuSampler: GPUSampler | null = null;
+    declare private device: GPUDevice;
+
+    // Key of the descriptor the current GPU sampler was created with.
+    private samplerKey: string = "";
+
+    constructor(options: SamplerOptions = {}) {
+
+        this.magFilter = options.magFilter ?? "linear";
+        this.minFilter = options.minFilter ?? "linear";
+        this.mipmapFilter = options.mipmapFilter ?? "linear";
+        this.addressModeU = options.addressModeU ?? "repeat";
+        this.addressModeV = options.addressModeV ?? "repeat";
+        this.addressModeW = options.addressModeW ?? "repeat";
+        this.maxAnisotropy = options.maxAnisotropy ?? 1;
+        this.lodMinClamp = options.lodMinClamp ?? 0;
+        this.lodMaxClamp = options.lodMaxClamp ?? 32;
+    }
+
+    /**
+     * Sets the address mode of all axes at once.
+     */
+    public SetWrapMode(mode: GPUAddressMode): Sampler {
+
+        this.addressModeU = mode;
+        this.addressModeV = mode;
+        this.addressModeW = mode;
+
+        return this;
+    }
+
+    public GetDescriptor(): GPUSamplerDescriptor {
+
+        let maxAnisotropy: number = Math.min(16, Math.max(1, Math.floor(this.maxAnisotropy)));
+
+        if (maxAnisotropy > 1 && (this.magFilter !== "linear" || this.minFilter !== "linear" || this.mipmapFilter !== "linear")) {
+
+            Debug.Warn("Sampler: Anisotropic filtering requires linear filters and has been disabled.", [
+                "Sampler ID: " + this.id
+            ], WarningCodes.SAMPLER_ANISOTROPY_REQUIRES_LINEAR_FILTERING);
+
+            maxAnisotropy = 1;
+        }
+
+        return {
+            label: "Sampler-" + this.id,
+            magFilter: this.magFilter,
+            minFilter: this.minFilter,
+            mipmapFilter: this.mipmapFilter,
+            addressModeU: this.addressModeU,
+            addressModeV: this.addressModeV,
+            addressModeW: this.addressModeW,
+            maxAnisotropy,
+            lodMinClamp: this.lodMinClamp,
+            lodMaxClamp: this.lodMaxClamp
+        };
+    }
+
+    /**
+     * Returns the GPU sampler, creating it if it does not exist yet or if
+     * the properties of this sampler have changed.
+     */
+    public GetSampler(device: GPUDevice): GPUSampler {
+
+        const key: string = [
+            this.magFilter, this.minFilter, this.mipmapFilter,
+            this.addressModeU, this.addressModeV, this.addressModeW,
+            this.maxAnisotropy, this.lodMinClamp, this.lodMaxClamp
+        ].join("|");
+
+        if (this.gpuSampler && this.device === device && this.samplerKey === key) return this.gpuSampler;
+
+        const gpuSampler: GPUSampler = this.gpuSampler = device.createSampler(this.GetDescriptor());
+
+        this.device = device;
+        this.samplerKey = key;
+
+        return gpuSampler;
+    }
+
+    /**
+     * Drops the GPU sampler. It is recreated when the sampler is used again.
+     */
+    public Dispose(): void {
+
+        this.gpuSampler = null;
+        this.samplerKey = "";
+    }
+}
\ No newline at end of file
@@ -0,0 +1,275 @@
+import { v4 } from "uuid";
+
+import { Debug } from "../../utilities/exports";
+import { ErrorCodes } from "../../codes";
+import { GenerateMipmaps, GetMipLevelCount } from "../functions/mipmaps";
+import { TextureColorSpace, TextureOptions, TexturePixelData, TextureSource } from "../../typings";
+
+// 1x1 white textures bound in place of missing textures, one per device.
+const fallbackTextures: WeakMap<GPUDevice, Texture> = new WeakMap();
+
+function isPixelData(source: TextureSource): source is TexturePixelData {
+    return "data" in source;
+}
+
+/**
+ * A 2D image on the GPU, sampled by materials through a {@link Sampler}.
+ *
+ * Textures are created from an image source on the CPU and uploaded on
+ * first use, which is when a material using the texture is initialized.
+ * A full mip chain is generated on the GPU unless disabled.
+ *
+ * Color textures such as albedo maps are usually stored in sRGB and should
+ * keep the default `srgb` color space; the GPU then decodes them to linear
+ * values when sampled. Textures holding data, such as normal or roughness
+ * maps, must use the `linear` color space.
+ *
+ * @example
+ * ```ts
+ * const texture = await Texture.FromURL("textures/crate.png");
+ * const normals = await Texture.FromURL("textures/crate-normal.png", { colorSpace: "linear" });
+ *
+ * const material = new BasicTextureMaterial(texture, new Sampler({ maxAnisotropy: 8 }));
+ * ```
+ */
+export class Texture {
+
+    public id: string = v4();
+    public name: string;
+
+    public readonly width: number;
+    public readonly height: number;
+    public readonly colorSpace: TextureColorSpace;
+    public readonly format: GPUTextureFormat;
+    public readonly mipLevelCount: number;
+    public readonly flipY: boolean;
+
+    /** The GPU texture and its view, `null` until initialized and after being disposed. */
+    public gpuTexture: GPUTexture | null = null;
+    public view: GPUTextureView | null = null;
+
+    private source: TextureSource | null;
+
+    // Whether the source was created by this texture, and may be closed by it.
+    private ownsSource: boolean = false;
+
+    /**
+     * @param source The image, or raw RGBA pixels with 8 bits per channel.
+     */
+    constructor(source: TextureSource, options: TextureOptions = {}) {
+
+        const [width, height] = Texture.GetSourceSize(source);
+
+        this.source = source;
+        this.name = options.label ?? "";
+
+        this.width = Math.max(1, width);
+        this.height = Math.max(1, height);
+        this.colorSpace = options.colorSpace ?? "srgb";
+        this.format = this.colorSpace === "srgb" ? "rgba8unorm-srgb" : "rgba8unorm";
+        this.mipLevelCount = (options.generateMipmaps ?? true) ? GetMipLevelCount(this.width, this.height) : 1;
+        this.flipY = options.flipY ?? false;
+    }
+
+    /**
+     * Creates a texture from raw RGBA pixels with 8 bits per channel, in
+     * rows from top to bottom.
+     */
+    public static FromPixels(data: Uint8Array | Uint8ClampedArray, width: number, height: number, options: TextureOptions = {}): Texture {
+
+        return new Texture({ data, width, height }, options);
+    }
+
+    /**
+     * Loads and decodes an image into a texture. Resolves to `null` if the
+     * image could not be loaded.
+     */
+    public static async FromURL(url: string, options: TextureOptions = {}): Promise<Texture | null> {
+
+        try {
+
+            const response: Response = await fetch(url);
+
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+            const bitmap: ImageBitmap = await createImageBitmap(await response.blob(), {
+                colorSpaceConversion: options.colorSpace === "linear" ? "none" : "default"
+            });
+
+            const texture = new Texture(bitmap, { label: url, ...options });
+
+            texture.ownsSource = true;
+
+            return texture;
+        } catch (error) {
+
+            Debug.Error("Texture: Unable to load the texture.", [
+                "URL: " + url,
+                "Error: " + (error as Error).message
+            ], ErrorCodes.TEXTURE_LOAD_ERROR);
+
+            return null;
+        }
+    }
+
+    /**
+     * Decodes an encoded image, such as a PNG or JPEG file, into a texture.
+     * Resolves to `null` if the image could not be decoded.
+     */
+    public static async FromBlob(blob: Blob, options: TextureOptions = {}): Promise<Texture | null> {
+
+        try {
+
+            const bitmap: ImageBitmap = await createImageBitmap(blob, {
+                colorSpaceConversion: options.colorSpace === "linear" ? "none" : "default"
+            });
+
+            const texture = new Texture(bitmap, options);
+
+            texture.ownsSource = true;
+
+            return texture;
+        } catch (error) {
+
+            Debug.Error("Texture: Unable to decode the image.", [
+                "Label: " + (options.label ?? "none"),
+                "Error: " + (error as Error).message
+            ], ErrorCodes.TEXTURE_LOAD_ERROR);
+
+            return null;
+        }
+    }
+
+    /**
+     * Returns a shared 1x1 white texture, bound by materials in place of
+     * textures which have not been set.
+     */
+    public static GetFallback(device: GPUDevice): Texture {
+
+        let texture: Texture | undefined = fallbackTextures.get(device);
+
+        // A fallback which has been disposed is created again.
+        if (texture && texture.view) return texture;
+
+        texture = Texture.FromPixels(new Uint8Array([255, 255, 255, 255]), 1, 1, {
+            label: "FallbackTexture",
+            colorSpace: "linear",
+            generateMipmaps: false
+        });
+
+        fallbackTextures.set(device, texture.Initialize(device));
+
+        return texture;
+    }
+
+    public static GetSourceSize(source: TextureSource): [number, number] {
+
+        if ("naturalWidth" in source) return [source.naturalWidth, source.naturalHeight];
+
+        return [source.width, source.height];
+    }
+
+    /**
+     * Creates the GPU texture, uploads the image and generates the mip
+     * chain. Does nothing if the texture has already been initialized.
+     */
+    public Initialize(device: GPUDevice): Texture {
+
+        if (this.gpuTexture) return this;
+
+        if (!this.source) {
+
+            Debug.Error("Texture: Unable to initialize a texture which has been disposed.", [
+                "Texture ID: " + this.id
+            ], ErrorCodes.TEXTURE_INVALID_SOURCE);
+
+            return this;
+        }
+
+        const gpuTexture: GPUTexture = this.gpuTexture = device.createTexture({
+            label: "Texture-" + (this.name || this.id),
+            size: { width: this.width, height: this.height },
+            format: this.format,
+            mipLevelCount: this.mipLevelCount,
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT
+        });
+
+        this.upload(device, this.source, gpuTexture);
+
+        GenerateMipmaps(device, gpuTexture);
+
+        this.view = gpuTexture.createView({ label: "TextureView-" + (this.name || this.id) });
+
+        return this;
+    }
+
+    /**
+     * Returns the image source of the texture, or `null` once the texture
+     * has been disposed.
+     */
+    public GetSource(): TextureSource | null {
+        return this.source;
+    }
+
+    /**
+     * Initializes the texture and returns its view. A texture which has
+     * been disposed returns the view of the fallback texture instead.
+     */
+    public GetView(device: GPUDevice): GPUTextureView {
+        return this.Initialize(device).view ?? Texture.GetFallback(device).GetView(device);
+    }
+
+    /**
+     * Releases the GPU texture and the image source. Materials using the
+     * texture must not be rendered afterwards.
+     */
+    public Dispose(): void {
+
+        this.gpuTexture && this.gpuTexture.destroy();
+
+        this.gpuTexture = null;
+        this.view = null;
+
+        if (this.ownsSource && this.source && "close" in this.source) this.source.close();
+
+        this.source = null;
+    }
+
+    // Private and protected class members.
+
+    private upload(device: GPUDevice, source: TextureSource, texture: GPUTexture): void {
+
+        const size: GPUExtent3DStrict = { width: this.width, height: this.height };
+
+        if (!isPixelData(source)) {
+
+            device.queue.copyExternalImageToTexture({ source, flipY: this.flipY }, { texture }, size);
+            return;
+        }
+
+        const rowLength: number = this.width * 4;
+
+        if (source.data.length < rowLength * this.height) {
+
+            Debug.Error("Texture: The pixel data is smaller than the texture.", [
+                "Texture ID: " + this.id,
+                `Expected ${rowLength * this.height} bytes, got ${source.data.length}.`
+            ], ErrorCodes.TEXTURE_INVALID_SOURCE);
+
+            return;
+        }
+
+        let data: Uint8Array | Uint8ClampedArray = source.data;
+
+        if (this.flipY) {
+
+            data = new Uint8Array(rowLength * this.height);
+
+            for (let row = 0; row < this.height; row++) {
+                data.set(source.data.subarray(row * rowLength, (row + 1) * rowLength), (this.height - row - 1) * rowLength);
+            }
+        }
+
+        device.queue.writeTexture({ texture }, data as GPUAllowSharedBufferSource, { bytesPerRow: rowLength, rowsPerImage: this.height }, size);
+    }
+}
\ No newline at end of file
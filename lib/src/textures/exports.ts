@@ -0,0 +1,3 @@
+export { Texture } from "./classes/Texture";
+export { Sampler } from "./classes/Sampler";
+export { GenerateMipmaps, GetMipLevelCount } from "./functions/mipmaps";
\ No newline at end of file
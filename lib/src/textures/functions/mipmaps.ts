@@ -0,0 +1,112 @@
+import shader from "../../shaders/textures/GenerateMipmaps.wgsl";
+
+interface MipmapGenerator {
+    module: GPUShaderModule;
+    sampler: GPUSampler;
+    pipelines: Map<GPUTextureFormat, GPURenderPipeline>;
+}
+
+// Shader module, sampler and pipelines are created once per device.
+const generators: WeakMap<GPUDevice, MipmapGenerator> = new WeakMap();
+
+/**
+ * Returns the amount of mip levels of a full mip chain for a texture of
+ * the given size, down to and including the 1x1 level.
+ */
+export function GetMipLevelCount(width: number, height: number): number {
+
+    return Math.floor(Math.log2(Math.max(width, height, 1))) + 1;
+}
+
+/**
+ * Fills mip levels 1 and up of a 2D texture by repeatedly downsampling the
+ * previous level on the GPU. Level 0 must already contain the image.
+ *
+ * The texture must have been created with the `TEXTURE_BINDING` and
+ * `RENDER_ATTACHMENT` usages, in a renderable, filterable format.
+ */
+export function GenerateMipmaps(device: GPUDevice, texture: GPUTexture): void {
+
+    if (texture.mipLevelCount <= 1) return;
+
+    const generator: MipmapGenerator = getGenerator(device),
+        pipeline: GPURenderPipeline = getPipeline(device, generator, texture.format);
+
+    const encoder: GPUCommandEncoder = device.createCommandEncoder({ label: "GenerateMipmaps-CommandEncoder" });
+
+    for (let level = 1; level < texture.mipLevelCount; level++) {
+
+        const bindGroup: GPUBindGroup = device.createBindGroup({
+            label: "GenerateMipmaps-BindGroup",
+            layout: pipeline.getBindGroupLayout(0),
+            entries: [
+                { binding: 0, resource: texture.createView({ baseMipLevel: level - 1, mipLevelCount: 1 }) },
+                { binding: 1, resource: generator.sampler }
+            ]
+        });
+
+        const pass: GPURenderPassEncoder = encoder.beginRenderPass({
+            label: "GenerateMipmaps-RenderPass",
+            colorAttachments: [
+                {
+                    view: texture.createView({ baseMipLevel: level, mipLevelCount: 1 }),
+                    loadOp: "clear",
+                    storeOp: "store",
+                    clearValue: { r: 0, g: 0, b: 0, a: 0 }
+                }
+            ]
+        });
+
+        pass.setPipeline(pipeline);
+        pass.setBindGroup(0, bindGroup);
+        pass.draw(3);
+        pass.end();
+    }
+
+    device.queue.submit([encoder.finish()]);
+}
+
+function getGenerator(device: GPUDevice): MipmapGenerator {
+
+    let generator: MipmapGenerator | undefined = generators.get(device);
+
+    if (generator) return generator;
+
+    generator = {
+        module: device.createShaderModule({ code: shader, label: "GenerateMipmaps-ShaderModule" }),
+        sampler: device.createSampler({ minFilter: "linear", magFilter: "linear", label: "GenerateMipmaps-Sampler" }),
+        pipelines: new Map()
+    };
+
+    generators.set(device, generator);
+
+    return generator;
+}
+
+function getPipeline(device: GPUDevice, generator: MipmapGenerator, format: GPUTextureFormat): GPURenderPipeline {
+
+    let pipeline: GPURenderPipeline | undefined = generator.pipelines.get(format);
+
+    if (pipeline) return pipeline;
+
+    pipeline = device.createRenderPipeline({
+        label: "GenerateMipmaps-Pipeline-" + format,
+        layout: "auto",
+        vertex: {
+            module: generator.module,
+            entryPoint: "vertexShaderMain"
+        },
+        fragment: {
+            module: generator.module,
+            entryPoint: "fragmentShaderMain",
+            targets: [{ format }]
+        },
+        primitive: {
+            topology: "triangle-list"
+        }
+    });
+
+    generator.pipelines.set(format, pipeline);
+
+    return pipeline;
+}
\ No newline at end of file
@@ -1,3 +1,15 @@
+import type { mat4 } from "gl-matrix";
+import type { WebGPUPipelineCache } from "./renderer/classes/WebGPUPipelineCache";
+import type { Texture } from "./textures/classes/Texture";
+import type { Sampler } from "./textures/classes/Sampler";
+import type { SceneNode } from "./others/classes/SceneNode";
+import type { Mesh } from "./renderer/classes/Mesh";
+import type { Renderable } from "./renderer/classes/Renderable";
+import type { Vector3 } from "./utilities/math/classes/vectors/Vector3";
+import type { Material } from "./materials/classes/Material";
+import type { PerspectiveCamera } from "./camera/classes/PerspectiveCamera";
+import type { OrthographicCamera } from "./camera/classes/OrthographicCamera";
+
 export interface FluexGlDebuggerOptions {
     showInfo: boolean;
     showWarnings: boolean;
@@ -36,6 +48,11 @@ export interface Vec4 {
     w: number;
 }
 
+export interface Bounds2D {
+    min: Vec2;
+    max: Vec2;
+}
+
 export interface ColorfulObject {
     red: number;
     green: number;
@@ -86,6 +103,72 @@ export interface WebGPURendererOptions {
     depthFormat: GPUTextureFormat;
     clearColor: GPUColor;
     devicePixelRatio: number;
+    /**
+     * The canvas drawn into. Defaults to a new canvas element; tests pass a
+     * {@link MockCanvas} to render outside of a browser.
+     */
+    canvas: HTMLCanvasElement;
+    /**
+     * The WebGPU implementation to request the adapter from. Defaults to
+     * 'navigator.gpu'; tests pass a {@link MockGPU}, which records every
+     * call instead of drawing.
+     */
+    gpu: GPU;
+}
+
+export interface Canvas2DRendererOptions {
+    canvasWidth: number;
+    canvasHeight: number;
+    clearColor: GPUColorDict;
+    devicePixelRatio: number;
+    /** Whether scaled images are smoothed. Disable for pixel art. Defaults to true. */
+    imageSmoothing: boolean;
+}
+
+export interface WebGPURenderContext {
+    device: GPUDevice;
+    queue: GPUQueue;
+    format: GPUTextureFormat;
+    sampleCount: number;
+    /** Format of the depth buffer, or null when the target has no depth buffer. */
+    depthFormat: GPUTextureFormat | null;
+    colorSpace: PredefinedColorSpace;
+    pipelineCache: WebGPUPipelineCache;
+    /** View-projection matrix of the camera being rendered, the identity until the first frame. */
+    viewProjectionMatrix: mat4;
+    /** Winding of front-facing triangles on the screen, clockwise when the camera mirrors the image. */
+    frontFace: GPUFrontFace;
+}
+
+export interface WebGPUPipelineDescriptor {
+    label?: string;
+    shader: string;
+    vertexEntryPoint?: string;
+    fragmentEntryPoint?: string;
+    vertexBuffers: GPUVertexBufferLayout[];
+    bindGroupLayouts: GPUBindGroupLayoutDescriptor[];
+    /** Format of the color target, or null for a depth-only pipeline without a fragment stage. */
+    format: GPUTextureFormat | null;
+    sampleCount: number;
+    depthFormat?: GPUTextureFormat | null;
+    depthWriteEnabled?: boolean;
+    depthCompare?: GPUCompareFunction;
+    topology?: GPUPrimitiveTopology;
+    cullMode?: GPUCullMode;
+    frontFace?: GPUFrontFace;
+    blend?: GPUBlendState | null;
+    /** Values of the pipeline-overridable constants of the fragment stage. */
+    constants?: Record<string, number>;
+}
+
+export interface WebGPUPipelineCacheStatistics {
+    pipelineHits: number;
+    pipelineMisses: number;
+    shaderModuleHits: number;
+    shaderModuleMisses: number;
+    pipelineCount: number;
+    shaderModuleCount: number;
+    invalidations: number;
 }
 
 export interface WebGPURendererFrameInfo {
@@ -94,8 +177,377 @@ export interface WebGPURendererFrameInfo {
     colorView: GPUTextureView;
 }
 
+export interface RenderTargetOptions {
+    label?: string;
+    /** Format of the color texture. Defaults to `rgba8unorm-srgb`. */
+    format?: GPUTextureFormat;
+    /** Format of the depth buffer, or null for no depth buffer. Defaults to `depth24plus`. */
+    depthFormat?: GPUTextureFormat | null;
+    /** MSAA sample count, resolved into the color texture. Defaults to 1. */
+    sampleCount?: number;
+    /** Color the target is cleared to. Defaults to the clear color of the renderer. */
+    clearColor?: GPUColor;
+}
+
+export interface EffectComposerOptions {
+    /** Format of the intermediate images, a float format to keep linear colors beyond white. Defaults to `rgba16float`. */
+    format?: GPUTextureFormat;
+    /** MSAA sample count of the scene. Defaults to the sample count of the renderer. */
+    sampleCount?: number;
+}
+
+export interface GPUPickerOptions {
+    /** Minimum time between two reads in milliseconds. Defaults to 50. */
+    interval?: number;
+}
+
+export type MockGPUCommandType =
+    "createBuffer" | "createTexture" | "createSampler" | "createShaderModule" |
+    "createBindGroupLayout" | "createPipelineLayout" | "createBindGroup" | "createRenderPipeline" |
+    "writeBuffer" | "writeTexture" | "copyExternalImageToTexture" | "submit" |
+    "beginRenderPass" | "setPipeline" | "setBindGroup" | "setVertexBuffer" | "setIndexBuffer" |
+    "setViewport" | "setScissorRect" | "draw" | "drawIndexed" | "endRenderPass" |
+    "copyBufferToBuffer" | "copyTextureToBuffer" | "configure" | "destroy";
+
+export interface MockGPUCommand {
+    /** Position of the command in the log. */
+    index: number;
+    type: MockGPUCommandType;
+    /** Label of the object the command creates or acts on. */
+    label: string;
+    /** The object the command creates or acts on, if any. */
+    target: object | null;
+    /** The arguments of the call, such as the descriptor of a created object. */
+    details: Record<string, unknown>;
+}
+
+/** A draw call with the state of the render pass it was recorded in, by label. */
+export interface MockGPUDrawCall {
+    pass: string;
+    pipeline: string | null;
+    /** Labels of the bind groups, by group index. */
+    bindGroups: (string | null)[];
+    /** Labels of the vertex buffers, by slot. */
+    vertexBuffers: (string | null)[];
+    indexBuffer: string | null;
+    indexed: boolean;
+    /** The number of vertices, or indices for an indexed draw. */
+    count: number;
+    instanceCount: number;
+}
+
+export type ToneMappingMode = "linear" | "reinhard" | "aces";
+
+export interface RaycastHit {
+    /** Distance from the origin of the ray to the point hit, in world units. */
+    distance: number;
+    point: Vector3;
+    /** Normal of the face hit, in world space. */
+    normal: Vector3;
+    /** Index of the triangle hit within the geometry. */
+    faceIndex: number;
+    /** Index of the instance hit, or `null` if the renderable is not instanced. */
+    instanceIndex: number | null;
+    renderable: Renderable;
+}
+
+export interface WebGPURendererInfo {
+    /** Renderables in the scene during the last frame. */
+    renderableCount: number;
+    /** Renderables drawn in the main pass of the last frame. */
+    drawnCount: number;
+    /** Renderables skipped in the last frame because they were outside the view of the camera. */
+    culledCount: number;
+}
+
 export interface WebGPUEnsureState {
     ok: boolean;
     reason?: string;
     error?: Error;
+}
+
+export type VertexAttributeName = "position" | "normal" | "uv" | "color" | "tangent";
+
+export interface GeometryData {
+    positions: ArrayLike<number>;
+    normals?: ArrayLike<number>;
+    uvs?: ArrayLike<number>;
+    colors?: ArrayLike<number>;
+    tangents?: ArrayLike<number>;
+    indices?: ArrayLike<number>;
+}
+
+
+export type TextureColorSpace = "srgb" | "linear";
+
+export interface TexturePixelData {
+    data: Uint8Array | Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+export type TextureSource = ImageBitmap | HTMLImageElement | HTMLCanvasElement | OffscreenCanvas | ImageData | TexturePixelData;
+
+export interface TextureOptions {
+    label?: string;
+    colorSpace?: TextureColorSpace;
+    generateMipmaps?: boolean;
+    flipY?: boolean;
+}
+
+export interface SamplerOptions {
+    magFilter?: GPUFilterMode;
+    minFilter?: GPUFilterMode;
+    mipmapFilter?: GPUMipmapFilterMode;
+    addressModeU?: GPUAddressMode;
+    addressModeV?: GPUAddressMode;
+    addressModeW?: GPUAddressMode;
+    maxAnisotropy?: number;
+    lodMinClamp?: number;
+    lodMaxClamp?: number;
+}
+
+export interface MaterialTextureBinding {
+    texture: Texture | null;
+    sampler: Sampler;
+}
+
+/**
+ * How the color of a material is combined with the color already drawn.
+ * `opaque` replaces it; every other mode makes the material transparent.
+ */
+export type BlendMode = "opaque" | "normal" | "premultiplied" | "additive" | "multiply" | "screen";
+
+export type LightType = "ambient" | "directional" | "point" | "spot";
+
+// The glTF 2.0 JSON structure, limited to the properties read by the loader.
+// See https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html.
+
+export type GLTFExtensions = Record<string, any>;
+
+export interface GLTFDocument {
+    asset: { version: string, generator?: string, minVersion?: string };
+    scene?: number;
+    scenes?: GLTFScene[];
+    nodes?: GLTFNode[];
+    meshes?: GLTFMesh[];
+    accessors?: GLTFAccessor[];
+    bufferViews?: GLTFBufferView[];
+    buffers?: GLTFBuffer[];
+    materials?: GLTFMaterial[];
+    textures?: GLTFTexture[];
+    images?: GLTFImage[];
+    samplers?: GLTFSampler[];
+    cameras?: GLTFCamera[];
+    extensionsUsed?: string[];
+    extensionsRequired?: string[];
+}
+
+export interface GLTFScene {
+    name?: string;
+    nodes?: number[];
+}
+
+export interface GLTFNode {
+    name?: string;
+    children?: number[];
+    mesh?: number;
+    camera?: number;
+    matrix?: number[];
+    translation?: number[];
+    rotation?: number[];
+    scale?: number[];
+}
+
+export interface GLTFMesh {
+    name?: string;
+    primitives: GLTFPrimitive[];
+}
+
+export interface GLTFPrimitive {
+    attributes: Record<string, number>;
+    indices?: number;
+    material?: number;
+    mode?: number;
+    extensions?: GLTFExtensions;
+}
+
+export type GLTFAccessorType = "SCALAR" | "VEC2" | "VEC3" | "VEC4" | "MAT2" | "MAT3" | "MAT4";
+
+export interface GLTFAccessor {
+    bufferView?: number;
+    byteOffset?: number;
+    componentType: number;
+    normalized?: boolean;
+    count: number;
+    type: GLTFAccessorType;
+    sparse?: GLTFAccessorSparse;
+}
+
+export interface GLTFAccessorSparse {
+    count: number;
+    indices: { bufferView: number, byteOffset?: number, componentType: number };
+    values: { bufferView: number, byteOffset?: number };
+}
+
+export interface GLTFBufferView {
+    buffer: number;
+    byteOffset?: number;
+    byteLength: number;
+    byteStride?: number;
+}
+
+export interface GLTFBuffer {
+    uri?: string;
+    byteLength: number;
+}
+
+export interface GLTFTextureInfo {
+    index: number;
+    texCoord?: number;
+    scale?: number;
+    strength?: number;
+}
+
+export interface GLTFMaterial {
+    name?: string;
+    pbrMetallicRoughness?: {
+        baseColorFactor?: number[];
+        baseColorTexture?: GLTFTextureInfo;
+        metallicFactor?: number;
+        roughnessFactor?: number;
+        metallicRoughnessTexture?: GLTFTextureInfo;
+    };
+    normalTexture?: GLTFTextureInfo;
+    occlusionTexture?: GLTFTextureInfo;
+    emissiveTexture?: GLTFTextureInfo;
+    emissiveFactor?: number[];
+    alphaMode?: "OPAQUE" | "MASK" | "BLEND";
+    alphaCutoff?: number;
+    doubleSided?: boolean;
+    extensions?: GLTFExtensions;
+}
+
+export interface GLTFTexture {
+    sampler?: number;
+    source?: number;
+}
+
+export interface GLTFImage {
+    name?: string;
+    uri?: string;
+    mimeType?: string;
+    bufferView?: number;
+}
+
+export interface GLTFSampler {
+    magFilter?: number;
+    minFilter?: number;
+    wrapS?: number;
+    wrapT?: number;
+}
+
+export interface GLTFCamera {
+    name?: string;
+    type: "perspective" | "orthographic";
+    perspective?: { yfov: number, aspectRatio?: number, znear: number, zfar?: number };
+    orthographic?: { xmag: number, ymag: number, znear: number, zfar: number };
+}
+
+export interface GLTFAccessorData {
+    array: Int8Array | Uint8Array | Int16Array | Uint16Array | Uint32Array | Float32Array;
+    itemSize: number;
+    count: number;
+    normalized: boolean;
+}
+
+export interface GLBContent {
+    document: GLTFDocument;
+    binary: ArrayBuffer | null;
+}
+
+export interface GLTFLoaderOptions {
+    /** URL relative resources are resolved against. Defaults to the directory of the loaded file. */
+    baseURL?: string;
+    /** Whether images are decoded into textures. Disable when no image decoder is available. */
+    loadTextures?: boolean;
+}
+
+export interface GLTFAsset {
+    document: GLTFDocument;
+    /** The default scene, or the first scene if the file does not name one. */
+    scene: SceneNode;
+    scenes: SceneNode[];
+    /** The node of every glTF node, by index. */
+    nodes: SceneNode[];
+    meshes: Mesh[];
+    materials: Material[];
+    /** Every decoded texture; a glTF texture used in both color spaces is decoded twice. */
+    textures: Texture[];
+    cameras: (PerspectiveCamera | OrthographicCamera)[];
+}
+
+export interface OBJMeshData {
+    /** Name of the object and group of the faces, joined by a slash when both are set. */
+    name: string;
+    /** Material selected with `usemtl`, or an empty string. */
+    materialName: string;
+    /** Indexed triangles. Normals and texture coordinates are only set when every face provides them. */
+    geometry: GeometryData;
+}
+
+export interface OBJData {
+    /** Material libraries referenced with `mtllib`, in order of appearance. */
+    materialLibraries: string[];
+    /** A mesh per object, group and material combination, in order of appearance. */
+    meshes: OBJMeshData[];
+}
+
+export interface MTLTextureMap {
+    /** Path of the image, relative to the material library. */
+    path: string;
+    /** Texture coordinate offset, from the `-o` option. */
+    offset: [number, number];
+    /** Texture coordinate scale, from the `-s` option. */
+    scale: [number, number];
+    /** Bump multiplier, from the `-bm` option. */
+    bumpMultiplier: number;
+}
+
+export interface MTLMaterialData {
+    name: string;
+    ambientColor: [number, number, number];
+    diffuseColor: [number, number, number];
+    specularColor: [number, number, number];
+    emissiveColor: [number, number, number];
+    /** Specular exponent, from `Ns`. */
+    shininess: number;
+    /** Opacity between 0 and 1, from `d` or `Tr`. */
+    opacity: number;
+    /** Illumination model, from `illum`. */
+    illumination: number;
+    diffuseMap: MTLTextureMap | null;
+    specularMap: MTLTextureMap | null;
+    /** Tangent space normal map, from `norm`. */
+    normalMap: MTLTextureMap | null;
+    /** Height map, from `bump` or `map_Bump`. Not applied by the {@link OBJLoader}. */
+    bumpMap: MTLTextureMap | null;
+    emissiveMap: MTLTextureMap | null;
+}
+
+export interface OBJLoaderOptions {
+    /** URL relative material libraries are resolved against. Defaults to the directory of the loaded file. */
+    baseURL?: string;
+    /** Whether `mtllib` material libraries are loaded. Meshes use a default material otherwise. */
+    loadMaterials?: boolean;
+    /** Whether images are decoded into textures. Disable when no image decoder is available. */
+    loadTextures?: boolean;
+}
+
+export interface OBJAsset {
+    /** A node holding a mesh for each object, group and material combination. */
+    scene: SceneNode;
+    meshes: Mesh[];
+    materials: Material[];
+    textures: Texture[];
 }
\ No newline at end of file
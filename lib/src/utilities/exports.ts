@@ -53,4 +53,9 @@ export {
 export { Vector2 } from "./math/classes/vectors/Vector2";
 export { Vector3 } from "./math/classes/vectors/Vector3";
 export { Vector4 } from "./math/classes/vectors/Vector4";
-export { Color } from "./color/classes/Color";
\ No newline at end of file
+export { Color } from "./color/classes/Color";
+export { Transform } from "./math/classes/Transform";
+export { BoundingBox } from "./math/classes/BoundingBox";
+export { BoundingSphere } from "./math/classes/BoundingSphere";
+export { Frustum } from "./math/classes/Frustum";
+export { Ray } from "./math/classes/Ray";
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { mat4, vec3 } from "gl-matrix";
+
+import { Vector3 } from "./vectors/Vector3";
+
+const corner: vec3 = vec3.create();
+
+/**
+ * Axis-aligned box enclosing a set of points, given by its minimum and
+ * maximum corner. A new box is empty, with its minimum above its maximum,
+ * and grows as points are added.
+ *
+ * @example
+ * ```ts
+ * const box = new BoundingBox().ExpandByPoint(-1, 0, 0).ExpandByPoint(1, 2, 0);
+ *
+ * box.GetCenter(); // => { x: 0, y: 1, z: 0 }
+ * ```
+ */
+export class BoundingBox {
+
+    public min: Vector3 = new Vector3(Infinity, Infinity, Infinity);
+    public max: Vector3 = new Vector3(-Infinity, -Infinity, -Infinity);
+
+    public IsEmpty(): boolean {
+
+        return this.max.x < this.min.x || this.max.y < this.min.y || this.max.z < this.min.z;
+    }
+
+    public MakeEmpty(): BoundingBox {
+
+        this.min.Set(Infinity, Infinity, Infinity);
+        this.max.Set(-Infinity, -Infinity, -Infinity);
+
+        return this;
+    }
+
+    public ExpandByPoint(x: number, y: number, z: number): BoundingBox {
+
+        this.min.Set(Math.min(this.min.x, x), Math.min(this.min.y, y), Math.min(this.min.z, z));
+        this.max.Set(Math.max(this.max.x, x), Math.max(this.max.y, y), Math.max(this.max.z, z));
+
+        return this;
+    }
+
+    /**
+     * Grows this box to also enclose the given box.
+     */
+    public Union(box: BoundingBox): BoundingBox {
+
+        if (box.IsEmpty()) return this;
+
+        return this.ExpandByPoint(box.min.x, box.min.y, box.min.z).ExpandByPoint(box.max.x, box.max.y, box.max.z);
+    }
+
+    public GetCenter(target: Vector3 = new Vector3()): Vector3 {
+
+        if (this.IsEmpty()) return target.Set(0, 0, 0);
+
+        return target.Set((this.min.x + this.max.x) / 2, (this.min.y + this.max.y) / 2, (this.min.z + this.max.z) / 2);
+    }
+
+    public GetSize(target: Vector3 = new Vector3()): Vector3 {
+
+        if (this.IsEmpty()) return target.Set(0, 0, 0);
+
+        return target.Set(this.max.x - this.min.x, this.max.y - this.min.y, this.max.z - this.min.z);
+    }
+
+    /**
+     * Transforms this box by a matrix, replacing it with the axis-aligned
+     * box enclosing its eight transformed corners.
+     */
+    public ApplyMatrix(matrix: mat4): BoundingBox {
+
+        if (this.IsEmpty()) return this;
+
+        const { x: minX, y: minY, z: minZ } = this.min,
+            { x: maxX, y: maxY, z: maxZ } = this.max;
+
+        this.MakeEmpty();
+
+        for (let i = 0; i < 8; i++) {
+
+            vec3.transformMat4(corner, vec3.set(corner, i & 1 ? maxX : minX, i & 2 ? maxY : minY, i & 4 ? maxZ : minZ), matrix);
+
+            this.ExpandByPoint(corner[0], corner[1], corner[2]);
+        }
+
+        return this;
+    }
+
+    public Copy(box: BoundingBox): BoundingBox {
+
+        this.min.Set(box.min.x, box.min.y, box.min.z);
+        this.max.Set(box.max.x, box.max.y, box.max.z);
+
+        return this;
+    }
+
+    public Clone(): BoundingBox {
+
+        return new BoundingBox().Copy(this);
+    }
+}
\ No newline at end of file
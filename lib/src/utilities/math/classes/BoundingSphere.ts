@@ -0,0 +1,108 @@
+import { mat4, vec3 } from "gl-matrix";
+
+import { Vector3 } from "./vectors/Vector3";
+import { BoundingBox } from "./BoundingBox";
+
+const center: vec3 = vec3.create();
+
+/**
+ * Sphere enclosing a set of points. A sphere with a negative radius is
+ * empty and encloses nothing.
+ *
+ * Bounding spheres are cheap to transform and to test against a
+ * {@link Frustum}, which is why renderables are culled by their sphere.
+ */
+export class BoundingSphere {
+
+    constructor(public center: Vector3 = new Vector3(0, 0, 0), public radius: number = -1) {}
+
+    public IsEmpty(): boolean {
+
+        return this.radius < 0;
+    }
+
+    public MakeEmpty(): BoundingSphere {
+
+        this.center.Set(0, 0, 0);
+        this.radius = -1;
+
+        return this;
+    }
+
+    /**
+     * Sets this sphere to enclose a box, centered on the box.
+     */
+    public SetFromBox(box: BoundingBox): BoundingSphere {
+
+        if (box.IsEmpty()) return this.MakeEmpty();
+
+        box.GetCenter(this.center);
+
+        this.radius = this.center.DistanceTo(box.max);
+
+        return this;
+    }
+
+    /**
+     * Grows this sphere to the smallest sphere enclosing both this sphere
+     * and the given sphere.
+     */
+    public Union(sphere: BoundingSphere): BoundingSphere {
+
+        if (sphere.IsEmpty()) return this;
+        if (this.IsEmpty()) return this.Copy(sphere);
+
+        const distance: number = this.center.DistanceTo(sphere.center);
+
+        if (distance + sphere.radius <= this.radius) return this;
+        if (distance + this.radius <= sphere.radius) return this.Copy(sphere);
+
+        const radius: number = (distance + this.radius + sphere.radius) / 2,
+            t: number = (radius - this.radius) / distance;
+
+        this.center.Set(
+            this.center.x + (sphere.center.x - this.center.x) * t,
+            this.center.y + (sphere.center.y - this.center.y) * t,
+            this.center.z + (sphere.center.z - this.center.z) * t
+        );
+
+        this.radius = radius;
+
+        return this;
+    }
+
+    /**
+     * Transforms this sphere by a matrix. The radius is scaled by the
+     * largest scale of the matrix, so the result still encloses the
+     * transformed points under non-uniform scaling.
+     */
+    public ApplyMatrix(matrix: mat4): BoundingSphere {
+
+        if (this.IsEmpty()) return this;
+
+        vec3.transformMat4(center, vec3.set(center, this.center.x, this.center.y, this.center.z), matrix);
+
+        this.center.Set(center[0], center[1], center[2]);
+
+        const scaleX: number = matrix[0] * matrix[0] + matrix[1] * matrix[1] + matrix[2] * matrix[2],
+            scaleY: number = matrix[4] * matrix[4] + matrix[5] * matrix[5] + matrix[6] * matrix[6],
+            scaleZ: number = matrix[8] * matrix[8] + matrix[9] * matrix[9] + matrix[10] * matrix[10];
+
+        this.radius *= Math.sqrt(Math.max(scaleX, scaleY, scaleZ));
+
+        return this;
+    }
+
+    public Copy(sphere: BoundingSphere): BoundingSphere {
+
+        this.center.Set(sphere.center.x, sphere.center.y, sphere.center.z);
+        this.radius = sphere.radius;
+
+        return this;
+    }
+
+    public Clone(): BoundingSphere {
+
+        return new BoundingSphere().Copy(this);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { mat4 } from "gl-matrix";
+
+import { Vector3 } from "./vectors/Vector3";
+import { BoundingBox } from "./BoundingBox";
+import { BoundingSphere } from "./BoundingSphere";
+
+/**
+ * The volume visible to a camera, bounded by six planes: left, right,
+ * bottom, top, near and far. Used to skip objects which are not on screen.
+ *
+ * @example
+ * ```ts
+ * const frustum = new Frustum().SetFromMatrix(camera.viewProjection);
+ *
+ * if (frustum.IntersectsSphere(sphere)) draw();
+ * ```
+ */
+export class Frustum {
+
+    /**
+     * The planes as four floats each: the normal, pointing into the
+     * frustum, followed by the distance to the origin.
+     */
+    public readonly planes: Float32Array = new Float32Array(24);
+
+    /**
+     * Extracts the planes from a view-projection matrix with WebGPU clip
+     * space, where depth ranges from 0 at the near plane to 1 at the far plane.
+     */
+    public SetFromMatrix(matrix: mat4): Frustum {
+
+        // Element (row, column) of the column-major matrix.
+        const m = (row: number, column: number): number => matrix[column * 4 + row];
+
+        for (let column = 0; column < 4; column++) {
+
+            const row0: number = m(0, column), row1: number = m(1, column),
+                row2: number = m(2, column), row3: number = m(3, column);
+
+            this.planes[column] = row3 + row0;
+            this.planes[4 + column] = row3 - row0;
+            this.planes[8 + column] = row3 + row1;
+            this.planes[12 + column] = row3 - row1;
+            this.planes[16 + column] = row2;
+            this.planes[20 + column] = row3 - row2;
+        }
+
+        for (let i = 0; i < 24; i += 4) {
+
+            const length: number = Math.hypot(this.planes[i], this.planes[i + 1], this.planes[i + 2]) || 1;
+
+            for (let j = 0; j < 4; j++) this.planes[i + j] /= length;
+        }
+
+        return this;
+    }
+
+    public ContainsPoint(point: Vector3): boolean {
+
+        for (let i = 0; i < 24; i += 4) {
+            if (this.distanceTo(i, point.x, point.y, point.z) < 0) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Whether a sphere is at least partly inside the frustum. Spheres near
+     * a corner of the frustum may pass the test while being outside.
+     */
+    public IntersectsSphere(sphere: BoundingSphere): boolean {
+
+        if (sphere.IsEmpty()) return false;
+
+        for (let i = 0; i < 24; i += 4) {
+            if (this.distanceTo(i, sphere.center.x, sphere.center.y, sphere.center.z) < -sphere.radius) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Whether a box is at least partly inside the frustum. Boxes near a
+     * corner of the frustum may pass the test while being outside.
+     */
+    public IntersectsBox(box: BoundingBox): boolean {
+
+        if (box.IsEmpty()) return false;
+
+        for (let i = 0; i < 24; i += 4) {
+
+            // The corner furthest along the plane normal is the last to leave the frustum.
+            const x: number = this.planes[i] > 0 ? box.max.x : box.min.x,
+                y: number = this.planes[i + 1] > 0 ? box.max.y : box.min.y,
+                z: number = this.planes[i + 2] > 0 ? box.max.z : box.min.z;
+
+            if (this.distanceTo(i, x, y, z) < 0) return false;
+        }
+
+        return true;
+    }
+
+    public Copy(frustum: Frustum): Frustum {
+
+        this.planes.set(frustum.planes);
+
+        return this;
+    }
+
+    // Private and protected class members.
+
+    private distanceTo(offset: number, x: number, y: number, z: number): number {
+
+        return this.planes[offset] * x + this.planes[offset + 1] * y + this.planes[offset + 2] * z + this.planes[offset + 3];
+    }
+}
\ No newline at end of file
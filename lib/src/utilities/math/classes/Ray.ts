@@ -0,0 +1,188 @@
+import { mat4, vec3 } from "gl-matrix";
+
+import { Vector3 } from "./vectors/Vector3";
+import { BoundingBox } from "./BoundingBox";
+import { BoundingSphere } from "./BoundingSphere";
+
+const start: vec3 = vec3.create(),
+    end: vec3 = vec3.create();
+
+/**
+ * A half-line starting at an origin and extending in a direction. The
+ * intersection tests return the distance along the ray to the first
+ * point hit, or `null` when the ray misses.
+ *
+ * @example
+ * ```ts
+ * const ray = camera.ScreenPointToRay(0, 0);
+ * const distance = ray.IntersectSphere(sphere);
+ *
+ * if (distance !== null) ray.At(distance); // => the point hit
+ * ```
+ */
+export class Ray {
+
+    /**
+     * @param direction Normalized when set through the constructor or {@link Set}.
+     */
+    constructor(public origin: Vector3 = new Vector3(0, 0, 0), public direction: Vector3 = new Vector3(0, 0, -1)) {
+
+        this.direction.Normalize();
+    }
+
+    public Set(origin: Vector3, direction: Vector3): Ray {
+
+        this.origin.Set(origin.x, origin.y, origin.z);
+        this.direction.Set(direction.x, direction.y, direction.z).Normalize();
+
+        return this;
+    }
+
+    /** Returns the point at the given distance along the ray. */
+    public At(distance: number, target: Vector3 = new Vector3()): Vector3 {
+
+        return target.Set(
+            this.origin.x + this.direction.x * distance,
+            this.origin.y + this.direction.y * distance,
+            this.origin.z + this.direction.z * distance
+        );
+    }
+
+    /**
+     * Transforms this ray by a matrix. The direction is normalized again,
+     * so distances along the transformed ray are measured in the new space.
+     */
+    public ApplyMatrix(matrix: mat4): Ray {
+
+        const { x, y, z } = this.origin;
+
+        // The direction is transformed as the difference of two points, so translation cancels out.
+        vec3.transformMat4(start, vec3.set(start, x, y, z), matrix);
+        vec3.transformMat4(end, vec3.set(end, x + this.direction.x, y + this.direction.y, z + this.direction.z), matrix);
+
+        this.origin.Set(start[0], start[1], start[2]);
+        this.direction.Set(end[0] - start[0], end[1] - start[1], end[2] - start[2]).Normalize();
+
+        return this;
+    }
+
+    /**
+     * Returns the distance to the surface of the sphere, or to the origin
+     * when the ray starts inside of it.
+     */
+    public IntersectSphere(sphere: BoundingSphere): number | null {
+
+        if (sphere.IsEmpty()) return null;
+
+        const toCenterX: number = sphere.center.x - this.origin.x,
+            toCenterY: number = sphere.center.y - this.origin.y,
+            toCenterZ: number = sphere.center.z - this.origin.z;
+
+        // Distance along the ray to the point closest to the center.
+        const closest: number = toCenterX * this.direction.x + toCenterY * this.direction.y + toCenterZ * this.direction.z,
+            distanceSquared: number = toCenterX * toCenterX + toCenterY * toCenterY + toCenterZ * toCenterZ - closest * closest,
+            radiusSquared: number = sphere.radius * sphere.radius;
+
+        if (distanceSquared > radiusSquared) return null;
+
+        const halfChord: number = Math.sqrt(radiusSquared - distanceSquared),
+            near: number = closest - halfChord,
+            far: number = closest + halfChord;
+
+        if (far < 0) return null;
+
+        return near < 0 ? 0 : near;
+    }
+
+    /**
+     * Returns the distance to the surface of the box, or to the origin
+     * when the ray starts inside of it.
+     */
+    public IntersectBox(box: BoundingBox): number | null {
+
+        if (box.IsEmpty()) return null;
+
+        let near: number = -Infinity,
+            far: number = Infinity;
+
+        for (const axis of ["x", "y", "z"] as const) {
+
+            const origin: number = this.origin[axis],
+                direction: number = this.direction[axis];
+
+            // Parallel to the slab: either always or never between its planes.
+            if (Math.abs(direction) < 1e-12) {
+
+                if (origin < box.min[axis] || origin > box.max[axis]) return null;
+
+                continue;
+            }
+
+            const first: number = (box.min[axis] - origin) / direction,
+                second: number = (box.max[axis] - origin) / direction;
+
+            near = Math.max(near, Math.min(first, second));
+            far = Math.min(far, Math.max(first, second));
+
+            if (near > far) return null;
+        }
+
+        if (far < 0) return null;
+
+        return near < 0 ? 0 : near;
+    }
+
+    /**
+     * Returns the distance to the triangle with the corners a, b and c.
+     * Triangles are front facing when their corners are in counter-clockwise
+     * order as seen along the ray.
+     *
+     * @param cullMode Which side of the triangle is ignored, as for drawing.
+     */
+    public IntersectTriangle(a: Vector3, b: Vector3, c: Vector3, cullMode: GPUCullMode = "none"): number | null {
+
+        const edge1X: number = b.x - a.x, edge1Y: number = b.y - a.y, edge1Z: number = b.z - a.z,
+            edge2X: number = c.x - a.x, edge2Y: number = c.y - a.y, edge2Z: number = c.z - a.z,
+            { x: directionX, y: directionY, z: directionZ } = this.direction;
+
+        // Möller-Trumbore: the determinant is positive when the ray hits the front face.
+        const pX: number = directionY * edge2Z - directionZ * edge2Y,
+            pY: number = directionZ * edge2X - directionX * edge2Z,
+            pZ: number = directionX * edge2Y - directionY * edge2X,
+            determinant: number = edge1X * pX + edge1Y * pY + edge1Z * pZ;
+
+        if (Math.abs(determinant) < 1e-12) return null;
+        if (cullMode === "back" && determinant < 0) return null;
+        if (cullMode === "front" && determinant > 0) return null;
+
+        const inverse: number = 1 / determinant,
+            tX: number = this.origin.x - a.x, tY: number = this.origin.y - a.y, tZ: number = this.origin.z - a.z,
+            u: number = (tX * pX + tY * pY + tZ * pZ) * inverse;
+
+        if (u < 0 || u > 1) return null;
+
+        const qX: number = tY * edge1Z - tZ * edge1Y,
+            qY: number = tZ * edge1X - tX * edge1Z,
+            qZ: number = tX * edge1Y - tY * edge1X,
+            v: number = (directionX * qX + directionY * qY + directionZ * qZ) * inverse;
+
+        if (v < 0 || u + v > 1) return null;
+
+        const distance: number = (edge2X * qX + edge2Y * qY + edge2Z * qZ) * inverse;
+
+        return distance >= 0 ? distance : null;
+    }
+
+    public Copy(ray: Ray): Ray {
+
+        this.origin.Set(ray.origin.x, ray.origin.y, ray.origin.z);
+        this.direction.Set(ray.direction.x, ray.direction.y, ray.direction.z);
+
+        return this;
+    }
+
+    public Clone(): Ray {
+
+        return new Ray().Copy(this);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,231 @@
+import { mat3, mat4, quat, vec3 } from "gl-matrix";
+
+import { Vector3 } from "./vectors/Vector3";
+import { RadiansToDegrees } from "../../constants";
+
+/**
+ * Position, rotation and scale of an object in 3D space.
+ *
+ * The rotation is stored as Euler angles in radians and applied in
+ * X, Y, Z order. The resulting model matrix is cached and only
+ * recomposed when one of the components has changed since the last
+ * call to {@link UpdateMatrix}, so reading the matrix every frame is cheap.
+ *
+ * The component vectors are public and may be mutated directly;
+ * changes are picked up automatically.
+ *
+ * @example
+ * ```ts
+ * const transform = new Transform();
+ *
+ * transform.SetPosition(0, 2, -5);
+ * transform.rotation.y += 0.01;
+ *
+ * const model = transform.GetMatrix();
+ * ```
+ */
+export class Transform {
+
+    public position: Vector3 = new Vector3(0, 0, 0);
+    public rotation: Vector3 = new Vector3(0, 0, 0);
+    public scale: Vector3 = new Vector3(1, 1, 1);
+
+    /**
+     * The cached model matrix. Call {@link UpdateMatrix} or
+     * {@link GetMatrix} to make sure it is up to date.
+     */
+    public readonly matrix: mat4 = mat4.create();
+
+    /**
+     * Incremented every time the model matrix is recomposed.
+     * Useful for dependants that cache values derived from the matrix.
+     */
+    public version: number = 0;
+
+    private isDirty: boolean = true;
+
+    // Snapshot of the components used to compose the current matrix.
+    private snapshot: Float64Array = new Float64Array(9);
+
+    private rotationQuaternion: quat = quat.create();
+    private translationVector: vec3 = vec3.create();
+    private scaleVector: vec3 = vec3.create();
+
+    public SetPosition(x: number | Vector3, y?: number, z?: number): Transform {
+
+        (x instanceof Vector3)
+            ? this.position.Set(x.x, x.y, x.z)
+            : this.position.Set(x, y ?? this.position.y, z ?? this.position.z);
+
+        return this;
+    }
+
+    /**
+     * Sets the rotation using Euler angles in radians.
+     */
+    public SetRotation(x: number | Vector3, y?: number, z?: number): Transform {
+
+        (x instanceof Vector3)
+            ? this.rotation.Set(x.x, x.y, x.z)
+            : this.rotation.Set(x, y ?? this.rotation.y, z ?? this.rotation.z);
+
+        return this;
+    }
+
+    /**
+     * Sets the scale. A single number applies a uniform scale.
+     */
+    public SetScale(x: number | Vector3, y?: number, z?: number): Transform {
+
+        (x instanceof Vector3)
+            ? this.scale.Set(x.x, x.y, x.z)
+            : this.scale.Set(x, y ?? x, z ?? x);
+
+        return this;
+    }
+
+    /**
+     * Sets the rotation from a unit quaternion, given as x, y, z and w,
+     * by converting it into Euler angles.
+     */
+    public SetRotationFromQuaternion(x: number, y: number, z: number, w: number): Transform {
+
+        // Rotation matrix elements of the quaternion needed to extract X, Y, Z order angles.
+        const m11: number = 1 - 2 * (y * y + z * z),
+            m12: number = 2 * (x * y - z * w),
+            m13: number = 2 * (x * z + y * w),
+            m22: number = 1 - 2 * (x * x + z * z),
+            m23: number = 2 * (y * z - x * w),
+            m32: number = 2 * (y * z + x * w),
+            m33: number = 1 - 2 * (x * x + y * y);
+
+        const sinY: number = Math.max(-1, Math.min(1, m13));
+
+        // Near +-90 degrees around Y the X and Z rotations share an axis; Z is then taken as zero.
+        (Math.abs(sinY) < 0.9999999)
+            ? this.rotation.Set(Math.atan2(-m23, m33), Math.asin(sinY), Math.atan2(-m12, m11))
+            : this.rotation.Set(Math.atan2(m32, m22), Math.asin(sinY), 0);
+
+        return this;
+    }
+
+    /**
+     * Decomposes a matrix into position, rotation and scale. The matrix
+     * must not contain shearing or perspective.
+     */
+    public SetFromMatrix(matrix: mat4): Transform {
+
+        const scale: vec3 = mat4.getScaling(vec3.create(), matrix);
+
+        // A negative determinant means the matrix mirrors; fold the mirroring into the X scale.
+        if (mat4.determinant(matrix) < 0) scale[0] = -scale[0];
+
+        // The rotation is taken from the columns divided by their scale.
+        const rotationMatrix: mat3 = mat3.fromValues(
+            matrix[0] / scale[0], matrix[1] / scale[0], matrix[2] / scale[0],
+            matrix[4] / scale[1], matrix[5] / scale[1], matrix[6] / scale[1],
+            matrix[8] / scale[2], matrix[9] / scale[2], matrix[10] / scale[2]
+        );
+
+        const rotation: quat = quat.normalize(quat.create(), quat.fromMat3(quat.create(), rotationMatrix));
+
+        this.position.Set(matrix[12], matrix[13], matrix[14]);
+        this.scale.Set(scale[0], scale[1], scale[2]);
+
+        return this.SetRotationFromQuaternion(rotation[0], rotation[1], rotation[2], rotation[3]);
+    }
+
+    public Translate(x: number, y: number, z: number): Transform {
+
+        this.position.Add({ x, y, z });
+        return this;
+    }
+
+    /**
+     * Adds the given Euler angles in radians to the current rotation.
+     */
+    public Rotate(x: number, y: number, z: number): Transform {
+
+        this.rotation.Add({ x, y, z });
+        return this;
+    }
+
+    /**
+     * Copies position, rotation and scale from another transform.
+     */
+    public Copy(transform: Transform): Transform {
+
+        this.SetPosition(transform.position);
+        this.SetRotation(transform.rotation);
+        this.SetScale(transform.scale);
+
+        return this;
+    }
+
+    /**
+     * Forces the model matrix to be recomposed on the next update.
+     */
+    public MarkDirty(): Transform {
+
+        this.isDirty = true;
+        return this;
+    }
+
+    /**
+     * Recomposes the model matrix if any component has changed.
+     *
+     * @returns Whether the matrix has been recomposed.
+     */
+    public UpdateMatrix(): boolean {
+
+        if (!this.isDirty && !this.hasChanged()) return false;
+
+        const { position, rotation, scale } = this;
+
+        quat.fromEuler(this.rotationQuaternion,
+            rotation.x * RadiansToDegrees,
+            rotation.y * RadiansToDegrees,
+            rotation.z * RadiansToDegrees,
+            "xyz");
+
+        vec3.set(this.translationVector, position.x, position.y, position.z);
+        vec3.set(this.scaleVector, scale.x, scale.y, scale.z);
+
+        mat4.fromRotationTranslationScale(this.matrix, this.rotationQuaternion, this.translationVector, this.scaleVector);
+
+        this.takeSnapshot();
+        this.isDirty = false;
+        this.version++;
+
+        return true;
+    }
+
+    /**
+     * Returns the up-to-date model matrix.
+     */
+    public GetMatrix(): mat4 {
+
+        this.UpdateMatrix();
+        return this.matrix;
+    }
+
+    // Private and protected class members.
+
+    private hasChanged(): boolean {
+
+        const { position, rotation, scale, snapshot } = this;
+
+        return snapshot[0] !== position.x || snapshot[1] !== position.y || snapshot[2] !== position.z
+            || snapshot[3] !== rotation.x || snapshot[4] !== rotation.y || snapshot[5] !== rotation.z
+            || snapshot[6] !== scale.x || snapshot[7] !== scale.y || snapshot[8] !== scale.z;
+    }
+
+    private takeSnapshot(): void {
+
+        const { position, rotation, scale, snapshot } = this;
+
+        snapshot[0] = position.x; snapshot[1] = position.y; snapshot[2] = position.z;
+        snapshot[3] = rotation.x; snapshot[4] = rotation.y; snapshot[5] = rotation.z;
+        snapshot[6] = scale.x; snapshot[7] = scale.y; snapshot[8] = scale.z;
+    }
+}
@@ -2,14 +2,34 @@ export default function CubeGeometryVertices(): number[] {
     return [
         // X, Y, Z,   R, G, B
         // Front face
-        -1, -1,  1,  1, 0, 0,
-        1, -1,  1,  0, 1, 0,
-        1,  1,  1,  0, 0, 1,
-        -1,  1,  1,  1, 1, 1,
+        -1, -1,  1,   1,  0,  0,
+         1, -1,  1,   0,  1,  0,
+         1,  1,  1,   0,  0,  1,
+        -1,  1,  1,   1,  1,  1,
+        // Right face
+         1, -1,  1,   0,  1,  0,
+         1, -1, -1,   0,  1,  0,
+         1,  1, -1,   0,  0,  1,
+         1,  1,  1,   0,  0,  1,
         // Back face
-        -1, -1, -1,  1, 0, 0,
-        1, -1, -1,  0, 1, 0,
-        1,  1, -1,  0, 0, 1,
-        -1,  1, -1,  1, 1, 1,
-    ]
+         1, -1, -1,   0,  1,  0,
+        -1, -1, -1,   1,  0,  0,
+        -1,  1, -1,   1,  1,  1,
+         1,  1, -1,   0,  0,  1,
+        // Left face
+        -1, -1, -1,   1,  0,  0,
+        -1, -1,  1,   1,  0,  0,
+        -1,  1,  1,   1,  1,  1,
+        -1,  1, -1,   1,  1,  1,
+        // Top face
+        -1,  1,  1,   1,  1,  1,
+         1,  1,  1,   0,  0,  1,
+         1,  1, -1,   0,  0,  1,
+        -1,  1, -1,   1,  1,  1,
+        // Bottom face
+        -1, -1, -1,   1,  0,  0,
+         1, -1, -1,   0,  1,  0,
+         1, -1,  1,   0,  1,  0,
+        -1, -1,  1,   1,  0,  0,
+    ];
 }
\ No newline at end of file
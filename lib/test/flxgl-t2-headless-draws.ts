@@ -0,0 +1,66 @@
+import {
+    BasicColorMaterial,
+    CreateBoxGeometry,
+    InstancedMesh,
+    Mesh,
+    MockCanvas,
+    MockGPU,
+    MockGPUDrawCall,
+    PerspectiveCamera,
+    Transform,
+    WebGPURenderer,
+    WebGPURendererScene
+} from "@fluex-gl/test/index";
+
+function assert(condition: boolean, message: string): void {
+    if (!condition) throw new Error("flxgl-t2-headless-draws: " + message);
+}
+
+// A scene with a mesh and an instanced mesh in front of the camera produces one draw each.
+async function main(): Promise<void> {
+
+    const gpu = new MockGPU();
+
+    const renderer = await new WebGPURenderer({
+        gpu: gpu as unknown as GPU,
+        canvas: new MockCanvas(320, 240) as unknown as HTMLCanvasElement
+    }).Initialize();
+
+    assert(renderer !== null, "the renderer could not be initialized.");
+
+    const camera = new PerspectiveCamera(60, 320 / 240);
+
+    camera.SetPosition(0, 0, 10);
+    camera.LookAt(0, 0, 0);
+
+    const scene = new WebGPURendererScene(renderer!);
+    const mesh = new Mesh(CreateBoxGeometry(), new BasicColorMaterial());
+    const instances = new InstancedMesh(CreateBoxGeometry(), new BasicColorMaterial(), 3);
+    const transform = new Transform();
+
+    for (let i = 0; i < 3; i++) {
+
+        transform.SetPosition(i - 1, 2, 0);
+        instances.SetTransformAt(i, transform);
+    }
+
+    scene.Add(mesh, instances);
+    await scene.Prepare(camera);
+
+    gpu.commandLog.Clear();
+    renderer!.Render(scene, camera);
+
+    const draws: MockGPUDrawCall[] = gpu.commandLog.GetDrawCalls();
+
+    assert(draws.length === 2, `expected 2 draws, got ${draws.length}.`);
+    assert(draws.every((draw: MockGPUDrawCall) => draw.pipeline === "Mesh-Pipeline"), "every draw should use a mesh pipeline.");
+    assert(draws.every((draw: MockGPUDrawCall) => draw.indexed && draw.count === 36), "every draw should draw the 36 indices of a box.");
+    assert(draws.map((draw: MockGPUDrawCall) => draw.instanceCount).sort().join() === "1,3", "the mesh should draw once and the instanced mesh three times.");
+    assert(renderer!.info.drawnCount === 2 && renderer!.info.culledCount === 0, "the renderer should report 2 drawn and no culled renderables.");
+}
+
+main().catch(function (error: Error) {
+
+    console.error(error);
+    throw error;
+});
\ No newline at end of file
@@ -0,0 +1,40 @@
+// Runs the compiled tests in Node. The tests import the library as
+// '@fluex-gl/test', which resolves to the compiled sources, and the WGSL
+// files, which are read from the sources as strings.
+
+const fs = require("fs");
+const path = require("path");
+const Module = require("module");
+
+const distDirectory = path.join(__dirname, "dist"),
+    sourceDirectory = path.join(__dirname, "..", "src");
+
+const resolveFilename = Module._resolveFilename;
+
+Module._resolveFilename = function (request, parent, ...rest) {
+
+    if (request.startsWith("@fluex-gl/test")) {
+        request = path.join(distDirectory, "src", request.slice("@fluex-gl/test".length));
+    }
+
+    // The compiler does not copy WGSL files, so they are resolved next to the sources.
+    else if (request.endsWith(".wgsl") && parent && parent.filename) {
+        return path.resolve(path.dirname(parent.filename), request).replace(path.join(distDirectory, "src"), sourceDirectory);
+    }
+
+    return resolveFilename.call(this, request, parent, ...rest);
+};
+
+require.extensions[".wgsl"] = function (module, filename) {
+    module.exports = fs.readFileSync(filename, "utf8");
+};
+
+const tests = fs.readdirSync(path.join(distDirectory, "test"))
+    .filter((file) => /^flxgl-t\d+-.+\.js$/.test(file))
+    .sort((a, b) => parseInt(a.slice(7)) - parseInt(b.slice(7)));
+
+for (const test of tests) {
+
+    console.log("Running " + test.replace(/\.js$/, ""));
+    require(path.join(distDirectory, "test", test));
+}